@@ -1,8 +1,11 @@
-import { runDeterministicAnalysis } from '@/lib/analysis';
-import { runAnalysisPipelineV1 } from '@/lib/analysis-pipeline-v1';
 import { authOptions } from '@/lib/auth';
+import { CountryPackValidationError, resolveCountryScoring } from '@/lib/country-pack-scoring';
+import { type FundPolicySnapshot } from '@/lib/dd-contract-v1';
+import { FundPolicyValidationError } from '@/lib/fund-policy';
+import { resolveFundPolicyAt } from '@/lib/fund-policy-versions';
+import { enqueueJob, summarizeJob } from '@/lib/jobs';
 import { prisma } from '@/lib/prisma';
-import { Role } from '@prisma/client';
+import { JobType, Prisma, Role } from '@prisma/client';
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
 
@@ -27,12 +30,16 @@ export async function POST(req: Request) {
   const includeMarketResearch = Boolean(body?.includeMarketResearch);
   const includeMarketContext = Boolean(body?.includeMarketContext ?? body?.includeMarketResearch);
   const useV1Pipeline = body?.useV1 !== false; // Default to V1, can opt-out with useV1: false
+  const includeSuperseded = Boolean(body?.includeSuperseded); // Cite superseded document versions too
 
   if (!dealId) {
     return NextResponse.json({ error: 'Missing dealId' }, { status: 400 });
   }
 
-  const deal = await prisma.deal.findUnique({ where: { id: dealId }, include: { fund: true } });
+  const deal = await prisma.deal.findUnique({
+    where: { id: dealId },
+    include: { fund: { include: { organization: { include: { countryPacks: true } } } } },
+  });
   if (!deal) {
     return NextResponse.json({ error: 'Deal not found' }, { status: 404 });
   }
@@ -42,41 +49,37 @@ export async function POST(req: Request) {
   }
 
   try {
+    // Validate configuration up front so a broken policy is reported now, not by the worker
+    let fundPolicy: FundPolicySnapshot | undefined;
+    let policyVersionId: string | null = null;
     if (useV1Pipeline) {
-      // DD Contract V1 Pipeline - Full ontology with hard gates, module scores, energisation
-      const ddContract = await runAnalysisPipelineV1({
-        dealId,
-        userId: (session.user as any).id,
-        organizationId: membership.organizationId,
-        includeMarketContext,
-      });
+      // Score against the fund policy version in force; an invalid stored policy aborts the run
+      ({ snapshot: fundPolicy, policyVersionId } = await resolveFundPolicyAt(deal.fund));
+      const countryPack = deal.fund.organization.countryPacks.find(
+        (p) => p.countryCode.toLowerCase() === deal.country.toLowerCase()
+      );
+      resolveCountryScoring(deal.country, countryPack ?? null);
+    }
 
-      return NextResponse.json({
-        success: true,
-        contract_version: ddContract.contract_version,
-        run_id: ddContract.run_meta.deal_id,
-        hard_gate_decision: ddContract.scoring.hard_gate_result.decision,
-        overall_score: ddContract.scoring.overall.score_0_100,
-        executive_summary: ddContract.scoring.overall.executive_summary,
-        module_scores: ddContract.scoring.module_scorecard,
-        energisation_24m: ddContract.scoring.energisation.curve.find((c) => c.horizon_months === 24)?.p,
-        checklist_count: ddContract.checklist.length,
-        contradictions_count: ddContract.deal_evidence.contradictions.length,
-        // Full contract available for detailed views
-        dd_contract: ddContract,
-      });
-    } else {
-      // Legacy V0 Pipeline - Basic deterministic analysis
-      const run = await runDeterministicAnalysis({
-        dealId,
-        userId: (session.user as any).id,
+    // Retrieval, extraction and web search run in the worker; the workspace polls the job
+    const job = await enqueueJob({
+      type: JobType.ANALYSIS_RUN,
+      dealId,
+      payload: {
         organizationId: membership.organizationId,
+        includeMarketContext,
         includeMarketResearch,
-      });
-      return NextResponse.json(run);
-    }
+        useV1: useV1Pipeline,
+        fundPolicy: fundPolicy as unknown as Prisma.JsonObject | undefined,
+        policyVersionId,
+        includeSuperseded,
+      },
+      createdById: (session.user as any).id,
+    });
+
+    return NextResponse.json({ success: true, job: summarizeJob(job) }, { status: 202 });
   } catch (err: any) {
-    console.error('Analysis pipeline error:', err);
+    console.error('Analysis request error:', err);
 
     // Create a FAILED run record for audit trail
     try {
@@ -97,11 +100,34 @@ export async function POST(req: Request) {
       // Ignore if we can't create the failed run record
     }
 
+    if (err instanceof FundPolicyValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid fund policy',
+          detail: err.message,
+          issues: err.issues,
+          suggestion: 'Fix the fund policy on the Funds page before running analysis',
+        },
+        { status: 422 }
+      );
+    }
+
+    if (err instanceof CountryPackValidationError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid country pack overrides',
+          detail: err.message,
+          issues: err.issues,
+          suggestion: 'Fix the scoring overrides on the Country packs page before running analysis',
+        },
+        { status: 422 }
+      );
+    }
+
     return NextResponse.json(
       {
-        error: 'Analysis failed',
+        error: 'Analysis could not be queued',
         detail: err.message,
-        suggestion: 'Check that documents are indexed and OpenAI API is accessible',
       },
       { status: 500 }
     );
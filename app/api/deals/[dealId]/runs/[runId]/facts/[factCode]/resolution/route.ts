@@ -0,0 +1,124 @@
+import { rescoreAnalysisRunV1 } from '@/lib/analysis-pipeline-v1';
+import { authOptions } from '@/lib/auth';
+import { CountryPackValidationError } from '@/lib/country-pack-scoring';
+import { type DDContractV1 } from '@/lib/dd-contract-v1';
+import { FactOverrideError } from '@/lib/fact-resolution';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const ResolutionOverride = z.object({
+  value: z.union([z.string(), z.number(), z.boolean()]),
+  reason: z.string().trim().min(1),
+});
+
+/**
+ * Override the value the resolver picked for a fact with another of its candidates
+ * PUT /api/deals/[dealId]/runs/[runId]/facts/[factCode]/resolution  { value, reason }
+ *
+ * Creates a child run re-scored under the run's own policy; the override is stored
+ * on the fact, so later re-scores of that run keep it.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: { dealId: string; runId: string; factCode: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const userId = (session.user as any).id;
+  const membership = await prisma.membership.findFirst({ where: { userId } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const privilegedRoles: Role[] = [Role.ADMIN, Role.ANALYST];
+  if (!privilegedRoles.includes(membership.role)) {
+    return NextResponse.json({ error: 'Insufficient role to override facts' }, { status: 403 });
+  }
+
+  const parsed = ResolutionOverride.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'A candidate value and a reason are required' }, { status: 400 });
+  }
+
+  const deal = await prisma.deal.findUnique({
+    where: { id: params.dealId },
+    include: { fund: true },
+  });
+
+  if (!deal) {
+    return NextResponse.json({ error: 'Deal not found' }, { status: 404 });
+  }
+
+  if (deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const run = await prisma.analysisRun.findUnique({ where: { id: params.runId } });
+
+  if (!run) {
+    return NextResponse.json({ error: 'Analysis run not found' }, { status: 404 });
+  }
+
+  if (run.dealId !== deal.id) {
+    return NextResponse.json({ error: 'Run does not belong to this deal' }, { status: 403 });
+  }
+
+  const contract = run.ddOntology as DDContractV1 | null;
+  if (run.status !== 'SUCCESS' || !contract?.deal_evidence?.facts) {
+    return NextResponse.json({ error: 'Run has no stored DD Contract v1 facts to override' }, { status: 422 });
+  }
+
+  try {
+    const { runId, ddContract } = await rescoreAnalysisRunV1({
+      parentRunId: run.id,
+      userId,
+      organizationId: membership.organizationId,
+      fundPolicy: contract.fund_policy_snapshot,
+      policyVersionId: run.policyVersionId,
+      factOverrides: [
+        {
+          fact_code: params.factCode,
+          value: parsed.data.value,
+          reason: parsed.data.reason,
+          user_id: userId,
+          overridden_at: new Date().toISOString(),
+        },
+      ],
+    });
+
+    const child = await prisma.analysisRun.findUnique({
+      where: { id: runId },
+      include: { evidenceSnippets: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      run_id: runId,
+      parent_run_id: run.id,
+      fact: ddContract.deal_evidence.facts[params.factCode],
+      hard_gate_decision: ddContract.scoring.hard_gate_result.decision,
+      overall_score: ddContract.scoring.overall.score_0_100,
+      run: child,
+    });
+  } catch (err: any) {
+    if (err instanceof FactOverrideError) {
+      return NextResponse.json({ error: err.message }, { status: 422 });
+    }
+    if (err instanceof CountryPackValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid country pack overrides', detail: err.message, issues: err.issues },
+        { status: 422 }
+      );
+    }
+    console.error('Fact override failed:', err);
+    return NextResponse.json({ error: 'Fact override failed', detail: err.message }, { status: 500 });
+  }
+}
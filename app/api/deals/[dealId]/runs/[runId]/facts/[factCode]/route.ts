@@ -0,0 +1,273 @@
+import { rescoreAnalysisRunV1 } from '@/lib/analysis-pipeline-v1';
+import { authOptions } from '@/lib/auth';
+import { CountryPackValidationError } from '@/lib/country-pack-scoring';
+import { type DDContractV1 } from '@/lib/dd-contract-v1';
+import { FactAssertionError, parseAssertedValue, toFactAssertion } from '@/lib/fact-overrides';
+import { prisma } from '@/lib/prisma';
+import { Prisma, Role } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+// The transaction holds a full re-score, which copies every snippet of the parent
+// run; Prisma's defaults (2s to start, 5s to finish) are too short for a large run
+const RESCORE_TRANSACTION_OPTIONS = { maxWait: 10_000, timeout: 60_000 };
+
+const FactOverrideInput = z
+  .object({
+    value: z.union([z.string(), z.number(), z.boolean()]).nullable(),
+    document_id: z.string().nullable().optional(),
+    page_number: z.number().int().positive().nullable().optional(),
+    justification: z.string().trim().nullable().optional(),
+  })
+  .refine((o) => Boolean(o.document_id) || Boolean(o.justification), {
+    message: 'Cite a document or give a justification',
+  })
+  .refine((o) => o.page_number == null || Boolean(o.document_id), {
+    message: 'A page number needs a cited document',
+  });
+
+/**
+ * Set or clear a fact as an analyst
+ * PUT /api/deals/[dealId]/runs/[runId]/facts/[factCode]
+ *   { value: string | number | boolean | null, document_id?, page_number?, justification? }
+ *
+ * Creates a child run re-scored under the run's own policy, with the fact at the
+ * ANALYST_ASSERTED tier. The override is kept on the deal and applied to later runs
+ * until documents uploaded after it contradict it; setting it again re-activates a
+ * flagged or withdrawn override. The override, its audit entry and the child run
+ * are written in one transaction, so a failed re-score stores no override.
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: { dealId: string; runId: string; factCode: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const userId = (session.user as any).id;
+  const membership = await prisma.membership.findFirst({ where: { userId } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const privilegedRoles: Role[] = [Role.ADMIN, Role.ANALYST];
+  if (!privilegedRoles.includes(membership.role)) {
+    return NextResponse.json({ error: 'Insufficient role to override facts' }, { status: 403 });
+  }
+
+  const parsed = FactOverrideInput.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? 'Invalid override' },
+      { status: 400 }
+    );
+  }
+
+  const deal = await prisma.deal.findUnique({
+    where: { id: params.dealId },
+    include: { fund: true },
+  });
+
+  if (!deal) {
+    return NextResponse.json({ error: 'Deal not found' }, { status: 404 });
+  }
+
+  if (deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const run = await prisma.analysisRun.findUnique({ where: { id: params.runId } });
+
+  if (!run) {
+    return NextResponse.json({ error: 'Analysis run not found' }, { status: 404 });
+  }
+
+  if (run.dealId !== deal.id) {
+    return NextResponse.json({ error: 'Run does not belong to this deal' }, { status: 403 });
+  }
+
+  const contract = run.ddOntology as DDContractV1 | null;
+  if (run.status !== 'SUCCESS' || !contract?.deal_evidence?.facts) {
+    return NextResponse.json({ error: 'Run has no stored DD Contract v1 facts to override' }, { status: 422 });
+  }
+
+  const { document_id: documentId = null, page_number: pageNumber = null, justification = null } = parsed.data;
+  try {
+    const value = parseAssertedValue(params.factCode, parsed.data.value);
+
+    if (documentId) {
+      const document = await prisma.dealDocument.findUnique({ where: { id: documentId } });
+      if (!document || document.dealId !== deal.id) {
+        return NextResponse.json({ error: 'Cited document not found on this deal' }, { status: 404 });
+      }
+    }
+
+    const previous = await prisma.factOverride.findUnique({
+      where: { dealId_factCode: { dealId: deal.id, factCode: params.factCode } },
+    });
+    const data = {
+      value: value ?? Prisma.DbNull,
+      justification: justification || null,
+      documentId,
+      pageNumber,
+      status: 'ACTIVE',
+      flagReason: null,
+      flaggedRunId: null,
+      createdById: userId,
+    };
+    const { override, runId, ddContract } = await prisma.$transaction(async (tx) => {
+      const override = await tx.factOverride.upsert({
+        where: { dealId_factCode: { dealId: deal.id, factCode: params.factCode } },
+        update: data,
+        create: { dealId: deal.id, factCode: params.factCode, ...data },
+        include: { document: true },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          action: 'FACT_OVERRIDE_SET',
+          metadata: {
+            dealId: deal.id,
+            runId: run.id,
+            overrideId: override.id,
+            factCode: params.factCode,
+            before: contract.deal_evidence.facts[params.factCode]?.value ?? null,
+            after: value,
+            previousOverride: previous ? { value: previous.value, status: previous.status } : null,
+            documentId,
+            pageNumber,
+            justification: override.justification,
+          },
+          userId,
+          organizationId: membership.organizationId,
+        },
+      });
+
+      const rescored = await rescoreAnalysisRunV1({
+        parentRunId: run.id,
+        userId,
+        organizationId: membership.organizationId,
+        fundPolicy: contract.fund_policy_snapshot,
+        policyVersionId: run.policyVersionId,
+        factAssertions: [toFactAssertion(override)],
+        db: tx,
+      });
+      return { override, ...rescored };
+    }, RESCORE_TRANSACTION_OPTIONS);
+
+    const child = await prisma.analysisRun.findUnique({
+      where: { id: runId },
+      include: { evidenceSnippets: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      run_id: runId,
+      parent_run_id: run.id,
+      override,
+      fact: ddContract.deal_evidence.facts[params.factCode],
+      hard_gate_decision: ddContract.scoring.hard_gate_result.decision,
+      overall_score: ddContract.scoring.overall.score_0_100,
+      run: child,
+    });
+  } catch (err: any) {
+    if (err instanceof FactAssertionError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    if (err instanceof CountryPackValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid country pack overrides', detail: err.message, issues: err.issues },
+        { status: 422 }
+      );
+    }
+    console.error('Fact override failed:', err);
+    return NextResponse.json({ error: 'Fact override failed', detail: err.message }, { status: 500 });
+  }
+}
+
+/**
+ * Withdraw an analyst override
+ * DELETE /api/deals/[dealId]/runs/[runId]/facts/[factCode]
+ *
+ * The override is kept for audit with status WITHDRAWN and no longer applied to
+ * later runs. Runs already scored with it are left as they are.
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: { dealId: string; runId: string; factCode: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const userId = (session.user as any).id;
+  const membership = await prisma.membership.findFirst({ where: { userId } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const privilegedRoles: Role[] = [Role.ADMIN, Role.ANALYST];
+  if (!privilegedRoles.includes(membership.role)) {
+    return NextResponse.json({ error: 'Insufficient role to override facts' }, { status: 403 });
+  }
+
+  const deal = await prisma.deal.findUnique({
+    where: { id: params.dealId },
+    include: { fund: true },
+  });
+
+  if (!deal) {
+    return NextResponse.json({ error: 'Deal not found' }, { status: 404 });
+  }
+
+  if (deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const run = await prisma.analysisRun.findUnique({ where: { id: params.runId } });
+
+  if (!run) {
+    return NextResponse.json({ error: 'Analysis run not found' }, { status: 404 });
+  }
+
+  if (run.dealId !== deal.id) {
+    return NextResponse.json({ error: 'Run does not belong to this deal' }, { status: 403 });
+  }
+
+  const previous = await prisma.factOverride.findUnique({
+    where: { dealId_factCode: { dealId: deal.id, factCode: params.factCode } },
+  });
+  if (!previous || previous.status === 'WITHDRAWN') {
+    return NextResponse.json({ error: 'No override to withdraw for this fact' }, { status: 404 });
+  }
+
+  const [override] = await prisma.$transaction([
+    prisma.factOverride.update({
+      where: { id: previous.id },
+      data: { status: 'WITHDRAWN' },
+      include: { document: true },
+    }),
+    prisma.auditLog.create({
+      data: {
+        action: 'FACT_OVERRIDE_WITHDRAWN',
+        metadata: {
+          dealId: deal.id,
+          runId: run.id,
+          overrideId: previous.id,
+          factCode: params.factCode,
+          previousOverride: { value: previous.value, status: previous.status },
+        },
+        userId,
+        organizationId: membership.organizationId,
+      },
+    }),
+  ]);
+
+  return NextResponse.json({ success: true, override });
+}
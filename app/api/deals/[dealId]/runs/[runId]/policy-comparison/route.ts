@@ -0,0 +1,95 @@
+import { authOptions } from '@/lib/auth';
+import { CountryPackValidationError, resolveCountryScoring } from '@/lib/country-pack-scoring';
+import { type DDContractV1 } from '@/lib/dd-contract-v1';
+import { FundPolicyValidationError } from '@/lib/fund-policy';
+import { compareRunAgainstPolicy, resolveFundPolicyAt } from '@/lib/fund-policy-versions';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+
+/**
+ * Compare a run's decision with what the current fund policy would decide.
+ * Re-scores the stored facts only; nothing is persisted.
+ * GET /api/deals/[dealId]/runs/[runId]/policy-comparison
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: { dealId: string; runId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const membership = await prisma.membership.findFirst({
+    where: { userId: (session.user as any).id },
+  });
+
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const deal = await prisma.deal.findUnique({
+    where: { id: params.dealId },
+    include: { fund: { include: { organization: { include: { countryPacks: true } } } } },
+  });
+
+  if (!deal) {
+    return NextResponse.json({ error: 'Deal not found' }, { status: 404 });
+  }
+
+  if (deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const run = await prisma.analysisRun.findUnique({
+    where: { id: params.runId },
+    include: { policyVersion: true },
+  });
+
+  if (!run) {
+    return NextResponse.json({ error: 'Analysis run not found' }, { status: 404 });
+  }
+
+  if (run.dealId !== deal.id) {
+    return NextResponse.json({ error: 'Run does not belong to this deal' }, { status: 403 });
+  }
+
+  const contract = run.ddOntology as DDContractV1 | null;
+  if (!contract?.scoring || !contract.fund_policy_snapshot) {
+    return NextResponse.json({ error: 'Run has no DD Contract v1 output to re-score' }, { status: 422 });
+  }
+
+  try {
+    const { snapshot, policyVersionId } = await resolveFundPolicyAt(deal.fund);
+    const countryPack = deal.fund.organization.countryPacks.find(
+      (p) => p.countryCode.toLowerCase() === deal.country.toLowerCase()
+    );
+    const country = resolveCountryScoring(deal.country, countryPack ?? null);
+    const comparison = compareRunAgainstPolicy(run, contract, snapshot, country);
+
+    return NextResponse.json({
+      ...comparison,
+      scored_under_policy_version_id: run.policyVersionId,
+      current_policy_version_id: policyVersionId,
+      same_policy_version: run.policyVersionId !== null && run.policyVersionId === policyVersionId,
+    });
+  } catch (err: any) {
+    if (err instanceof FundPolicyValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid fund policy', detail: err.message, issues: err.issues },
+        { status: 422 }
+      );
+    }
+    if (err instanceof CountryPackValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid country pack overrides', detail: err.message, issues: err.issues },
+        { status: 422 }
+      );
+    }
+    console.error('Policy comparison failed:', err);
+    return NextResponse.json({ error: 'Failed to compare against current policy' }, { status: 500 });
+  }
+}
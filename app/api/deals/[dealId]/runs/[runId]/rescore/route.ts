@@ -0,0 +1,134 @@
+import { rescoreAnalysisRunV1 } from '@/lib/analysis-pipeline-v1';
+import { authOptions } from '@/lib/auth';
+import { CountryPackValidationError } from '@/lib/country-pack-scoring';
+import { type FundPolicySnapshot } from '@/lib/dd-contract-v1';
+import {
+  FundPolicy,
+  FundPolicyValidationError,
+  formatFundPolicyIssues,
+  toFundPolicySnapshot,
+} from '@/lib/fund-policy';
+import { resolveFundPolicyAt, toVersionSnapshot } from '@/lib/fund-policy-versions';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+
+/**
+ * Re-score a run's stored facts under another policy, creating a child run.
+ * Body: { policyVersionId?: string, policy?: FundPolicy }; defaults to the version in force.
+ * POST /api/deals/[dealId]/runs/[runId]/rescore
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: { dealId: string; runId: string } }
+) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const userId = (session.user as any).id;
+  const membership = await prisma.membership.findFirst({ where: { userId } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const privilegedRoles: Role[] = [Role.ADMIN, Role.ANALYST];
+  if (!privilegedRoles.includes(membership.role)) {
+    return NextResponse.json({ error: 'Insufficient role to re-score runs' }, { status: 403 });
+  }
+
+  const deal = await prisma.deal.findUnique({
+    where: { id: params.dealId },
+    include: { fund: true },
+  });
+
+  if (!deal) {
+    return NextResponse.json({ error: 'Deal not found' }, { status: 404 });
+  }
+
+  if (deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const run = await prisma.analysisRun.findUnique({ where: { id: params.runId } });
+
+  if (!run) {
+    return NextResponse.json({ error: 'Analysis run not found' }, { status: 404 });
+  }
+
+  if (run.dealId !== deal.id) {
+    return NextResponse.json({ error: 'Run does not belong to this deal' }, { status: 403 });
+  }
+
+  if (run.status !== 'SUCCESS' || !(run.ddOntology as any)?.deal_evidence?.facts) {
+    return NextResponse.json({ error: 'Run has no stored DD Contract v1 facts to re-score' }, { status: 422 });
+  }
+
+  const body = await req.json().catch(() => null);
+
+  try {
+    // Pick the policy: a draft policy, a specific recorded version, or the version in force
+    let fundPolicy: FundPolicySnapshot;
+    let policyVersionId: string | null = null;
+    if (body?.policy) {
+      const parsed = FundPolicy.safeParse(body.policy);
+      if (!parsed.success) {
+        throw new FundPolicyValidationError('Draft policy does not validate', formatFundPolicyIssues(parsed.error));
+      }
+      fundPolicy = toFundPolicySnapshot(parsed.data);
+    } else if (body?.policyVersionId) {
+      const version = await prisma.fundPolicyVersion.findFirst({
+        where: { id: String(body.policyVersionId), fundId: deal.fundId },
+      });
+      if (!version) {
+        return NextResponse.json({ error: 'Policy version not found for this fund' }, { status: 404 });
+      }
+      fundPolicy = toVersionSnapshot(version);
+      policyVersionId = version.id;
+    } else {
+      ({ snapshot: fundPolicy, policyVersionId } = await resolveFundPolicyAt(deal.fund));
+    }
+
+    const { runId, ddContract } = await rescoreAnalysisRunV1({
+      parentRunId: run.id,
+      userId,
+      organizationId: membership.organizationId,
+      fundPolicy,
+      policyVersionId,
+    });
+
+    const child = await prisma.analysisRun.findUnique({
+      where: { id: runId },
+      include: { evidenceSnippets: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      run_id: runId,
+      parent_run_id: run.id,
+      hard_gate_decision: ddContract.scoring.hard_gate_result.decision,
+      overall_score: ddContract.scoring.overall.score_0_100,
+      fund_policy_version: ddContract.fund_policy_snapshot.policy_version,
+      run: child,
+    });
+  } catch (err: any) {
+    if (err instanceof FundPolicyValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid fund policy', detail: err.message, issues: err.issues },
+        { status: 422 }
+      );
+    }
+    if (err instanceof CountryPackValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid country pack overrides', detail: err.message, issues: err.issues },
+        { status: 422 }
+      );
+    }
+    console.error('Re-score failed:', err);
+    return NextResponse.json({ error: 'Re-score failed', detail: err.message }, { status: 500 });
+  }
+}
@@ -4,7 +4,7 @@ import { deleteStoredFile } from '@/lib/storage';
 import { Role } from '@prisma/client';
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import { openai } from '@/lib/openai';
+import { getLLMProvider } from '@/lib/llm-provider';
 
 export async function POST(_req: Request, { params }: { params: { id: string } }) {
   const session = await getServerSession(authOptions);
@@ -25,18 +25,16 @@ export async function POST(_req: Request, { params }: { params: { id: string } }
     return NextResponse.json({ error: 'Not found' }, { status: 404 });
   }
 
+  const llm = await getLLMProvider();
   for (const doc of deal.documents) {
     await deleteStoredFile(doc.path);
     if (doc.openaiFileId) {
-      await openai.files.del(doc.openaiFileId).catch(() => {});
-    }
-    if (deal.openaiVectorStoreId && doc.openaiFileId) {
-      await (openai as any).vectorStores.files.del(deal.openaiVectorStoreId, doc.openaiFileId).catch(() => {});
+      await llm.deleteFile(deal.openaiVectorStoreId, doc.openaiFileId).catch(() => {});
     }
   }
 
   if (deal.openaiVectorStoreId) {
-    await (openai as any).vectorStores.del(deal.openaiVectorStoreId).catch(() => {});
+    await llm.deleteCollection(deal.openaiVectorStoreId).catch(() => {});
   }
 
   const runIds = deal.analyses.map((a) => a.id);
@@ -0,0 +1,99 @@
+import { authOptions } from '@/lib/auth';
+import { ArtifactTypeSchema } from '@/lib/dd-contract-v1';
+import { primaryDocumentType } from '@/lib/document-classification';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+export const runtime = 'nodejs';
+
+const ClassificationUpdate = z.object({ artifact_types: z.array(ArtifactTypeSchema) });
+
+/**
+ * Set the artifact types of a document
+ * PUT /api/documents/[id]/classifications  { artifact_types: ArtifactType[] }
+ *
+ * The list replaces the document's classifications. Types kept from the rules
+ * keep their matched passages; all become analyst classifications (confidence 1).
+ * The document is marked reviewed, so later ingestion does not reclassify it,
+ * not even when the analyst cleared every type.
+ */
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  const userId = (session.user as any).id as string;
+
+  const membership = await prisma.membership.findFirst({ where: { userId } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const privilegedRoles: Role[] = [Role.ADMIN, Role.ANALYST];
+  if (!privilegedRoles.includes(membership.role)) {
+    return NextResponse.json({ error: 'Insufficient role to classify documents' }, { status: 403 });
+  }
+
+  const parsed = ClassificationUpdate.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'artifact_types must be a list of artifact types' }, { status: 400 });
+  }
+  const artifactTypes = Array.from(new Set(parsed.data.artifact_types));
+
+  const document = await prisma.dealDocument.findUnique({
+    where: { id: params.id },
+    include: { deal: { include: { fund: true } }, classifications: true },
+  });
+  if (!document || document.deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const previous = document.classifications;
+  const existing = new Map(previous.map((c) => [c.artifactType, c]));
+
+  await prisma.documentClassification.deleteMany({
+    where: { documentId: document.id, artifactType: { notIn: artifactTypes } },
+  });
+  for (const artifactType of artifactTypes) {
+    await prisma.documentClassification.upsert({
+      where: { documentId_artifactType: { documentId: document.id, artifactType } },
+      update: { confidence: 1, source: 'ANALYST', createdById: userId },
+      create: { documentId: document.id, artifactType, confidence: 1, evidence: [], source: 'ANALYST', createdById: userId },
+    });
+  }
+
+  const classifications = await prisma.documentClassification.findMany({
+    where: { documentId: document.id },
+    orderBy: { confidence: 'desc' },
+  });
+  const updated = await prisma.dealDocument.update({
+    where: { id: document.id },
+    data: { documentType: primaryDocumentType(classifications), classificationReviewedAt: new Date() },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      action: 'DOCUMENT_CLASSIFIED',
+      metadata: {
+        dealId: document.dealId,
+        documentId: document.id,
+        before: previous.map((c) => ({ artifactType: c.artifactType, confidence: c.confidence, source: c.source })),
+        after: artifactTypes,
+        added: artifactTypes.filter((t) => !existing.has(t)),
+        removed: previous
+          .map((c) => c.artifactType)
+          .filter((t) => {
+            const type = ArtifactTypeSchema.safeParse(t);
+            return !type.success || !artifactTypes.includes(type.data);
+          }),
+      },
+      userId,
+      organizationId: membership.organizationId,
+    },
+  });
+
+  return NextResponse.json({ document: { ...updated, classifications } });
+}
@@ -4,7 +4,7 @@ import { getFileStream } from '@/lib/storage';
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
 
-export async function GET(_req: Request, { params }: { params: { id: string } }) {
+export async function GET(req: Request, { params }: { params: { id: string } }) {
   const session = await getServerSession(authOptions);
   if (!session?.user?.id) {
     return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -24,13 +24,16 @@ export async function GET(_req: Request, { params }: { params: { id: string } })
     return NextResponse.json({ error: 'Not found' }, { status: 404 });
   }
 
+  // ?inline=1 opens the file in the browser, e.g. a cited PDF at #page=N
+  const disposition = new URL(req.url).searchParams.get('inline') === '1' ? 'inline' : 'attachment';
+
   try {
     const { stream, contentType } = await getFileStream(document.path);
     return new NextResponse(stream as any, {
       status: 200,
       headers: {
         'Content-Type': contentType || document.mimeType,
-        'Content-Disposition': `attachment; filename="${document.name}"`,
+        'Content-Disposition': `${disposition}; filename="${document.name}"`,
       },
     });
   } catch (err) {
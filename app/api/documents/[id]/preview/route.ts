@@ -0,0 +1,72 @@
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readStoredFile } from '@/lib/storage';
+import { type TextLocation, loadDocumentPages, locateTextInPages } from '@/lib/text-extraction';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+
+/**
+ * Document text for the in-browser viewer, page by page
+ * GET /api/documents/[id]/preview?snippet=<AnalysisEvidenceSnippet id>
+ *
+ * With a snippet, also returns the passage to highlight: the span stored on the
+ * snippet, or the snippet text located in the pages for runs that predate it.
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const membership = await prisma.membership.findFirst({ where: { userId: (session.user as any).id } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const document = await prisma.dealDocument.findUnique({
+    where: { id: params.id },
+    include: { deal: { include: { fund: true } } },
+  });
+
+  if (!document || document.deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const snippetId = new URL(req.url).searchParams.get('snippet');
+  const snippet = snippetId
+    ? await prisma.analysisEvidenceSnippet.findUnique({ where: { id: snippetId }, include: { analysisRun: true } })
+    : null;
+  if (snippetId && (!snippet || snippet.fileId !== document.id || snippet.analysisRun.dealId !== document.dealId)) {
+    return NextResponse.json({ error: 'Snippet not found for this document' }, { status: 404 });
+  }
+
+  try {
+    const pages = await loadDocumentPages(document, readStoredFile);
+    if (!pages) {
+      return NextResponse.json({ error: 'No text preview for this file type' }, { status: 415 });
+    }
+
+    let highlight: TextLocation | null = null;
+    if (snippet) {
+      const stored =
+        snippet.pageNumber && snippet.charStart !== null && snippet.charEnd !== null
+          ? { page_number: snippet.pageNumber, char_start: snippet.charStart, char_end: snippet.charEnd }
+          : null;
+      highlight =
+        stored && stored.char_end <= (pages[stored.page_number - 1]?.length ?? 0)
+          ? stored
+          : locateTextInPages(pages, snippet.text);
+    }
+
+    return NextResponse.json({
+      document: { id: document.id, name: document.name, mimeType: document.mimeType },
+      pages,
+      highlight,
+    });
+  } catch (err) {
+    console.error('Preview failed', err);
+    return NextResponse.json({ error: 'Preview failed' }, { status: 500 });
+  }
+}
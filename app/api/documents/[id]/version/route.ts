@@ -0,0 +1,58 @@
+import { authOptions } from '@/lib/auth';
+import { DocumentVersionError, linkDocumentVersion } from '@/lib/document-intake';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+
+/**
+ * Mark an uploaded document as the new version of an earlier one
+ * POST /api/documents/[id]/version  { supersedesId }
+ *
+ * For revisions that arrived in a ZIP or were uploaded without the link; the
+ * earlier document is kept for audit and left out of retrieval from now on.
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const membership = await prisma.membership.findFirst({ where: { userId: (session.user as any).id } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const privilegedRoles: Role[] = [Role.ADMIN, Role.ANALYST];
+  if (!privilegedRoles.includes(membership.role)) {
+    return NextResponse.json({ error: 'Insufficient role to change document versions' }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const supersedesId = body?.supersedesId as string | undefined;
+  if (!supersedesId) {
+    return NextResponse.json({ error: 'Missing supersedesId' }, { status: 400 });
+  }
+
+  const document = await prisma.dealDocument.findUnique({
+    where: { id: params.id },
+    include: { deal: { include: { fund: true } } },
+  });
+  if (!document || document.deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { deal: _deal, ...current } = document;
+    const updated = await linkDocumentVersion(current, supersedesId);
+    const previous = await prisma.dealDocument.findUnique({ where: { id: supersedesId } });
+    return NextResponse.json({ document: updated, previous });
+  } catch (err) {
+    if (err instanceof DocumentVersionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
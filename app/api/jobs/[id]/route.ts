@@ -0,0 +1,52 @@
+import { authOptions } from '@/lib/auth';
+import { summarizeJob } from '@/lib/jobs';
+import { prisma } from '@/lib/prisma';
+import { JobStatus, JobType } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+
+/**
+ * Status and progress of a background job
+ * GET /api/jobs/[id]
+ *
+ * Once a job has finished the response also carries what it produced: the
+ * analysis run (with evidence snippets) or the ingested document and its status.
+ */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const membership = await prisma.membership.findFirst({ where: { userId: (session.user as any).id } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const job = await prisma.job.findUnique({
+    where: { id: params.id },
+    include: { deal: { include: { fund: true } } },
+  });
+  if (!job || job.deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const result = (job.result ?? {}) as Record<string, any>;
+  const done = job.status === JobStatus.SUCCEEDED;
+  const finished = done || job.status === JobStatus.FAILED;
+  const documentId = job.type === JobType.INGEST_DOCUMENT ? (job.payload as Record<string, any>).documentId : null;
+
+  return NextResponse.json({
+    job: summarizeJob(job),
+    run:
+      done && job.type === JobType.ANALYSIS_RUN && result.run_id
+        ? await prisma.analysisRun.findUnique({ where: { id: result.run_id }, include: { evidenceSnippets: true } })
+        : null,
+    document:
+      finished && documentId
+        ? await prisma.dealDocument.findUnique({ where: { id: documentId }, include: { classifications: true } })
+        : null,
+  });
+}
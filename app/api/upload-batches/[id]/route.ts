@@ -0,0 +1,42 @@
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { NextResponse } from 'next/server';
+
+export const runtime = 'nodejs';
+
+/**
+ * Progress of a ZIP dataroom upload
+ * GET /api/upload-batches/[id]
+ *
+ * Returns the per-file intake report and the batch's documents with their current
+ * ingestion status; the batch is complete once none is still pending or uploaded.
+ */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const membership = await prisma.membership.findFirst({ where: { userId: (session.user as any).id } });
+  if (!membership) {
+    return NextResponse.json({ error: 'Membership required' }, { status: 403 });
+  }
+
+  const batch = await prisma.uploadBatch.findUnique({
+    where: { id: params.id },
+    include: { deal: { include: { fund: true } }, documents: { orderBy: { uploadedAt: 'asc' }, include: { classifications: true } } },
+  });
+  if (!batch || batch.deal.fund.organizationId !== membership.organizationId) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const { deal: _deal, documents, ...rest } = batch;
+  const inProgress = documents.filter((d) => d.openaiStatus === 'pending' || d.openaiStatus === 'uploaded').length;
+
+  return NextResponse.json({
+    batch: rest,
+    documents,
+    complete: inProgress === 0,
+  });
+}
@@ -1,41 +1,28 @@
 import { prisma } from '@/lib/prisma';
-import { deleteStoredFile, saveFile } from '@/lib/storage';
 import { authOptions } from '@/lib/auth';
-import { openai } from '@/lib/openai';
+import {
+  ArchiveError,
+  DocumentVersionError,
+  MAX_ARCHIVE_BYTES,
+  MAX_DOCUMENT_BYTES,
+  SUPPORTED_DOCUMENT_EXTENSIONS,
+  assertSupersedable,
+  findDuplicateDocument,
+  getFileExtension,
+  hashContent,
+  intakeDocument,
+  intakeZipArchive,
+  linkDocumentVersion,
+} from '@/lib/document-intake';
+import { summarizeJob } from '@/lib/jobs';
+import { getLLMProvider } from '@/lib/llm-provider';
+import { getRetrievalBackend } from '@/lib/local-index';
 import { Role } from '@prisma/client';
-import crypto from 'crypto';
-import { simpleParser } from 'mailparser';
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import path from 'path';
-import { toFile } from 'openai/uploads';
 
 export const runtime = 'nodejs';
 
-const openaiClient = openai as any;
-
-async function ensureVectorStore(dealId: string, existing?: string) {
-  if (existing) return existing;
-  const vectorStore = await openaiClient.vectorStores.create({
-    name: `deal-${dealId}`,
-    expires_after: { anchor: 'last_active_at', days: 30 },
-  });
-  await prisma.deal.update({ where: { id: dealId }, data: { openaiVectorStoreId: vectorStore.id } });
-  return vectorStore.id;
-}
-
-async function pollVectorStoreFile(vectorStoreId: string, fileAssociationId: string) {
-  let delay = 1000;
-  for (let attempt = 0; attempt < 8; attempt++) {
-    const status = await openaiClient.vectorStores.files.retrieve(vectorStoreId, fileAssociationId);
-    if (status.status === 'completed') return 'indexed';
-    if (status.status === 'failed') return 'failed';
-    await new Promise((resolve) => setTimeout(resolve, delay));
-    delay = Math.min(delay * 2, 10000);
-  }
-  return 'pending';
-}
-
 export async function POST(req: Request) {
   const session = await getServerSession(authOptions);
   if (!session?.user?.id) {
@@ -52,26 +39,33 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Insufficient role to upload documents' }, { status: 403 });
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    return NextResponse.json({ error: 'OpenAI is not configured' }, { status: 500 });
+  // Local retrieval never sends the document to the LLM provider
+  const llm = await getLLMProvider();
+  if (getRetrievalBackend() === 'provider' && !llm.isConfigured()) {
+    return NextResponse.json({ error: 'LLM provider is not configured' }, { status: 500 });
   }
 
   const formData = await req.formData();
   const dealId = String(formData.get('dealId'));
   const file = formData.get('file');
+  // Optional: the earlier document this upload is a new version of
+  const supersedesId = formData.get('supersedesId') ? String(formData.get('supersedesId')) : null;
   if (!dealId || !(file instanceof File)) {
     return NextResponse.json({ error: 'Missing dealId or file' }, { status: 400 });
   }
 
-  const buffer = Buffer.from(await file.arrayBuffer());
-  const maxSize = 50 * 1024 * 1024;
-  if (buffer.length > maxSize) {
-    return NextResponse.json({ error: 'File too large. Max 50MB.' }, { status: 400 });
+  // A ZIP dataroom is unpacked server-side; its files are checked one by one
+  const ext = getFileExtension(file.name);
+  const isArchive = ext === 'zip';
+  if (!isArchive && !SUPPORTED_DOCUMENT_EXTENSIONS.includes(ext)) {
+    return NextResponse.json(
+      { error: `Unsupported file type. Allowed: ${[...SUPPORTED_DOCUMENT_EXTENSIONS, 'zip'].join(', ')}.` },
+      { status: 400 }
+    );
   }
-  const allowedExts = ['pdf', 'doc', 'docx', 'txt', 'eml'];
-  const ext = (file.name.split('.').pop() || '').toLowerCase();
-  if (!allowedExts.includes(ext)) {
-    return NextResponse.json({ error: 'Unsupported file type. Allowed: pdf, doc, docx, txt, eml.' }, { status: 400 });
+  const buffer = Buffer.from(await file.arrayBuffer());
+  if (buffer.length > (isArchive ? MAX_ARCHIVE_BYTES : MAX_DOCUMENT_BYTES)) {
+    return NextResponse.json({ error: isArchive ? 'Archive too large. Max 500MB.' : 'File too large. Max 50MB.' }, { status: 400 });
   }
 
   const deal = await prisma.deal.findUnique({ where: { id: dealId }, include: { fund: true } });
@@ -82,57 +76,63 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Forbidden: deal not in your organization' }, { status: 403 });
   }
 
-  const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
-  const stored = await saveFile(file, buffer);
-  const document = await prisma.dealDocument.create({
-    data: {
-      dealId,
-      name: stored.name,
-      path: stored.path,
-      mimeType: stored.mimeType,
-      sha256,
-      originalFileSize: stored.size,
-      originalExt: stored.ext,
-    },
-  });
+  const userId = (session.user as any).id;
 
-  try {
-    let vectorStoreId = await ensureVectorStore(dealId, deal.openaiVectorStoreId || undefined);
-
-    let ingestBuffer = buffer;
-    let ingestName = file.name;
-    let ingestMime = file.type || 'application/octet-stream';
-    if ((stored.ext || '').toLowerCase() === 'eml') {
-      const parsed = await simpleParser(buffer);
-      const rendered = [
-        `Subject: ${parsed.subject || ''}`,
-        `From: ${parsed.from?.text || ''}`,
-        `To: ${parsed.to?.text || ''}`,
-        `Date: ${parsed.date ? parsed.date.toISOString() : ''}`,
-        '',
-        parsed.text || parsed.html || '',
-      ].join('\n');
-      ingestBuffer = Buffer.from(rendered);
-      ingestName = `${path.parse(file.name).name}.txt`;
-      ingestMime = 'text/plain';
+  if (isArchive) {
+    if (supersedesId) {
+      return NextResponse.json({ error: 'An archive cannot be a new version of a document' }, { status: 400 });
+    }
+    try {
+      const { batch, report, documents } = await intakeZipArchive({ dealId, archiveName: file.name, buffer, userId });
+      return NextResponse.json({ batch, report, documents }, { status: 202 });
+    } catch (err) {
+      if (err instanceof ArchiveError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
     }
+  }
 
-    const openaiFile = await openaiClient.files.create({
-      file: await toFile(ingestBuffer, ingestName, { type: ingestMime }),
-      purpose: 'assistants',
-    });
+  if (supersedesId) {
+    try {
+      await assertSupersedable(dealId, supersedesId);
+    } catch (err) {
+      if (err instanceof DocumentVersionError) {
+        return NextResponse.json({ error: err.message }, { status: err.status });
+      }
+      throw err;
+    }
+  }
 
-    await prisma.dealDocument.update({ where: { id: document.id }, data: { openaiFileId: openaiFile.id, openaiStatus: 'uploaded' } });
+  // Identical content is linked to the existing document, not stored and indexed again;
+  // a "new version of" link is kept by linking that document instead
+  const sha256 = hashContent(buffer);
+  const duplicate = await findDuplicateDocument(dealId, sha256);
+  if (duplicate) {
+    let document = duplicate;
+    if (supersedesId) {
+      try {
+        document = await linkDocumentVersion(duplicate, supersedesId);
+      } catch (err) {
+        if (err instanceof DocumentVersionError) {
+          return NextResponse.json({ error: err.message }, { status: err.status });
+        }
+        throw err;
+      }
+    }
+    return NextResponse.json({ id: document.id, openaiStatus: document.openaiStatus, document, job: null, duplicate: true });
+  }
 
-    const vectorStoreFile = await openaiClient.vectorStores.files.create(vectorStoreId, { file_id: openaiFile.id });
-    const openaiStatus = await pollVectorStoreFile(vectorStoreId, vectorStoreFile.id);
-    await prisma.dealDocument.update({ where: { id: document.id }, data: { openaiStatus } });
+  // Indexing can take minutes; the worker picks it up and the workspace polls the job
+  const { document, job } = await intakeDocument({
+    dealId,
+    fileName: file.name,
+    buffer,
+    mimeType: file.type,
+    userId,
+    sha256,
+    supersedesId,
+  });
 
-    return NextResponse.json({ id: document.id, openaiStatus });
-  } catch (error) {
-    console.error('OpenAI ingestion failed', error);
-    await prisma.dealDocument.update({ where: { id: document.id }, data: { openaiStatus: 'failed' } });
-    await deleteStoredFile(stored.path);
-    return NextResponse.json({ id: document.id, openaiStatus: 'failed', error: 'Upload failed' }, { status: 500 });
-  }
+  return NextResponse.json({ id: document.id, openaiStatus: 'pending', document, job: summarizeJob(job) }, { status: 202 });
 }
@@ -1,9 +1,10 @@
 import { authOptions } from '@/lib/auth';
 import { sanitizeAllowedDomainsInput } from '@/lib/allowedDomains';
+import { CountryPackValidationError, parseCountryScoringOverrides, resolveCountryScoring } from '@/lib/country-pack-scoring';
 import { prisma } from '@/lib/prisma';
 import { revalidatePath } from 'next/cache';
 import { getServerSession } from 'next-auth';
-import { Role } from '@prisma/client';
+import { Prisma, Role } from '@prisma/client';
 import AllowedDomainsField from '@/components/AllowedDomainsField';
 
 async function saveCountryPack(formData: FormData, packId: string) {
@@ -23,17 +24,48 @@ async function saveCountryPack(formData: FormData, packId: string) {
   }
   const goldSources = String(formData.get('goldSources'));
   const artefacts = String(formData.get('artefacts'));
+  const scoringOverrides = parseScoringOverridesInput(String(formData.get('scoringOverrides') || ''));
   await prisma.countryPack.update({
     where: { id: packId },
     data: {
       allowedDomains: sanitized,
       goldSources: { description: goldSources },
       artefacts: { description: artefacts },
+      scoringOverrides: scoringOverrides ?? Prisma.DbNull,
     },
   });
   revalidatePath('/country-packs');
 }
 
+function parseScoringOverridesInput(input: string) {
+  if (!input.trim()) return null;
+  let json: unknown;
+  try {
+    json = JSON.parse(input);
+  } catch {
+    throw new Error('Scoring overrides must be valid JSON.');
+  }
+  try {
+    return parseCountryScoringOverrides(json);
+  } catch (err) {
+    if (!(err instanceof CountryPackValidationError)) throw err;
+    throw new Error(`Invalid scoring overrides: ${err.issues.join('; ')}`);
+  }
+}
+
+/** Library-derived overrides are read-only; show them so admins know what already applies */
+function describeLibraryOverrides(countryCode: string) {
+  const library = resolveCountryScoring(countryCode, null).library;
+  if (!library) return [];
+  const { overrides, reasons } = library;
+  return [
+    ...Object.values(reasons),
+    ...Object.entries(overrides.grid_title_evidence).map(
+      ([level, documents]) => `Grid title level ${level} evidenced by ${documents.join(' or ')}`
+    ),
+  ];
+}
+
 export default async function CountryPacksPage() {
   const session = await getServerSession(authOptions);
   if (!session?.user?.id) return null;
@@ -69,6 +101,26 @@ export default async function CountryPacksPage() {
               <label className="text-sm text-slate-600">Artefact definitions</label>
               <textarea name="artefacts" defaultValue={(pack.artefacts as any)?.description || ''} className="w-full" rows={3}></textarea>
             </div>
+            <div className="space-y-1">
+              <label className="text-sm text-slate-600">Scoring overrides (JSON)</label>
+              <textarea
+                name="scoringOverrides"
+                defaultValue={pack.scoringOverrides ? JSON.stringify(pack.scoringOverrides, null, 2) : ''}
+                placeholder={'{ "hard_gates": { "accepts_non_firm_power": false }, "note": "Grid heavily congested" }'}
+                className="w-full font-mono text-xs"
+                rows={4}
+              ></textarea>
+              <p className="text-xs text-slate-500">
+                Keys: hard_gates, scoring_adjustments, grid_title_evidence (level → local documents), note. Applied after the fund policy.
+              </p>
+              {pack.useLibraryData && describeLibraryOverrides(pack.countryCode).length > 0 && (
+                <ul className="text-xs text-slate-500">
+                  {describeLibraryOverrides(pack.countryCode).map((line) => (
+                    <li key={line}>Library: {line}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
         </form>
       ))}
@@ -1,5 +1,7 @@
 import { authOptions } from '@/lib/auth';
+import { summarizeJob } from '@/lib/jobs';
 import { prisma } from '@/lib/prisma';
+import { JobStatus } from '@prisma/client';
 import { getServerSession } from 'next-auth';
 import { notFound } from 'next/navigation';
 import DealWorkspace from './workspace';
@@ -12,11 +14,13 @@ export default async function DealPage({ params }: { params: { id: string } }) {
   const deal = await prisma.deal.findFirst({
     where: { id: params.id, fund: { organizationId: membership.organizationId } },
     include: {
-      documents: true,
+      documents: { include: { classifications: { orderBy: { confidence: 'desc' } } } },
       analyses: { orderBy: { createdAt: 'desc' }, include: { evidenceSnippets: true } },
       fund: true,
+      factOverrides: { orderBy: { updatedAt: 'desc' } },
+      jobs: { where: { status: { in: [JobStatus.QUEUED, JobStatus.RUNNING] } }, orderBy: { createdAt: 'asc' } },
     },
   });
   if (!deal) return notFound();
-  return <DealWorkspace deal={deal} role={membership.role} />;
+  return <DealWorkspace deal={deal} role={membership.role} activeJobs={deal.jobs.map(summarizeJob)} />;
 }
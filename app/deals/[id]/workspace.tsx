@@ -1,8 +1,33 @@
 'use client';
 
+import DocumentViewer from '@/components/DocumentViewer';
 import MarketContextSection, { MarketResearchPayload } from '@/components/MarketContextSection';
-import { AnalysisEvidenceSnippet, AnalysisRun, AnalysisRunStatus, Deal, DealDocument, Role } from '@prisma/client';
-import { useMemo, useState, useTransition } from 'react';
+import {
+  AnalysisEvidenceSnippet,
+  AnalysisRun,
+  AnalysisRunStatus,
+  Deal,
+  DealDocument,
+  DocumentClassification,
+  FactOverride,
+  Role,
+} from '@prisma/client';
+import {
+  type ArtifactType,
+  ArtifactTypeSchema,
+  type CitationMismatch,
+  type FactCandidate,
+  type FactValue,
+  type OverallScore,
+} from '@/lib/dd-contract-v1';
+import { formatSnippetSource, getSnippetSourceHref } from '@/lib/evidence-links';
+import type { BatchFileReport } from '@/lib/document-intake';
+import { ARTIFACT_EVIDENCE_TIERS, trustedArtifactTypes } from '@/lib/document-classification';
+import { generateDocumentQualityWarnings, shouldRecommendOCR } from '@/lib/document-quality';
+import { buildVersionChains } from '@/lib/document-versions';
+import { FACT_CATALOG_V1, getFactByCode } from '@/lib/fact-catalog-v1';
+import type { JobStage, JobSummary } from '@/lib/jobs';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 
 type AnalysisWithEvidence =
   Omit<AnalysisRun, 'status' | 'errorMessage' | 'modelUsed'> & {
@@ -13,17 +38,160 @@ type AnalysisWithEvidence =
     marketResearchIncluded?: boolean;
   };
 
-export default function DealWorkspace({ deal, role }: { deal: Deal & { documents: DealDocument[]; analyses: AnalysisWithEvidence[] }; role: Role; }) {
+type WorkspaceDocument = DealDocument & { classifications?: DocumentClassification[] };
+
+type FactAssertionDraft = {
+  factCode: string;
+  value: string;
+  cleared: boolean;
+  documentId: string;
+  pageNumber: string;
+  justification: string;
+};
+
+type PolicyComparison = {
+  scored_under: { policy_version: string; decision: string; overall_score: number };
+  current: { policy_version: string; decision: string; overall_score: number; reasons: string[] };
+  decision_changed: boolean;
+  score_delta: number;
+};
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const JOB_STAGE_LABELS: Record<JobStage, string> = {
+  queued: 'Queued',
+  ingesting: 'Indexing document',
+  retrieving: 'Retrieving evidence',
+  extracting: 'Extracting facts',
+  scoring: 'Scoring',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+/** Route responses without classifications keep the ones already loaded */
+function mergeDocument(current: WorkspaceDocument, update: WorkspaceDocument): WorkspaceDocument {
+  return { ...current, ...update, classifications: update.classifications ?? current.classifications };
+}
+
+function formatArtifactType(type: string): string {
+  const words = type.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/** Policy version a v1 run was scored under, read from its contract snapshot */
+function getScoredPolicyVersion(run: AnalysisWithEvidence): string | null {
+  return (run.ddOntology as any)?.fund_policy_snapshot?.policy_version ?? null;
+}
+
+/** Facts whose cited documents gave competing values, with the resolver's pick */
+function getResolvedFacts(run: AnalysisWithEvidence): [string, FactValue][] {
+  const facts = ((run.ddOntology as any)?.deal_evidence?.facts ?? {}) as Record<string, FactValue>;
+  return Object.entries(facts).filter(([, fact]) => fact.resolution && fact.resolution.rule !== 'SINGLE_CANDIDATE');
+}
+
+function formatCandidate(candidate: FactCandidate, unit: string | null): string {
+  return unit && typeof candidate.value === 'number' ? `${candidate.value} ${unit}` : String(candidate.value);
+}
+
+/** Score adjustment ledger of a v1 run; null for runs scored before the ledger existed */
+function getScoreLedger(run: AnalysisWithEvidence): OverallScore | null {
+  const overall = (run.ddOntology as any)?.scoring?.overall as OverallScore | undefined;
+  return overall?.adjustments ? overall : null;
+}
+
+export default function DealWorkspace({
+  deal,
+  role,
+  activeJobs,
+}: {
+  deal: Deal & { documents: WorkspaceDocument[]; analyses: AnalysisWithEvidence[]; factOverrides: FactOverride[] };
+  role: Role;
+  activeJobs: JobSummary[];
+}) {
   const [analyses, setAnalyses] = useState<AnalysisWithEvidence[]>(deal.analyses);
   const [activeRunId, setActiveRunId] = useState<string | null>(deal.analyses[0]?.id || null);
+  const [documents, setDocuments] = useState<WorkspaceDocument[]>(deal.documents);
+  const [jobs, setJobs] = useState<JobSummary[]>(activeJobs);
   const [uploading, setUploading] = useState(false);
-  const [running, startTransition] = useTransition();
   const [message, setMessage] = useState('');
+  const [batchReport, setBatchReport] = useState<{ archiveName: string; files: BatchFileReport[] } | null>(null);
   const [binderTab, setBinderTab] = useState<'uploads' | 'evidence'>('uploads');
   const [selectedSnippet, setSelectedSnippet] = useState<AnalysisEvidenceSnippet | null>(null);
+  const [expandedChains, setExpandedChains] = useState<string[]>([]);
+  const [classifying, setClassifying] = useState<{ documentId: string; artifactTypes: ArtifactType[] } | null>(null);
+  const [viewer, setViewer] = useState<{ documentId: string; snippetId: string | null } | null>(null);
   const [includeMarketResearch, setIncludeMarketResearch] = useState(false);
   const [purging, setPurging] = useState(false);
+  const [comparison, setComparison] = useState<PolicyComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [rescoring, setRescoring] = useState(false);
+  const [overriding, setOverriding] = useState<{ factCode: string; candidate: FactCandidate; reason: string } | null>(null);
+  const [factOverrides, setFactOverrides] = useState<FactOverride[]>(deal.factOverrides);
+  const [asserting, setAsserting] = useState<FactAssertionDraft | null>(null);
   const canEdit = role === Role.ADMIN || role === Role.ANALYST;
+  const running = jobs.some((j) => j.type === 'ANALYSIS_RUN');
+
+  /** Poll a background job until it finishes, then show what it produced */
+  const trackJob = useCallback(async (job: JobSummary) => {
+    setJobs((prev) => [...prev.filter((j) => j.id !== job.id), job]);
+    let current = job;
+    while (current.status === 'QUEUED' || current.status === 'RUNNING') {
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const res = await fetch(`/api/jobs/${job.id}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage(body.error || 'Lost track of a background job. Refresh to see its outcome.');
+        break;
+      }
+      current = body.job as JobSummary;
+      setJobs((prev) => prev.map((j) => (j.id === current.id ? current : j)));
+
+      if (body.document) {
+        const document = body.document as WorkspaceDocument;
+        setDocuments((prev) => prev.map((d) => (d.id === document.id ? mergeDocument(d, document) : d)));
+      }
+      if (current.status === 'SUCCEEDED' && body.run) {
+        const run = body.run as AnalysisWithEvidence;
+        setAnalyses((prev) => [run, ...prev.filter((a) => a.id !== run.id)]);
+        setActiveRunId(run.id);
+        setMessage('Analysis completed');
+      }
+      if (current.status === 'FAILED') {
+        setMessage(`${current.type === 'ANALYSIS_RUN' ? 'Analysis' : 'Indexing'} failed: ${current.error || 'Unknown error'}`);
+      }
+    }
+    setJobs((prev) => prev.filter((j) => j.id !== job.id));
+  }, []);
+
+  /** Poll a ZIP upload until every accepted file has finished indexing */
+  async function trackBatch(batchId: string) {
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      const res = await fetch(`/api/upload-batches/${batchId}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMessage(body.error || 'Lost track of the archive upload. Refresh to see its outcome.');
+        return;
+      }
+      const batchDocuments = body.documents as WorkspaceDocument[];
+      setDocuments((prev) =>
+        prev.map((d) => {
+          const update = batchDocuments.find((b) => b.id === d.id);
+          return update ? mergeDocument(d, update) : d;
+        })
+      );
+      if (body.complete) {
+        const failed = batchDocuments.filter((d) => d.openaiStatus === 'failed').length;
+        setMessage(`Archive indexed: ${batchDocuments.length - failed} document(s) ready${failed ? `, ${failed} failed` : ''}.`);
+        return;
+      }
+    }
+  }
+
+  // Resume tracking jobs that were still running when the page loaded
+  useEffect(() => {
+    activeJobs.forEach((job) => void trackJob(job));
+  }, [activeJobs, trackJob]);
 
   function renderStatusBadge(status?: string) {
     const normalized = (status || 'pending').toLowerCase();
@@ -49,34 +217,181 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
     const res = await fetch('/api/upload', { method: 'POST', body: formData });
     setUploading(false);
     if (res.ok) {
-      setMessage('File uploaded. Refresh to see it listed.');
+      const body = await res.json();
+      if (body.batch) {
+        const { batch, report, documents: added } = body as { batch: any; report: BatchFileReport[]; documents: DealDocument[] };
+        setDocuments((prev) => [...prev, ...added]);
+        setBatchReport({ archiveName: batch.archiveName, files: report });
+        setMessage(
+          `${batch.archiveName}: ${batch.acceptedCount} accepted, ${batch.duplicateCount} duplicate, ${batch.rejectedCount} rejected. Indexing in the background.`
+        );
+        if (added.length > 0) void trackBatch(batch.id);
+        return;
+      }
+      const document = body.document as DealDocument;
+      if (body.duplicate) {
+        setMessage(`Same content as ${document.name}, already uploaded. Linked to the existing document.`);
+        return;
+      }
+      setDocuments((prev) => [
+        ...prev.map((d) => (d.id === document.supersedesId ? { ...d, supersededAt: new Date() } : d)),
+        document,
+      ]);
+      setMessage(document.supersedesId ? 'New version uploaded. Indexing in the background.' : 'File uploaded. Indexing in the background.');
+      void trackJob(body.job as JobSummary);
     } else {
       const body = await res.json().catch(() => ({}));
       setMessage(body.error || 'Upload failed');
     }
   }
 
+  async function markAsNewVersion(documentId: string, supersedesId: string) {
+    const res = await fetch(`/api/documents/${documentId}/version`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ supersedesId }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setMessage(body.error || 'Could not link the versions');
+      return;
+    }
+    const updated = [body.document, body.previous] as DealDocument[];
+    setDocuments((prev) =>
+      prev.map((d) => {
+        const update = updated.find((u) => u.id === d.id);
+        return update ? mergeDocument(d, update) : d;
+      })
+    );
+    setMessage(`${body.document.name} now supersedes ${body.previous.name}.`);
+  }
+
+  async function saveClassifications(documentId: string, artifactTypes: ArtifactType[]) {
+    const res = await fetch(`/api/documents/${documentId}/classifications`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ artifact_types: artifactTypes }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setMessage(body.error || 'Could not save the classification');
+      return;
+    }
+    const document = body.document as WorkspaceDocument;
+    setDocuments((prev) => prev.map((d) => (d.id === document.id ? mergeDocument(d, document) : d)));
+    setClassifying(null);
+    setMessage(`${document.name} classified.`);
+  }
+
   async function runAnalysis() {
     if (!canEdit) {
       setMessage('You do not have permission to run analysis.');
       return;
     }
-    startTransition(async () => {
-      const res = await fetch('/api/analysis/run', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ dealId: deal.id, includeMarketResearch }),
-      });
-      if (res.ok) {
-        const data = (await res.json()) as AnalysisWithEvidence;
-        setAnalyses((prev) => [data, ...prev]);
-        setActiveRunId(data.id);
-        setMessage('Analysis completed');
-      } else {
-        const body = await res.json().catch(() => ({}));
-        setMessage(body.error || 'Analysis failed');
-      }
+    const res = await fetch('/api/analysis/run', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ dealId: deal.id, includeMarketResearch }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (res.ok) {
+      setMessage('Analysis queued');
+      void trackJob(body.job as JobSummary);
+    } else {
+      setMessage(body.error || 'Analysis failed');
+    }
+  }
+
+  async function compareWithCurrentPolicy(runId: string) {
+    setComparing(true);
+    setComparison(null);
+    const res = await fetch(`/api/deals/${deal.id}/runs/${runId}/policy-comparison`);
+    setComparing(false);
+    const body = await res.json().catch(() => ({}));
+    if (res.ok) {
+      setComparison(body as PolicyComparison);
+    } else {
+      setMessage(body.error || 'Policy comparison failed');
+    }
+  }
+
+  async function rescoreWithCurrentPolicy(runId: string) {
+    if (!canEdit) {
+      setMessage('You do not have permission to re-score runs.');
+      return;
+    }
+    setRescoring(true);
+    const res = await fetch(`/api/deals/${deal.id}/runs/${runId}/rescore`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
     });
+    setRescoring(false);
+    const body = await res.json().catch(() => ({}));
+    if (res.ok) {
+      const child = body.run as AnalysisWithEvidence;
+      setAnalyses((prev) => [child, ...prev]);
+      setActiveRunId(child.id);
+      setComparison(null);
+      setMessage(`Re-scored under policy v${body.fund_policy_version}: ${body.hard_gate_decision}`);
+    } else {
+      setMessage(body.error || 'Re-score failed');
+    }
+  }
+
+  async function overrideFact(runId: string, factCode: string, candidate: FactCandidate, reason: string) {
+    const res = await fetch(`/api/deals/${deal.id}/runs/${runId}/facts/${factCode}/resolution`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ value: candidate.value, reason }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setMessage(body.error || 'Could not override the fact');
+      return;
+    }
+    const child = body.run as AnalysisWithEvidence;
+    setAnalyses((prev) => [child, ...prev]);
+    setActiveRunId(child.id);
+    setOverriding(null);
+    setMessage(`Override saved and re-scored: ${body.hard_gate_decision}`);
+  }
+
+  async function assertFact(runId: string, draft: FactAssertionDraft) {
+    const res = await fetch(`/api/deals/${deal.id}/runs/${runId}/facts/${draft.factCode}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        value: draft.cleared ? null : draft.value,
+        document_id: draft.documentId || null,
+        page_number: draft.pageNumber ? Number(draft.pageNumber) : null,
+        justification: draft.justification || null,
+      }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setMessage(body.error || 'Could not save the override');
+      return;
+    }
+    const override = body.override as FactOverride;
+    const child = body.run as AnalysisWithEvidence;
+    setFactOverrides((prev) => [override, ...prev.filter((o) => o.factCode !== override.factCode)]);
+    setAnalyses((prev) => [child, ...prev]);
+    setActiveRunId(child.id);
+    setAsserting(null);
+    setMessage(`Override saved and re-scored: ${body.hard_gate_decision}`);
+  }
+
+  async function withdrawOverride(runId: string, factCode: string) {
+    const res = await fetch(`/api/deals/${deal.id}/runs/${runId}/facts/${factCode}`, { method: 'DELETE' });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setMessage(body.error || 'Could not withdraw the override');
+      return;
+    }
+    const override = body.override as FactOverride;
+    setFactOverrides((prev) => [override, ...prev.filter((o) => o.factCode !== override.factCode)]);
+    setMessage('Override withdrawn; later runs use the extracted value');
   }
 
   async function handlePurge() {
@@ -95,12 +410,47 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
     window.location.href = '/deals';
   }
 
+  const versionChains = useMemo(() => buildVersionChains(documents), [documents]);
+  // Quality of the documents retrieval will use, known before any analysis runs
+  const documentQuality = useMemo(() => {
+    const assessed = versionChains.map(({ current }) => current).filter((d) => d.qualityScore !== null);
+    return { warnings: generateDocumentQualityWarnings(assessed), ocr: shouldRecommendOCR(assessed) };
+  }, [versionChains]);
+  // What paper the current documents amount to, strongest evidence tier first
+  const artifactsOnFile = useMemo(() => {
+    const documentsByType = new Map<ArtifactType, string[]>();
+    for (const { current } of versionChains) {
+      for (const type of trustedArtifactTypes(current.classifications ?? [])) {
+        documentsByType.set(type, [...(documentsByType.get(type) ?? []), current.name]);
+      }
+    }
+    return ArtifactTypeSchema.options
+      .filter((type) => documentsByType.has(type))
+      .map((type) => ({ type, tier: ARTIFACT_EVIDENCE_TIERS[type], documents: documentsByType.get(type)! }));
+  }, [versionChains]);
   const activeRun = useMemo(() => analyses.find((a) => a.id === activeRunId) || analyses[0], [analyses, activeRunId]);
   const snippetMap = useMemo(() => {
     if (!activeRun) return {} as Record<string, AnalysisEvidenceSnippet>;
     return Object.fromEntries(activeRun.evidenceSnippets.map((s) => [s.snippetId, s]));
   }, [activeRun]);
 
+  /** Jump to the cited passage in its document; snippets never mapped to a document open on their own */
+  function openCitation(citation: string) {
+    const snippet = snippetMap[citation];
+    if (snippet?.fileId) {
+      setSelectedSnippet(null);
+      setViewer({ documentId: snippet.fileId, snippetId: snippet.id });
+    } else {
+      setSelectedSnippet(snippet || null);
+    }
+  }
+
+  const scoreLedger = activeRun ? getScoreLedger(activeRun) : null;
+  const resolvedFacts = activeRun ? getResolvedFacts(activeRun) : [];
+  const runFacts = ((activeRun?.ddOntology as any)?.deal_evidence?.facts ?? null) as Record<string, FactValue> | null;
+  const flaggedOverrides = factOverrides.filter((o) => o.status === 'FLAGGED');
+  const citationMismatches = ((activeRun?.ddOntology as any)?.deal_evidence?.citation_mismatches ?? []) as CitationMismatch[];
+
   const downloadHref = activeRun ? `/api/deals/${deal.id}/runs/${activeRun.id}/export/pdf` : null;
 
   const marketResearch = (activeRun as any)?.marketResearch as MarketResearchPayload | undefined;
@@ -148,7 +498,7 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
               </button>
             )}
             <button onClick={runAnalysis} className="btn-primary" disabled={running || !canEdit}>
-              {running ? 'Running…' : 'Run analysis'}
+              {running ? 'Analysis running…' : 'Run analysis'}
             </button>
             {role === Role.ADMIN && (
               <button
@@ -190,33 +540,215 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
             <div>
               {canEdit ? (
                 <form onSubmit={handleUpload} className="mt-1 flex items-center gap-3" encType="multipart/form-data">
-                  <input type="file" name="file" className="flex-1" required />
+                  <input type="file" name="file" accept=".pdf,.doc,.docx,.txt,.eml,.msg,.xlsx,.pptx,.png,.jpg,.jpeg,.tif,.tiff,.zip" className="flex-1" required />
+                  <select name="supersedesId" className="rounded border border-slate-300 px-2 py-1 text-sm" defaultValue="">
+                    <option value="">New document</option>
+                    {versionChains.map(({ current }) => (
+                      <option key={current.id} value={current.id}>
+                        New version of {current.name}
+                      </option>
+                    ))}
+                  </select>
                   <button type="submit" className="btn-primary" disabled={uploading}>{uploading ? 'Uploading…' : 'Upload'}</button>
                 </form>
               ) : (
                 <p className="mt-1 text-sm text-slate-500">View-only access. Uploads disabled.</p>
               )}
+              {documentQuality.warnings.length > 0 && (
+                <div className="mt-3 rounded-lg border border-rose-200 bg-rose-50 p-3 text-xs text-rose-900">
+                  <p className="font-semibold">Document quality</p>
+                  {documentQuality.ocr.recommend && <p className="mt-1">{documentQuality.ocr.message}</p>}
+                  <ul className="mt-2 space-y-1">
+                    {documentQuality.warnings.map((w, i) => (
+                      <li key={`${w.documentId}-${i}`}>
+                        <span className="font-semibold">{w.severity}</span> · {w.documentName}: {w.warning}. {w.recommendation}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {batchReport && batchReport.files.some((f) => f.status !== 'accepted') && (
+                <div className="mt-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">Skipped from {batchReport.archiveName}</span>
+                    <button className="underline" onClick={() => setBatchReport(null)}>
+                      Dismiss
+                    </button>
+                  </div>
+                  <ul className="mt-2 space-y-1">
+                    {batchReport.files
+                      .filter((f) => f.status !== 'accepted')
+                      .map((f) => (
+                        <li key={f.path}>
+                          <span className="font-mono">{f.path}</span> ({f.status}): {f.reason}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+              {artifactsOnFile.length > 0 && (
+                <div className="mt-3 rounded-lg border border-slate-200 bg-slate-50 p-3 text-xs text-slate-700">
+                  <p className="font-semibold">Artifacts on file</p>
+                  <ul className="mt-2 space-y-1">
+                    {artifactsOnFile.map(({ type, tier, documents: names }) => (
+                      <li key={type}>
+                        <span className="font-semibold">{formatArtifactType(type)}</span> · {tier.replace(/_/g, ' ')} ·{' '}
+                        <span className="text-slate-500">{names.join(', ')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
               <ul className="mt-4 space-y-2 text-sm text-slate-700">
-                {deal.documents.map((doc) => (
-                  <li key={doc.id} className="flex items-center justify-between rounded-lg border border-slate-200 px-3 py-2">
-                    <div className="flex items-center gap-2">
-                      <span>{doc.name}</span>
-                      {renderStatusBadge(doc.openaiStatus)}
-                    </div>
-                    <div className="flex items-center gap-3 text-xs text-slate-500">
-                      <span>{doc.mimeType}</span>
-                      <a
-                        className="text-brand underline"
-                        href={`/api/documents/${doc.id}/download`}
-                        target="_blank"
-                        rel="noreferrer"
-                      >
-                        Download
-                      </a>
+                {versionChains.map(({ current: doc, previous }) => (
+                  <li key={doc.id} className="rounded-lg border border-slate-200 px-3 py-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <span>{doc.name}</span>
+                        {doc.folderPath && <span className="text-xs text-slate-400">{doc.folderPath}/</span>}
+                        {previous.length > 0 && (
+                          <button
+                            className="rounded-full bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-600"
+                            onClick={() =>
+                              setExpandedChains((prev) => (prev.includes(doc.id) ? prev.filter((id) => id !== doc.id) : [...prev, doc.id]))
+                            }
+                          >
+                            v{previous.length + 1} · {previous.length} earlier
+                          </button>
+                        )}
+                        {renderStatusBadge(doc.openaiStatus)}
+                        {doc.qualityScore !== null && (
+                          <span
+                            className={`rounded-full px-2 py-1 text-xs font-semibold ${
+                              doc.qualityScore >= 70 ? 'bg-slate-100 text-slate-600' : 'bg-rose-100 text-rose-700'
+                            }`}
+                            title={Array.isArray(doc.qualityWarnings) ? (doc.qualityWarnings as string[]).join('\n') : undefined}
+                          >
+                            Quality {doc.qualityScore}
+                            {doc.ocrApplied ? ' · OCR' : ''}
+                            {doc.language && doc.language !== 'unknown' ? ` · ${doc.language.toUpperCase()}` : ''}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3 text-xs text-slate-500">
+                        <span>{doc.mimeType}</span>
+                        {canEdit && (
+                          <button
+                            className="text-brand underline"
+                            onClick={() =>
+                              setClassifying(
+                                classifying?.documentId === doc.id
+                                  ? null
+                                  : {
+                                      documentId: doc.id,
+                                      artifactTypes: (doc.classifications ?? []).map((c) => c.artifactType as ArtifactType),
+                                    }
+                              )
+                            }
+                          >
+                            Classify
+                          </button>
+                        )}
+                        {canEdit && !doc.supersedesId && versionChains.length > 1 && (
+                          <select
+                            className="rounded border border-slate-200 px-1 py-0.5 text-xs"
+                            value=""
+                            onChange={(e) => e.target.value && void markAsNewVersion(doc.id, e.target.value)}
+                          >
+                            <option value="">Supersedes…</option>
+                            {versionChains
+                              .filter(({ current }) => current.id !== doc.id)
+                              .map(({ current }) => (
+                                <option key={current.id} value={current.id}>
+                                  {current.name}
+                                </option>
+                              ))}
+                          </select>
+                        )}
+                        <button className="text-brand underline" onClick={() => setViewer({ documentId: doc.id, snippetId: null })}>
+                          View
+                        </button>
+                        <a
+                          className="text-brand underline"
+                          href={`/api/documents/${doc.id}/download`}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          Download
+                        </a>
+                      </div>
                     </div>
+                    {(doc.classifications ?? []).length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {doc.classifications!.map((c) => (
+                          <span
+                            key={c.id}
+                            className={`rounded-full px-2 py-0.5 text-xs ${
+                              c.source === 'ANALYST' ? 'bg-emerald-100 text-emerald-800' : 'bg-sky-50 text-sky-800'
+                            }`}
+                            title={(c.evidence as { page_number: number; text: string }[])
+                              .map((e) => `p.${e.page_number}: ${e.text}`)
+                              .join('\n')}
+                          >
+                            {formatArtifactType(c.artifactType)}
+                            {c.source === 'ANALYST' ? ' · analyst' : ` · ${Math.round(c.confidence * 100)}%`}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {classifying?.documentId === doc.id && (
+                      <div className="mt-2 rounded-lg border border-slate-200 p-2 text-xs">
+                        <div className="grid gap-1 sm:grid-cols-2">
+                          {ArtifactTypeSchema.options.map((type) => (
+                            <label key={type} className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={classifying.artifactTypes.includes(type)}
+                                onChange={(e) =>
+                                  setClassifying({
+                                    documentId: doc.id,
+                                    artifactTypes: e.target.checked
+                                      ? [...classifying.artifactTypes, type]
+                                      : classifying.artifactTypes.filter((t) => t !== type),
+                                  })
+                                }
+                              />
+                              {formatArtifactType(type)}
+                            </label>
+                          ))}
+                        </div>
+                        <div className="mt-2 flex gap-2">
+                          <button className="btn-primary" onClick={() => void saveClassifications(doc.id, classifying.artifactTypes)}>
+                            Save classification
+                          </button>
+                          <button className="underline" onClick={() => setClassifying(null)}>
+                            Cancel
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {expandedChains.includes(doc.id) && (
+                      <ul className="mt-2 space-y-1 border-l-2 border-slate-200 pl-3 text-xs text-slate-500">
+                        {previous.map((old, i) => (
+                          <li key={old.id} className="flex items-center justify-between">
+                            <span>
+                              v{previous.length - i} · {old.name} · superseded {new Date(old.supersededAt!).toLocaleDateString()}
+                            </span>
+                            <span className="flex items-center gap-3">
+                              <button className="text-brand underline" onClick={() => setViewer({ documentId: old.id, snippetId: null })}>
+                                View
+                              </button>
+                              <a className="text-brand underline" href={`/api/documents/${old.id}/download`} target="_blank" rel="noreferrer">
+                                Download
+                              </a>
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </li>
                 ))}
-                {deal.documents.length === 0 && <p className="text-sm text-slate-500">No documents yet.</p>}
+                {documents.length === 0 && <p className="text-sm text-slate-500">No documents yet.</p>}
               </ul>
             </div>
           )}
@@ -228,10 +760,18 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
                   activeRun.evidenceSnippets.map((snippet) => (
                     <div key={snippet.id} className="rounded-lg border border-slate-200 p-3">
                       <div className="flex items-center justify-between gap-2 text-sm text-slate-600">
-                        <span className="font-semibold text-slate-900">{snippet.fileName || 'Snippet'}</span>
+                        <span className="font-semibold text-slate-900">{snippet.fileName ? formatSnippetSource(snippet) : 'Snippet'}</span>
                         {typeof snippet.score === 'number' && <span className="text-xs text-slate-500">Score: {snippet.score.toFixed(3)}</span>}
                       </div>
                       <p className="mt-2 text-sm text-slate-700 whitespace-pre-wrap">{snippet.text}</p>
+                      {snippet.fileId && (
+                        <button
+                          className="mt-2 text-xs font-semibold text-brand"
+                          onClick={() => setViewer({ documentId: snippet.fileId!, snippetId: snippet.id })}
+                        >
+                          View in document
+                        </button>
+                      )}
                     </div>
                   ))
                 ) : (
@@ -253,8 +793,54 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
               <div className="flex flex-wrap gap-2 text-xs text-slate-500">
                 {renderRunStatus(activeRun.status)}
                 {activeRun.modelUsed && <span>Model: {activeRun.modelUsed}</span>}
+                {getScoredPolicyVersion(activeRun) && (
+                  <span className="rounded-full bg-slate-100 px-2 py-1 font-semibold text-slate-700">
+                    Scored under policy v{getScoredPolicyVersion(activeRun)}
+                  </span>
+                )}
               </div>
               {activeRun.errorMessage && <p className="text-xs text-rose-600">Error: {activeRun.errorMessage}</p>}
+              {getScoredPolicyVersion(activeRun) && (
+                <button
+                  className="text-xs font-semibold text-brand underline"
+                  onClick={() => compareWithCurrentPolicy(activeRun.id)}
+                  disabled={comparing}
+                >
+                  {comparing ? 'Comparing…' : 'Compare with current policy'}
+                </button>
+              )}
+              {getScoredPolicyVersion(activeRun) && canEdit && (
+                <button
+                  className="ml-3 text-xs font-semibold text-brand underline"
+                  onClick={() => rescoreWithCurrentPolicy(activeRun.id)}
+                  disabled={rescoring}
+                >
+                  {rescoring ? 'Re-scoring…' : 'Re-score as new run'}
+                </button>
+              )}
+              {activeRun.parentRunId && (
+                <p className="text-xs text-slate-500">
+                  Re-scored from the run of{' '}
+                  {new Date(analyses.find((a) => a.id === activeRun.parentRunId)?.createdAt ?? activeRun.createdAt).toLocaleString()}
+                  {' '}— no new retrieval or extraction.
+                </p>
+              )}
+              {comparison && (
+                <div className="rounded-lg border border-slate-200 p-3 text-xs text-slate-600">
+                  <p>
+                    v{comparison.scored_under.policy_version}: {comparison.scored_under.decision} ({comparison.scored_under.overall_score})
+                    {' → '}
+                    v{comparison.current.policy_version}: {comparison.current.decision} ({comparison.current.overall_score})
+                  </p>
+                  <p className={comparison.decision_changed ? 'font-semibold text-amber-700' : 'text-slate-500'}>
+                    {comparison.decision_changed ? 'Decision changes under the current policy.' : 'Decision unchanged.'}
+                    {' '}Score delta {comparison.score_delta >= 0 ? '+' : ''}{comparison.score_delta}
+                  </p>
+                  {comparison.current.reasons.map((reason) => (
+                    <p key={reason}>• {reason}</p>
+                  ))}
+                </div>
+              )}
             </div>
           ) : (
             <p className="text-sm text-slate-500">No analysis yet. Run to generate the IC pack skeleton.</p>
@@ -280,7 +866,7 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
                         <button
                           key={citation}
                           className="underline"
-                          onClick={() => setSelectedSnippet(snippetMap[citation] || null)}
+                          onClick={() => openCitation(citation)}
                           disabled={!snippetMap[citation]}
                         >
                           View snippet {citation.slice(0, 6)}
@@ -291,6 +877,275 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
                 </div>
               ))}
             </div>
+            {scoreLedger && (
+              <div className="mt-4 space-y-2">
+                <h3 className="font-semibold">Score adjustments</h3>
+                <p className="text-xs text-slate-500">
+                  Weighted module score {scoreLedger.base_score_0_100} → overall {scoreLedger.score_0_100}
+                </p>
+                {scoreLedger.adjustments!.map((adjustment) => (
+                  <div key={adjustment.name} className="flex items-start justify-between gap-3 rounded-lg border border-slate-200 p-3 text-sm">
+                    <div>
+                      <p className="font-semibold">{adjustment.source === 'CUSTOM_RULE' ? `Rule: ${adjustment.name}` : adjustment.name.replace(/_/g, ' ')}</p>
+                      <p className="text-slate-600">{adjustment.reason}</p>
+                      {adjustment.citations.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-2 text-xs text-brand">
+                          {adjustment.citations.map((citation) => (
+                            <button
+                              key={citation}
+                              className="underline"
+                              onClick={() => openCitation(citation)}
+                              disabled={!snippetMap[citation]}
+                            >
+                              View snippet {citation.slice(0, 6)}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <span className={`font-semibold ${adjustment.points >= 0 ? 'text-emerald-700' : 'text-rose-600'}`}>
+                      {adjustment.points > 0 ? '+' : ''}{adjustment.points}
+                    </span>
+                  </div>
+                ))}
+                {scoreLedger.adjustments!.length === 0 && (
+                  <p className="text-sm text-slate-500">No bonuses or penalties applied.</p>
+                )}
+              </div>
+            )}
+            {resolvedFacts.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <h3 className="font-semibold">Competing values</h3>
+                {resolvedFacts.map(([code, fact]) => {
+                  const unit = getFactByCode(code)?.unit ?? null;
+                  const resolution = fact.resolution!;
+                  return (
+                    <div key={code} className="rounded-lg border border-slate-200 p-3 text-sm">
+                      <div className="flex items-center justify-between gap-3">
+                        <p className="font-semibold">
+                          {getFactByCode(code)?.label ?? code}: {formatCandidate({ value: fact.value!, citations: [] }, unit)}
+                        </p>
+                        <span
+                          className={`rounded-full px-2 py-0.5 text-xs ${
+                            resolution.override ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-100 text-slate-700'
+                          }`}
+                        >
+                          {resolution.rule.toLowerCase().replace(/_/g, ' ')}
+                        </span>
+                      </div>
+                      <p className="text-slate-600">{resolution.detail}</p>
+                      {resolution.override && (
+                        <p className="text-xs text-slate-500">
+                          Analyst pick, replacing {String(resolution.override.previous_value)} on{' '}
+                          {new Date(resolution.override.overridden_at).toLocaleDateString()}
+                        </p>
+                      )}
+                      <ul className="mt-1 space-y-1 text-xs text-slate-500">
+                        {resolution.rejected_candidates.map((candidate) => (
+                          <li key={String(candidate.value)} className="flex flex-wrap items-center gap-2">
+                            <span>
+                              Rejected {formatCandidate(candidate, unit)}
+                              {candidate.evidence_tier && ` · ${candidate.evidence_tier.toLowerCase().replace(/_/g, ' ')}`}
+                            </span>
+                            {candidate.citations.map((citation) => (
+                              <button
+                                key={citation}
+                                className="text-brand underline"
+                                onClick={() => openCitation(citation)}
+                                disabled={!snippetMap[citation]}
+                              >
+                                View snippet {citation.slice(0, 6)}
+                              </button>
+                            ))}
+                            {canEdit && (
+                              <button
+                                className="underline"
+                                onClick={() => setOverriding({ factCode: code, candidate, reason: '' })}
+                              >
+                                Use this value
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {overriding?.factCode === code && (
+                        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                          <input
+                            className="flex-1 rounded border border-slate-300 px-2 py-1"
+                            placeholder={`Why ${formatCandidate(overriding.candidate, unit)} is the right value`}
+                            value={overriding.reason}
+                            onChange={(e) => setOverriding({ ...overriding, reason: e.target.value })}
+                          />
+                          <button
+                            className="btn-primary"
+                            disabled={!overriding.reason.trim()}
+                            onClick={() => void overrideFact(activeRun.id, code, overriding.candidate, overriding.reason)}
+                          >
+                            Save override
+                          </button>
+                          <button className="underline" onClick={() => setOverriding(null)}>
+                            Cancel
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {runFacts && (
+              <div className="mt-4 space-y-2">
+                <h3 className="font-semibold">Facts</h3>
+                {flaggedOverrides.map((o) => (
+                  <p key={o.id} className="rounded-lg border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+                    Override of {getFactByCode(o.factCode)?.label ?? o.factCode} flagged: {o.flagReason}
+                  </p>
+                ))}
+                {citationMismatches.map((mismatch) => (
+                  <p key={mismatch.fact_code} className="rounded-lg border border-rose-200 bg-rose-50 p-2 text-xs text-rose-800">
+                    Citation mismatch on {getFactByCode(mismatch.fact_code)?.label ?? mismatch.fact_code} (
+                    {mismatch.action === 'NULLED' ? 'value removed' : 'not verified'}): {mismatch.reason}
+                    {mismatch.citations.map((citation) => (
+                      <button
+                        key={citation}
+                        className="ml-2 underline"
+                        onClick={() => openCitation(citation)}
+                        disabled={!snippetMap[citation]}
+                      >
+                        View snippet {citation.slice(0, 6)}
+                      </button>
+                    ))}
+                  </p>
+                ))}
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {FACT_CATALOG_V1.map((definition) => {
+                    const fact = runFacts[definition.code];
+                    const override = factOverrides.find((o) => o.factCode === definition.code);
+                    return (
+                      <li key={definition.code} className="py-2">
+                        <div className="flex items-center justify-between gap-3">
+                          <span>
+                            {definition.label}:{' '}
+                            <span className="font-semibold">
+                              {fact?.value == null ? '—' : formatCandidate({ value: fact.value, citations: [] }, definition.unit)}
+                            </span>
+                          </span>
+                          <span className="flex items-center gap-2 text-xs">
+                            {fact && fact.evidence_tier !== 'NONE' && (
+                              <span
+                                className={`rounded-full px-2 py-0.5 ${
+                                  fact.evidence_tier === 'ANALYST_ASSERTED' ? 'bg-emerald-100 text-emerald-800' : 'bg-slate-100 text-slate-700'
+                                }`}
+                              >
+                                {fact.evidence_tier.toLowerCase().replace(/_/g, ' ')}
+                              </span>
+                            )}
+                            {override?.status === 'FLAGGED' && <span className="text-amber-700">flagged</span>}
+                            {canEdit && override && override.status !== 'WITHDRAWN' && (
+                              <button
+                                className="text-slate-500 underline"
+                                onClick={() => void withdrawOverride(activeRun.id, definition.code)}
+                              >
+                                Withdraw
+                              </button>
+                            )}
+                            {canEdit && (
+                              <button
+                                className="text-brand underline"
+                                onClick={() =>
+                                  setAsserting({
+                                    factCode: definition.code,
+                                    value: fact?.value == null ? '' : String(fact.value),
+                                    cleared: false,
+                                    documentId: override?.documentId ?? '',
+                                    pageNumber: override?.pageNumber ? String(override.pageNumber) : '',
+                                    justification: override?.justification ?? '',
+                                  })
+                                }
+                              >
+                                Override
+                              </button>
+                            )}
+                          </span>
+                        </div>
+                        {asserting?.factCode === definition.code && (
+                          <div className="mt-2 grid gap-2 rounded-lg border border-slate-200 p-2 text-xs sm:grid-cols-2">
+                            {definition.type === 'boolean' ? (
+                              <select
+                                className="rounded border border-slate-300 px-2 py-1"
+                                value={asserting.value}
+                                disabled={asserting.cleared}
+                                onChange={(e) => setAsserting({ ...asserting, value: e.target.value })}
+                              >
+                                <option value="">Select…</option>
+                                <option value="true">Yes</option>
+                                <option value="false">No</option>
+                              </select>
+                            ) : (
+                              <input
+                                className="rounded border border-slate-300 px-2 py-1"
+                                placeholder={definition.unit ? `Value (${definition.unit})` : 'Value'}
+                                value={asserting.value}
+                                disabled={asserting.cleared}
+                                onChange={(e) => setAsserting({ ...asserting, value: e.target.value })}
+                              />
+                            )}
+                            <label className="flex items-center gap-2">
+                              <input
+                                type="checkbox"
+                                checked={asserting.cleared}
+                                onChange={(e) => setAsserting({ ...asserting, cleared: e.target.checked })}
+                              />
+                              Clear: not evidenced
+                            </label>
+                            <select
+                              className="rounded border border-slate-300 px-2 py-1"
+                              value={asserting.documentId}
+                              onChange={(e) => setAsserting({ ...asserting, documentId: e.target.value })}
+                            >
+                              <option value="">No document cited</option>
+                              {documents
+                                .filter((d) => !d.supersededAt)
+                                .map((d) => (
+                                  <option key={d.id} value={d.id}>
+                                    {d.name}
+                                  </option>
+                                ))}
+                            </select>
+                            <input
+                              className="rounded border border-slate-300 px-2 py-1"
+                              placeholder="Page"
+                              inputMode="numeric"
+                              value={asserting.pageNumber}
+                              disabled={!asserting.documentId}
+                              onChange={(e) => setAsserting({ ...asserting, pageNumber: e.target.value.replace(/\D/g, '') })}
+                            />
+                            <input
+                              className="rounded border border-slate-300 px-2 py-1 sm:col-span-2"
+                              placeholder="Justification"
+                              value={asserting.justification}
+                              onChange={(e) => setAsserting({ ...asserting, justification: e.target.value })}
+                            />
+                            <div className="flex gap-2 sm:col-span-2">
+                              <button
+                                className="btn-primary"
+                                disabled={!asserting.documentId && !asserting.justification.trim()}
+                                onClick={() => void assertFact(activeRun.id, asserting)}
+                              >
+                                Save override
+                              </button>
+                              <button className="underline" onClick={() => setAsserting(null)}>
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
           </div>
           <div className="card p-4">
             <h3 className="font-semibold">Checklist</h3>
@@ -319,16 +1174,21 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
             <button
               key={run.id}
               className={`flex w-full items-center justify-between px-2 py-3 text-left ${run.id === activeRun?.id ? 'bg-slate-50' : ''}`}
-              onClick={() => setActiveRunId(run.id)}
+              onClick={() => {
+                setActiveRunId(run.id);
+                setComparison(null);
+              }}
             >
               <div>
                 <p className="font-semibold text-slate-900">{new Date(run.createdAt).toLocaleString()}</p>
                 <p className="text-xs text-slate-500">{run.summary}</p>
+                {run.parentRunId && <p className="text-xs text-slate-500">Offline re-score</p>}
                 {run.errorMessage && <p className="text-xs text-rose-600">{run.errorMessage}</p>}
               </div>
               <div className="flex flex-col items-end gap-1 text-xs text-slate-500">
                 {renderRunStatus(run.status)}
                 {run.modelUsed && <span>Model: {run.modelUsed}</span>}
+                {getScoredPolicyVersion(run) && <span>Policy v{getScoredPolicyVersion(run)}</span>}
               </div>
             </button>
           ))}
@@ -336,20 +1196,44 @@ export default function DealWorkspace({ deal, role }: { deal: Deal & { documents
         </div>
       </div>
 
+      {jobs.length > 0 && (
+        <div className="card space-y-1 p-3 text-sm text-slate-600">
+          {jobs.map((job) => (
+            <p key={job.id}>
+              <span className="font-semibold text-slate-900">{job.type === 'ANALYSIS_RUN' ? 'Analysis' : 'Document'}</span>
+              {' — '}
+              {JOB_STAGE_LABELS[job.stage] || job.stage}
+              {job.attempts > 1 && ` (attempt ${job.attempts} of ${job.max_attempts})`}
+              {job.status === 'QUEUED' && job.error && ` — retrying after: ${job.error}`}
+            </p>
+          ))}
+        </div>
+      )}
+
       {message && <p className="text-sm text-brand">{message}</p>}
 
+      {viewer && <DocumentViewer documentId={viewer.documentId} snippetId={viewer.snippetId} onClose={() => setViewer(null)} />}
+
       {selectedSnippet && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
           <div className="max-w-2xl rounded-xl bg-white p-4 shadow-xl">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-xs text-slate-500">Snippet {selectedSnippet.snippetId}</p>
-                <p className="font-semibold text-slate-900">{selectedSnippet.fileName || 'Evidence snippet'}</p>
+                <p className="font-semibold text-slate-900">{selectedSnippet.fileName ? formatSnippetSource(selectedSnippet) : 'Evidence snippet'}</p>
               </div>
               <button className="text-sm text-brand" onClick={() => setSelectedSnippet(null)}>Close</button>
             </div>
             <p className="mt-3 whitespace-pre-wrap text-sm text-slate-700">{selectedSnippet.text}</p>
             {typeof selectedSnippet.score === 'number' && <p className="mt-2 text-xs text-slate-500">Retrieval score: {selectedSnippet.score.toFixed(3)}</p>}
+            {selectedSnippet.fileId && (
+              <div className="mt-3 flex gap-4 text-sm font-semibold text-brand">
+                <button onClick={() => openCitation(selectedSnippet.snippetId)}>View in document</button>
+                <a href={getSnippetSourceHref(selectedSnippet)!} target="_blank" rel="noreferrer">
+                  Open file{selectedSnippet.pageNumber ? ` at page ${selectedSnippet.pageNumber}` : ''}
+                </a>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -1,10 +1,23 @@
 import { authOptions } from '@/lib/auth';
+import {
+  DEFAULT_FUND_POLICY,
+  FundPolicy,
+  FundPolicyValidationError,
+  PRESET_POLICIES,
+  diffFundPolicies,
+  formatFundPolicyIssues,
+  type FundPolicyPreset,
+  type FundPolicyType,
+} from '@/lib/fund-policy';
+import { recordFundPolicyVersion } from '@/lib/fund-policy-versions';
 import { prisma } from '@/lib/prisma';
 import { revalidatePath } from 'next/cache';
 import { getServerSession } from 'next-auth';
+import Link from 'next/link';
 import { Role } from '@prisma/client';
+import FundPolicyEditor from './ui/fund-policy-editor';
 
-async function saveThesis(formData: FormData, fundId: string) {
+async function saveFundPolicy(fundId: string, formData: FormData) {
   'use server';
   const session = await getServerSession(authOptions);
   if (!session?.user?.id) throw new Error('Unauthorized');
@@ -12,70 +25,114 @@ async function saveThesis(formData: FormData, fundId: string) {
   if (!membership || membership.role !== Role.ADMIN) throw new Error('Forbidden');
   const fund = await prisma.fund.findFirst({ where: { id: fundId, organizationId: membership.organizationId } });
   if (!fund) throw new Error('Forbidden');
-  const thesis = {
-    markets: String(formData.get('markets')),
-    productFocus: String(formData.get('productFocus')),
-    dealTypes: String(formData.get('dealTypes')),
-    riskAppetite: String(formData.get('riskAppetite')),
-    esg: String(formData.get('esg')),
-    evidenceLevel: String(formData.get('evidenceLevel')),
-  };
-  await prisma.fund.update({ where: { id: fundId }, data: { thesis } });
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(String(formData.get('policy') || ''));
+  } catch {
+    throw new Error('Policy payload is not valid JSON');
+  }
+  const parsed = FundPolicy.safeParse(raw);
+  if (!parsed.success) {
+    throw new FundPolicyValidationError('Fund policy does not validate', formatFundPolicyIssues(parsed.error));
+  }
+
+  // Only keep the preset reference while the policy is identical to it; edited policies are custom
+  const presetKey = String(formData.get('policyPreset') || '') as FundPolicyPreset;
+  const preset = PRESET_POLICIES[presetKey];
+  const policyPreset = preset && diffFundPolicies(preset, parsed.data).length === 0 ? presetKey : null;
+
+  // Every save is a new immutable version; Fund.policy follows it once it is in force
+  const changeNote = String(formData.get('changeNote') || '').trim() || null;
+  const version = await recordFundPolicyVersion({
+    fundId,
+    policy: parsed.data,
+    policyPreset,
+    changeNote,
+    authorId: (session.user as any).id,
+  });
+  await prisma.auditLog.create({
+    data: {
+      action: 'FUND_POLICY_UPDATED',
+      metadata: {
+        fundId,
+        policyVersionId: version.id,
+        policyVersion: version.version,
+        effectiveDate: version.effectiveDate.toISOString(),
+        policyPreset,
+      },
+      userId: (session.user as any).id,
+      organizationId: membership.organizationId,
+    },
+  });
   revalidatePath('/funds');
 }
 
+/**
+ * Seed the editor from the latest saved version, which may not be in force yet,
+ * then the stored policy, then the preset. A stored policy that no
+ * longer validates is loaded as-is over the defaults so the admin can fix it.
+ */
+function loadEditablePolicy(fund: { policy: unknown; policyPreset: string | null }): FundPolicyType {
+  if (fund.policy == null) {
+    return PRESET_POLICIES[fund.policyPreset as FundPolicyPreset] ?? DEFAULT_FUND_POLICY;
+  }
+  const parsed = FundPolicy.safeParse(fund.policy);
+  if (parsed.success) return parsed.data;
+  const stored = fund.policy as Record<string, any>;
+  return {
+    ...DEFAULT_FUND_POLICY,
+    ...stored,
+    hard_gates: { ...DEFAULT_FUND_POLICY.hard_gates, ...stored.hard_gates },
+    module_weights: { ...DEFAULT_FUND_POLICY.module_weights, ...stored.module_weights },
+    tolerances: { ...DEFAULT_FUND_POLICY.tolerances, ...stored.tolerances },
+    required_evidence: { ...DEFAULT_FUND_POLICY.required_evidence, ...stored.required_evidence },
+    deal_type_preferences: { ...DEFAULT_FUND_POLICY.deal_type_preferences, ...stored.deal_type_preferences },
+    scoring_adjustments: { ...DEFAULT_FUND_POLICY.scoring_adjustments, ...stored.scoring_adjustments },
+    custom_rules: Array.isArray(stored.custom_rules) ? stored.custom_rules : [],
+  };
+}
+
 export default async function FundsPage() {
   const session = await getServerSession(authOptions);
   if (!session?.user?.id) return null;
   const membership = await prisma.membership.findFirst({ where: { userId: (session.user as any).id } });
   if (!membership) return null;
   if (membership.role !== Role.ADMIN) {
-    return <div className="rounded-xl bg-white p-6 shadow">Only admins can edit fund onboarding.</div>;
+    return <div className="rounded-xl bg-white p-6 shadow">Only admins can edit fund policies.</div>;
   }
-  const funds = await prisma.fund.findMany({ where: { organizationId: membership.organizationId } });
+  const funds = await prisma.fund.findMany({
+    where: { organizationId: membership.organizationId },
+    include: {
+      policyVersions: { include: { author: true }, orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }] },
+    },
+  });
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-semibold">Fund onboarding</h1>
-        <p className="text-sm text-slate-500">Capture thesis and risk appetite. These settings drive scoring rules.</p>
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Fund policies</h1>
+          <p className="text-sm text-slate-500">Hard gates, module weights and evidence standards used to score every deal in the fund.</p>
+        </div>
+        <Link href="/funds/simulator" className="text-sm font-semibold text-brand">What-if simulator</Link>
       </div>
       {funds.map((fund) => (
-        <form key={fund.id} action={(formData) => saveThesis(formData, fund.id)} className="card space-y-4 p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-xs uppercase text-slate-500">Fund</p>
-              <h2 className="text-xl font-semibold">{fund.name}</h2>
-            </div>
-            <button type="submit" className="btn-primary">Save</button>
-          </div>
-          <div className="grid gap-4 sm:grid-cols-2">
-            <div className="space-y-1">
-              <label className="text-sm text-slate-600">Markets</label>
-              <input name="markets" defaultValue={(fund.thesis as any)?.markets || ''} className="w-full" placeholder="FR, UK, NL" />
-            </div>
-            <div className="space-y-1">
-              <label className="text-sm text-slate-600">Product focus</label>
-              <input name="productFocus" defaultValue={(fund.thesis as any)?.productFocus || ''} className="w-full" placeholder="Hyperscale, Edge" />
-            </div>
-            <div className="space-y-1">
-              <label className="text-sm text-slate-600">Deal types</label>
-              <input name="dealTypes" defaultValue={(fund.thesis as any)?.dealTypes || ''} className="w-full" placeholder="Greenfield, Brownfield" />
-            </div>
-            <div className="space-y-1">
-              <label className="text-sm text-slate-600">Risk appetite</label>
-              <input name="riskAppetite" defaultValue={(fund.thesis as any)?.riskAppetite || ''} className="w-full" placeholder="Firm power only, flex tolerated" />
-            </div>
-            <div className="space-y-1">
-              <label className="text-sm text-slate-600">ESG/Sovereignty constraints</label>
-              <input name="esg" defaultValue={(fund.thesis as any)?.esg || ''} className="w-full" placeholder="No coal adjacency, EU data residency" />
-            </div>
-            <div className="space-y-1">
-              <label className="text-sm text-slate-600">Required evidence level</label>
-              <input name="evidenceLevel" defaultValue={(fund.thesis as any)?.evidenceLevel || ''} className="w-full" placeholder="Signed permits, official grid letters" />
-            </div>
-          </div>
-        </form>
+        <FundPolicyEditor
+          key={fund.id}
+          fundName={fund.name}
+          initialPolicy={loadEditablePolicy(fund.policyVersions[0] ?? fund)}
+          initialPreset={(fund.policyVersions[0] ?? fund).policyPreset}
+          history={fund.policyVersions.map((v) => ({
+            id: v.id,
+            version: v.version,
+            effectiveDate: v.effectiveDate.toISOString(),
+            changeNote: v.changeNote,
+            authorName: v.author?.name ?? null,
+            createdAt: v.createdAt.toISOString(),
+          }))}
+          save={saveFundPolicy.bind(null, fund.id)}
+        />
       ))}
     </div>
   );
@@ -0,0 +1,113 @@
+import { authOptions } from '@/lib/auth';
+import { CountryPackValidationError, resolveCountryScoring, type CountryScoringContext } from '@/lib/country-pack-scoring';
+import { type DDContractV1 } from '@/lib/dd-contract-v1';
+import { FundPolicyValidationError } from '@/lib/fund-policy';
+import { resolveFundPolicyAt } from '@/lib/fund-policy-versions';
+import { type SimulationInput } from '@/lib/policy-simulator';
+import { prisma } from '@/lib/prisma';
+import { Role } from '@prisma/client';
+import { getServerSession } from 'next-auth';
+import Link from 'next/link';
+import PolicySimulator from './ui/policy-simulator';
+
+export default async function PolicySimulatorPage({ searchParams }: { searchParams: { fundId?: string } }) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) return null;
+  const membership = await prisma.membership.findFirst({ where: { userId: (session.user as any).id } });
+  if (!membership) return null;
+  if (membership.role !== Role.ADMIN) {
+    return <div className="rounded-xl bg-white p-6 shadow">Only admins can simulate fund policy changes.</div>;
+  }
+
+  const funds = await prisma.fund.findMany({ where: { organizationId: membership.organizationId } });
+  const fund = funds.find((f) => f.id === searchParams.fundId) ?? funds[0];
+  if (!fund) {
+    return <div className="rounded-xl bg-white p-6 shadow">Create a fund before simulating policy changes.</div>;
+  }
+
+  let livePolicy;
+  try {
+    livePolicy = (await resolveFundPolicyAt(fund)).snapshot;
+  } catch (err) {
+    if (!(err instanceof FundPolicyValidationError)) throw err;
+    return (
+      <div className="rounded-xl bg-white p-6 shadow">
+        The live policy for {fund.name} does not validate. Fix it on the <Link href="/funds" className="text-brand">Funds page</Link> first.
+      </div>
+    );
+  }
+
+  // Latest successful v1 run per deal; legacy runs carry no contract facts to re-score
+  const deals = await prisma.deal.findMany({
+    where: { fundId: fund.id },
+    include: {
+      analyses: {
+        where: { status: 'SUCCESS' },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+        select: { id: true, createdAt: true, ddOntology: true },
+      },
+    },
+    orderBy: { name: 'asc' },
+  });
+  const countryPacks = await prisma.countryPack.findMany({ where: { organizationId: membership.organizationId } });
+  const countryFor = (countryCode: string): CountryScoringContext => {
+    const pack = countryPacks.find((p) => p.countryCode.toLowerCase() === countryCode.toLowerCase());
+    return resolveCountryScoring(countryCode, pack ?? null);
+  };
+
+  const inputs: SimulationInput[] = [];
+  let dealsWithoutRuns = 0;
+  for (const deal of deals) {
+    const run = deal.analyses.find((a) => (a.ddOntology as DDContractV1 | null)?.deal_evidence?.facts);
+    if (!run) {
+      dealsWithoutRuns++;
+      continue;
+    }
+    let country: CountryScoringContext;
+    try {
+      country = countryFor(deal.country);
+    } catch (err) {
+      if (!(err instanceof CountryPackValidationError)) throw err;
+      return (
+        <div className="rounded-xl bg-white p-6 shadow">
+          The {deal.country} scoring overrides do not validate. Fix them on the <Link href="/country-packs" className="text-brand">Country packs page</Link> first.
+        </div>
+      );
+    }
+    inputs.push({
+      dealId: deal.id,
+      dealName: deal.name,
+      runId: run.id,
+      runCreatedAt: run.createdAt.toISOString(),
+      facts: (run.ddOntology as DDContractV1).deal_evidence.facts,
+      contradictions: (run.ddOntology as DDContractV1).deal_evidence.contradictions,
+      country,
+    });
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-end justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Policy what-if simulator</h1>
+          <p className="text-sm text-slate-500">
+            Edit a draft policy and see how each deal&apos;s latest run would score against the live policy. Nothing is saved.
+          </p>
+        </div>
+        <div className="flex gap-2 text-sm">
+          {funds.map((f) => (
+            <Link
+              key={f.id}
+              href={`/funds/simulator?fundId=${f.id}`}
+              className={`rounded-lg px-3 py-1 font-semibold ${f.id === fund.id ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-700'}`}
+            >
+              {f.name}
+            </Link>
+          ))}
+        </div>
+      </div>
+      <PolicySimulator key={fund.id} livePolicy={livePolicy} inputs={inputs} dealsWithoutRuns={dealsWithoutRuns} />
+    </div>
+  );
+}
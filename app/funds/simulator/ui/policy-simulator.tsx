@@ -0,0 +1,236 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import { FundPolicySnapshotSchema, type FundPolicySnapshot } from '@/lib/dd-contract-v1';
+import {
+  simulatePolicyChange,
+  summarizeSimulation,
+  type SimulationInput,
+  type SimulationRow,
+} from '@/lib/policy-simulator';
+
+type GateKey = keyof FundPolicySnapshot['hard_gates'];
+type WeightKey = keyof FundPolicySnapshot['weights'];
+
+const LEVEL_GATES: { key: GateKey; label: string; max: number }[] = [
+  { key: 'min_power_title_level', label: 'Min power title level', max: 5 },
+  { key: 'min_land_control_level', label: 'Min land control level', max: 4 },
+  { key: 'min_planning_level', label: 'Min planning level', max: 5 },
+];
+
+const LIMIT_GATES: { key: GateKey; label: string }[] = [
+  { key: 'max_flex_share_pct', label: 'Max flex share (%)' },
+  { key: 'max_curtailment_cap_hours_per_year', label: 'Max curtailment (h/yr)' },
+  { key: 'max_queue_wait_months', label: 'Max queue wait (months)' },
+  { key: 'max_energisation_months', label: 'Max time to energisation (months)' },
+  { key: 'min_anchor_customer_stage', label: 'Min anchor customer stage (0-4)' },
+  { key: 'min_prelet_pct', label: 'Min pre-let (%)' },
+  { key: 'min_tier_level', label: 'Min design tier (1-4)' },
+  { key: 'max_pue', label: 'Max design PUE' },
+  { key: 'min_renewable_pct', label: 'Min renewable share (%)' },
+];
+
+const TOGGLE_GATES: { key: GateKey; label: string }[] = [
+  { key: 'requires_anchor_customer', label: 'Requires anchor customer' },
+  { key: 'accepts_non_firm_power', label: 'Accepts non-firm power' },
+  { key: 'accepts_interruptible_power', label: 'Accepts interruptible power' },
+  { key: 'requires_grid_connection_agreement', label: 'Requires signed grid agreement' },
+  { key: 'rejects_deep_works', label: 'Rejects deep works' },
+  { key: 'requires_building_permit', label: 'Requires building permit' },
+  { key: 'rejects_permit_appeal_risk', label: 'Rejects permit appeal risk' },
+  { key: 'requires_heat_reuse_plan', label: 'Requires heat reuse plan' },
+  { key: 'requires_renewable_commitment', label: 'Requires renewable commitment' },
+];
+
+const DECISION_STYLES: Record<string, string> = {
+  GO: 'bg-emerald-100 text-emerald-700',
+  HOLD: 'bg-amber-100 text-amber-700',
+  NO_GO: 'bg-rose-100 text-rose-700',
+};
+
+function DecisionBadge({ decision }: { decision: string }) {
+  return <span className={`rounded-full px-2 py-1 text-xs font-semibold ${DECISION_STYLES[decision] ?? ''}`}>{decision}</span>;
+}
+
+export default function PolicySimulator({
+  livePolicy,
+  inputs,
+  dealsWithoutRuns,
+}: {
+  livePolicy: FundPolicySnapshot;
+  inputs: SimulationInput[];
+  dealsWithoutRuns: number;
+}) {
+  const [draft, setDraft] = useState<FundPolicySnapshot>(livePolicy);
+  const [showAll, setShowAll] = useState(false);
+
+  const validation = useMemo(() => FundPolicySnapshotSchema.safeParse(draft), [draft]);
+  const rows = useMemo<SimulationRow[]>(
+    () => (validation.success ? simulatePolicyChange(inputs, livePolicy, validation.data) : []),
+    [validation, inputs, livePolicy]
+  );
+  const summary = useMemo(() => summarizeSimulation(rows), [rows]);
+  const visibleRows = showAll ? rows : rows.filter((row) => row.flipped);
+
+  function updateGate(key: GateKey, value: unknown) {
+    setDraft((prev) => ({ ...prev, hard_gates: { ...prev.hard_gates, [key]: value } }));
+  }
+
+  function updateWeight(key: WeightKey, value: number) {
+    setDraft((prev) => ({ ...prev, weights: { ...prev.weights, [key]: value } }));
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="card space-y-4 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-xs uppercase text-slate-500">Live policy</p>
+            <h2 className="text-lg font-semibold">
+              {livePolicy.policy_name || 'Fund policy'} v{livePolicy.policy_version}
+            </h2>
+          </div>
+          <button type="button" className="text-sm font-semibold text-brand underline" onClick={() => setDraft(livePolicy)}>
+            Reset draft to live
+          </button>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-2">
+          <fieldset className="space-y-2 rounded-lg border border-slate-200 p-4">
+            <legend className="px-1 text-sm font-semibold text-slate-900">Hard gates</legend>
+            {LEVEL_GATES.map((gate) => (
+              <div key={gate.key} className="flex items-center justify-between gap-3 text-sm">
+                <label className="text-slate-600">{gate.label}</label>
+                <span className="flex items-center gap-2">
+                  <span className="text-xs text-slate-400">live {String(livePolicy.hard_gates[gate.key])}</span>
+                  <input
+                    type="number"
+                    className="w-24"
+                    min={0}
+                    max={gate.max}
+                    step={1}
+                    value={draft.hard_gates[gate.key] as number}
+                    onChange={(e) => updateGate(gate.key, Number(e.target.value))}
+                  />
+                </span>
+              </div>
+            ))}
+            {LIMIT_GATES.map((gate) => (
+              <div key={gate.key} className="flex items-center justify-between gap-3 text-sm">
+                <label className="text-slate-600">{gate.label}</label>
+                <span className="flex items-center gap-2">
+                  <span className="text-xs text-slate-400">live {String(livePolicy.hard_gates[gate.key] ?? '—')}</span>
+                  <input
+                    type="number"
+                    className="w-24"
+                    min={0}
+                    step="any"
+                    placeholder="No limit"
+                    value={(draft.hard_gates[gate.key] as number | null) ?? ''}
+                    onChange={(e) => updateGate(gate.key, e.target.value === '' ? null : Number(e.target.value))}
+                  />
+                </span>
+              </div>
+            ))}
+            {TOGGLE_GATES.map((gate) => (
+              <div key={gate.key} className="flex items-center justify-between gap-3 text-sm">
+                <label className="text-slate-600">{gate.label}</label>
+                <input
+                  type="checkbox"
+                  checked={Boolean(draft.hard_gates[gate.key])}
+                  onChange={(e) => updateGate(gate.key, e.target.checked)}
+                />
+              </div>
+            ))}
+          </fieldset>
+
+          <fieldset className="space-y-2 rounded-lg border border-slate-200 p-4">
+            <legend className="px-1 text-sm font-semibold text-slate-900">Module weights</legend>
+            {(Object.keys(draft.weights) as WeightKey[]).map((key) => (
+              <div key={key} className="flex items-center justify-between gap-3 text-sm">
+                <label className="text-slate-600">{key}</label>
+                <span className="flex items-center gap-2">
+                  <span className="text-xs text-slate-400">live {livePolicy.weights[key]}</span>
+                  <input
+                    type="number"
+                    className="w-24"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={draft.weights[key]}
+                    onChange={(e) => updateWeight(key, Number(e.target.value))}
+                  />
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-slate-500">
+              Weights are relative; the overall score is normalised by their sum.
+            </p>
+          </fieldset>
+        </div>
+
+        {!validation.success && (
+          <ul className="space-y-1 text-xs text-rose-600">
+            {validation.error.issues.map((issue) => (
+              <li key={issue.path.join('.')}>{issue.path.join('.')}: {issue.message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="card space-y-4 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="font-semibold">Impact on latest runs</h2>
+            <p className="text-sm text-slate-500">
+              {summary.flipped} of {summary.deals} deal(s) flip decision · {summary.tightened} tightened · {summary.loosened} loosened
+              {dealsWithoutRuns > 0 && ` · ${dealsWithoutRuns} deal(s) without a v1 run skipped`}
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Show unchanged deals
+          </label>
+        </div>
+
+        {visibleRows.length > 0 ? (
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500">
+              <tr>
+                <th className="py-2">Deal</th>
+                <th className="py-2">Live</th>
+                <th className="py-2">Draft</th>
+                <th className="py-2">Score</th>
+                <th className="py-2">Gate reason</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleRows.map((row) => (
+                <tr key={row.dealId} className={row.flipped ? 'bg-amber-50/50' : ''}>
+                  <td className="py-2">
+                    <Link href={`/deals/${row.dealId}`} className="font-semibold text-brand">{row.dealName}</Link>
+                    <p className="text-xs text-slate-500">Run of {new Date(row.runCreatedAt).toLocaleDateString()}</p>
+                  </td>
+                  <td className="py-2"><DecisionBadge decision={row.live.decision} /></td>
+                  <td className="py-2"><DecisionBadge decision={row.draft.decision} /></td>
+                  <td className="py-2 text-xs text-slate-600">
+                    {row.live.overall_score} → {row.draft.overall_score}
+                    {row.score_delta !== 0 && ` (${row.score_delta > 0 ? '+' : ''}${row.score_delta})`}
+                  </td>
+                  <td className="py-2 text-xs text-slate-600">
+                    {row.flip_reasons.length > 0 ? row.flip_reasons.map((reason) => <p key={reason}>{reason}</p>) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-slate-500">
+            {validation.success ? 'No decision flips under the draft policy.' : 'Fix the draft policy to run the simulation.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
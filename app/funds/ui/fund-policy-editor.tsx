@@ -0,0 +1,428 @@
+'use client';
+
+import { useMemo, useState, useTransition } from 'react';
+import { z } from 'zod';
+import {
+  DEFAULT_FUND_POLICY,
+  DealTypePreferences,
+  FundPolicy,
+  HardGates,
+  ModuleWeights,
+  PRESET_POLICIES,
+  RequiredEvidence,
+  ScoringAdjustments,
+  Tolerances,
+  diffFundPolicies,
+  type CustomRuleType,
+  type FundPolicyType,
+} from '@/lib/fund-policy';
+
+type SectionKey =
+  | 'hard_gates'
+  | 'module_weights'
+  | 'tolerances'
+  | 'required_evidence'
+  | 'deal_type_preferences'
+  | 'scoring_adjustments';
+
+const SECTIONS: { key: SectionKey; title: string; schema: z.AnyZodObject }[] = [
+  { key: 'hard_gates', title: 'Hard gates', schema: HardGates },
+  { key: 'module_weights', title: 'Module weights', schema: ModuleWeights._def.schema },
+  { key: 'tolerances', title: 'Tolerances', schema: Tolerances },
+  { key: 'required_evidence', title: 'Required evidence', schema: RequiredEvidence },
+  { key: 'deal_type_preferences', title: 'Deal type preferences', schema: DealTypePreferences },
+  { key: 'scoring_adjustments', title: 'Scoring adjustments', schema: ScoringAdjustments },
+];
+
+type FieldControl =
+  | { kind: 'boolean' }
+  | { kind: 'number'; nullable: boolean; min: number | null; max: number | null }
+  | { kind: 'enum'; options: string[] }
+  | { kind: 'multi'; options: string[] }
+  | { kind: 'list' };
+
+function describeField(schema: z.ZodTypeAny): FieldControl {
+  let inner = schema;
+  let nullable = false;
+  while (inner instanceof z.ZodDefault || inner instanceof z.ZodNullable) {
+    if (inner instanceof z.ZodNullable) nullable = true;
+    inner = inner._def.innerType;
+  }
+  if (inner instanceof z.ZodBoolean) return { kind: 'boolean' };
+  if (inner instanceof z.ZodNumber) return { kind: 'number', nullable, min: inner.minValue, max: inner.maxValue };
+  if (inner instanceof z.ZodEnum) return { kind: 'enum', options: inner.options };
+  if (inner instanceof z.ZodArray && inner.element instanceof z.ZodEnum) {
+    return { kind: 'multi', options: inner.element.options };
+  }
+  return { kind: 'list' };
+}
+
+function humanize(key: string) {
+  const label = key.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '[]';
+  return String(value);
+}
+
+const PRESET_LABELS: Record<string, string> = {
+  default: 'Default policy',
+  ...Object.fromEntries(Object.entries(PRESET_POLICIES).map(([key, policy]) => [key, policy.policy_name])),
+};
+
+export interface PolicyVersionEntry {
+  id: string;
+  version: string;
+  effectiveDate: string;
+  changeNote: string | null;
+  authorName: string | null;
+  createdAt: string;
+}
+
+function getBasePolicy(preset: string): FundPolicyType {
+  return PRESET_POLICIES[preset as keyof typeof PRESET_POLICIES] ?? DEFAULT_FUND_POLICY;
+}
+
+export default function FundPolicyEditor({
+  fundName,
+  initialPolicy,
+  initialPreset,
+  history,
+  save,
+}: {
+  fundName: string;
+  initialPolicy: FundPolicyType;
+  initialPreset: string | null;
+  history: PolicyVersionEntry[];
+  save: (formData: FormData) => Promise<void>;
+}) {
+  const [draft, setDraft] = useState<FundPolicyType>(initialPolicy);
+  const [preset, setPreset] = useState<string>(initialPreset ?? 'default');
+  const [changeNote, setChangeNote] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [saving, startTransition] = useTransition();
+
+  const validation = useMemo(() => FundPolicy.safeParse(draft), [draft]);
+  const issuesBySection = useMemo(() => {
+    const grouped: Record<string, string[]> = {};
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        const [section, ...rest] = issue.path.map(String);
+        if (section === 'custom_rules' && rest.length > 0) {
+          // Keyed per rule so errors render next to the rule they belong to
+          (grouped[`custom_rules.${rest[0]}`] ||= []).push(issue.message);
+          continue;
+        }
+        const label = rest.length > 0 ? `${humanize(rest.join('.'))}: ${issue.message}` : issue.message;
+        (grouped[section || 'policy'] ||= []).push(label);
+      }
+    }
+    return grouped;
+  }, [validation]);
+  const changes = useMemo(
+    () => (validation.success ? diffFundPolicies(getBasePolicy(preset), validation.data) : []),
+    [validation, preset]
+  );
+
+  // Versions are immutable, so a save must carry a version number that is not yet recorded
+  const versionTaken = history.some((entry) => entry.version === draft.policy_version);
+
+  function applyPreset(next: string) {
+    if (changes.length > 0 && !confirm('Replace the current draft with the selected preset?')) return;
+    setPreset(next);
+    setDraft(getBasePolicy(next));
+    setMessage('');
+    setError('');
+  }
+
+  function updateField(section: SectionKey, key: string, value: unknown) {
+    setDraft((prev) => ({ ...prev, [section]: { ...(prev[section] as Record<string, unknown>), [key]: value } }));
+    setMessage('');
+  }
+
+  function updateRule(index: number, patch: Partial<CustomRuleType>) {
+    setDraft((prev) => ({
+      ...prev,
+      custom_rules: prev.custom_rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)),
+    }));
+    setMessage('');
+  }
+
+  function addRule() {
+    setDraft((prev) => ({
+      ...prev,
+      custom_rules: [
+        ...prev.custom_rules,
+        { name: `Rule ${prev.custom_rules.length + 1}`, description: '', condition: '', action: 'flag', value: null },
+      ],
+    }));
+    setMessage('');
+  }
+
+  function removeRule(index: number) {
+    setDraft((prev) => ({ ...prev, custom_rules: prev.custom_rules.filter((_, i) => i !== index) }));
+    setMessage('');
+  }
+
+  function updateMeta(key: 'policy_name' | 'policy_version' | 'effective_date', value: string) {
+    setDraft((prev) => ({ ...prev, [key]: key === 'effective_date' && !value ? null : value }));
+    setMessage('');
+  }
+
+  function handleSave() {
+    if (!validation.success) {
+      setError('Fix validation errors before saving.');
+      return;
+    }
+    if (versionTaken) {
+      setError(`Version ${draft.policy_version} is already recorded. Bump the version to save changes.`);
+      return;
+    }
+    const formData = new FormData();
+    formData.append('policy', JSON.stringify(validation.data));
+    formData.append('policyPreset', changes.length === 0 && preset !== 'default' ? preset : '');
+    formData.append('changeNote', changeNote);
+    setError('');
+    startTransition(async () => {
+      try {
+        await save(formData);
+        setMessage(`Policy v${validation.data.policy_version} saved.`);
+        setChangeNote('');
+      } catch (err: any) {
+        setError(err?.message || 'Save failed');
+      }
+    });
+  }
+
+  function renderControl(section: SectionKey, key: string, control: FieldControl) {
+    const value = (draft[section] as Record<string, any>)[key];
+    switch (control.kind) {
+      case 'boolean':
+        return (
+          <input type="checkbox" checked={Boolean(value)} onChange={(e) => updateField(section, key, e.target.checked)} />
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            className="w-32"
+            value={value ?? ''}
+            min={control.min ?? undefined}
+            max={control.max ?? undefined}
+            step="any"
+            placeholder={control.nullable ? 'No limit' : undefined}
+            onChange={(e) =>
+              updateField(section, key, e.target.value === '' ? (control.nullable ? null : NaN) : Number(e.target.value))
+            }
+          />
+        );
+      case 'enum':
+        return (
+          <select value={value} onChange={(e) => updateField(section, key, e.target.value)}>
+            {control.options.map((option) => (
+              <option key={option} value={option}>{humanize(option)}</option>
+            ))}
+          </select>
+        );
+      case 'multi':
+        return (
+          <div className="flex flex-wrap gap-3">
+            {control.options.map((option) => (
+              <label key={option} className="flex items-center gap-1 text-xs text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={(value as string[]).includes(option)}
+                  onChange={(e) =>
+                    updateField(
+                      section,
+                      key,
+                      e.target.checked ? [...value, option] : (value as string[]).filter((v) => v !== option)
+                    )
+                  }
+                />
+                {humanize(option)}
+              </label>
+            ))}
+          </div>
+        );
+      case 'list':
+        return (
+          <input
+            className="w-48"
+            value={(value as string[]).join(', ')}
+            placeholder="FR, DE, NL"
+            onChange={(e) =>
+              updateField(
+                section,
+                key,
+                e.target.value.split(',').map((v) => v.trim()).filter(Boolean)
+              )
+            }
+          />
+        );
+    }
+  }
+
+  return (
+    <div className="card space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-xs uppercase text-slate-500">Fund</p>
+          <h2 className="text-xl font-semibold">{fundName}</h2>
+        </div>
+        <button type="button" className="btn-primary" onClick={handleSave} disabled={saving || !validation.success || versionTaken}>
+          {saving ? 'Saving…' : 'Save policy'}
+        </button>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-4">
+        <div className="space-y-1">
+          <label className="text-sm text-slate-600">Start from preset</label>
+          <select className="w-full" value={preset} onChange={(e) => applyPreset(e.target.value)}>
+            {Object.entries(PRESET_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-slate-600">Policy name</label>
+          <input className="w-full" value={draft.policy_name} onChange={(e) => updateMeta('policy_name', e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-slate-600">Version</label>
+          <input className="w-full" value={draft.policy_version} onChange={(e) => updateMeta('policy_version', e.target.value)} />
+          {versionTaken && <p className="text-xs text-amber-700">Already recorded — bump to save.</p>}
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm text-slate-600">Effective date</label>
+          <input
+            type="date"
+            className="w-full"
+            value={draft.effective_date ?? ''}
+            onChange={(e) => updateMeta('effective_date', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {SECTIONS.map((section) => (
+          <fieldset key={section.key} className="space-y-2 rounded-lg border border-slate-200 p-4">
+            <legend className="px-1 text-sm font-semibold text-slate-900">{section.title}</legend>
+            {Object.entries(section.schema.shape).map(([key, fieldSchema]) => (
+              <div key={key} className="flex items-center justify-between gap-3 text-sm">
+                <label className="text-slate-600">{humanize(key)}</label>
+                {renderControl(section.key, key, describeField(fieldSchema as z.ZodTypeAny))}
+              </div>
+            ))}
+            {(issuesBySection[section.key] || []).map((issue) => (
+              <p key={issue} className="text-xs text-rose-600">{issue}</p>
+            ))}
+          </fieldset>
+        ))}
+      </div>
+
+      <fieldset className="space-y-3 rounded-lg border border-slate-200 p-4">
+        <legend className="px-1 text-sm font-semibold text-slate-900">Custom rules</legend>
+        <p className="text-xs text-slate-500">
+          Conditions combine fact codes with <span className="font-mono">and / or / not</span>, comparisons and arithmetic,
+          e.g. <span className="font-mono">grid_reserved_mw_firm &lt; 0.8 * grid_target_import_mw and grid_deep_works_flag</span>.
+          A rule whose facts are not evidenced is treated as unknown; an unknown reject rule holds the deal.
+        </p>
+        {draft.custom_rules.map((rule, index) => (
+          <div key={index} className="space-y-2 rounded border border-slate-100 p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <input className="w-48" value={rule.name} placeholder="Rule name" onChange={(e) => updateRule(index, { name: e.target.value })} />
+              <select value={rule.action} onChange={(e) => updateRule(index, { action: e.target.value as CustomRuleType['action'] })}>
+                {['reject', 'flag', 'bonus', 'penalty'].map((action) => (
+                  <option key={action} value={action}>{humanize(action)}</option>
+                ))}
+              </select>
+              {(rule.action === 'bonus' || rule.action === 'penalty') && (
+                <input
+                  type="number"
+                  className="w-24"
+                  value={rule.value ?? ''}
+                  min={0}
+                  max={30}
+                  placeholder="Points"
+                  onChange={(e) => updateRule(index, { value: e.target.value === '' ? null : Number(e.target.value) })}
+                />
+              )}
+              <button type="button" className="text-xs text-rose-600" onClick={() => removeRule(index)}>Remove</button>
+            </div>
+            <textarea
+              className="w-full font-mono text-xs"
+              rows={2}
+              value={rule.condition}
+              placeholder="grid_title_level_0_5 >= 4 and not grid_interruptible_flag"
+              onChange={(e) => updateRule(index, { condition: e.target.value })}
+            />
+            <input
+              className="w-full text-xs"
+              value={rule.description}
+              placeholder="Why the IC wants this rule"
+              onChange={(e) => updateRule(index, { description: e.target.value })}
+            />
+            {(issuesBySection[`custom_rules.${index}`] || []).map((issue) => (
+              <p key={issue} className="text-xs text-rose-600">{issue}</p>
+            ))}
+          </div>
+        ))}
+        <button type="button" className="text-sm font-semibold text-brand" onClick={addRule}>Add rule</button>
+      </fieldset>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Changes vs {PRESET_LABELS[preset]}</h3>
+        {changes.length > 0 ? (
+          <ul className="space-y-1 text-xs text-slate-600">
+            {changes.map((change) => (
+              <li key={change.path} className="flex items-center gap-2">
+                <span className="font-mono text-slate-900">{change.path}</span>
+                <span>{formatValue(change.from)} → {formatValue(change.to)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500">
+            {validation.success ? 'No changes from the selected preset.' : 'Resolve validation errors to compare.'}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-sm text-slate-600">Change note</label>
+        <input
+          className="w-full"
+          value={changeNote}
+          placeholder="Why this version? Shown in the policy history."
+          onChange={(e) => setChangeNote(e.target.value)}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Version history</h3>
+        {history.length > 0 ? (
+          <ul className="space-y-1 text-xs text-slate-600">
+            {history.map((entry) => (
+              <li key={entry.id} className="flex flex-wrap items-center gap-2">
+                <span className="font-mono text-slate-900">v{entry.version}</span>
+                <span>effective {new Date(entry.effectiveDate).toLocaleDateString()}</span>
+                <span>· saved {new Date(entry.createdAt).toLocaleString()}{entry.authorName ? ` by ${entry.authorName}` : ''}</span>
+                {entry.changeNote && <span className="text-slate-500">— {entry.changeNote}</span>}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500">No versions recorded yet. The first save creates v{draft.policy_version}.</p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-rose-600">{error}</p>}
+      {message && <p className="text-sm text-emerald-700">{message}</p>}
+    </div>
+  );
+}
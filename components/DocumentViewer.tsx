@@ -0,0 +1,131 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { getSnippetSourceHref } from '@/lib/evidence-links';
+
+type Highlight = { page_number: number; char_start: number; char_end: number };
+
+type Preview = {
+  document: { id: string; name: string; mimeType: string };
+  pages: string[];
+  highlight: Highlight | null;
+};
+
+/**
+ * Dataroom document viewer. Shows the extracted text page by page with the cited
+ * passage highlighted and scrolled into view; PDFs can also be shown as the original file.
+ */
+export default function DocumentViewer({
+  documentId,
+  snippetId,
+  onClose,
+}: {
+  documentId: string;
+  snippetId?: string | null;
+  onClose: () => void;
+}) {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<'text' | 'original'>('text');
+  const highlightRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPreview(null);
+    setError('');
+    const query = snippetId ? `?snippet=${encodeURIComponent(snippetId)}` : '';
+    fetch(`/api/documents/${documentId}/preview${query}`)
+      .then(async (res) => {
+        const body = await res.json().catch(() => ({}));
+        if (cancelled) return;
+        if (res.ok) setPreview(body as Preview);
+        else setError(body.error || 'Preview failed');
+      })
+      .catch(() => !cancelled && setError('Preview failed'));
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, snippetId]);
+
+  useEffect(() => {
+    if (mode === 'text') highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [preview, mode]);
+
+  const highlight = preview?.highlight ?? null;
+  const isPdf = preview?.document.mimeType === 'application/pdf' || preview?.document.name.toLowerCase().endsWith('.pdf');
+  // Scans are shown next to their OCR text
+  const isImage = preview?.document.mimeType.startsWith('image/') ?? false;
+  const originalHref = getSnippetSourceHref({ fileId: documentId, fileName: null, pageNumber: highlight?.page_number ?? null });
+
+  function renderPage(text: string, pageNumber: number) {
+    if (!highlight || highlight.page_number !== pageNumber) return text;
+    return (
+      <>
+        {text.slice(0, highlight.char_start)}
+        <mark ref={highlightRef} className="rounded bg-amber-200 px-0.5">
+          {text.slice(highlight.char_start, highlight.char_end)}
+        </mark>
+        {text.slice(highlight.char_end)}
+      </>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-xl bg-white p-4 shadow-xl">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-xs text-slate-500">
+              {highlight ? `Cited passage on page ${highlight.page_number}` : snippetId ? 'Cited passage not found in the extracted text' : 'Document'}
+            </p>
+            <p className="font-semibold text-slate-900">{preview?.document.name || 'Loading…'}</p>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            {(isPdf || isImage) && (
+              <div className="flex gap-1 rounded-lg bg-slate-100 p-1 text-xs font-semibold">
+                {(['text', 'original'] as const).map((m) => (
+                  <button
+                    key={m}
+                    className={`rounded-md px-2 py-1 ${mode === m ? 'bg-white text-slate-900 shadow' : 'text-slate-500'}`}
+                    onClick={() => setMode(m)}
+                  >
+                    {m === 'text' ? 'Text' : isImage ? 'Original image' : 'Original PDF'}
+                  </button>
+                ))}
+              </div>
+            )}
+            <a className="text-brand" href={originalHref!} target="_blank" rel="noreferrer">
+              Open file
+            </a>
+            <button className="text-brand" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        <div className="mt-3 min-h-[50vh] flex-1 overflow-y-auto">
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+          {!error && !preview && <p className="text-sm text-slate-500">Loading document…</p>}
+          {preview && mode === 'original' && isImage && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img alt={preview.document.name} src={originalHref!} className="mx-auto max-h-[70vh] rounded-lg border border-slate-200" />
+          )}
+          {preview && mode === 'original' && !isImage && (
+            <iframe title={preview.document.name} src={originalHref!} className="h-[70vh] w-full rounded-lg border border-slate-200" />
+          )}
+          {preview && mode === 'text' && (
+            <div className="space-y-3">
+              {preview.pages.map((text, i) => (
+                <div key={i} className="rounded-lg border border-slate-200 p-3">
+                  {preview.pages.length > 1 && <p className="mb-2 text-xs font-semibold text-slate-500">Page {i + 1}</p>}
+                  <p className="whitespace-pre-wrap text-sm text-slate-700">{renderPage(text, i + 1)}</p>
+                </div>
+              ))}
+              {preview.pages.every((p) => !p.trim()) && (
+                <p className="text-sm text-slate-500">No text could be extracted; open the original file.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,17 +3,26 @@
  *
  * Evidence-first analysis pipeline that:
  * 1. Retrieves evidence snippets from vector store
- * 2. Extracts facts with citation integrity
+ * 2. Extracts facts with citation integrity, checking each value against its snippets
  * 3. Detects contradictions
  * 4. Runs scoring pipeline
  * 5. Produces full DD Contract v1 output
  */
 
+import type { Prisma } from '@prisma/client';
 import crypto from 'crypto';
 import { z } from 'zod';
-import { zodTextFormat } from 'openai/helpers/zod';
-import { openai, OPENAI_MODEL, getOpenAIReasoning, getModelInfo } from './openai';
+import { verifyFactCitations } from './citation-verifier';
+import { attachFactCandidates, detectContradictions } from './contradiction-detector';
+import { applyArtifactEvidenceTiers, applyArtifactRegisterTiers } from './document-classification';
+import { supersededFileIds } from './document-versions';
+import { type FactAssertion, applyFactAssertions, buildAnalystSnippet, carryForwardAssertions, toFactAssertion } from './fact-overrides';
+import { type FactOverride, applyFactOverrides, resolveFactCandidates } from './fact-resolution';
+import { type LLMProvider, type LLMSearchHit, getLLMProvider } from './llm-provider';
+import { type LocalIndexSearch, createLocalIndexSearch, getRetrievalBackend } from './local-index';
 import { prisma } from './prisma';
+import { readStoredFile } from './storage';
+import { loadDocumentPages, locateTextInPages } from './text-extraction';
 import {
   type DDContractV1,
   type EvidenceSnippet,
@@ -35,6 +44,7 @@ import {
   type FactDefinition,
 } from './fact-catalog-v1';
 import { runScoringPipeline } from './scoring-engine-v1';
+import { resolveCountryScoring } from './country-pack-scoring';
 import { sanitizeAllowedDomainsInput, normalizeUrlForClick } from './allowedDomains';
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -52,11 +62,92 @@ function createSnippetId(fileId: string | undefined, text: string): string {
   return crypto.createHash('sha256').update(`${fileId || 'unknown'}:${text}`).digest('hex');
 }
 
+type SourceDocument = {
+  id: string;
+  name: string;
+  path: string;
+  openaiFileId: string | null;
+  supersedesId: string | null;
+  supersededAt: Date | null;
+  textPages?: unknown;
+};
+
+/**
+ * Map snippets back to their DealDocument, page and character span.
+ * Local chunks carry their location; provider chunks are matched by openaiFileId
+ * and located in the page texts stored at ingestion.
+ */
+async function attachSnippetSources(snippets: EvidenceSnippet[], documents: SourceDocument[]): Promise<EvidenceSnippet[]> {
+  const pagesByDocument = new Map<string, Promise<string[] | null>>();
+  const loadPages = (doc: SourceDocument) => {
+    if (!pagesByDocument.has(doc.id)) {
+      pagesByDocument.set(doc.id, loadDocumentPages(doc, readStoredFile).catch(() => null));
+    }
+    return pagesByDocument.get(doc.id)!;
+  };
+
+  const located: EvidenceSnippet[] = [];
+  for (const snippet of snippets) {
+    if (snippet.source.deal_document_id) {
+      const attributes = snippet.metadata ?? {};
+      located.push({
+        ...snippet,
+        source: {
+          ...snippet.source,
+          page_number: attributes.page_number ?? null,
+          char_start: attributes.char_start ?? null,
+          char_end: attributes.char_end ?? null,
+        },
+      });
+      continue;
+    }
+
+    const doc = snippet.openai.file_id ? documents.find((d) => d.openaiFileId === snippet.openai.file_id) : undefined;
+    if (!doc) {
+      located.push(snippet);
+      continue;
+    }
+
+    const pages = await loadPages(doc);
+    const location = pages ? locateTextInPages(pages, snippet.text) : null;
+    located.push({
+      ...snippet,
+      source: {
+        ...snippet.source,
+        deal_document_id: doc.id,
+        page_number: location?.page_number ?? null,
+        char_start: location?.char_start ?? null,
+        char_end: location?.char_end ?? null,
+      },
+    });
+  }
+
+  return located;
+}
+
+/**
+ * Retrieve snippets from the deal's provider vector store, or from the local
+ * index when RETRIEVAL_BACKEND=local. Both yield the same EvidenceSnippet shape,
+ * mapped back to the source document and page. Superseded document versions are
+ * left out unless includeSuperseded is set.
+ */
 async function retrieveEvidenceSnippetsV1(
-  vectorStoreId: string | undefined
+  llm: LLMProvider,
+  deal: { id: string; openaiVectorStoreId: string | null; documents: SourceDocument[] },
+  includeSuperseded = false
 ): Promise<EvidenceSnippet[]> {
-  const openaiClient = openai as any;
-  if (!vectorStoreId || !openaiClient?.vectorStores?.search) return [];
+  const local = getRetrievalBackend() === 'local';
+  const vectorStoreId = local ? null : deal.openaiVectorStoreId;
+  if (!local && !vectorStoreId) return [];
+
+  // The provider's vector store still holds superseded files; drop their hits here
+  const excludedFileIds = includeSuperseded ? new Set<string>() : supersededFileIds(deal.documents);
+  // The local index is loaded on the first query and reused for the rest
+  let localIndex: Promise<LocalIndexSearch> | null = null;
+  const search = async (query: string): Promise<LLMSearchHit[]> =>
+    local
+      ? (await (localIndex ??= createLocalIndexSearch(deal.id, { includeSuperseded })))(query, 5)
+      : (await llm.search(vectorStoreId!, query, 5)).filter((hit) => !excludedFileIds.has(hit.file_id));
 
   const collected: EvidenceSnippet[] = [];
   const seen = new Set<string>();
@@ -65,17 +156,10 @@ async function retrieveEvidenceSnippetsV1(
   for (const [moduleKey, queries] of Object.entries(RETRIEVAL_QUERY_GROUPS)) {
     for (const query of queries) {
       try {
-        const search = await openaiClient.vectorStores.search({
-          vector_store_id: vectorStoreId,
-          query,
-          max_num_results: 5,
-        });
-
-        const results = (search?.data as any[]) || [];
+        const results = await search(query);
         for (const result of results) {
-          const chunks = (result.content || []).filter((c: any) => typeof c.text === 'string');
-          for (const chunk of chunks) {
-            const text = String(chunk.text || '').slice(0, SNIPPET_TEXT_LIMIT);
+          for (const chunk of result.chunks) {
+            const text = chunk.slice(0, SNIPPET_TEXT_LIMIT);
             if (!text) continue;
 
             const snippetId = createSnippetId(result.file_id, `${query}:${text}`);
@@ -86,18 +170,19 @@ async function retrieveEvidenceSnippetsV1(
               snippet_id: snippetId,
               text,
               source: {
-                deal_document_id: null,
-                file_name: result.filename || null,
+                // Local chunks are keyed by DealDocument; provider files are mapped below
+                deal_document_id: local ? result.file_id : null,
+                file_name: result.filename,
               },
               retrieval: {
                 query,
-                score: typeof result.score === 'number' ? result.score : null,
+                score: result.score,
               },
               openai: {
                 vector_store_id: vectorStoreId,
-                file_id: result.file_id || null,
+                file_id: local ? null : result.file_id,
               },
-              metadata: result.attributes || null,
+              metadata: result.attributes,
             });
           }
         }
@@ -107,9 +192,11 @@ async function retrieveEvidenceSnippetsV1(
     }
   }
 
-  return collected
+  const top = collected
     .sort((a, b) => (b.retrieval.score ?? 0) - (a.retrieval.score ?? 0) || a.snippet_id.localeCompare(b.snippet_id))
     .slice(0, SNIPPET_LIMIT);
+
+  return attachSnippetSources(top, deal.documents);
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -137,6 +224,15 @@ function buildFactExtractionSchema() {
       value: valueType,
       citations: z.array(z.string()),
       notes: z.string().nullable().optional(),
+      // Every distinct value the snippets state for the fact, the chosen one included
+      candidates: z
+        .array(
+          z.object({
+            value: valueType,
+            citations: z.array(z.string()),
+          })
+        )
+        .optional(),
     });
   }
 
@@ -181,7 +277,7 @@ function buildExtractionPrompt(snippets: EvidenceSnippet[]): string {
 1. ONLY use information directly stated in the snippets
 2. ALWAYS cite the snippet_id for every fact value
 3. If a fact is not evidenced, set value to null
-4. If you find conflicting values for the same fact, report them in contradictions
+4. If snippets state different values for the same fact, list every value with its citations in the fact's candidates and report the conflict in contradictions
 5. Note any artifact mentions (contracts, permits, agreements, etc.)
 
 ## Facts to extract:
@@ -194,6 +290,7 @@ Extract all facts with citations. Be precise and cite specific snippets.`;
 }
 
 async function extractFactsV1(
+  llm: LLMProvider,
   snippets: EvidenceSnippet[]
 ): Promise<{
   facts: Record<string, FactValue>;
@@ -206,7 +303,7 @@ async function extractFactsV1(
     facts[factDef.code] = createEmptyFactValue();
   }
 
-  if (snippets.length === 0 || !openai?.responses?.parse) {
+  if (snippets.length === 0) {
     return { facts, contradictions: [], artifactRegister: [] };
   }
 
@@ -215,33 +312,27 @@ async function extractFactsV1(
   const snippetIds = new Set(snippets.map((s) => s.snippet_id));
 
   try {
-    const response = await (openai as any).responses.parse({
-      model: OPENAI_MODEL,
-      temperature: 0,
-      reasoning: getOpenAIReasoning(),
-      input: [
-        {
-          role: 'system',
-          content:
-            'You are an evidence-first analyst. Only use the provided snippets as sources. ' +
-            'Cite snippet_ids for every fact. If no evidence exists, return null.',
-        },
-        { role: 'user', content: prompt },
-      ],
-      text: {
-        format: zodTextFormat(schema, 'dd_extraction'),
-      },
+    const parsed = await llm.extractStructured({
+      schema,
+      schemaName: 'dd_extraction',
+      system:
+        'You are an evidence-first analyst. Only use the provided snippets as sources. ' +
+        'Cite snippet_ids for every fact. If no evidence exists, return null.',
+      prompt,
     });
 
-    if (!response?.output_parsed) {
+    if (!parsed) {
       return { facts, contradictions: [], artifactRegister: [] };
     }
 
-    const parsed = response.output_parsed;
-
     // Process extracted facts with citation integrity
     for (const [code, extraction] of Object.entries(parsed.facts || {})) {
-      const ext = extraction as { value: any; citations: string[]; notes?: string | null };
+      const ext = extraction as {
+        value: any;
+        citations: string[];
+        notes?: string | null;
+        candidates?: { value: any; citations: string[] }[];
+      };
       const factDef = getFactByCode(code);
       if (!factDef) continue;
 
@@ -253,9 +344,12 @@ async function extractFactsV1(
           value: ext.value,
           unit: factDef.unit,
           citations: validCitations,
-          evidence_tier: 'OFFICIAL_UNSIGNED', // Default, can be upgraded based on artifact
+          evidence_tier: 'OFFICIAL_UNSIGNED', // Default until applyArtifactEvidenceTiers sees the cited documents
           source_artifact_types: factDef.expected_artifacts,
           notes: ext.notes ?? null,
+          candidates: (ext.candidates || [])
+            .map((c) => ({ value: c.value, citations: (c.citations || []).filter((cit) => snippetIds.has(cit)) }))
+            .filter((c) => c.value != null && c.citations.length > 0),
         };
       } else if (ext.value != null) {
         // Value without valid citation - null it out (citation integrity)
@@ -263,7 +357,7 @@ async function extractFactsV1(
       }
     }
 
-    // Process contradictions
+    // Process contradictions; detectContradictions grades them and adds its own
     const contradictions: Contradiction[] = (parsed.contradictions || []).map((c: any) => ({
       fact_code: c.fact_code,
       severity: 'MEDIUM' as const,
@@ -298,6 +392,7 @@ async function extractFactsV1(
 // ════════════════════════════════════════════════════════════════════════════
 
 async function fetchMarketContext(
+  llm: LLMProvider,
   country: string,
   allowedDomains: string[]
 ): Promise<MarketContext> {
@@ -314,11 +409,6 @@ async function fetchMarketContext(
     return { ...base, status: 'SKIPPED' };
   }
 
-  const openaiClient = openai as any;
-  if (!openaiClient?.responses?.create) {
-    return { ...base, status: 'FAILED' };
-  }
-
   const prompt = [
     `You are performing official-only market research for ${country}.`,
     'Only use government, regulator, system operator, or other official domains provided.',
@@ -332,25 +422,13 @@ async function fetchMarketContext(
   ].join('\n');
 
   try {
-    const reasoning = getOpenAIReasoning();
-    const response = await openaiClient.responses.create({
-      model: OPENAI_MODEL,
-      input: prompt,
-      ...(reasoning && { reasoning }),
-      tools: [{ type: 'web_search', filters: { allowed_domains: allowedDomains } }],
-      include: ['web_search_call.action.sources'],
-    });
-
-    if (!response) {
-      return { ...base, status: 'FAILED' };
-    }
-
-    const summary = extractTextFromResponse(response).trim();
-    if (!summary) {
+    const result = await llm.webSearch({ prompt, allowedDomains });
+    if (!result) {
       return { ...base, status: 'FAILED' };
     }
 
-    const sources = extractSourcesFromResponse(response)
+    const summary = result.text;
+    const sources = result.sources
       .map(normalizeUrlForClick)
       .filter(Boolean);
     const citations = extractCitationsFromSummary(summary, sources)
@@ -370,50 +448,6 @@ async function fetchMarketContext(
   }
 }
 
-function extractTextFromResponse(response: any): string {
-  if (!response) return '';
-  if (typeof response.output_text === 'string') return response.output_text;
-  const outputContent = (response.output || []).flatMap((o: any) => o?.content || []);
-  const textChunk = outputContent.find(
-    (c: any) => typeof c?.text === 'string' || typeof c?.output_text === 'string'
-  );
-  if (textChunk?.text) return textChunk.text;
-  if (textChunk?.output_text) return textChunk.output_text;
-  return '';
-}
-
-function collectSourcesFromValue(value: any, bucket: Set<string>): void {
-  if (!value) return;
-  if (typeof value === 'string') {
-    bucket.add(value);
-    return;
-  }
-  if (Array.isArray(value)) {
-    value.forEach((v) => collectSourcesFromValue(v, bucket));
-    return;
-  }
-  if (typeof value === 'object') {
-    collectSourcesFromValue(
-      (value as any).url || (value as any).link || (value as any).source || (value as any).href,
-      bucket
-    );
-  }
-}
-
-function extractSourcesFromResponse(response: any): string[] {
-  const sources = new Set<string>();
-  collectSourcesFromValue(response?.web_search_call?.action?.sources, sources);
-  const outputs = Array.isArray(response?.output) ? response.output : [];
-  outputs.forEach((item: any) => {
-    collectSourcesFromValue(item?.web_search_call?.action?.sources, sources);
-    const content = Array.isArray(item?.content) ? item.content : [];
-    content.forEach((c: any) =>
-      collectSourcesFromValue(c?.web_search_call?.action?.sources, sources)
-    );
-  });
-  return Array.from(sources.values()).filter(Boolean);
-}
-
 function extractCitationsFromSummary(summary: string, sources: string[]): string[] {
   const matches = Array.from(summary.matchAll(/\[(\d+)\]/g));
   const indices = Array.from(new Set(matches.map((m) => Number(m[1]))));
@@ -430,36 +464,107 @@ export interface RunAnalysisV1Options {
   organizationId: string;
   includeMarketContext?: boolean;
   fundPolicy?: FundPolicySnapshot;
+  /** FundPolicyVersion the snapshot was taken from; null for funds without version history */
+  policyVersionId?: string | null;
+  /** Also retrieve from superseded document versions (off by default) */
+  includeSuperseded?: boolean;
+  /** ANALYSIS_RUN job running the analysis, stored on the run */
+  jobId?: string | null;
+  /** Called as the run moves through its stages, e.g. to report job progress */
+  onStage?: (stage: AnalysisStage) => Promise<void> | void;
 }
 
+/**
+ * AnalysisEvidenceSnippet row for a contract snippet
+ */
+function toEvidenceSnippetRow(analysisRunId: string, s: EvidenceSnippet) {
+  return {
+    analysisRunId,
+    snippetId: s.snippet_id,
+    text: s.text,
+    fileId: s.source.deal_document_id,
+    fileName: s.source.file_name,
+    pageNumber: s.source.page_number ?? null,
+    charStart: s.source.char_start ?? null,
+    charEnd: s.source.char_end ?? null,
+    openaiFileId: s.openai.file_id,
+    openaiVectorStoreId: s.openai.vector_store_id,
+    score: s.retrieval.score,
+    metadata: s.metadata,
+  };
+}
+
+export type AnalysisStage = 'retrieving' | 'extracting' | 'scoring';
+
 export async function runAnalysisPipelineV1(
   options: RunAnalysisV1Options
-): Promise<DDContractV1> {
-  const { dealId, userId, organizationId, includeMarketContext = false, fundPolicy } = options;
+): Promise<{ runId: string; ddContract: DDContractV1 }> {
+  const {
+    dealId,
+    userId,
+    organizationId,
+    includeMarketContext = false,
+    fundPolicy,
+    policyVersionId = null,
+    includeSuperseded = false,
+    jobId = null,
+    onStage,
+  } = options;
 
   // Fetch deal with relations
   const deal = await prisma.deal.findUnique({
     where: { id: dealId },
     include: {
       fund: { include: { organization: { include: { countryPacks: true } } } },
-      documents: true,
+      documents: { include: { classifications: true } },
     },
   });
 
   if (!deal) throw new Error('Deal not found');
   if (deal.fund.organizationId !== organizationId) throw new Error('Forbidden');
 
-  const modelInfo = getModelInfo();
+  const llm = await getLLMProvider();
+  const modelInfo = llm.getModelInfo();
   const effectivePolicy = fundPolicy ?? createDefaultFundPolicy();
 
+  // Resolve country overrides before any retrieval so an invalid pack fails fast
+  const countryPack = deal.fund.organization.countryPacks.find(
+    (p) => p.countryCode.toLowerCase() === deal.country.toLowerCase()
+  );
+  const country = resolveCountryScoring(deal.country, countryPack ?? null);
+
   // 1. Retrieve evidence snippets
-  const snippets = await retrieveEvidenceSnippetsV1(deal.openaiVectorStoreId || undefined);
+  await onStage?.('retrieving');
+  const snippets = await retrieveEvidenceSnippetsV1(llm, deal, includeSuperseded);
 
   // 2. Extract facts with citation integrity
-  const { facts, contradictions, artifactRegister } = await extractFactsV1(snippets);
+  await onStage?.('extracting');
+  const extraction = await extractFactsV1(llm, snippets);
+
+  // Read every cited snippet for competing values and pick each fact's winner
+  const candidateFacts = attachFactCandidates(extraction.facts, snippets, extraction.contradictions);
+  const resolvedFacts = resolveFactCandidates(candidateFacts, snippets, deal.documents, extraction.artifactRegister);
+
+  // Evidence tiers follow the classification and source of the cited documents
+  const tieredFacts = applyArtifactEvidenceTiers(resolvedFacts, snippets, deal.documents, extraction.artifactRegister);
+  const artifactRegister = applyArtifactRegisterTiers(extraction.artifactRegister, snippets, deal.documents);
+  // The cited snippets must state each value; unsupported facts are nulled or downgraded
+  const verified = verifyFactCitations(tieredFacts, snippets);
+  const detected = detectContradictions(verified.facts, extraction.contradictions);
+
+  // Carry the deal's analyst overrides forward unless newer documents contradict them
+  const overrides = await prisma.factOverride.findMany({
+    where: { dealId: deal.id, status: 'ACTIVE' },
+    include: { document: true },
+  });
+  const carried = carryForwardAssertions(verified.facts, overrides.map(toFactAssertion), snippets, deal.documents);
+  const facts = carried.facts;
+  const evidenceSnippets = [...snippets, ...carried.snippets];
+  const contradictions = [...detected.contradictions, ...carried.contradictions];
 
   // 3. Run scoring pipeline
-  const scoring = runScoringPipeline(facts, effectivePolicy);
+  await onStage?.('scoring');
+  const scoring = runScoringPipeline(facts, effectivePolicy, { contradictions, country });
 
   // 4. Fetch market context if requested
   let marketContext: MarketContext = {
@@ -472,11 +577,8 @@ export async function runAnalysisPipelineV1(
   };
 
   if (includeMarketContext) {
-    const countryPack = deal.fund.organization.countryPacks.find(
-      (p) => p.countryCode.toLowerCase() === deal.country.toLowerCase()
-    );
     const allowedDomains = sanitizeAllowedDomainsInput(countryPack?.allowedDomains || []).sanitized;
-    marketContext = await fetchMarketContext(deal.country, allowedDomains);
+    marketContext = await fetchMarketContext(llm, deal.country, allowedDomains);
   }
 
   // 5. Build DD Contract V1 output
@@ -501,83 +603,288 @@ export async function runAnalysisPipelineV1(
       product_type: deal.productType,
     },
     deal_evidence: {
-      evidence_snippets: snippets,
+      evidence_snippets: evidenceSnippets,
       facts,
       artifact_register: artifactRegister,
       contradictions,
+      citation_mismatches: verified.mismatches,
     },
     scoring: {
       hard_gate_result: scoring.hardGateResult,
       module_scorecard: scoring.moduleScorecard,
       overall: scoring.overallScore,
       energisation: scoring.energisation,
+      custom_rules: scoring.customRules,
+      country_overrides: scoring.countryOverrides,
     },
     underwriting_tape: scoring.underwritingTape,
     checklist: scoring.checklist,
     market_context: marketContext,
   };
 
-  // 6. Persist to database
-  const run = await prisma.analysisRun.create({
-    data: {
-      dealId: deal.id,
-      executedById: userId,
-      evidence: { snippets: snippets.length, factCount: Object.keys(facts).length },
-      scorecard: scoring.moduleScorecard,
-      summary: scoring.overallScore.executive_summary,
-      checklist: scoring.checklist,
-      marketResearch: marketContext.included ? marketContext : undefined,
-      marketResearchIncluded: marketContext.included,
-      status: 'SUCCESS',
-      errorMessage: null,
-      modelUsed: modelInfo.model,
-      reasoningEffort: modelInfo.reasoningEffort,
-      // Store full DD Contract V1 output
-      ddOntology: ddContract,
-      moduleScores: scoring.moduleScorecard,
-      contradictions: contradictions,
-      redFlags: scoring.checklist.filter((c) => c.priority === 'CRITICAL'),
-      energizationProbability: scoring.energisation,
-      policyEvaluation: scoring.hardGateResult,
-      underwritingTape: scoring.underwritingTape,
+  // 6. Persist the run, its snippets, flagged overrides and the audit entry together,
+  // so a retried job finds either a complete run or none
+  const run = await prisma.$transaction(async (tx) => {
+    const created = await tx.analysisRun.create({
+      data: {
+        dealId: deal.id,
+        executedById: userId,
+        evidence: {
+          snippets: snippets.length,
+          factCount: Object.keys(facts).length,
+          citationMismatches: verified.mismatches.length,
+        },
+        scorecard: scoring.moduleScorecard,
+        summary: scoring.overallScore.executive_summary,
+        checklist: scoring.checklist,
+        marketResearch: marketContext.included ? marketContext : undefined,
+        marketResearchIncluded: marketContext.included,
+        status: 'SUCCESS',
+        errorMessage: null,
+        modelUsed: modelInfo.model,
+        reasoningEffort: modelInfo.reasoningEffort,
+        // Store full DD Contract V1 output
+        ddOntology: ddContract,
+        moduleScores: scoring.moduleScorecard,
+        contradictions: contradictions,
+        redFlags: scoring.checklist.filter((c) => c.priority === 'CRITICAL'),
+        energizationProbability: scoring.energisation,
+        policyEvaluation: scoring.hardGateResult,
+        underwritingTape: scoring.underwritingTape,
+        policyVersionId,
+        jobId,
+      },
+    });
+
+    // 7. Persist evidence snippets
+    if (evidenceSnippets.length > 0) {
+      await tx.analysisEvidenceSnippet.createMany({
+        data: evidenceSnippets.map((s) => toEvidenceSnippetRow(created.id, s)),
+        skipDuplicates: true,
+      });
+    }
+
+    // 8. Flag overrides the new evidence contradicts; they no longer carry forward
+    for (const { assertion, reason } of carried.flagged) {
+      await tx.factOverride.update({
+        where: { id: assertion.override_id },
+        data: { status: 'FLAGGED', flagReason: reason, flaggedRunId: created.id },
+      });
+    }
+
+    // 9. Audit log
+    await tx.auditLog.create({
+      data: {
+        action: 'ANALYSIS_RUN_V1',
+        metadata: {
+          dealId: deal.id,
+          runId: created.id,
+          contractVersion: CONTRACT_VERSION,
+          fundPolicyVersion: effectivePolicy.policy_version,
+          hardGateDecision: scoring.hardGateResult.decision,
+          overallScore: scoring.overallScore.score_0_100,
+          factOverridesApplied: carried.applied.map((a) => a.fact_code),
+          factOverridesFlagged: carried.flagged.map((f) => f.assertion.fact_code),
+          citationMismatches: verified.mismatches.map((m) => m.fact_code),
+        },
+        userId,
+        organizationId,
+      },
+    });
+    return created;
+  });
+
+  return { runId: run.id, ddContract };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// OFFLINE RE-SCORE
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface RescoreAnalysisV1Options {
+  parentRunId: string;
+  userId: string;
+  organizationId: string;
+  fundPolicy: FundPolicySnapshot;
+  /** FundPolicyVersion the snapshot was taken from; null for draft or unversioned policies */
+  policyVersionId?: string | null;
+  /** Analyst picks among a fact's candidates, applied before scoring */
+  factOverrides?: FactOverride[];
+  /** Analyst-asserted values (lib/fact-overrides.ts), applied after the picks */
+  factAssertions?: FactAssertion[];
+  /** Transaction to read and write in, so the caller's own writes commit with the child run;
+   * without one the child run, its snippets and the audit entry get a transaction of their own */
+  db?: Prisma.TransactionClient;
+}
+
+/**
+ * Re-score a stored v1 run's facts under another policy.
+ * Produces a new AnalysisRun linked to the parent; no retrieval or extraction calls.
+ * Overrides already on the parent's facts are carried over with them.
+ */
+export async function rescoreAnalysisRunV1(
+  options: RescoreAnalysisV1Options
+): Promise<{ runId: string; ddContract: DDContractV1 }> {
+  const {
+    parentRunId,
+    userId,
+    organizationId,
+    fundPolicy,
+    policyVersionId = null,
+    factOverrides = [],
+    factAssertions = [],
+    db,
+  } = options;
+
+  const parent = await (db ?? prisma).analysisRun.findUnique({
+    where: { id: parentRunId },
+    include: {
+      deal: { include: { fund: { include: { organization: { include: { countryPacks: true } } } } } },
+      evidenceSnippets: true,
     },
   });
 
-  // 7. Persist evidence snippets
-  if (snippets.length > 0) {
-    await prisma.analysisEvidenceSnippet.createMany({
-      data: snippets.map((s) => ({
-        analysisRunId: run.id,
-        snippetId: s.snippet_id,
-        text: s.text,
-        fileId: s.source.deal_document_id,
-        fileName: s.source.file_name,
-        openaiFileId: s.openai.file_id,
-        openaiVectorStoreId: s.openai.vector_store_id,
-        score: s.retrieval.score,
-        metadata: s.metadata,
-      })),
-      skipDuplicates: true,
-    });
+  if (!parent) throw new Error('Analysis run not found');
+  if (parent.deal.fund.organizationId !== organizationId) throw new Error('Forbidden');
+
+  const source = parent.ddOntology as DDContractV1 | null;
+  if (parent.status !== 'SUCCESS' || !source?.deal_evidence?.facts) {
+    throw new Error('Run has no stored DD Contract v1 facts to re-score');
   }
 
-  // 8. Audit log
-  await prisma.auditLog.create({
-    data: {
-      action: 'ANALYSIS_RUN_V1',
-      metadata: {
-        dealId: deal.id,
-        runId: run.id,
-        contractVersion: CONTRACT_VERSION,
-        hardGateDecision: scoring.hardGateResult.decision,
-        overallScore: scoring.overallScore.score_0_100,
-      },
-      userId,
-      organizationId,
-    },
+  // 1. Re-run the pure scoring pipeline on the stored facts and any new overrides
+  const facts = applyFactAssertions(
+    applyFactOverrides(source.deal_evidence.facts as Record<string, FactValue>, factOverrides),
+    factAssertions
+  );
+  const analystSnippets = factAssertions.map(buildAnalystSnippet).filter((s): s is EvidenceSnippet => s != null);
+  const replacedSnippetIds = new Set(analystSnippets.map((s) => s.snippet_id));
+  const countryPack = parent.deal.fund.organization.countryPacks.find(
+    (p) => p.countryCode.toLowerCase() === parent.deal.country.toLowerCase()
+  );
+  // Timeline gates count from the parent run's time, so only the policy and overrides change the outcome
+  const scoring = runScoringPipeline(facts, fundPolicy, {
+    contradictions: source.deal_evidence.contradictions,
+    country: resolveCountryScoring(parent.deal.country, countryPack ?? null),
+    asOf: parent.createdAt,
   });
 
-  return ddContract;
+  // 2. Evidence and market context are carried over from the parent
+  const ddContract: DDContractV1 = {
+    ...source,
+    deal_evidence: {
+      ...source.deal_evidence,
+      evidence_snippets: [
+        ...source.deal_evidence.evidence_snippets.filter((s) => !replacedSnippetIds.has(s.snippet_id)),
+        ...analystSnippets,
+      ],
+      facts,
+    },
+    run_meta: {
+      ...source.run_meta,
+      created_at: new Date().toISOString(),
+      status: 'SUCCESS',
+      error_message: null,
+      parent_run_id: parent.id,
+    },
+    fund_policy_snapshot: fundPolicy,
+    scoring: {
+      hard_gate_result: scoring.hardGateResult,
+      module_scorecard: scoring.moduleScorecard,
+      overall: scoring.overallScore,
+      energisation: scoring.energisation,
+      custom_rules: scoring.customRules,
+      country_overrides: scoring.countryOverrides,
+    },
+    underwriting_tape: scoring.underwritingTape,
+    checklist: scoring.checklist,
+  };
+
+  // 3. Persist as a child run, with its snippets and the audit entry
+  const persist = async (tx: Prisma.TransactionClient) => {
+    const run = await tx.analysisRun.create({
+      data: {
+        dealId: parent.dealId,
+        executedById: userId,
+        evidence: {
+          snippets: parent.evidenceSnippets.length,
+          factCount: Object.keys(facts).length,
+          rescoredFrom: parent.id,
+        },
+        scorecard: scoring.moduleScorecard,
+        summary: scoring.overallScore.executive_summary,
+        checklist: scoring.checklist,
+        marketResearch: parent.marketResearch ?? undefined,
+        marketResearchIncluded: parent.marketResearchIncluded,
+        status: 'SUCCESS',
+        errorMessage: null,
+        modelUsed: parent.modelUsed,
+        reasoningEffort: parent.reasoningEffort,
+        ddOntology: ddContract,
+        moduleScores: scoring.moduleScorecard,
+        contradictions: source.deal_evidence.contradictions,
+        redFlags: scoring.checklist.filter((c) => c.priority === 'CRITICAL'),
+        energizationProbability: scoring.energisation,
+        policyEvaluation: scoring.hardGateResult,
+        underwritingTape: scoring.underwritingTape,
+        policyVersionId,
+        parentRunId: parent.id,
+      },
+    });
+
+    // 4. Copy evidence snippets so citations resolve on the child run; a re-asserted
+    // override replaces its earlier citation
+    const copiedSnippets = parent.evidenceSnippets.filter((s) => !replacedSnippetIds.has(s.snippetId));
+    if (copiedSnippets.length > 0) {
+      await tx.analysisEvidenceSnippet.createMany({
+        data: copiedSnippets.map((s) => ({
+          analysisRunId: run.id,
+          snippetId: s.snippetId,
+          text: s.text,
+          fileId: s.fileId,
+          fileName: s.fileName,
+          pageNumber: s.pageNumber,
+          charStart: s.charStart,
+          charEnd: s.charEnd,
+          openaiFileId: s.openaiFileId,
+          openaiVectorStoreId: s.openaiVectorStoreId,
+          score: s.score,
+          metadata: s.metadata ?? undefined,
+        })),
+        skipDuplicates: true,
+      });
+    }
+    if (analystSnippets.length > 0) {
+      await tx.analysisEvidenceSnippet.createMany({
+        data: analystSnippets.map((s) => toEvidenceSnippetRow(run.id, s)),
+        skipDuplicates: true,
+      });
+    }
+
+    // 5. Audit log
+    await tx.auditLog.create({
+      data: {
+        action: 'ANALYSIS_RESCORE_V1',
+        metadata: {
+          dealId: parent.dealId,
+          runId: run.id,
+          parentRunId: parent.id,
+          fundPolicyVersion: fundPolicy.policy_version,
+          previousDecision: source.scoring.hard_gate_result.decision,
+          hardGateDecision: scoring.hardGateResult.decision,
+          overallScore: scoring.overallScore.score_0_100,
+          factOverrides: factOverrides.map((o) => ({ factCode: o.fact_code, value: o.value, reason: o.reason })),
+          factAssertions: factAssertions.map((a) => ({ factCode: a.fact_code, value: a.value, overrideId: a.override_id })),
+        },
+        userId,
+        organizationId,
+      },
+    });
+    return run;
+  };
+  const run = db ? await persist(db) : await prisma.$transaction(persist);
+
+  return { runId: run.id, ddContract };
 }
 
 // ════════════════════════════════════════════════════════════════════════════
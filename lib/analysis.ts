@@ -1,8 +1,8 @@
 import crypto from 'crypto';
 import { z } from 'zod';
-import { zodTextFormat } from 'openai/helpers/zod';
 import { sanitizeAllowedDomainsInput, normalizeUrlForClick } from './allowedDomains';
-import { openai, OPENAI_MODEL, getOpenAIReasoning, getModelInfo } from './openai';
+import { supersededFileIds } from './document-versions';
+import { type LLMProvider, getLLMProvider } from './llm-provider';
 import { prisma } from './prisma';
 
 type MarketResearch =
@@ -110,28 +110,22 @@ export function createSnippetId(fileId: string | undefined, text: string) {
   return crypto.createHash('sha256').update(`${fileId || 'unknown'}:${text}`).digest('hex');
 }
 
-async function retrieveEvidenceSnippets(vectorStoreId?: string): Promise<EvidenceSnippet[]> {
-  const openaiClient = openai as any;
-  if (!vectorStoreId || !openaiClient?.vectorStores?.search) return [];
+async function retrieveEvidenceSnippets(
+  llm: LLMProvider,
+  vectorStoreId?: string,
+  excludedFileIds: Set<string> = new Set()
+): Promise<EvidenceSnippet[]> {
+  if (!vectorStoreId) return [];
 
   const collected: EvidenceSnippet[] = [];
   const seen = new Set<string>();
 
   for (const query of RETRIEVAL_QUERIES) {
-    // Correct signature per OpenAI API docs: object parameter with vector_store_id
-    const search = await openaiClient.vectorStores
-      .search({
-        vector_store_id: vectorStoreId,
-        query,
-        max_num_results: 5,
-      })
-      .catch(() => ({ data: [] }));
-
-    const results = (search?.data as any[]) || [];
+    const results = await llm.search(vectorStoreId, query, 5).catch(() => []);
     for (const result of results) {
-      const chunks = (result.content || []).filter((c: any) => typeof c.text === 'string');
-      for (const chunk of chunks) {
-        const text = String(chunk.text || '').slice(0, SNIPPET_TEXT_LIMIT);
+      if (excludedFileIds.has(result.file_id)) continue;
+      for (const chunk of result.chunks) {
+        const text = chunk.slice(0, SNIPPET_TEXT_LIMIT);
         if (!text) continue;
         const snippetId = createSnippetId(result.file_id, `${query}:${text}`);
         if (seen.has(snippetId)) continue;
@@ -139,12 +133,12 @@ async function retrieveEvidenceSnippets(vectorStoreId?: string): Promise<Evidenc
         collected.push({
           snippetId,
           text,
-          fileId: result.file_id,
-          openaiFileId: result.file_id,
+          fileId: result.file_id ?? undefined,
+          openaiFileId: result.file_id ?? undefined,
           openaiVectorStoreId: vectorStoreId,
-          fileName: result.filename,
-          score: typeof result.score === 'number' ? result.score : undefined,
-          metadata: result.attributes,
+          fileName: result.filename ?? undefined,
+          score: result.score ?? undefined,
+          metadata: result.attributes ?? undefined,
         });
       }
     }
@@ -165,8 +159,8 @@ function buildPromptFromSnippets(snippets: EvidenceSnippet[]) {
   ].join('\n\n');
 }
 
-async function extractFacts(snippets: EvidenceSnippet[]) {
-  if (!openai?.responses?.parse || snippets.length === 0) {
+async function extractFacts(llm: LLMProvider, snippets: EvidenceSnippet[]) {
+  if (snippets.length === 0) {
     return { extracted_facts: DEFAULT_FACTS, checks: [{ priority: 'High', question: 'Provide evidence for grid connection and capacity.', why: 'No snippets retrieved', requested_artifact: 'Grid contract' }] };
   }
 
@@ -182,33 +176,12 @@ async function extractFacts(snippets: EvidenceSnippet[]) {
 
   const userPrompt = buildPromptFromSnippets(snippets);
 
-  // Use responses.parse with proper text format and reasoning (for GPT-5.x)
-  const response = await (openai as any).responses
-    .parse({
-      model: OPENAI_MODEL,
-      temperature: 0,
-      reasoning: getOpenAIReasoning(), // undefined for GPT-4.x, { effort: 'high' } for GPT-5.x
-      input: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      text: {
-        format: zodTextFormat(schema, 'evidence_payload'),
-      },
-    })
+  const parsed = await llm
+    .extractStructured({ schema, schemaName: 'evidence_payload', system: systemPrompt, prompt: userPrompt })
     .catch(() => null);
 
-  if (!response) {
-    return { extracted_facts: DEFAULT_FACTS, checks: [{ priority: 'High', question: 'Share substantiation for grid connection and permits.', why: 'OpenAI extraction failed', requested_artifact: 'Grid + permits' }] };
-  }
-
-  // responses.parse returns output_parsed directly typed/validated
-  let parsed: z.infer<typeof schema>;
-  if (response.output_parsed) {
-    parsed = response.output_parsed as z.infer<typeof schema>;
-  } else {
-    const text = response.output_text || extractTextFromResponse(response);
-    parsed = schema.parse(JSON.parse(text));
+  if (!parsed) {
+    return { extracted_facts: DEFAULT_FACTS, checks: [{ priority: 'High', question: 'Share substantiation for grid connection and permits.', why: 'Model extraction failed', requested_artifact: 'Grid + permits' }] };
   }
 
   const snippetIds = new Set(snippets.map((s) => s.snippetId));
@@ -239,58 +212,22 @@ async function extractFacts(snippets: EvidenceSnippet[]) {
   return { extracted_facts: normalizedFacts, checks: parsed.checks.concat(missingCitations) };
 }
 
-function extractTextFromResponse(response: any) {
-  if (!response) return '';
-  if (typeof response.output_text === 'string') return response.output_text;
-  const outputContent = (response.output || []).flatMap((o: any) => o?.content || []);
-  const textChunk = outputContent.find((c: any) => typeof c?.text === 'string' || typeof c?.output_text === 'string');
-  if (textChunk?.text) return textChunk.text;
-  if (textChunk?.output_text) return textChunk.output_text;
-  return '';
-}
-
-function collectSourcesFromValue(value: any, bucket: Set<string>) {
-  if (!value) return;
-  if (typeof value === 'string') {
-    bucket.add(value);
-    return;
-  }
-  if (Array.isArray(value)) {
-    value.forEach((v) => collectSourcesFromValue(v, bucket));
-    return;
-  }
-  if (typeof value === 'object') {
-    collectSourcesFromValue((value as any).url || (value as any).link || (value as any).source || (value as any).href, bucket);
-  }
-}
-
-function extractSourcesFromResponse(response: any): string[] {
-  const sources = new Set<string>();
-  collectSourcesFromValue(response?.web_search_call?.action?.sources, sources);
-  const outputs = Array.isArray(response?.output) ? response.output : [];
-  outputs.forEach((item: any) => {
-    collectSourcesFromValue(item?.web_search_call?.action?.sources, sources);
-    const content = Array.isArray(item?.content) ? item.content : [];
-    content.forEach((c: any) => collectSourcesFromValue(c?.web_search_call?.action?.sources, sources));
-  });
-  return Array.from(sources.values()).filter(Boolean);
-}
-
 function extractCitationsFromSummary(summary: string, sources: string[]) {
   const matches = Array.from(summary.matchAll(/\[(\d+)\]/g));
   const indices = Array.from(new Set(matches.map((m) => Number(m[1]))));
   return indices.map((idx) => sources[idx - 1]).filter(Boolean);
 }
 
-async function runMarketResearch({
-  country,
-  allowedDomains,
-}: {
-  country: string;
-  allowedDomains: string[];
-}): Promise<MarketResearch | null> {
-  const openaiClient = openai as any;
-  if (!openaiClient?.responses?.create) return null;
+async function runMarketResearch(
+  llm: LLMProvider,
+  {
+    country,
+    allowedDomains,
+  }: {
+    country: string;
+    allowedDomains: string[];
+  }
+): Promise<MarketResearch | null> {
   if (!allowedDomains || allowedDomains.length === 0) return null;
 
   const prompt = [
@@ -301,24 +238,11 @@ async function runMarketResearch({
     'Cite sources inline using [1], [2] etc. Ensure citations map to the sources you consulted.',
   ].join('\n');
 
-  // Use reasoning for GPT-5.x models
-  const reasoning = getOpenAIReasoning();
-
-  const response = await openaiClient.responses
-    .create({
-      model: OPENAI_MODEL,
-      input: prompt,
-      ...(reasoning && { reasoning }),
-      tools: [{ type: 'web_search', filters: { allowed_domains: allowedDomains } }],
-      include: ['web_search_call.action.sources'],
-    })
-    .catch(() => null);
-
-  if (!response) return null;
+  const result = await llm.webSearch({ prompt, allowedDomains }).catch(() => null);
+  if (!result) return null;
 
-  const summary = extractTextFromResponse(response).trim();
-  if (!summary) return null;
-  const sources = extractSourcesFromResponse(response).map(normalizeUrlForClick).filter(Boolean);
+  const summary = result.text;
+  const sources = result.sources.map(normalizeUrlForClick).filter(Boolean);
   const citations = extractCitationsFromSummary(summary, sources).map(normalizeUrlForClick).filter(Boolean);
 
   return { status: 'COMPLETED', summary, sources, citations };
@@ -329,11 +253,14 @@ export async function runDeterministicAnalysis({
   userId,
   organizationId,
   includeMarketResearch = false,
+  jobId = null,
 }: {
   dealId: string;
   userId: string;
   organizationId: string;
   includeMarketResearch?: boolean;
+  /** ANALYSIS_RUN job running the analysis, stored on the run */
+  jobId?: string | null;
 }) {
   const deal = await prisma.deal.findUnique({
     where: { id: dealId },
@@ -345,8 +272,10 @@ export async function runDeterministicAnalysis({
   if (!deal) throw new Error('Deal not found');
   if (deal.fund.organizationId !== organizationId) throw new Error('Forbidden');
 
-  const snippets = await retrieveEvidenceSnippets(deal.openaiVectorStoreId || undefined);
-  const evidence = await extractFacts(snippets);
+  const llm = await getLLMProvider();
+  // Superseded document versions stay in the vector store but are not cited
+  const snippets = await retrieveEvidenceSnippets(llm, deal.openaiVectorStoreId || undefined, supersededFileIds(deal.documents));
+  const evidence = await extractFacts(llm, snippets);
   let checklist = buildChecklist(evidence.extracted_facts, evidence.checks);
   const scorecard = buildScorecard(evidence.extracted_facts);
 
@@ -368,7 +297,7 @@ export async function runDeterministicAnalysis({
       });
     } else {
       marketResearch =
-        (await runMarketResearch({ country: deal.country, allowedDomains }).catch(() => null)) ??
+        (await runMarketResearch(llm, { country: deal.country, allowedDomains }).catch(() => null)) ??
         ({ status: 'FAILED', reason: 'Market research unavailable' } as MarketResearch);
     }
   }
@@ -378,50 +307,56 @@ export async function runDeterministicAnalysis({
   const summary = `Evidence-led view: ${scorecard.filter((s) => s.status === ScoreStatusValues.VERIFIED).length} verified, ${scorecard.filter((s) => s.status === ScoreStatusValues.UNKNOWN).length} unknown. Energization confidence: ${confidence}%`;
 
   // Get model info for audit trail
-  const modelInfo = getModelInfo();
-
-  const run = await prisma.analysisRun.create({
-    data: {
-      dealId: deal.id,
-      executedById: userId,
-      evidence: evidenceSchema.parse(evidence),
-      scorecard: scorecardSchema.parse(scorecard),
-      summary,
-      checklist: checklistSchema.parse(checklist),
-      marketResearch: marketResearch || undefined,
-      marketResearchIncluded: Boolean(includeMarketResearch),
-      status: 'SUCCESS',
-      errorMessage: null,
-      modelUsed: modelInfo.model,
-      reasoningEffort: modelInfo.reasoningEffort,
-    },
-  });
-
-  if (snippets.length > 0) {
-    await prisma.analysisEvidenceSnippet.createMany({
-      data: snippets.map((s) => ({
-        analysisRunId: run.id,
-        snippetId: s.snippetId,
-        text: s.text,
-        fileId: s.fileId,
-        fileName: s.fileName,
-        openaiFileId: s.openaiFileId,
-        openaiDocumentId: s.openaiDocumentId,
-        openaiVectorStoreId: s.openaiVectorStoreId,
-        score: s.score,
-        metadata: s.metadata,
-      })),
-      skipDuplicates: true,
+  const modelInfo = llm.getModelInfo();
+
+  // The run, its snippets and the audit entry are stored together, so a retried job
+  // finds either a complete run or none
+  const run = await prisma.$transaction(async (tx) => {
+    const created = await tx.analysisRun.create({
+      data: {
+        dealId: deal.id,
+        executedById: userId,
+        evidence: evidenceSchema.parse(evidence),
+        scorecard: scorecardSchema.parse(scorecard),
+        summary,
+        checklist: checklistSchema.parse(checklist),
+        marketResearch: marketResearch || undefined,
+        marketResearchIncluded: Boolean(includeMarketResearch),
+        status: 'SUCCESS',
+        errorMessage: null,
+        modelUsed: modelInfo.model,
+        reasoningEffort: modelInfo.reasoningEffort,
+        jobId,
+      },
     });
-  }
 
-  await prisma.auditLog.create({
-    data: {
-      action: 'ANALYSIS_RUN',
-      metadata: { dealId: deal.id, runId: run.id },
-      userId,
-      organizationId: deal.fund.organizationId,
-    },
+    if (snippets.length > 0) {
+      await tx.analysisEvidenceSnippet.createMany({
+        data: snippets.map((s) => ({
+          analysisRunId: created.id,
+          snippetId: s.snippetId,
+          text: s.text,
+          fileId: s.fileId,
+          fileName: s.fileName,
+          openaiFileId: s.openaiFileId,
+          openaiDocumentId: s.openaiDocumentId,
+          openaiVectorStoreId: s.openaiVectorStoreId,
+          score: s.score,
+          metadata: s.metadata,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        action: 'ANALYSIS_RUN',
+        metadata: { dealId: deal.id, runId: created.id },
+        userId,
+        organizationId: deal.fund.organizationId,
+      },
+    });
+    return created;
   });
 
   return prisma.analysisRun.findUnique({ where: { id: run.id }, include: { evidenceSnippets: true } });
@@ -0,0 +1,117 @@
+/**
+ * Citation verifier - Checks that each fact's value is stated in a snippet it cites
+ *
+ * extractFactsV1 only confirms that cited snippet ids were retrieved. The verifier
+ * reads the cited snippets for values of the fact's kind - numbers with their unit
+ * and dates, through lib/stated-values.ts - and looks for the fact's value among
+ * them. A fact whose snippets state only other values is nulled; one whose snippets
+ * state no value the verifier can read keeps its value at the NONE evidence tier,
+ * so it scores as partial and satisfies no gate. Both are reported as citation
+ * mismatches on the run. Levels, flags and free text are not checked.
+ * Client-safe: no database access.
+ */
+
+import { getContradictionCheck } from './contradiction-detector';
+import { type CitationMismatch, type EvidenceSnippet, type FactValue, createEmptyFactValue } from './dd-contract-v1';
+import { type FactDefinition, getFactByCode } from './fact-catalog-v1';
+import { parseNumber, readStatedNumbers, readStatedPeriods, readsUnit } from './stated-values';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * VERIFIED: a cited snippet states the value. MISMATCH: they state only other
+ * values. NOT_FOUND: they state no value of the fact's kind. UNCHECKED: the fact's
+ * kind is not read from text.
+ */
+export type CitationCheck = 'VERIFIED' | 'MISMATCH' | 'NOT_FOUND' | 'UNCHECKED';
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+// Stated values shown in a mismatch reason
+const MAX_REASON_VALUES = 3;
+
+// ════════════════════════════════════════════════════════════════════════════
+// VERIFICATION
+// ════════════════════════════════════════════════════════════════════════════
+
+function checkKind(definition: FactDefinition): 'number' | 'date' | null {
+  if (getContradictionCheck(definition).kind === 'date') return 'date';
+  if (definition.type !== 'number' || !definition.unit) return null;
+  return readsUnit(definition.unit) ? 'number' : null;
+}
+
+/**
+ * Whether the cited snippet texts state a fact's value. Numbers must match after
+ * unit conversion; a date matches a stated period it overlaps, so 'Q4 2028' is
+ * supported by '30.11.2028'.
+ */
+export function checkCitedValue(
+  code: string,
+  value: FactValue['value'],
+  texts: string[]
+): { check: CitationCheck; stated: string[] } {
+  const definition = getFactByCode(code);
+  const kind = definition ? checkKind(definition) : null;
+  if (!definition || !kind || value == null || typeof value === 'boolean') return { check: 'UNCHECKED', stated: [] };
+
+  if (kind === 'number') {
+    const target = typeof value === 'number' ? value : parseNumber(String(value));
+    if (target == null) return { check: 'UNCHECKED', stated: [] };
+    const stated = texts.flatMap((text) => readStatedNumbers(definition.unit!, text));
+    if (stated.length === 0) return { check: 'NOT_FOUND', stated: [] };
+    const found = stated.some((s) => Math.abs(s.value - target) <= 1e-6 * Math.max(1, Math.abs(target)));
+    return { check: found ? 'VERIFIED' : 'MISMATCH', stated: Array.from(new Set(stated.map((s) => s.text))) };
+  }
+
+  const [target] = readStatedPeriods(String(value));
+  if (!target) return { check: 'UNCHECKED', stated: [] };
+  const stated = texts.flatMap(readStatedPeriods);
+  if (stated.length === 0) return { check: 'NOT_FOUND', stated: [] };
+  const found = stated.some((s) => s.value[0] <= target.value[1] && target.value[0] <= s.value[1]);
+  return { check: found ? 'VERIFIED' : 'MISMATCH', stated: Array.from(new Set(stated.map((s) => s.text))) };
+}
+
+/**
+ * Check every cited fact against its snippets. A MISMATCH nulls the fact, keeping
+ * its candidates for the analyst; NOT_FOUND keeps the value at the NONE evidence
+ * tier. Each is returned as a citation mismatch.
+ */
+export function verifyFactCitations(
+  facts: Record<string, FactValue>,
+  snippets: EvidenceSnippet[]
+): { facts: Record<string, FactValue>; mismatches: CitationMismatch[] } {
+  const snippetsById = new Map(snippets.map((s) => [s.snippet_id, s]));
+  const result: Record<string, FactValue> = {};
+  const mismatches: CitationMismatch[] = [];
+
+  for (const [code, fact] of Object.entries(facts)) {
+    const texts = fact.citations.map((c) => snippetsById.get(c)?.text).filter((t): t is string => t != null);
+    const { check, stated } = fact.value == null || texts.length === 0 ? { check: 'UNCHECKED', stated: [] } : checkCitedValue(code, fact.value, texts);
+    if (check === 'VERIFIED' || check === 'UNCHECKED') {
+      result[code] = fact;
+      continue;
+    }
+
+    const value = fact.value!;
+    const written = fact.unit && typeof value === 'number' ? `${value} ${fact.unit}` : String(value);
+    if (check === 'MISMATCH') {
+      const reason = `Cited snippets state ${stated.slice(0, MAX_REASON_VALUES).join(', ')}, not ${written}`;
+      mismatches.push({ fact_code: code, value, citations: fact.citations, action: 'NULLED', reason });
+      result[code] = { ...createEmptyFactValue(), notes: `Citation mismatch: ${reason}`, candidates: fact.candidates };
+    } else {
+      const reason = `${written} is not stated in the cited snippets`;
+      mismatches.push({ fact_code: code, value, citations: fact.citations, action: 'DOWNGRADED', reason });
+      result[code] = {
+        ...fact,
+        evidence_tier: 'NONE',
+        notes: [fact.notes, `Citation mismatch: ${reason}`].filter(Boolean).join(' '),
+      };
+    }
+  }
+
+  return { facts: result, mismatches };
+}
@@ -2,21 +2,28 @@
  * CONTRADICTION & RED FLAG DETECTOR
  *
  * Analyzes extracted evidence to identify:
- * - Contradictions: Same fact with different values across documents
+ * - Contradictions: Same v1 fact with different values across cited snippets
  * - Red flags: Warning signs that require immediate attention
  * - Inconsistencies: Logical problems in the evidence
+ *
+ * Contradictions are deterministic: every snippet cited for a fact is read for a
+ * value of that fact's kind (lib/stated-values.ts, as the citation verifier reads
+ * it), the values become FactValue.candidates, and the candidates are compared
+ * with a per-fact tolerance. Conflicts the model reports
+ * are merged in and graded the same way.
  */
 
-import { z } from 'zod';
-import { EvidenceSnippet } from './analysis';
-import { ContradictionType, RedFlagType } from './dd-ontology';
+import { type Contradiction, type EvidenceSnippet, type FactCandidate, type FactValue, type Severity } from './dd-contract-v1';
+import { RedFlagType } from './dd-ontology';
+import { FACT_CATALOG_V1, type FactDefinition, getFactByCode } from './fact-catalog-v1';
+import { parseDateRange, parseNumber, readStatedNumbers, readStatedPeriods, readsUnit } from './stated-values';
 
 // ════════════════════════════════════════════════════════════════════════════
 // TYPES
 // ════════════════════════════════════════════════════════════════════════════
 
 export interface ContradictionCheckResult {
-  contradictions: ContradictionType[];
+  contradictions: Contradiction[];
   warnings: string[];
 }
 
@@ -25,218 +32,244 @@ export interface RedFlagCheckResult {
   totalSeverityScore: number;
 }
 
+type CheckKind = 'numeric' | 'date' | 'enum';
+
+interface ContradictionCheck {
+  kind: CheckKind;
+  /** Relative spread (max - min) / max tolerated between numeric candidates */
+  tolerance: number;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // CONTRADICTION DETECTION RULES
 // ════════════════════════════════════════════════════════════════════════════
 
 /**
- * Fields to check for contradictions
+ * Numeric facts whose sources may round differently; other numbers must match
  */
-const CONTRADICTION_CHECKS = [
-  {
-    factKey: 'reserved_mw',
-    displayName: 'Reserved MW',
-    tolerance: 0.05, // 5% tolerance for numerical values
-    type: 'numeric',
-  },
-  {
-    factKey: 'voltage_kv',
-    displayName: 'Voltage (kV)',
-    tolerance: 0,
-    type: 'numeric',
-  },
-  {
-    factKey: 'energization_target',
-    displayName: 'Energization Date',
-    tolerance: 0, // Dates must match exactly
-    type: 'date',
-  },
-  {
-    factKey: 'firmness_type',
-    displayName: 'Firmness Type',
-    tolerance: 0,
-    type: 'enum',
-  },
-  {
-    factKey: 'land_area_sqm',
-    displayName: 'Land Area (sqm)',
-    tolerance: 0.1, // 10% tolerance
-    type: 'numeric',
-  },
-  {
-    factKey: 'total_it_capacity_mw',
-    displayName: 'IT Capacity (MW)',
-    tolerance: 0.05,
-    type: 'numeric',
-  },
-  {
-    factKey: 'total_capex_eur',
-    displayName: 'Total Capex (EUR)',
-    tolerance: 0.1, // 10% tolerance for capex
-    type: 'numeric',
-  },
-];
+const NUMERIC_TOLERANCES: Record<string, number> = {
+  grid_target_import_mw: 0.05,
+  grid_reserved_mw_firm: 0.05,
+  grid_reserved_mw_flex: 0.05,
+  grid_queue_wait_months: 0.1,
+  prelet_mw: 0.05,
+  it_capacity_mw: 0.05,
+  design_pue_target: 0.03,
+  capex_estimate_eur_m: 0.1, // 10% tolerance for capex
+  renewable_energy_share_pct: 0.05,
+};
 
 /**
- * Detect contradictions in extracted facts
+ * String facts holding a date; compared as date ranges so 'Q4 2028' and
+ * '2028-11-30' agree
  */
-export function detectContradictions(
-  snippets: EvidenceSnippet[],
-  extractedFacts: Record<string, any>
-): ContradictionCheckResult {
-  const contradictions: ContradictionType[] = [];
-  const warnings: string[] = [];
+const DATE_FACTS = [
+  'grid_energisation_target',
+  'grid_next_milestone_or_expiry_date',
+  'land_control_expiry_date',
+  'planning_permission_expiry_date',
+];
 
-  // Group snippets by the facts they relate to
-  const factValuesBySource = new Map<string, Array<{ value: any; source: string; snippetId: string }>>();
+export function getContradictionCheck(fact: FactDefinition): ContradictionCheck {
+  if (DATE_FACTS.includes(fact.code)) return { kind: 'date', tolerance: 0 };
+  if (fact.type === 'number') return { kind: 'numeric', tolerance: NUMERIC_TOLERANCES[fact.code] ?? 0 };
+  return { kind: 'enum', tolerance: 0 };
+}
 
-  for (const snippet of snippets) {
-    // Parse snippet to look for numerical values
-    const parsedValues = parseSnippetForValues(snippet);
+/**
+ * Hard gate facts decide GO/HOLD/NO_GO, so a conflict there is HIGH
+ */
+function getSeverityForContradiction(fact: FactDefinition | undefined, spread: number | null, tolerance: number): Severity {
+  if (fact?.hard_gate) return 'HIGH';
+  // Numbers just outside tolerance are likely rounding or a superseded figure
+  if (spread != null && tolerance > 0 && spread <= tolerance * 2) return 'LOW';
+  return 'MEDIUM';
+}
 
-    for (const [factKey, value] of Object.entries(parsedValues)) {
-      if (!factValuesBySource.has(factKey)) {
-        factValuesBySource.set(factKey, []);
-      }
-      factValuesBySource.get(factKey)!.push({
-        value,
-        source: snippet.fileName || 'Unknown document',
-        snippetId: snippet.snippetId,
-      });
-    }
-  }
+// ════════════════════════════════════════════════════════════════════════════
+// VALUE PARSING
+// ════════════════════════════════════════════════════════════════════════════
 
-  // Check for contradictions
-  for (const check of CONTRADICTION_CHECKS) {
-    const values = factValuesBySource.get(check.factKey);
-    if (!values || values.length < 2) continue;
-
-    // Get unique values
-    const uniqueValues = new Map<string, typeof values[0]>();
-    for (const v of values) {
-      const key = normalizeValue(v.value, check.type);
-      if (!uniqueValues.has(key)) {
-        uniqueValues.set(key, v);
-      }
-    }
+/**
+ * Distinct values of the fact's kind stated in a snippet, in the catalog unit;
+ * enum facts are not read from free text. A figure with two
+ * readings, such as '1.234 MW', gives the one that agrees with the extracted value.
+ */
+function readSnippetValues(
+  fact: FactDefinition,
+  check: ContradictionCheck,
+  text: string,
+  extracted: FactCandidate['value']
+): (number | string)[] {
+  if (check.kind === 'date') return Array.from(new Set(readStatedPeriods(text).map((s) => s.text)));
+  if (check.kind !== 'numeric' || !fact.unit || !readsUnit(fact.unit)) return [];
+
+  const readings = new Map<string, number[]>();
+  for (const stated of readStatedNumbers(fact.unit, text)) {
+    readings.set(stated.text, [...(readings.get(stated.text) ?? []), stated.value]);
+  }
+  return Array.from(
+    new Set(Array.from(readings.values()).map((values) => values.find((v) => valuesAgree(check, v, extracted)) ?? values[0]))
+  );
+}
 
-    if (uniqueValues.size > 1) {
-      // Check if within tolerance
-      if (check.type === 'numeric' && check.tolerance > 0) {
-        const numValues = Array.from(uniqueValues.values()).map(v => parseFloat(v.value));
-        const max = Math.max(...numValues);
-        const min = Math.min(...numValues);
-        const variance = (max - min) / max;
-
-        if (variance <= check.tolerance) {
-          warnings.push(`${check.displayName}: Values vary within tolerance (${(variance * 100).toFixed(1)}%)`);
-          continue;
-        }
-      }
+function numericSpread(values: number[]): number {
+  const max = Math.max(...values.map(Math.abs));
+  return max === 0 ? 0 : (Math.max(...values) - Math.min(...values)) / max;
+}
 
-      // Real contradiction found
-      contradictions.push({
-        fact_key: check.factKey,
-        values_found: Array.from(uniqueValues.values()).map(v => ({
-          value: v.value,
-          source: v.source,
-          snippet_id: v.snippetId,
-        })),
-        severity: getSeverityForContradiction(check.factKey),
-        resolution_needed: `Clarify the correct ${check.displayName} value. Documents show conflicting information.`,
-      });
-    }
+/**
+ * Whether two candidate values state the same thing for this check
+ */
+function valuesAgree(check: ContradictionCheck, a: FactCandidate['value'], b: FactCandidate['value']): boolean {
+  if (check.kind === 'numeric') {
+    const [x, y] = [typeof a === 'number' ? a : parseNumber(String(a)), typeof b === 'number' ? b : parseNumber(String(b))];
+    if (x == null || y == null) return String(a) === String(b);
+    return numericSpread([x, y]) <= check.tolerance;
+  }
+  if (check.kind === 'date') {
+    const [x, y] = [parseDateRange(String(a)), parseDateRange(String(b))];
+    if (!x || !y) return normalizeValue(a) === normalizeValue(b);
+    // Overlapping periods: 'Q4 2028' agrees with '2028-11-30'
+    return x[0] <= y[1] && y[0] <= x[1];
   }
+  return normalizeValue(a) === normalizeValue(b);
+}
 
-  return { contradictions, warnings };
+/**
+ * Whether two values of a catalog fact agree, with the fact's tolerance
+ */
+export function factValuesAgree(code: string, a: FactCandidate['value'], b: FactCandidate['value']): boolean {
+  const definition = getFactByCode(code);
+  return definition ? valuesAgree(getContradictionCheck(definition), a, b) : normalizeValue(a) === normalizeValue(b);
+}
+
+function normalizeValue(value: FactCandidate['value']): string {
+  return String(value).toLowerCase().replace(/\s+/g, ' ').trim();
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// CANDIDATES
+// ════════════════════════════════════════════════════════════════════════════
+
 /**
- * Parse snippet text to extract values
+ * Add a value to the candidate list, joining an identical value already there
  */
-function parseSnippetForValues(snippet: EvidenceSnippet): Record<string, any> {
-  const values: Record<string, any> = {};
-  const text = snippet.text.toLowerCase();
-
-  // MW patterns
-  const mwPatterns = [
-    /(\d+(?:\.\d+)?)\s*mw/gi,
-    /(\d+(?:\.\d+)?)\s*megawatt/gi,
-    /capacity[:\s]+(\d+(?:\.\d+)?)/gi,
-  ];
-  for (const pattern of mwPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const num = parseFloat(match[1] || match[0].replace(/[^\d.]/g, ''));
-      if (num > 0 && num < 1000) { // Reasonable MW range
-        values.reserved_mw = num;
-        break;
-      }
-    }
+function addCandidate(candidates: FactCandidate[], value: FactCandidate['value'], citations: string[]): void {
+  const existing = candidates.find((c) => normalizeValue(c.value) === normalizeValue(value));
+  if (existing) {
+    existing.citations = Array.from(new Set([...existing.citations, ...citations]));
+  } else {
+    candidates.push({ value, citations: [...citations] });
   }
+}
 
-  // kV patterns
-  const kvPatterns = [
-    /(\d+)\s*kv/gi,
-    /(\d+)\s*kilovolt/gi,
-    /voltage[:\s]+(\d+)/gi,
-  ];
-  for (const pattern of kvPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const num = parseFloat(match[1] || match[0].replace(/[^\d]/g, ''));
-      if ([11, 33, 66, 110, 132, 220, 275, 380, 400].includes(num)) {
-        values.voltage_kv = num;
-        break;
+/**
+ * Set FactValue.candidates on every extracted fact: the extracted value, each value
+ * a cited snippet states (unrounded, so rounding differences stay visible), the
+ * candidates the model listed and the conflicting values it reported. A snippet
+ * that states several values, none of them close to the extracted one, is
+ * ambiguous and left out.
+ */
+export function attachFactCandidates(
+  facts: Record<string, FactValue>,
+  snippets: EvidenceSnippet[],
+  modelContradictions: Contradiction[] = []
+): Record<string, FactValue> {
+  const snippetsById = new Map(snippets.map((s) => [s.snippet_id, s]));
+  const result: Record<string, FactValue> = {};
+
+  for (const [code, fact] of Object.entries(facts)) {
+    const definition = getFactByCode(code);
+    if (fact.value == null || !definition) {
+      result[code] = fact;
+      continue;
+    }
+    const check = getContradictionCheck(definition);
+    const candidates: FactCandidate[] = [{ value: fact.value, citations: [] }];
+
+    for (const citation of fact.citations) {
+      const snippet = snippetsById.get(citation);
+      const stated = snippet ? readSnippetValues(definition, check, snippet.text, fact.value) : [];
+      const agreeing = stated.find((v) => valuesAgree(check, v, fact.value!));
+      if (stated.length === 0) {
+        addCandidate(candidates, fact.value, [citation]);
+      } else if (stated.length === 1 || agreeing != null) {
+        addCandidate(candidates, agreeing ?? stated[0], [citation]);
       }
     }
-  }
 
-  // Date patterns for energization
-  const datePatterns = [
-    /energi[sz]ation[:\s]+(\d{4}[-/]\d{2}[-/]\d{2})/gi,
-    /cod[:\s]+(\d{4}[-/]\d{2}[-/]\d{2})/gi,
-    /q[1-4]\s*(\d{4})/gi,
-  ];
-  for (const pattern of datePatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      values.energization_target = match[1];
-      break;
+    for (const listed of fact.candidates ?? []) addCandidate(candidates, listed.value, listed.citations);
+    for (const reported of modelContradictions.filter((c) => c.fact_code === code)) {
+      for (const candidate of reported.conflicting_candidates) addCandidate(candidates, candidate.value, candidate.citations);
     }
+
+    result[code] = { ...fact, candidates };
   }
 
-  return values;
+  return result;
 }
 
-/**
- * Normalize value for comparison
- */
-function normalizeValue(value: any, type: string): string {
-  if (value === null || value === undefined) return 'null';
-
-  switch (type) {
-    case 'numeric':
-      return String(Math.round(parseFloat(value) * 100) / 100);
-    case 'date':
-      return String(value).replace(/[\/\-]/g, '-').toLowerCase();
-    case 'enum':
-      return String(value).toLowerCase().trim();
-    default:
-      return String(value).toLowerCase().trim();
-  }
+// ════════════════════════════════════════════════════════════════════════════
+// CONTRADICTION DETECTION
+// ════════════════════════════════════════════════════════════════════════════
+
+function formatValue(value: FactCandidate['value'], unit: string | null): string {
+  return unit && typeof value === 'number' ? `${value} ${unit}` : String(value);
 }
 
 /**
- * Get severity for contradiction type
+ * Compare each fact's candidates with its tolerance and merge the conflicts the
+ * model reported. One contradiction per fact; model conflicts the tolerance check
+ * clears are kept as LOW so the analyst still sees them.
  */
-function getSeverityForContradiction(factKey: string): 'HIGH' | 'MEDIUM' | 'LOW' {
-  const highSeverity = ['reserved_mw', 'firmness_type', 'energization_target'];
-  const mediumSeverity = ['voltage_kv', 'total_it_capacity_mw', 'land_area_sqm'];
+export function detectContradictions(
+  facts: Record<string, FactValue>,
+  modelContradictions: Contradiction[] = []
+): ContradictionCheckResult {
+  const contradictions: Contradiction[] = [];
+  const warnings: string[] = [];
+  const withinTolerance = new Set<string>();
+
+  for (const definition of FACT_CATALOG_V1) {
+    const candidates = facts[definition.code]?.candidates ?? [];
+    if (candidates.length < 2) continue;
+    const check = getContradictionCheck(definition);
 
-  if (highSeverity.includes(factKey)) return 'HIGH';
-  if (mediumSeverity.includes(factKey)) return 'MEDIUM';
-  return 'LOW';
+    const numbers = candidates.map((c) => (typeof c.value === 'number' ? c.value : parseNumber(String(c.value))));
+    const spread = check.kind === 'numeric' && numbers.every((n) => n != null) ? numericSpread(numbers as number[]) : null;
+    const conflicting = candidates.some((a, i) => candidates.slice(i + 1).some((b) => !valuesAgree(check, a.value, b.value)));
+
+    if (!conflicting) {
+      withinTolerance.add(definition.code);
+      if (spread != null && spread > 0) {
+        warnings.push(`${definition.label}: Values vary within tolerance (${(spread * 100).toFixed(1)}%)`);
+      }
+      continue;
+    }
+
+    const reported = modelContradictions.find((c) => c.fact_code === definition.code);
+    const values = candidates.map((c) => formatValue(c.value, definition.unit)).join(' vs ');
+    contradictions.push({
+      fact_code: definition.code,
+      severity: getSeverityForContradiction(definition, spread, check.tolerance),
+      description: `${definition.label}: cited documents give ${values}${spread != null ? ` (${(spread * 100).toFixed(1)}% apart)` : ''}. ${
+        reported?.description ?? `Clarify the correct ${definition.label} value.`
+      }`,
+      conflicting_candidates: candidates,
+    });
+  }
+
+  for (const reported of modelContradictions) {
+    if (contradictions.some((c) => c.fact_code === reported.fact_code)) continue;
+    const definition = getFactByCode(reported.fact_code);
+    contradictions.push({
+      ...reported,
+      severity: withinTolerance.has(reported.fact_code) ? 'LOW' : getSeverityForContradiction(definition, null, 0),
+    });
+  }
+
+  return { contradictions, warnings };
 }
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -418,7 +451,7 @@ function getAffectedFacts(ruleId: string): string[] {
 // ════════════════════════════════════════════════════════════════════════════
 
 export interface RiskAnalysisResult {
-  contradictions: ContradictionType[];
+  contradictions: Contradiction[];
   redFlags: RedFlagType[];
   warnings: string[];
   overallRiskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
@@ -431,15 +464,15 @@ export interface RiskAnalysisResult {
  */
 export function analyzeRisks(
   snippets: EvidenceSnippet[],
-  extractedFacts: Record<string, any>,
+  extractedFacts: Record<string, FactValue>,
   metadata?: { unsigned_documents?: number }
 ): RiskAnalysisResult {
-  const { contradictions, warnings } = detectContradictions(snippets, extractedFacts);
+  const { contradictions, warnings } = detectContradictions(attachFactCandidates(extractedFacts, snippets));
   const { redFlags, totalSeverityScore } = detectRedFlags(extractedFacts, metadata);
 
   // Calculate risk score
   const contradictionScore = contradictions.reduce((sum, c) => {
-    const points = { HIGH: 15, MEDIUM: 10, LOW: 5 };
+    const points = { CRITICAL: 20, HIGH: 15, MEDIUM: 10, LOW: 5 };
     return sum + points[c.severity];
   }, 0);
 
@@ -474,7 +507,7 @@ export function analyzeRisks(
  * Generate risk summary text
  */
 function generateRiskSummary(
-  contradictions: ContradictionType[],
+  contradictions: Contradiction[],
   redFlags: RedFlagType[],
   riskLevel: string
 ): string {
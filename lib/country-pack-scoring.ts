@@ -0,0 +1,224 @@
+/**
+ * COUNTRY PACK SCORING - Market-specific hard gates and scoring overrides
+ *
+ * Two layers are applied on top of the fund policy snapshot, in order:
+ * - LIBRARY: derived from the country-packs-data library (grid congestion,
+ *   queue rules, local grid title artefacts). Library overrides only tighten.
+ * - PACK: the organisation's CountryPack.scoringOverrides, applied as given.
+ *
+ * Every override that changes a value is recorded so the run output shows
+ * why a Dublin deal and a Helsinki deal were judged differently.
+ */
+
+import { z } from 'zod';
+import {
+  type ChecklistItem,
+  type CountryOverride,
+  type FundPolicySnapshot,
+  type HardGateResult,
+  HardGatesSchema,
+  ScoringAdjustmentsSchema,
+} from './dd-contract-v1';
+import { type CountryPackDataType, getCountryPack } from './country-packs-data';
+
+// ════════════════════════════════════════════════════════════════════════════
+// OVERRIDES SCHEMA (CountryPack.scoringOverrides)
+// ════════════════════════════════════════════════════════════════════════════
+
+export const CountryScoringOverrides = z
+  .object({
+    hard_gates: HardGatesSchema.partial().default({}),
+    scoring_adjustments: ScoringAdjustmentsSchema.partial().default({}),
+    // Grid title level (0-5) -> local documents that evidence it in this market
+    grid_title_evidence: z.record(z.string().regex(/^[0-5]$/, 'Grid title level must be 0-5'), z.array(z.string())).default({}),
+    note: z.string().nullable().default(null),
+  })
+  .strict();
+
+export type CountryScoringOverridesType = z.infer<typeof CountryScoringOverrides>;
+
+export class CountryPackValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.issues = issues;
+  }
+}
+
+export interface CountryScoringContext {
+  country_code: string;
+  library: { overrides: CountryScoringOverridesType; reasons: Record<string, string> } | null;
+  pack: CountryScoringOverridesType | null;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// LIBRARY-DERIVED OVERRIDES
+// ════════════════════════════════════════════════════════════════════════════
+
+const HIGH_CONGESTION_MAX_FLEX_SHARE_PCT = 25;
+
+// Seeded packs use UK; the library follows ISO 3166 (GB)
+const LIBRARY_COUNTRY_ALIASES: Record<string, string> = { UK: 'GB' };
+
+/**
+ * Derive tighten-only overrides from the country library
+ */
+export function deriveLibraryOverrides(data: CountryPackDataType): {
+  overrides: CountryScoringOverridesType;
+  reasons: Record<string, string>;
+} {
+  const overrides = CountryScoringOverrides.parse({});
+  const reasons: Record<string, string> = {};
+  const code = data.country_code;
+
+  if (data.market_notes.grid_congestion_risk === 'high') {
+    overrides.hard_gates.max_flex_share_pct = HIGH_CONGESTION_MAX_FLEX_SHARE_PCT;
+    reasons['hard_gates.max_flex_share_pct'] =
+      `High grid congestion in ${code}: flexible capacity capped at ${HIGH_CONGESTION_MAX_FLEX_SHARE_PCT}% of the reservation`;
+  }
+
+  // Capacity not used within a use-it-or-lose-it window is released back to the queue
+  const releaseWindows = data.connection_process.queue_rules
+    .filter((r) => r.rule_type === 'use_it_or_lose_it' && r.typical_timeline_months != null)
+    .map((r) => r.typical_timeline_months!);
+  if (releaseWindows.length > 0) {
+    const window = Math.min(...releaseWindows);
+    overrides.hard_gates.max_energisation_months = window;
+    reasons['hard_gates.max_energisation_months'] =
+      `${code} use-it-or-lose-it queue rule releases unused capacity after ${window} months`;
+  }
+
+  const titleArtefacts = data.artefacts.filter((a) => a.required_for.includes('power_title'));
+  const localName = (a: CountryPackDataType['artefacts'][number]) => a.name_local ?? a.name;
+  const offers = titleArtefacts.filter((a) => !a.required_for.includes('firmness')).map(localName);
+  const agreements = titleArtefacts.filter((a) => a.required_for.includes('firmness')).map(localName);
+  if (offers.length > 0) overrides.grid_title_evidence['3'] = offers;
+  if (agreements.length > 0) overrides.grid_title_evidence['4'] = agreements;
+
+  return { overrides, reasons };
+}
+
+/**
+ * Parse stored CountryPack.scoringOverrides. Throws CountryPackValidationError -
+ * an invalid override never silently falls back to the fund policy.
+ */
+export function parseCountryScoringOverrides(stored: unknown): CountryScoringOverridesType | null {
+  if (stored == null) return null;
+  const parsed = CountryScoringOverrides.safeParse(stored);
+  if (!parsed.success) {
+    throw new CountryPackValidationError(
+      'Country pack scoring overrides do not validate',
+      parsed.error.issues.map((i) => `${i.path.join('.') || 'scoringOverrides'}: ${i.message}`)
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolve the country scoring context for a deal from its organisation's pack
+ */
+export function resolveCountryScoring(
+  countryCode: string,
+  pack: { scoringOverrides: unknown; useLibraryData: boolean } | null
+): CountryScoringContext {
+  const code = countryCode.toUpperCase();
+  const libraryData = pack?.useLibraryData === false ? null : getCountryPack(LIBRARY_COUNTRY_ALIASES[code] ?? code);
+
+  return {
+    country_code: code,
+    library: libraryData ? deriveLibraryOverrides(libraryData) : null,
+    pack: parseCountryScoringOverrides(pack?.scoringOverrides),
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// APPLICATION
+// ════════════════════════════════════════════════════════════════════════════
+
+type OverrideValue = CountryOverride['from'];
+
+/**
+ * Apply country overrides to a fund policy snapshot, recording each one that changed a value
+ */
+export function applyCountryOverrides(
+  policy: FundPolicySnapshot,
+  context: CountryScoringContext
+): { policy: FundPolicySnapshot; fired: CountryOverride[] } {
+  const hardGates: Record<string, OverrideValue> = { ...policy.hard_gates };
+  const adjustments: Record<string, OverrideValue> | undefined = policy.scoring_adjustments && {
+    ...policy.scoring_adjustments,
+  };
+  const fired: CountryOverride[] = [];
+
+  const layers = [
+    context.library && { source: 'LIBRARY' as const, overrides: context.library.overrides, reasons: context.library.reasons },
+    context.pack && { source: 'PACK' as const, overrides: context.pack, reasons: {} as Record<string, string> },
+  ].filter(Boolean);
+
+  for (const layer of layers) {
+    const apply = (section: 'hard_gates' | 'scoring_adjustments', target: Record<string, OverrideValue> | undefined) => {
+      if (!target) return; // Snapshots without adjustments stay without them
+      for (const [key, to] of Object.entries(layer.overrides[section]) as [string, OverrideValue][]) {
+        if (to === undefined) continue;
+        const from = target[key] ?? null;
+        if (from === to) continue;
+        // Library limits only tighten: a lower maximum than the fund's (or the first maximum at all)
+        if (layer.source === 'LIBRARY' && typeof to === 'number' && from != null && to >= Number(from)) continue;
+        target[key] = to;
+        fired.push({
+          country_code: context.country_code,
+          source: layer.source,
+          target: `${section}.${key}`,
+          from,
+          to,
+          reason: layer.reasons[`${section}.${key}`] ?? context.pack?.note ?? `${context.country_code} country pack override`,
+        });
+      }
+    };
+    apply('hard_gates', hardGates);
+    apply('scoring_adjustments', adjustments);
+  }
+
+  return {
+    policy: {
+      ...policy,
+      hard_gates: hardGates as FundPolicySnapshot['hard_gates'],
+      ...(adjustments && { scoring_adjustments: adjustments as FundPolicySnapshot['scoring_adjustments'] }),
+    },
+    fired,
+  };
+}
+
+/**
+ * Point unmet grid title checklist items at the local documents that evidence the required level
+ */
+export function applyGridTitleEvidence(
+  checklist: ChecklistItem[],
+  hardGateResult: HardGateResult,
+  context: CountryScoringContext
+): { checklist: ChecklistItem[]; fired: CountryOverride[] } {
+  const check = hardGateResult.gate_checks?.find((c) => c.gate === 'min_power_title_level' && c.status !== 'PASS');
+  if (!check || check.required_value == null) return { checklist, fired: [] };
+
+  const level = String(check.required_value);
+  const fromPack = context.pack?.grid_title_evidence[level];
+  const documents = fromPack ?? context.library?.overrides.grid_title_evidence[level];
+  if (!documents || documents.length === 0) return { checklist, fired: [] };
+
+  const question = `Resolve: ${check.reason}`;
+  const evidence = `In ${context.country_code}, grid title level ${level} is evidenced by ${documents.join(' or ')}`;
+  return {
+    checklist: checklist.map((item) => (item.question === question ? { ...item, why: `${item.why}. ${evidence}` } : item)),
+    fired: [
+      {
+        country_code: context.country_code,
+        source: fromPack ? 'PACK' : 'LIBRARY',
+        target: `checklist.grid_title_evidence.${level}`,
+        from: null,
+        to: documents.join(', '),
+        reason: evidence,
+      },
+    ],
+  };
+}
@@ -31,12 +31,14 @@ export const DDModuleSchema = z.enum([
 ]);
 export type DDModule = z.infer<typeof DDModuleSchema>;
 
-// V1 focuses on core 4 modules
+// V1 scores the six weighted modules (SPONSOR_EXECUTION is not yet covered)
 export const DDModuleV1Schema = z.enum([
   'POWER_GRID',
   'PERMITS_LAND',
   'COMMERCIAL',
   'CONNECTIVITY',
+  'TECH_BUILD',
+  'ESG_REGULATORY',
 ]);
 export type DDModuleV1 = z.infer<typeof DDModuleV1Schema>;
 
@@ -48,6 +50,9 @@ export const EvidenceTierSchema = z.enum([
   'OFFICIAL_SIGNED',
   'OFFICIAL_SIGNED_AND_PAID',
   'OPERATING_MEASUREMENT',
+  // Set by an analyst override (lib/fact-overrides.ts); no document type maps to it.
+  // Ranked last, so an asserted fact meets any policy minimum tier
+  'ANALYST_ASSERTED',
 ]);
 export type EvidenceTier = z.infer<typeof EvidenceTierSchema>;
 
@@ -115,6 +120,7 @@ export const ArtifactTypeSchema = z.enum([
   'HEAT_REUSE_REQUIREMENT_EVIDENCE',
   'HEAT_OFFTAKE_AGREEMENT',
   'WATER_RIGHTS_OR_SUPPLY_EVIDENCE',
+  'RENEWABLE_PPA_OR_GUARANTEES_OF_ORIGIN',
   // Execution
   'EPC_OR_CONTRACTOR_APPOINTMENT',
   'OPERATOR_APPOINTMENT',
@@ -193,6 +199,10 @@ export const EvidenceSnippetSchema = z.object({
   source: z.object({
     deal_document_id: z.string().nullable(),
     file_name: z.string().nullable(),
+    // Location in the source document; absent on runs created before provenance was tracked
+    page_number: z.number().int().nullable().optional(),
+    char_start: z.number().int().nullable().optional(),
+    char_end: z.number().int().nullable().optional(),
   }),
   retrieval: z.object({
     query: z.string(),
@@ -213,9 +223,39 @@ export type EvidenceSnippet = z.infer<typeof EvidenceSnippetSchema>;
 export const FactCandidateSchema = z.object({
   value: z.union([z.string(), z.number(), z.boolean()]),
   citations: z.array(z.string()),
+  // Set by resolveFactCandidates from the cited documents
+  evidence_tier: EvidenceTierSchema.optional(),
+  artifact_types: z.array(ArtifactTypeSchema).optional(),
+  // Newest date of the cited documents, falling back to their upload time
+  document_date: z.string().nullable().optional(),
 });
 export type FactCandidate = z.infer<typeof FactCandidateSchema>;
 
+export const FactResolutionRuleSchema = z.enum([
+  'SINGLE_CANDIDATE',
+  'EVIDENCE_TIER',
+  'ARTIFACT_PRECEDENCE',
+  'DOCUMENT_DATE',
+  'EXTRACTED_VALUE',
+  'ANALYST_OVERRIDE',
+]);
+export type FactResolutionRule = z.infer<typeof FactResolutionRuleSchema>;
+
+export const FactResolutionSchema = z.object({
+  rule: FactResolutionRuleSchema,
+  detail: z.string(),
+  rejected_candidates: z.array(FactCandidateSchema),
+  override: z
+    .object({
+      reason: z.string(),
+      user_id: z.string(),
+      overridden_at: z.string(),
+      previous_value: z.union([z.string(), z.number(), z.boolean()]).nullable(),
+    })
+    .nullable(),
+});
+export type FactResolution = z.infer<typeof FactResolutionSchema>;
+
 export const FactValueSchema = z.object({
   value: z.union([z.string(), z.number(), z.boolean()]).nullable(),
   unit: z.string().nullable(),
@@ -224,6 +264,7 @@ export const FactValueSchema = z.object({
   source_artifact_types: z.array(ArtifactTypeSchema),
   notes: z.string().nullable(),
   candidates: z.array(FactCandidateSchema).optional(),
+  resolution: FactResolutionSchema.optional(),
 });
 export type FactValue = z.infer<typeof FactValueSchema>;
 
@@ -253,6 +294,26 @@ export const ContradictionSchema = z.object({
 });
 export type Contradiction = z.infer<typeof ContradictionSchema>;
 
+// ════════════════════════════════════════════════════════════════════════════
+// CITATION MISMATCHES
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * NULLED: the cited snippets state other values. DOWNGRADED: they state no value
+ * the verifier can read; the fact keeps its value at the NONE evidence tier.
+ */
+export const CitationMismatchActionSchema = z.enum(['NULLED', 'DOWNGRADED']);
+export type CitationMismatchAction = z.infer<typeof CitationMismatchActionSchema>;
+
+export const CitationMismatchSchema = z.object({
+  fact_code: z.string(),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+  citations: z.array(z.string()),
+  action: CitationMismatchActionSchema,
+  reason: z.string(),
+});
+export type CitationMismatch = z.infer<typeof CitationMismatchSchema>;
+
 // ════════════════════════════════════════════════════════════════════════════
 // DEAL EVIDENCE (complete section)
 // ════════════════════════════════════════════════════════════════════════════
@@ -262,6 +323,7 @@ export const DealEvidenceSchema = z.object({
   facts: z.record(z.string(), FactValueSchema),
   artifact_register: z.array(ArtifactRegisterEntrySchema),
   contradictions: z.array(ContradictionSchema),
+  citation_mismatches: z.array(CitationMismatchSchema).optional(), // Absent on runs analysed before citation verification
 });
 export type DealEvidence = z.infer<typeof DealEvidenceSchema>;
 
@@ -277,6 +339,24 @@ export const HardGatesSchema = z.object({
   accepts_non_firm_power: z.boolean().default(true),
   max_curtailment_cap_hours_per_year: z.number().nullable().default(null),
   max_flex_share_pct: z.number().nullable().default(null),
+  // Gates below were added after v1 shipped; stored snapshots may omit them (treated as inactive)
+  requires_grid_connection_agreement: z.boolean().default(false),
+  accepts_interruptible_power: z.boolean().default(true),
+  max_queue_wait_months: z.number().nullable().default(null),
+  rejects_deep_works: z.boolean().default(false),
+  requires_building_permit: z.boolean().default(false),
+  rejects_permit_appeal_risk: z.boolean().default(false),
+  min_anchor_customer_stage: CommercialTitleLevelSchema.nullable().default(null),
+  min_prelet_pct: z.number().nullable().default(null),
+  min_tier_level: z.number().int().min(1).max(4).nullable().default(null),
+  max_pue: z.number().nullable().default(null),
+  requires_heat_reuse_plan: z.boolean().default(false),
+  requires_renewable_commitment: z.boolean().default(false),
+  min_renewable_pct: z.number().nullable().default(null),
+  max_energisation_months: z.number().nullable().default(null),
+  // Lowest evidence tier a power or land fact needs to count toward gates and scores
+  min_power_evidence_tier: EvidenceTierSchema.nullable().default(null),
+  min_land_evidence_tier: EvidenceTierSchema.nullable().default(null),
 });
 export type HardGates = z.infer<typeof HardGatesSchema>;
 
@@ -302,11 +382,49 @@ export const DealFocusSchema = z.object({
 });
 export type DealFocus = z.infer<typeof DealFocusSchema>;
 
+/**
+ * Score bonuses and penalties (points); mirrors FundPolicy.scoring_adjustments
+ */
+export const ScoringAdjustmentsSchema = z.object({
+  bonus_firm_power: z.number().default(10),
+  bonus_anchor_tenant_signed: z.number().default(15),
+  bonus_all_permits_granted: z.number().default(10),
+  bonus_renewable_100: z.number().default(5),
+  bonus_heat_reuse_plan: z.number().default(5),
+  penalty_non_firm_power: z.number().default(15),
+  penalty_permit_appeal_risk: z.number().default(10),
+  penalty_deep_works_required: z.number().default(10),
+  penalty_queue_position_high: z.number().default(5),
+  penalty_no_customer_traction: z.number().default(10),
+  contradiction_penalty: z.number().default(20),
+  missing_critical_evidence_penalty: z.number().default(15),
+});
+export type ScoringAdjustments = z.infer<typeof ScoringAdjustmentsSchema>;
+
+export const CustomRuleActionSchema = z.enum(['reject', 'flag', 'bonus', 'penalty']);
+export type CustomRuleAction = z.infer<typeof CustomRuleActionSchema>;
+
+/**
+ * Mandate-specific rule; condition is an expression over fact codes (see lib/policy-rules)
+ */
+export const CustomRuleSchema = z.object({
+  name: z.string(),
+  condition: z.string(),
+  action: CustomRuleActionSchema,
+  value: z.number().nullable(),
+});
+export type CustomRule = z.infer<typeof CustomRuleSchema>;
+
 export const FundPolicySnapshotSchema = z.object({
   policy_version: z.string(),
+  policy_name: z.string().optional(),
+  policy_preset: z.string().nullable().optional(),
+  effective_date: z.string().nullable().optional(),
   deal_focus: DealFocusSchema,
   hard_gates: HardGatesSchema,
   weights: ModuleWeightsSchema,
+  custom_rules: z.array(CustomRuleSchema).default([]),
+  scoring_adjustments: ScoringAdjustmentsSchema.optional(), // Absent on snapshots taken before adjustments applied
 });
 export type FundPolicySnapshot = z.infer<typeof FundPolicySnapshotSchema>;
 
@@ -314,13 +432,66 @@ export type FundPolicySnapshot = z.infer<typeof FundPolicySnapshotSchema>;
 // SCORING
 // ════════════════════════════════════════════════════════════════════════════
 
+export const GateCheckStatusSchema = z.enum(['PASS', 'FAIL', 'UNKNOWN']);
+export type GateCheckStatus = z.infer<typeof GateCheckStatusSchema>;
+
+/**
+ * One evaluated hard gate. FAIL drives NO_GO; UNKNOWN (fact not evidenced) drives HOLD.
+ */
+export const GateCheckSchema = z.object({
+  gate: z.string(),
+  module: DDModuleSchema,
+  status: GateCheckStatusSchema,
+  reason: z.string(),
+  fact_codes: z.array(z.string()),
+  actual_value: z.union([z.string(), z.number(), z.boolean()]).nullable(),
+  required_value: z.union([z.string(), z.number(), z.boolean()]).nullable(),
+  citations: z.array(z.string()),
+});
+export type GateCheck = z.infer<typeof GateCheckSchema>;
+
 export const HardGateResultSchema = z.object({
   decision: HardGateDecisionSchema,
   reasons: z.array(z.string()),
   gating_citations: z.array(z.string()),
+  gate_checks: z.array(GateCheckSchema).optional(), // Absent on runs scored before per-gate checks
 });
 export type HardGateResult = z.infer<typeof HardGateResultSchema>;
 
+export const CustomRuleStatusSchema = z.enum(['TRIGGERED', 'NOT_TRIGGERED', 'UNKNOWN']);
+export type CustomRuleStatus = z.infer<typeof CustomRuleStatusSchema>;
+
+/**
+ * One evaluated custom rule. Reject rules also appear in gate_checks;
+ * triggered bonus/penalty points enter the overall score adjustment ledger.
+ */
+export const CustomRuleResultSchema = z.object({
+  name: z.string(),
+  action: CustomRuleActionSchema,
+  condition: z.string(),
+  status: CustomRuleStatusSchema,
+  points: z.number().nullable(),
+  reason: z.string(),
+  fact_codes: z.array(z.string()),
+  citations: z.array(z.string()),
+});
+export type CustomRuleResult = z.infer<typeof CustomRuleResultSchema>;
+
+export const CountryOverrideSourceSchema = z.enum(['LIBRARY', 'PACK']);
+
+/**
+ * A country pack override that changed how a deal was scored
+ */
+export const CountryOverrideSchema = z.object({
+  country_code: z.string(),
+  source: CountryOverrideSourceSchema, // LIBRARY = derived from country-packs-data, PACK = CountryPack.scoringOverrides
+  target: z.string(), // e.g. "hard_gates.max_flex_share_pct"
+  from: z.union([z.string(), z.number(), z.boolean()]).nullable(),
+  to: z.union([z.string(), z.number(), z.boolean()]).nullable(),
+  reason: z.string(),
+});
+export type CountryOverride = z.infer<typeof CountryOverrideSchema>;
+
 export const ModuleScorecardEntrySchema = z.object({
   module: DDModuleSchema,
   status: ModuleStatusSchema,
@@ -330,10 +501,28 @@ export const ModuleScorecardEntrySchema = z.object({
 });
 export type ModuleScorecardEntry = z.infer<typeof ModuleScorecardEntrySchema>;
 
+export const ScoreAdjustmentSourceSchema = z.enum(['POLICY', 'CUSTOM_RULE']);
+export type ScoreAdjustmentSource = z.infer<typeof ScoreAdjustmentSourceSchema>;
+
+/**
+ * One line of the score adjustment ledger (positive = bonus, negative = penalty)
+ */
+export const ScoreAdjustmentSchema = z.object({
+  name: z.string(),
+  source: ScoreAdjustmentSourceSchema,
+  points: z.number(),
+  reason: z.string(),
+  citations: z.array(z.string()),
+});
+export type ScoreAdjustment = z.infer<typeof ScoreAdjustmentSchema>;
+
 export const OverallScoreSchema = z.object({
   status: ModuleStatusSchema,
   score_0_100: z.number().min(0).max(100),
   executive_summary: z.string(),
+  // Absent on runs scored before the adjustment ledger
+  base_score_0_100: z.number().min(0).max(100).optional(),
+  adjustments: z.array(ScoreAdjustmentSchema).optional(),
 });
 export type OverallScore = z.infer<typeof OverallScoreSchema>;
 
@@ -367,6 +556,8 @@ export const ScoringSchema = z.object({
   module_scorecard: z.array(ModuleScorecardEntrySchema),
   overall: OverallScoreSchema,
   energisation: EnergisationSchema,
+  custom_rules: z.array(CustomRuleResultSchema).optional(), // Absent on runs scored before custom rules
+  country_overrides: z.array(CountryOverrideSchema).optional(), // Absent on runs scored before country overrides
 });
 export type Scoring = z.infer<typeof ScoringSchema>;
 
@@ -443,6 +634,7 @@ export const RunMetaSchema = z.object({
   reasoning_effort: z.string().nullable(),
   status: RunStatusSchema,
   error_message: z.string().nullable(),
+  parent_run_id: z.string().nullable().optional(), // Set when the run re-scores another run's stored facts
 });
 export type RunMeta = z.infer<typeof RunMetaSchema>;
 
@@ -569,6 +761,22 @@ export function createDefaultFundPolicy(): FundPolicySnapshot {
       accepts_non_firm_power: true,
       max_curtailment_cap_hours_per_year: null,
       max_flex_share_pct: null,
+      requires_grid_connection_agreement: false,
+      accepts_interruptible_power: true,
+      max_queue_wait_months: null,
+      rejects_deep_works: false,
+      requires_building_permit: false,
+      rejects_permit_appeal_risk: false,
+      min_anchor_customer_stage: null,
+      min_prelet_pct: null,
+      min_tier_level: null,
+      max_pue: null,
+      requires_heat_reuse_plan: false,
+      requires_renewable_commitment: false,
+      min_renewable_pct: null,
+      max_energisation_months: null,
+      min_power_evidence_tier: null,
+      min_land_evidence_tier: null,
     },
     weights: {
       POWER_GRID: 0.3,
@@ -578,5 +786,7 @@ export function createDefaultFundPolicy(): FundPolicySnapshot {
       TECH_BUILD: 0.1,
       ESG_REGULATORY: 0.1,
     },
+    custom_rules: [],
+    scoring_adjustments: ScoringAdjustmentsSchema.parse({}),
   };
 }
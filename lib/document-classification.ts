@@ -0,0 +1,633 @@
+/**
+ * Document classification - Which artifact types a dataroom document evidences
+ *
+ * Deterministic keyword rules (EN/DE/FR/ES/IT/NL) over the extracted text and the
+ * file name. A document can carry several artifact types, each with a confidence
+ * and the passages that matched, so the analyst can check the call and correct it.
+ * The artifact type, and where the document comes from (an e-mail, a sponsor
+ * teaser, an issuer's letterhead), decide the evidence tier of facts cited from it
+ * (applyArtifactEvidenceTiers). Client-safe: no database access.
+ */
+
+import {
+  type ArtifactRegisterEntry,
+  type ArtifactType,
+  ArtifactTypeSchema,
+  type EvidenceSnippet,
+  type EvidenceTier,
+  EvidenceTierSchema,
+  type FactValue,
+} from './dd-contract-v1';
+import { getExpectedArtifactsForFact } from './fact-catalog-v1';
+import { readStatedPeriods } from './stated-values';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export type ClassificationSource = 'RULES' | 'ANALYST';
+
+export interface ClassificationEvidence {
+  page_number: number;
+  text: string;
+}
+
+export interface ArtifactClassification {
+  artifact_type: ArtifactType;
+  confidence: number;
+  evidence: ClassificationEvidence[];
+}
+
+/**
+ * A stored DocumentClassification row, as far as tier derivation needs it
+ */
+export interface StoredClassification {
+  artifactType: string;
+  confidence: number;
+  source: string;
+}
+
+/**
+ * Where a document comes from, when it can be told from its name or first page.
+ * Stored on DealDocument.sourceKind.
+ */
+export type DocumentSourceKind = 'EMAIL' | 'TEASER' | 'ISSUER_LETTERHEAD';
+
+/**
+ * A deal document, as far as tier derivation needs it
+ */
+export interface TierDocument {
+  id: string;
+  name?: string | null;
+  sourceKind?: string | null;
+  classifications?: StoredClassification[];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+// Below this a rules classification is not stored
+export const MIN_CLASSIFICATION_CONFIDENCE = 0.5;
+// Below this a rules classification is shown but does not set evidence tiers
+export const TIER_CLASSIFICATION_CONFIDENCE = 0.6;
+// Letterheads and e-mail headers are read from the start of the first page
+const LETTERHEAD_CHARS = 500;
+
+const SIGNAL_WEIGHT = 0.3;
+const FILE_NAME_WEIGHT = 0.25;
+const MAX_RULES_CONFIDENCE = 0.95;
+const MAX_EVIDENCE_PASSAGES = 3;
+const PASSAGE_CONTEXT_CHARS = 100;
+
+/**
+ * Evidence tier a document of each artifact type provides. Agreements, permits and
+ * title assume the executed or issued document; an analyst removes the type from
+ * drafts.
+ */
+export const ARTIFACT_EVIDENCE_TIERS: Record<ArtifactType, EvidenceTier> = {
+  GRID_ENQUIRY_OR_FEASIBILITY_REPLY: 'OFFICIAL_UNSIGNED',
+  GRID_APPLICATION_SUBMITTED: 'SELLER_STATEMENT',
+  GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL: 'OFFICIAL_UNSIGNED',
+  GRID_CONNECTION_AGREEMENT_SIGNED: 'OFFICIAL_SIGNED',
+  GRID_DEPOSIT_PAYMENT_PROOF: 'OFFICIAL_SIGNED_AND_PAID',
+  GRID_QUEUE_POSITION_CONFIRMATION: 'OFFICIAL_UNSIGNED',
+  GRID_FIRMNESS_FLEX_TERMS_ANNEX: 'OFFICIAL_UNSIGNED',
+  GRID_CURTAILMENT_TERMS: 'OFFICIAL_UNSIGNED',
+  GRID_DEEP_WORKS_SCOPE: 'OFFICIAL_UNSIGNED',
+  PLANNING_APPLICATION_SUBMITTED: 'SELLER_STATEMENT',
+  PLANNING_PERMISSION_GRANTED: 'OFFICIAL_SIGNED',
+  PLANNING_PERMISSION_FINAL_OR_IN_FORCE: 'OFFICIAL_SIGNED',
+  ENVIRONMENTAL_PERMIT: 'OFFICIAL_SIGNED',
+  BUILDING_PERMIT: 'OFFICIAL_SIGNED',
+  LAND_TITLE_OWNERSHIP: 'OFFICIAL_SIGNED',
+  LAND_LEASE: 'OFFICIAL_SIGNED',
+  LAND_OPTION: 'OFFICIAL_SIGNED',
+  LAND_CONTROL_EXPIRY_EVIDENCE: 'OFFICIAL_UNSIGNED',
+  CABLE_ROUTE_WAYLEAVE_OR_EASEMENT: 'OFFICIAL_SIGNED',
+  FIBER_AVAILABILITY_LETTER: 'THIRD_PARTY',
+  CARRIER_QUOTE_OR_CONTRACT: 'THIRD_PARTY',
+  DIVERSE_ROUTE_CONFIRMATION: 'THIRD_PARTY',
+  CUSTOMER_LOI: 'THIRD_PARTY',
+  CUSTOMER_CONTRACT_MSA_OR_LEASE: 'OFFICIAL_SIGNED',
+  HEAT_REUSE_REQUIREMENT_EVIDENCE: 'OFFICIAL_UNSIGNED',
+  HEAT_OFFTAKE_AGREEMENT: 'OFFICIAL_SIGNED',
+  WATER_RIGHTS_OR_SUPPLY_EVIDENCE: 'OFFICIAL_UNSIGNED',
+  RENEWABLE_PPA_OR_GUARANTEES_OF_ORIGIN: 'OFFICIAL_SIGNED',
+  EPC_OR_CONTRACTOR_APPOINTMENT: 'OFFICIAL_SIGNED',
+  OPERATOR_APPOINTMENT: 'OFFICIAL_SIGNED',
+  CAPEX_ESTIMATE_OR_BUDGET: 'SELLER_STATEMENT',
+};
+
+// ════════════════════════════════════════════════════════════════════════════
+// RULES
+// ════════════════════════════════════════════════════════════════════════════
+
+interface ClassificationRule {
+  /** Phrases that identify the document; each distinct match adds confidence */
+  signals: RegExp[];
+  /** File name hint, matched against the name without extension */
+  fileName?: RegExp;
+  /** Must also appear somewhere, e.g. a signature block for a signed agreement */
+  requires?: RegExp;
+}
+
+const SIGNATURE =
+  /in witness whereof|duly (?:signed|executed)|signed (?:by|on|for and on behalf)|signature|unterschrift|unterzeichnet|signé|firmado|firmato|ondertekend|handtekening/i;
+const PAYMENT =
+  /payment (?:received|confirmation)|remittance|receipt of payment|zahlungseingang|zahlungsbestätigung|paiement reçu|pago recibido|pagamento ricevuto|betaling ontvangen/i;
+
+const EMAIL_FILE = /\.(eml|msg)$/i;
+const EMAIL_HEADERS = [
+  /^\s*(?:from|von|de|da|van)\s*:/im,
+  /^\s*(?:subject|betreff|objet|asunto|oggetto|onderwerp)\s*:/im,
+];
+// The sent date of an e-mail, as rendered by lib/text-extraction.ts or pasted from a forward
+const EMAIL_DATE_HEADER = /^\s*(?:date|datum|sent|gesendet|envoyé|enviado|inviato|verzonden)\s*:\s*(.+)$/im;
+// What precedes an issue date: 'Date:', 'Datum', 'le', 'den' or a place ('Berlin, ')
+const ISSUE_DATE_LABEL = /(?:\bdated?|\bdatum|\bfecha|\bdata|\bdatée?|\ble|\bden|\bdel|,)\s*[:.]?\s*$/i;
+// Dates that are deadlines rather than the date of the document
+const DEADLINE_LABEL = /(?:until|by|before|bis|vor|jusqu'au|avant|hasta|antes|fino al|entro|tot|vóór|expir\w*|valid\w*|gültig\w*)\s*(?:the\s+|le\s+|el\s+|il\s+|den\s+)?$/i;
+const PRESENTATION_FILE = /\.(pptx?|key)$/i;
+const TEASER_FILE_NAME = /teaser|information memorandum|investment memo|pitch|deck|investor presentation|executive summary/i;
+const TEASER_TEXT =
+  /\bteaser\b|information memorandum|investment opportunity|opportunité d'investissement|investitionsmöglichkeit|oportunidad de inversión|opportunità di investimento|investeringskans/i;
+// Grid operators and permitting authorities whose letterhead marks an issued document
+const ISSUER_NAMES =
+  /\b(?:RTE|Enedis|TenneT|Amprion|50Hertz|TransnetBW|National Grid|UK Power Networks|SSEN|Northern Powergrid|EirGrid|ESB Networks|Elia|Fluvius|Red Eléctrica|i-DE|e-distribución|Terna|e-distribuzione|Liander|Stedin|Enexis|Westnetz|Bayernwerk|Netze BW|Stromnetz Berlin|Préfecture|Mairie|Bezirksregierung|Landratsamt|Bauamt|Ayuntamiento|Comune di|Gemeente|Planning Inspectorate|(?:County|City|District|Borough) Council)\b/;
+
+const RULES: Record<ArtifactType, ClassificationRule> = {
+  GRID_ENQUIRY_OR_FEASIBILITY_REPLY: {
+    signals: [
+      /feasibility (?:study|assessment|reply)|capacity (?:enquiry|inquiry|check)|netzanfrage|netzverträglichkeit|étude de faisabilité|estudio de viabilidad|haalbaarheidsstudie/i,
+      /(?:grid|network) (?:enquiry|inquiry)|reply to your (?:enquiry|request)/i,
+    ],
+    fileName: /feasib|enquiry|inquiry|anfrage/i,
+  },
+  GRID_APPLICATION_SUBMITTED: {
+    signals: [
+      /(?:grid )?connection application|application for (?:a )?(?:grid )?connection|netzanschlussantrag|demande de raccordement|solicitud de (?:acceso|conexión)|aansluitaanvraag/i,
+      /application (?:reference|number|received)|acknowledg(?:e)?ment of (?:your )?application|eingangsbestätigung/i,
+    ],
+    fileName: /application|antrag|demande/i,
+  },
+  GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL: {
+    signals: [
+      /connection offer|offer (?:for|of) (?:grid )?connection|netzanschlussangebot|offre de raccordement|proposition technique et financière|oferta de conexión|aansluitofferte/i,
+      /connection (?:charge|cost|fee)s?|offer (?:is )?valid (?:until|for)|validity of (?:this|the) offer|baukostenzuschuss|contribution (?:au|aux) raccordement/i,
+      /(?:maximum )?import capacity|connection capacity|anschlussleistung|puissance de raccordement/i,
+    ],
+    fileName: /offer|angebot|offre|oferta|ptf/i,
+  },
+  GRID_CONNECTION_AGREEMENT_SIGNED: {
+    signals: [
+      /connection agreement|bilateral connection agreement|netzanschlussvertrag|contrat de raccordement|contrato de (?:acceso|conexión)|aansluitovereenkomst|contratto di connessione/i,
+      /(?:connection|point of) (?:point|supply)|agreed (?:import )?capacity|vereinbarte anschlussleistung/i,
+    ],
+    fileName: /connection.?agreement|anschlussvertrag|bca/i,
+    requires: SIGNATURE,
+  },
+  GRID_DEPOSIT_PAYMENT_PROOF: {
+    signals: [
+      /(?:connection|security|grid) deposit|securit(?:y|isation) payment|sicherheitsleistung|dépôt de garantie|garantía|aanbetaling/i,
+      PAYMENT,
+    ],
+    fileName: /deposit|payment|zahlung|paiement|receipt/i,
+  },
+  GRID_QUEUE_POSITION_CONFIRMATION: {
+    signals: [
+      /queue position|position in the (?:connection )?queue|connection queue|warteschlange|file d'attente|cola de conexión|wachtrij/i,
+      /(?:reserved|reservation of) capacity|kapazitätsreservierung|réservation de capacité/i,
+    ],
+    fileName: /queue|reservation|reservierung/i,
+  },
+  GRID_FIRMNESS_FLEX_TERMS_ANNEX: {
+    signals: [
+      /non-firm|firm (?:capacity|access)|flexible (?:connection|access)|flex(?:ible)? terms|interruptible|unterbrechbar|accès flexible|raccordement modulable|acceso flexible/i,
+      /annex|schedule|anlage|annexe|anexo|bijlage/i,
+    ],
+    fileName: /firm|flex|annex|anlage/i,
+  },
+  GRID_CURTAILMENT_TERMS: {
+    signals: [
+      /curtailment|constraint (?:payment|management)|abregelung|einspeisemanagement|écrêtement|effacement|limitación de potencia|curtailment hours|congestiemanagement/i,
+      /hours per (?:year|annum)|maximum (?:interruption|curtailment)/i,
+    ],
+    fileName: /curtail|abregel|constraint/i,
+  },
+  GRID_DEEP_WORKS_SCOPE: {
+    signals: [
+      /(?:deep|reinforcement) works|network reinforcement|netzausbau|netzverstärkung|travaux de renforcement|refuerzo de (?:la )?red|netversterking/i,
+      /(?:new )?substation|umspannwerk|poste source|subestación|onderstation/i,
+    ],
+    fileName: /reinforce|deep.?works|substation|ausbau/i,
+  },
+  PLANNING_APPLICATION_SUBMITTED: {
+    signals: [
+      /planning application|application for planning|bauvoranfrage|bauantrag|demande de permis|solicitud de licencia|omgevingsvergunning aanvraag|domanda di permesso/i,
+      /application (?:reference|number|validated|received)|date of application/i,
+    ],
+    fileName: /planning.?app|bauantrag|demande/i,
+  },
+  PLANNING_PERMISSION_GRANTED: {
+    signals: [
+      /planning permission|permission (?:is )?(?:hereby )?granted|grant of (?:planning )?permission|decision notice|baugenehmigung|bebauungsplan|permis de construire|licencia de obras|omgevingsvergunning|permesso di costruire/i,
+      /subject to the following conditions|conditions? attached|auflagen|sous réserve des prescriptions/i,
+    ],
+    fileName: /permission|decision|genehmigung|permis|licencia|vergunning/i,
+  },
+  PLANNING_PERMISSION_FINAL_OR_IN_FORCE: {
+    signals: [
+      /(?:no|without) (?:appeal|judicial review)|appeal period (?:has )?expired|final and binding|bestandskräftig|rechtskräftig|purgé de tout recours|firme en vía administrativa|onherroepelijk|definitivo/i,
+      /certificate of (?:lawfulness|finality)|in force|rechtskraft/i,
+    ],
+    fileName: /final|bestandskraft|rechtskraft|onherroepelijk/i,
+  },
+  ENVIRONMENTAL_PERMIT: {
+    signals: [
+      /environmental permit|environmental (?:impact )?(?:assessment|consent)|immissionsschutz|bimschg|autorisation environnementale|icpe|autorización ambiental|milieuvergunning|autorizzazione ambientale/i,
+      /emission limits?|noise limits?|grenzwerte/i,
+    ],
+    fileName: /environment|umwelt|bimsch|icpe|milieu/i,
+  },
+  BUILDING_PERMIT: {
+    signals: [
+      /building (?:permit|consent|regulations approval)|construction permit|baugenehmigung|baufreigabe|permis de construire|licencia de obra|bouwvergunning|permesso di costruire/i,
+      /commencement of (?:works|construction)|baubeginn/i,
+    ],
+    fileName: /building.?permit|baugenehmigung|bouwvergunning|licencia/i,
+  },
+  LAND_TITLE_OWNERSHIP: {
+    signals: [
+      /title (?:register|deed|number)|land registry|registered proprietor|grundbuch|eigentümer|titre de propriété|acte de vente|registro de la propiedad|kadaster|eigendomsbewijs|catasto/i,
+      /freehold|proprietorship|flurstück|parcelle cadastrale|parcela/i,
+    ],
+    fileName: /title|grundbuch|kadaster|deed/i,
+  },
+  LAND_LEASE: {
+    signals: [
+      /(?:ground|land) lease|lease agreement|landlord|tenant|pachtvertrag|erbbaurecht|mietvertrag|bail emphytéotique|bail à construction|contrato de arrendamiento|erfpacht|huurovereenkomst|contratto di locazione/i,
+      /(?:annual )?rent|term of (?:the|this) lease|lease term|pachtzins|loyer|renta|huurprijs/i,
+    ],
+    fileName: /lease|pacht|erbbau|bail|arrend|erfpacht|huur/i,
+  },
+  LAND_OPTION: {
+    signals: [
+      /option (?:agreement|to (?:purchase|acquire|lease))|call option|exercise (?:of )?the option|optionsvertrag|kaufoption|promesse (?:unilatérale )?de vente|opción de compra|optieovereenkomst|opzione di acquisto/i,
+      /option (?:period|fee|expiry|exercise)/i,
+    ],
+    fileName: /option/i,
+  },
+  LAND_CONTROL_EXPIRY_EVIDENCE: {
+    signals: [
+      /(?:option|lease|exclusivity) (?:expires|expiry date|end date)|long-?stop date|ablaufdatum|date d'expiration|fecha de vencimiento|vervaldatum/i,
+      /extension of (?:the )?(?:option|lease|exclusivity)|verlängerung/i,
+    ],
+    fileName: /expiry|extension|verlängerung/i,
+  },
+  CABLE_ROUTE_WAYLEAVE_OR_EASEMENT: {
+    signals: [
+      /wayleave|easement|right of way|cable route|dienstbarkeit|leitungsrecht|servitude|servidumbre|opstalrecht|zakelijk recht|servitù/i,
+      /cable corridor|trasse|tracé/i,
+    ],
+    fileName: /wayleave|easement|dienstbarkeit|servitude|servidumbre/i,
+  },
+  FIBER_AVAILABILITY_LETTER: {
+    signals: [
+      /(?:dark )?fib(?:re|er) (?:availability|is available)|confirm(?:s)? (?:the )?availability of (?:dark )?fib(?:re|er)|glasfaser(?:anbindung|verfügbarkeit)|fibre optique|fibra óptica|glasvezel/i,
+      /point of presence|\bpop\b|ducts?|leerrohr/i,
+    ],
+    fileName: /fib(?:re|er)|glasfaser|glasvezel/i,
+  },
+  CARRIER_QUOTE_OR_CONTRACT: {
+    signals: [
+      /(?:carrier|connectivity|wavelength|ip transit) (?:quote|quotation|proposal|contract|order)|service order form|monthly recurring charge|\bmrc\b|\bnrc\b/i,
+      /(?:telecom|network) (?:carrier|operator)|carrier(?:-neutral)?/i,
+    ],
+    fileName: /carrier|quote|quotation|transit|wavelength/i,
+  },
+  DIVERSE_ROUTE_CONFIRMATION: {
+    signals: [
+      /diverse (?:route|path|routing)|route diversity|physically (?:separate|diverse)|redundant (?:route|path)|diverse wege|redundante (?:trasse|anbindung)|chemins diversifiés|rutas diversas/i,
+      /separation (?:distance|of routes)|meet-?me room/i,
+    ],
+    fileName: /divers|redundan/i,
+  },
+  CUSTOMER_LOI: {
+    signals: [
+      /letter of intent|memorandum of understanding|\bmou\b|heads of terms|absichtserklärung|lettre d'intention|carta de intenciones|intentieverklaring|lettera di intenti/i,
+      /non-binding|nicht bindend|non contraignant|no vinculante|niet-bindend/i,
+    ],
+    fileName: /\bloi\b|letter.?of.?intent|\bmou\b|heads.?of.?terms/i,
+  },
+  CUSTOMER_CONTRACT_MSA_OR_LEASE: {
+    signals: [
+      /master services agreement|\bmsa\b|colocation (?:agreement|contract)|data cent(?:re|er) (?:lease|services agreement)|pre-?let(?: agreement)?|rahmenvertrag|contrat de colocation|contrato marco/i,
+      /service level agreement|\bsla\b|committed (?:it )?(?:load|capacity)|contracted (?:it )?(?:load|mw)/i,
+    ],
+    fileName: /\bmsa\b|colocation|customer.?contract|pre.?let/i,
+    requires: SIGNATURE,
+  },
+  HEAT_REUSE_REQUIREMENT_EVIDENCE: {
+    signals: [
+      /(?:waste )?heat (?:reuse|recovery) (?:requirement|obligation)|energieeffizienzgesetz|\benefg\b|abwärmenutzung|valorisation de la chaleur fatale|récupération de chaleur|reutilización del calor|restwarmte/i,
+      /energy reuse factor|\berf\b|district heating|fernwärme|réseau de chaleur|warmtenet/i,
+    ],
+    fileName: /heat|abwärme|chaleur|warmte/i,
+  },
+  HEAT_OFFTAKE_AGREEMENT: {
+    signals: [
+      /heat (?:offtake|supply|purchase) agreement|wärmeliefervertrag|abwärmeabnahme|contrat de fourniture de chaleur|contrato de suministro de calor|warmteleveringsovereenkomst/i,
+      /district heating|fernwärme|réseau de chaleur|warmtenet/i,
+    ],
+    fileName: /heat.?(?:offtake|supply)|wärmeliefer|warmtelever/i,
+  },
+  WATER_RIGHTS_OR_SUPPLY_EVIDENCE: {
+    signals: [
+      /water (?:supply|abstraction|rights?|connection)|abstraction licen[cs]e|wasserrecht|wasserversorgung|prélèvement d'eau|alimentation en eau|concesión de aguas|watervergunning|wateronttrekking/i,
+      /m3\/(?:h|day|year)|cubic metres|litres per second/i,
+    ],
+    fileName: /water|wasser|eau|agua/i,
+  },
+  RENEWABLE_PPA_OR_GUARANTEES_OF_ORIGIN: {
+    signals: [
+      /power purchase agreement|\bppa\b|guarantees? of origin|renewable energy certificates?|herkunftsnachweis|garanties d'origine|garantías de origen|garanties van oorsprong|garanzie di origine/i,
+      /renewable|erneuerbar|renouvelable|renovable|hernieuwbaar/i,
+    ],
+    fileName: /\bppa\b|origin|herkunft|renewable/i,
+  },
+  EPC_OR_CONTRACTOR_APPOINTMENT: {
+    signals: [
+      /\bepc\b|engineering,? procurement and construction|design and build|general contractor|generalunternehmer|contrat de conception-réalisation|contratista principal|hoofdaannemer|appalto/i,
+      /letter of (?:appointment|award)|contract (?:award|sum)|notice to proceed|auftragserteilung|lettre d'attribution/i,
+    ],
+    fileName: /\bepc\b|contractor|appointment|award|generalunternehm/i,
+  },
+  OPERATOR_APPOINTMENT: {
+    signals: [
+      /(?:facility|facilities|site) (?:management|operations?) (?:agreement|contract|appointment)|operations and maintenance|o&m (?:agreement|contract)|betriebsführungsvertrag|contrat d'exploitation|contrato de operación|beheerovereenkomst/i,
+      /appointed (?:as )?(?:the )?operator|operator appointment|betreiber/i,
+    ],
+    fileName: /operator|o&m|o_m|betriebsführung|exploitation/i,
+  },
+  CAPEX_ESTIMATE_OR_BUDGET: {
+    signals: [
+      /capex|capital expenditure|cost (?:estimate|plan|budget)|investment budget|investitionskosten|kostenschätzung|budget d'investissement|presupuesto de inversión|investeringsbegroting/i,
+      /(?:€|eur|gbp|£)\s?\d[\d.,]*\s?(?:m|mn|million|mio)\b|per mw|cost per (?:it )?mw|contingency/i,
+    ],
+    fileName: /capex|budget|cost|kosten/i,
+  },
+};
+
+// ════════════════════════════════════════════════════════════════════════════
+// CLASSIFICATION
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * First match of `pattern` with its 1-based page and the surrounding passage
+ */
+function findPassage(pages: string[], pattern: RegExp): ClassificationEvidence | null {
+  for (let i = 0; i < pages.length; i++) {
+    const match = pattern.exec(pages[i]);
+    if (!match) continue;
+    const start = Math.max(0, match.index - PASSAGE_CONTEXT_CHARS);
+    const end = Math.min(pages[i].length, match.index + match[0].length + PASSAGE_CONTEXT_CHARS);
+    const text = pages[i].slice(start, end).replace(/\s+/g, ' ').trim();
+    return { page_number: i + 1, text: `${start > 0 ? '…' : ''}${text}${end < pages[i].length ? '…' : ''}` };
+  }
+  return null;
+}
+
+/**
+ * Classify a document from its extracted pages and file name. Returns the artifact
+ * types reaching MIN_CLASSIFICATION_CONFIDENCE, most confident first.
+ */
+export function classifyDocument({ fileName, pages }: { fileName: string; pages: string[] }): ArtifactClassification[] {
+  const baseName = fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ');
+  const results: ArtifactClassification[] = [];
+
+  for (const artifactType of ArtifactTypeSchema.options) {
+    const rule = RULES[artifactType];
+    if (rule.requires && !pages.some((page) => rule.requires!.test(page))) continue;
+
+    const evidence = rule.signals.map((signal) => findPassage(pages, signal)).filter((e): e is ClassificationEvidence => !!e);
+    const fileNameMatch = rule.fileName?.test(baseName) ?? false;
+    // The file name alone does not classify a document
+    if (evidence.length === 0) continue;
+
+    const confidence = Math.min(MAX_RULES_CONFIDENCE, evidence.length * SIGNAL_WEIGHT + (fileNameMatch ? FILE_NAME_WEIGHT : 0));
+    if (confidence < MIN_CLASSIFICATION_CONFIDENCE) continue;
+
+    results.push({
+      artifact_type: artifactType,
+      confidence: Math.round(confidence * 100) / 100,
+      evidence: evidence.slice(0, MAX_EVIDENCE_PASSAGES),
+    });
+  }
+
+  return results.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Where a document comes from: an e-mail (.eml/.msg or mail headers), a sponsor
+ * teaser or presentation, or a letter on a grid operator's or authority's
+ * letterhead. Without pages only the file name is read.
+ */
+export function detectDocumentSource({ fileName, pages = [] }: { fileName: string; pages?: string[] }): DocumentSourceKind | null {
+  const baseName = fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ');
+  const head = (pages[0] ?? '').slice(0, LETTERHEAD_CHARS);
+
+  if (EMAIL_FILE.test(fileName) || EMAIL_HEADERS.every((header) => header.test(head))) return 'EMAIL';
+  if (PRESENTATION_FILE.test(fileName) || TEASER_FILE_NAME.test(baseName) || TEASER_TEXT.test(head)) return 'TEASER';
+  if (ISSUER_NAMES.test(head)) return 'ISSUER_LETTERHEAD';
+  return null;
+}
+
+/**
+ * The date a document was written or sent, for DealDocument.documentDate: an
+ * e-mail's Date header, else the issue date at the head of the first page (a
+ * labelled date such as 'Datum: 12.03.2026' or 'Berlin, 12. März 2026', then the
+ * first full date that is not a deadline). Null when the head states no day.
+ */
+export function detectDocumentDate({ fileName, pages = [] }: { fileName: string; pages?: string[] }): Date | null {
+  const head = (pages[0] ?? '').slice(0, LETTERHEAD_CHARS);
+
+  if (detectDocumentSource({ fileName, pages }) === 'EMAIL') {
+    const header = EMAIL_DATE_HEADER.exec(head)?.[1].trim();
+    if (header) {
+      const sent = new Date(header);
+      if (!isNaN(sent.getTime())) return sent;
+      const [stated] = readStatedPeriods(header).filter((p) => p.value[0] === p.value[1]);
+      if (stated) return dayKeyToDate(stated.value[0]);
+    }
+  }
+
+  const days = readStatedPeriods(head)
+    .filter((p) => p.value[0] === p.value[1])
+    .map((p) => ({ ...p, before: head.slice(Math.max(0, head.indexOf(p.text) - 25), head.indexOf(p.text)) }))
+    .filter((d) => !DEADLINE_LABEL.test(d.before));
+  const issued = days.find((d) => ISSUE_DATE_LABEL.test(d.before)) ?? days[0];
+  return issued ? dayKeyToDate(issued.value[0]) : null;
+}
+
+function dayKeyToDate(key: number): Date {
+  return new Date(Date.UTC(Math.floor(key / 10000), (Math.floor(key / 100) % 100) - 1, key % 100));
+}
+
+/**
+ * Value for DealDocument.documentType: the most confident artifact type, or 'OTHER'
+ */
+export function primaryDocumentType(classifications: { artifactType: string; confidence: number }[]): string {
+  const [top] = [...classifications].sort((a, b) => b.confidence - a.confidence);
+  return top?.artifactType ?? 'OTHER';
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EVIDENCE TIERS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Artifact types a document reliably evidences: analyst classifications, and rules
+ * classifications at TIER_CLASSIFICATION_CONFIDENCE or above
+ */
+export function trustedArtifactTypes(classifications: StoredClassification[]): ArtifactType[] {
+  return classifications
+    .filter((c) => c.source === 'ANALYST' || c.confidence >= TIER_CLASSIFICATION_CONFIDENCE)
+    .map((c) => c.artifactType)
+    .filter((type): type is ArtifactType => ArtifactTypeSchema.safeParse(type).success);
+}
+
+export function highestEvidenceTier(tiers: EvidenceTier[]): EvidenceTier | null {
+  if (tiers.length === 0) return null;
+  return tiers.reduce((best, tier) =>
+    EvidenceTierSchema.options.indexOf(tier) > EvidenceTierSchema.options.indexOf(best) ? tier : best
+  );
+}
+
+// Ceiling for a document not classified as evidence the fact expects
+const UNCONFIRMED_TIER_CEILING: EvidenceTier = 'OFFICIAL_UNSIGNED';
+
+function tierRank(tier: EvidenceTier): number {
+  return EvidenceTierSchema.options.indexOf(tier);
+}
+
+function documentSourceKind(document: TierDocument): DocumentSourceKind | null {
+  return (document.sourceKind as DocumentSourceKind | null) ?? detectDocumentSource({ fileName: document.name ?? '' });
+}
+
+/**
+ * Tier and artifact types one cited document lends a fact that expects `expected`:
+ * 1. A classification the fact expects sets the tier (a signed agreement, a deposit proof)
+ * 2. An e-mail or teaser is a seller statement, whatever it quotes, unless an analyst
+ *    classified it
+ * 3. Other classified paper, an expected artifact the register names in the document,
+ *    or an issuer's letterhead count up to an unsigned official document
+ * 4. Anything else is the seller's word
+ */
+function documentEvidence(
+  document: TierDocument | undefined,
+  expected: ArtifactType[],
+  named: ArtifactType[]
+): { tier: EvidenceTier; types: ArtifactType[] } {
+  if (!document) return { tier: 'SELLER_STATEMENT', types: [] };
+  const kind = documentSourceKind(document);
+  const sellerPaper = kind === 'EMAIL' || kind === 'TEASER';
+  const classified = trustedArtifactTypes(
+    (document.classifications ?? []).filter((c) => !sellerPaper || c.source === 'ANALYST')
+  );
+
+  const matched = classified.filter((type) => expected.includes(type));
+  if (matched.length > 0) return { tier: highestEvidenceTier(matched.map((type) => ARTIFACT_EVIDENCE_TIERS[type]))!, types: matched };
+  if (sellerPaper) return { tier: 'SELLER_STATEMENT', types: [] };
+
+  const mentioned = named.filter((type) => expected.includes(type));
+  const tiers = [...classified, ...mentioned].map((type) => ARTIFACT_EVIDENCE_TIERS[type]);
+  if (kind === 'ISSUER_LETTERHEAD') tiers.push(UNCONFIRMED_TIER_CEILING);
+  const best = highestEvidenceTier(tiers) ?? 'SELLER_STATEMENT';
+  return {
+    tier: tierRank(best) > tierRank(UNCONFIRMED_TIER_CEILING) ? UNCONFIRMED_TIER_CEILING : best,
+    types: mentioned,
+  };
+}
+
+/**
+ * Derive the evidence tier of a set of citations from the documents behind them.
+ * The strongest document sets the tier; snippets without a document are the
+ * seller's word. The register's mentions name artifacts per document.
+ */
+export function createEvidenceTierResolver(
+  snippets: EvidenceSnippet[],
+  documents: TierDocument[],
+  register: ArtifactRegisterEntry[] = []
+): (factCode: string, citations: string[]) => { tier: EvidenceTier; artifact_types: ArtifactType[] } {
+  const snippetsById = new Map(snippets.map((s) => [s.snippet_id, s]));
+  const documentsById = new Map(documents.map((d) => [d.id, d]));
+  const namedByDocument = new Map<string, ArtifactType[]>();
+  for (const entry of register) {
+    for (const citation of entry.citations) {
+      const documentId = snippetsById.get(citation)?.source.deal_document_id;
+      if (documentId) namedByDocument.set(documentId, [...(namedByDocument.get(documentId) ?? []), entry.artifact_type]);
+    }
+  }
+
+  return (factCode, citations) => {
+    if (citations.length === 0) return { tier: 'NONE', artifact_types: [] };
+    const expected = getExpectedArtifactsForFact(factCode);
+    const documentIds = Array.from(new Set(citations.map((c) => snippetsById.get(c)?.source.deal_document_id ?? null)));
+    const evidence = documentIds.map((id) =>
+      documentEvidence(id ? documentsById.get(id) : undefined, expected, (id && namedByDocument.get(id)) || [])
+    );
+    return {
+      tier: highestEvidenceTier(evidence.map((e) => e.tier))!,
+      artifact_types: Array.from(new Set(evidence.flatMap((e) => e.types))),
+    };
+  };
+}
+
+/**
+ * Set evidence_tier and source_artifact_types of each cited fact from the documents
+ * it cites (createEvidenceTierResolver). Only artifact types the fact expects raise
+ * the tier past an unsigned official document: a capex sheet cited for grid
+ * capacity says nothing about the grid offer.
+ */
+export function applyArtifactEvidenceTiers(
+  facts: Record<string, FactValue>,
+  snippets: EvidenceSnippet[],
+  documents: TierDocument[],
+  register: ArtifactRegisterEntry[] = []
+): Record<string, FactValue> {
+  const resolveTier = createEvidenceTierResolver(snippets, documents, register);
+
+  const result: Record<string, FactValue> = {};
+  for (const [code, fact] of Object.entries(facts)) {
+    if (fact.value == null || fact.citations.length === 0) {
+      result[code] = fact;
+      continue;
+    }
+    const { tier, artifact_types } = resolveTier(code, fact.citations);
+    result[code] = { ...fact, evidence_tier: tier, source_artifact_types: artifact_types };
+  }
+  return result;
+}
+
+/**
+ * Same for the artifact register: a mention takes its artifact type's tier when
+ * cited from a document classified as that type, is a seller statement when cited
+ * from an e-mail or teaser, and an unsigned official document at most otherwise
+ */
+export function applyArtifactRegisterTiers(
+  register: ArtifactRegisterEntry[],
+  snippets: EvidenceSnippet[],
+  documents: TierDocument[]
+): ArtifactRegisterEntry[] {
+  const snippetsById = new Map(snippets.map((s) => [s.snippet_id, s]));
+  const documentsById = new Map(documents.map((d) => [d.id, d]));
+
+  return register.map((entry) => {
+    const documentIds = Array.from(new Set(entry.citations.map((c) => snippetsById.get(c)?.source.deal_document_id ?? null)));
+    const tiers = documentIds.map(
+      (id) => documentEvidence(id ? documentsById.get(id) : undefined, [entry.artifact_type], [entry.artifact_type]).tier
+    );
+    return { ...entry, evidence_tier: highestEvidenceTier(tiers) ?? entry.evidence_tier };
+  });
+}
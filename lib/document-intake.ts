@@ -0,0 +1,351 @@
+/**
+ * DOCUMENT INTAKE - Stores uploaded dataroom files and queues their ingestion
+ *
+ * Single files and ZIP datarooms share one path: validate, store, create the
+ * DealDocument and enqueue an INGEST_DOCUMENT job (see lib/job-worker.ts).
+ * ZIPs are unpacked server-side into an UploadBatch with a per-file report.
+ * Content already on the deal (same sha256) is linked instead of stored twice,
+ * and a revised upload can supersede an earlier document (lib/document-versions.ts).
+ */
+
+import { type DealDocument, type Job, JobType, type Prisma } from '@prisma/client';
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import path from 'path';
+import { enqueueJob } from './jobs';
+import { prisma } from './prisma';
+import { saveFile } from './storage';
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = [
+  'pdf',
+  'doc',
+  'docx',
+  'txt',
+  'eml',
+  'msg',
+  'xlsx',
+  'pptx',
+  'png',
+  'jpg',
+  'jpeg',
+  'tif',
+  'tiff',
+];
+export const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+export const MAX_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
+// Guards against archives that expand far beyond their upload size
+const MAX_ARCHIVE_ENTRIES = 2000;
+const MAX_ARCHIVE_UNPACKED_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Browsers send these; archive entries have no MIME type of their own
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  txt: 'text/plain',
+  eml: 'message/rfc822',
+  msg: 'application/vnd.ms-outlook',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+};
+
+export function getFileExtension(fileName: string): string {
+  return fileName.includes('.') ? (fileName.split('.').pop() || '').toLowerCase() : '';
+}
+
+export class ArchiveError extends Error {}
+
+export function hashContent(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// DEDUPLICATION AND VERSIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * An invalid "new version of" link; `status` is the HTTP status to answer with
+ */
+export class DocumentVersionError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The document on this deal with identical content, if any
+ */
+export async function findDuplicateDocument(dealId: string, sha256: string): Promise<DealDocument | null> {
+  return prisma.dealDocument.findFirst({ where: { dealId, sha256 }, orderBy: { uploadedAt: 'asc' } });
+}
+
+/**
+ * Check that `supersedesId` names a current document of the deal
+ */
+export async function assertSupersedable(dealId: string, supersedesId: string): Promise<DealDocument> {
+  const previous = await prisma.dealDocument.findUnique({ where: { id: supersedesId } });
+  if (!previous || previous.dealId !== dealId) {
+    throw new DocumentVersionError('Previous version not found on this deal', 404);
+  }
+  if (previous.supersededAt) {
+    throw new DocumentVersionError(`${previous.name} already has a newer version`, 409);
+  }
+  return previous;
+}
+
+/**
+ * Mark an existing document as the new version of another one
+ */
+export async function linkDocumentVersion(document: DealDocument, supersedesId: string): Promise<DealDocument> {
+  if (document.id === supersedesId) {
+    throw new DocumentVersionError('A document cannot supersede itself', 400);
+  }
+  if (document.supersededAt) {
+    throw new DocumentVersionError('Only the latest version of a document can supersede another', 409);
+  }
+  if (document.supersedesId) {
+    throw new DocumentVersionError('Document already supersedes another version', 409);
+  }
+  await assertSupersedable(document.dealId, supersedesId);
+
+  const [updated] = await prisma.$transaction([
+    prisma.dealDocument.update({ where: { id: document.id }, data: { supersedesId } }),
+    prisma.dealDocument.update({ where: { id: supersedesId }, data: { supersededAt: new Date() } }),
+  ]);
+  return updated;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SINGLE DOCUMENTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface IntakeDocumentInput {
+  dealId: string;
+  fileName: string;
+  buffer: Buffer;
+  mimeType?: string;
+  userId: string;
+  batchId?: string | null;
+  folderPath?: string | null;
+  sha256?: string;
+  /** Earlier document this upload replaces, checked with assertSupersedable */
+  supersedesId?: string | null;
+}
+
+/**
+ * Store a validated file, create its DealDocument and queue ingestion
+ */
+export async function intakeDocument(input: IntakeDocumentInput): Promise<{ document: DealDocument; job: Job }> {
+  const { dealId, fileName, buffer, userId, batchId = null, folderPath = null, supersedesId = null } = input;
+  const mimeType = input.mimeType || MIME_TYPES[getFileExtension(fileName)] || 'application/octet-stream';
+  const sha256 = input.sha256 ?? hashContent(buffer);
+
+  const stored = await saveFile(new File([buffer], fileName, { type: mimeType }), buffer);
+  // The new version and the superseded mark are written together
+  const [document] = await prisma.$transaction([
+    prisma.dealDocument.create({
+      data: {
+        dealId,
+        name: stored.name,
+        path: stored.path,
+        mimeType: stored.mimeType,
+        sha256,
+        originalFileSize: stored.size,
+        originalExt: stored.ext,
+        batchId,
+        folderPath,
+        supersedesId,
+      },
+    }),
+    ...(supersedesId
+      ? [prisma.dealDocument.update({ where: { id: supersedesId }, data: { supersededAt: new Date() } })]
+      : []),
+  ]);
+
+  const job = await enqueueJob({
+    type: JobType.INGEST_DOCUMENT,
+    dealId,
+    payload: { documentId: document.id },
+    createdById: userId,
+  });
+
+  return { document, job };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ZIP DATAROOMS
+// ════════════════════════════════════════════════════════════════════════════
+
+export type BatchFileStatus = 'accepted' | 'duplicate' | 'rejected';
+
+export interface BatchFileReport {
+  path: string;
+  status: BatchFileStatus;
+  reason: string | null;
+  /** Created document, or the existing one an accepted file duplicates */
+  document_id: string | null;
+}
+
+/**
+ * OS metadata that archivers add next to the real files
+ */
+function isArchiveNoise(entryPath: string): boolean {
+  const parts = entryPath.split('/');
+  return parts[0] === '__MACOSX' || parts.some((p) => p.startsWith('.')) || parts[parts.length - 1] === 'Thumbs.db';
+}
+
+/**
+ * Inflate an archive entry, stopping as soon as it passes `limit` bytes. Sizes
+ * declared in the archive can lie, so only inflated bytes are counted.
+ */
+function readArchiveEntry(entry: JSZip.JSZipObject, limit: number): Promise<{ content: Buffer | null; bytes: number }> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream
+      .on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes > limit) {
+          // Paused and unread, the stream stops inflating
+          stream.pause();
+          stream.removeAllListeners();
+          resolve({ content: null, bytes });
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on('error', reject)
+      .on('end', () => resolve({ content: Buffer.concat(chunks), bytes }));
+  });
+}
+
+/**
+ * Unpack a ZIP dataroom into an UploadBatch. Every file is reported as accepted,
+ * a duplicate (same sha256 as a document already on the deal or earlier in the
+ * archive) or rejected with a reason; accepted files go through intakeDocument.
+ */
+export async function intakeZipArchive({
+  dealId,
+  archiveName,
+  buffer,
+  userId,
+}: {
+  dealId: string;
+  archiveName: string;
+  buffer: Buffer;
+  userId: string;
+}) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ArchiveError('File is not a readable ZIP archive');
+  }
+
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir && !isArchiveNoise(entry.name));
+  if (entries.length === 0) throw new ArchiveError('Archive contains no files');
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new ArchiveError(`Archive has ${entries.length} files; the limit is ${MAX_ARCHIVE_ENTRIES}`);
+  }
+
+  const existing = await prisma.dealDocument.findMany({ where: { dealId, sha256: { not: null } }, select: { id: true, sha256: true } });
+  const documentBySha = new Map(existing.map((d) => [d.sha256 as string, d.id]));
+
+  const batch = await prisma.uploadBatch.create({
+    data: {
+      dealId,
+      archiveName,
+      report: [],
+      fileCount: entries.length,
+      acceptedCount: 0,
+      duplicateCount: 0,
+      rejectedCount: 0,
+      createdById: userId,
+    },
+  });
+
+  const report: BatchFileReport[] = [];
+  const documents: DealDocument[] = [];
+  let unpackedBytes = 0;
+
+  const sorted = entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const [index, entry] of sorted.entries()) {
+    const fileName = path.posix.basename(entry.name);
+    const folder = path.posix.dirname(entry.name);
+    const ext = getFileExtension(fileName);
+    const reject = (reason: string) => report.push({ path: entry.name, status: 'rejected', reason, document_id: null });
+
+    if (!SUPPORTED_DOCUMENT_EXTENSIONS.includes(ext)) {
+      reject(`Unsupported file type${ext ? ` .${ext}` : ''}. Allowed: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}.`);
+      continue;
+    }
+
+    const { content, bytes } = await readArchiveEntry(
+      entry,
+      Math.min(MAX_DOCUMENT_BYTES, MAX_ARCHIVE_UNPACKED_BYTES - unpackedBytes)
+    );
+    unpackedBytes += bytes;
+    if (unpackedBytes > MAX_ARCHIVE_UNPACKED_BYTES) {
+      reject('Archive expands beyond the unpacked size limit; remaining files were not read');
+      for (const rest of sorted.slice(index + 1)) {
+        report.push({ path: rest.name, status: 'rejected', reason: 'Not read: the archive expands beyond the unpacked size limit', document_id: null });
+      }
+      break;
+    }
+    if (!content) {
+      reject('File too large. Max 50MB.');
+      continue;
+    }
+    if (content.length === 0) {
+      reject('File is empty');
+      continue;
+    }
+
+    const sha256 = hashContent(content);
+    const duplicateOf = documentBySha.get(sha256);
+    if (duplicateOf) {
+      report.push({ path: entry.name, status: 'duplicate', reason: 'Same content as a document already uploaded', document_id: duplicateOf });
+      continue;
+    }
+
+    const { document } = await intakeDocument({
+      dealId,
+      fileName,
+      buffer: content,
+      userId,
+      batchId: batch.id,
+      folderPath: folder === '.' ? null : folder,
+      sha256,
+    });
+    documentBySha.set(sha256, document.id);
+    documents.push(document);
+    report.push({ path: entry.name, status: 'accepted', reason: null, document_id: document.id });
+  }
+
+  const count = (status: BatchFileStatus) => report.filter((r) => r.status === status).length;
+  const saved = await prisma.uploadBatch.update({
+    where: { id: batch.id },
+    data: {
+      report: report as unknown as Prisma.InputJsonArray,
+      acceptedCount: count('accepted'),
+      duplicateCount: count('duplicate'),
+      rejectedCount: count('rejected'),
+    },
+  });
+
+  return { batch: saved, report, documents };
+}
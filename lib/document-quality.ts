@@ -23,6 +23,18 @@ export interface DocumentQualityResult {
   recommendations: string[];
 }
 
+/**
+ * Quality fields stored on a DealDocument at ingestion
+ */
+export interface DocumentQualityAssessment {
+  qualityScore: number;
+  qualityWarnings: string[];
+  language: string | null;
+  textExtracted: boolean;
+  lowTextWarning: boolean;
+  ocrApplied: boolean;
+}
+
 export interface DocumentQualityWarning {
   documentId: string;
   documentName: string;
@@ -72,8 +84,9 @@ export function analyzeDocumentQuality(
   const estimatedPages = Math.max(1, Math.ceil(fileSize / THRESHOLDS.BYTES_PER_PAGE_ESTIMATE));
   const charsPerPage = Math.round(textCharacterCount / estimatedPages);
 
-  // Check if likely scanned
-  const isLikelyScanned = charsPerPage < THRESHOLDS.MIN_CHARS_PER_PAGE;
+  // Check if likely scanned; only page-image formats can be, a short email is just short
+  const isPageFormat = mimeType.includes('pdf') || mimeType.startsWith('image/');
+  const isLikelyScanned = isPageFormat && charsPerPage < THRESHOLDS.MIN_CHARS_PER_PAGE;
   const isLowText = textCharacterCount < THRESHOLDS.MIN_TOTAL_CHARS;
 
   // Calculate quality score
@@ -122,6 +135,48 @@ export function analyzeDocumentQuality(
   };
 }
 
+/**
+ * Assess text extracted at ingestion. OCR'd documents are judged on the text
+ * recognised, so a readable scan is not flagged as low-text; garbled OCR is.
+ */
+export function assessExtractedDocument({
+  text,
+  fileSize,
+  fileName,
+  mimeType,
+  ocrApplied,
+}: {
+  text: string;
+  fileSize: number;
+  fileName: string;
+  mimeType: string;
+  ocrApplied: boolean;
+}): DocumentQualityAssessment {
+  const analysis = analyzeDocumentQuality(text, fileSize, fileName, mimeType);
+  const warnings = [...analysis.warnings];
+  let qualityScore = analysis.qualityScore;
+
+  const garbled = text.length > 0 && detectOCRGarbage(text);
+  if (garbled) {
+    qualityScore -= 20;
+    warnings.push('Extracted text looks garbled');
+  }
+  if (ocrApplied) {
+    warnings.push('Text was recognised by OCR; check figures against the original');
+  }
+
+  return {
+    qualityScore: Math.max(0, qualityScore),
+    qualityWarnings: warnings,
+    language: text.trim() ? detectLanguage(text) : null,
+    textExtracted: text.trim().length > 0,
+    // The flag means "may need OCR", which only helps page-image formats
+    lowTextWarning:
+      garbled || ((mimeType.includes('pdf') || mimeType.startsWith('image/')) && (analysis.isLowText || (analysis.isLikelyScanned && !ocrApplied))),
+    ocrApplied,
+  };
+}
+
 /**
  * Analyze quality of snippets retrieved from a document
  */
@@ -169,6 +224,9 @@ export function generateDocumentQualityWarnings(
     snippetCount?: number | null;
     textExtracted?: boolean;
     lowTextWarning?: boolean;
+    qualityScore?: number | null;
+    qualityWarnings?: unknown;
+    ocrApplied?: boolean;
   }>
 ): DocumentQualityWarning[] {
   const warnings: DocumentQualityWarning[] = [];
@@ -207,8 +265,28 @@ export function generateDocumentQualityWarnings(
       });
     }
 
-    // Check for image files
-    if (doc.mimeType.startsWith('image/')) {
+    // Check the score stored at ingestion
+    if (typeof doc.qualityScore === 'number' && doc.qualityScore < 50 && !doc.lowTextWarning && doc.snippetCount !== 0) {
+      const findings = Array.isArray(doc.qualityWarnings) ? (doc.qualityWarnings as string[]) : [];
+      warnings.push({
+        documentId: doc.id,
+        documentName: doc.name,
+        warning: `Low document quality score (${doc.qualityScore}/100)${findings.length ? `: ${findings.join('; ')}` : ''}`,
+        severity: 'MEDIUM',
+        recommendation: 'Check the extracted text before relying on facts cited from this document.',
+      });
+    }
+
+    // Check for image files; OCR makes them searchable but not error-free
+    if (doc.mimeType.startsWith('image/') && doc.ocrApplied && doc.snippetCount !== 0) {
+      warnings.push({
+        documentId: doc.id,
+        documentName: doc.name,
+        warning: 'Scanned image, text recognised by OCR',
+        severity: 'LOW',
+        recommendation: 'Check figures cited from this document against the original image.',
+      });
+    } else if (doc.mimeType.startsWith('image/')) {
       warnings.push({
         documentId: doc.id,
         documentName: doc.name,
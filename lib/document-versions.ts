@@ -0,0 +1,52 @@
+/**
+ * Document version chains
+ *
+ * A revised upload (e.g. a re-issued grid offer) points at the document it
+ * supersedes through `supersedesId`. Superseded documents stay on the deal for
+ * audit but are left out of retrieval. Client-safe: no database access.
+ */
+
+type VersionedDocument = {
+  id: string;
+  supersedesId: string | null;
+  supersededAt: Date | string | null;
+  openaiFileId?: string | null;
+};
+
+export interface DocumentVersionChain<T> {
+  /** Latest version, the one retrieval uses */
+  current: T;
+  /** Earlier versions, newest first */
+  previous: T[];
+}
+
+export function isSuperseded(document: VersionedDocument): boolean {
+  return document.supersededAt != null;
+}
+
+/**
+ * Provider file ids of superseded documents, to drop from vector store hits
+ */
+export function supersededFileIds(documents: VersionedDocument[]): Set<string> {
+  return new Set(documents.filter((d) => isSuperseded(d) && d.openaiFileId).map((d) => d.openaiFileId as string));
+}
+
+/**
+ * Group documents into version chains, in the order their current versions appear
+ */
+export function buildVersionChains<T extends VersionedDocument>(documents: T[]): DocumentVersionChain<T>[] {
+  const byId = new Map(documents.map((d) => [d.id, d]));
+  const replaced = new Set(documents.map((d) => d.supersedesId).filter((id): id is string => !!id && byId.has(id)));
+
+  return documents
+    .filter((d) => !replaced.has(d.id))
+    .map((current) => {
+      const previous: T[] = [];
+      let cursor = current.supersedesId ? byId.get(current.supersedesId) : undefined;
+      while (cursor && !previous.includes(cursor)) {
+        previous.push(cursor);
+        cursor = cursor.supersedesId ? byId.get(cursor.supersedesId) : undefined;
+      }
+      return { current, previous };
+    });
+}
@@ -0,0 +1,37 @@
+/**
+ * EVIDENCE LINKS - Where a cited snippet came from
+ *
+ * Snippets mapped to a DealDocument open the stored file in the browser;
+ * PDF viewers honour #page=N so the citation lands on the cited page.
+ */
+
+export interface SnippetSource {
+  fileId: string | null;
+  fileName: string | null;
+  pageNumber: number | null;
+}
+
+/**
+ * Link to the snippet's source document, or null when it was never mapped to one.
+ * Pass a base URL for links that leave the app (PDF and CSV exports).
+ */
+export function getSnippetSourceHref(snippet: SnippetSource, baseUrl = ''): string | null {
+  if (!snippet.fileId) return null;
+  const page = snippet.pageNumber ? `#page=${snippet.pageNumber}` : '';
+  return `${baseUrl}/api/documents/${snippet.fileId}/download?inline=1${page}`;
+}
+
+/**
+ * "grid-offer.pdf, p. 3" style label for a snippet's source
+ */
+export function formatSnippetSource(snippet: SnippetSource): string {
+  const name = snippet.fileName || 'Unknown source';
+  return snippet.pageNumber ? `${name}, p. ${snippet.pageNumber}` : name;
+}
+
+/**
+ * Base URL for absolute links in exported files
+ */
+export function getAppBaseUrl(): string {
+  return (process.env.NEXTAUTH_URL || '').replace(/\/+$/, '');
+}
@@ -2,6 +2,10 @@ import { pdf, Document, Page, Text, View, StyleSheet, Link } from '@react-pdf/re
 import { Prisma } from '@prisma/client';
 import { z } from 'zod';
 import { computeEnergizationConfidence, checklistSchema, evidenceSchema, scorecardSchema } from '../analysis';
+import { type OverallScore } from '../dd-contract-v1';
+import { generateDocumentQualityWarnings, shouldRecommendOCR } from '../document-quality';
+import { isSuperseded } from '../document-versions';
+import { formatSnippetSource, getAppBaseUrl, getSnippetSourceHref } from '../evidence-links';
 import { prisma } from '../prisma';
 
 export class AuthorizationError extends Error {
@@ -56,6 +60,24 @@ function formatCitations(citations?: string[]) {
   return citations.map((c) => `[SNP-${c.slice(0, 8)}]`).join(' ');
 }
 
+function renderSnippetSource(snippet: RunContext['evidenceSnippets'][number]) {
+  if (!snippet.fileName) return null;
+  const baseUrl = getAppBaseUrl();
+  const href = baseUrl ? getSnippetSourceHref(snippet, baseUrl) : null;
+  return (
+    <Text style={styles.text}>
+      Source:{' '}
+      {href ? (
+        <Link src={href} style={styles.text}>
+          {formatSnippetSource(snippet)}
+        </Link>
+      ) : (
+        formatSnippetSource(snippet)
+      )}
+    </Text>
+  );
+}
+
 function collectCitedSnippetIds(evidence: Evidence, scorecard: ScorecardItem[]) {
   const ids = new Set<string>();
   Object.values(evidence.extracted_facts || {}).forEach((fact: any) => {
@@ -65,6 +87,12 @@ function collectCitedSnippetIds(evidence: Evidence, scorecard: ScorecardItem[])
   return ids;
 }
 
+/** Score adjustment ledger of a v1 run; null for legacy runs and runs scored before the ledger */
+function getScoreLedger(run: NonNullable<RunContext>): OverallScore | null {
+  const overall = (run.ddOntology as any)?.scoring?.overall as OverallScore | undefined;
+  return overall?.adjustments ? overall : null;
+}
+
 function truncateText(text: string, maxLength = 1200) {
   if (!text) return '';
   return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
@@ -96,6 +124,7 @@ function buildDocument({
   evidence,
   scorecard,
   checklist,
+  scoreLedger,
   marketResearch,
   citedSnippets,
   otherSnippets,
@@ -105,6 +134,7 @@ function buildDocument({
   evidence: Evidence;
   scorecard: ScorecardItem[];
   checklist: ChecklistItem[];
+  scoreLedger: OverallScore | null;
   marketResearch?: MarketResearch | null;
   citedSnippets: RunContext['evidenceSnippets'];
   otherSnippets: RunContext['evidenceSnippets'];
@@ -114,6 +144,9 @@ function buildDocument({
   const checklistItems = checklist || [];
   const marketIncluded = Boolean(run.marketResearchIncluded);
   const runStatusLabel = run.status === 'FAILED' ? 'Failed' : 'Success';
+  const assessedDocuments = deal.documents.filter((d) => !isSuperseded(d) && d.qualityScore !== null);
+  const qualityWarnings = generateDocumentQualityWarnings(assessedDocuments);
+  const ocrRecommendation = shouldRecommendOCR(assessedDocuments);
 
   return (
     <Document>
@@ -154,6 +187,27 @@ function buildDocument({
           ))}
         </View>
 
+        {scoreLedger && (
+          <View style={styles.section}>
+            <Text style={styles.sectionHeader}>Score adjustments</Text>
+            <Text style={[styles.small, { marginBottom: 4 }]}>
+              Weighted module score {scoreLedger.base_score_0_100} → overall score {scoreLedger.score_0_100}
+            </Text>
+            {scoreLedger.adjustments!.map((adjustment, idx) => (
+              <View key={`${adjustment.name}-${idx}`} style={styles.card}>
+                <Text style={styles.label}>
+                  {adjustment.points > 0 ? '+' : ''}{adjustment.points} · {adjustment.source === 'CUSTOM_RULE' ? `Rule: ${adjustment.name}` : adjustment.name}
+                </Text>
+                <Text style={styles.text}>{adjustment.reason}</Text>
+                {adjustment.citations.length > 0 && (
+                  <Text style={[styles.small, { marginTop: 2 }]}>Citations: {formatCitations(adjustment.citations)}</Text>
+                )}
+              </View>
+            ))}
+            {scoreLedger.adjustments!.length === 0 && <Text style={styles.small}>No bonuses or penalties applied.</Text>}
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionHeader}>Checklist</Text>
           {checklistItems.map((item, idx) => (
@@ -169,6 +223,21 @@ function buildDocument({
           {checklistItems.length === 0 && <Text style={styles.small}>No outstanding items.</Text>}
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionHeader}>Document quality</Text>
+          {assessedDocuments.length > 0 && <Text style={[styles.small, { marginBottom: 4 }]}>{ocrRecommendation.message}</Text>}
+          {qualityWarnings.map((warning, idx) => (
+            <View key={`${warning.documentId}-${idx}`} style={styles.card}>
+              <Text style={styles.label}>
+                {warning.severity} · {warning.documentName}
+              </Text>
+              <Text style={styles.text}>{warning.warning}</Text>
+              <Text style={[styles.small, { marginTop: 2 }]}>{warning.recommendation}</Text>
+            </View>
+          ))}
+          {assessedDocuments.length === 0 && <Text style={styles.small}>No documents assessed yet.</Text>}
+        </View>
+
         <View style={styles.divider} />
         <View style={styles.section}>
           <Text style={styles.appendixHeader}>Appendix A — Evidence binder</Text>
@@ -176,7 +245,7 @@ function buildDocument({
           {citedSnippets.map((snippet) => (
             <View key={snippet.id} style={styles.card}>
               <Text style={styles.label}>Snippet {snippet.snippetId}</Text>
-              {snippet.fileName && <Text style={styles.text}>Source: {snippet.fileName}</Text>}
+              {renderSnippetSource(snippet)}
               {typeof snippet.score === 'number' && (
                 <Text style={styles.text}>Score: {snippet.score.toFixed(3)}</Text>
               )}
@@ -201,7 +270,7 @@ function buildDocument({
               {otherSnippets.map((snippet) => (
                 <View key={snippet.id} style={styles.card}>
                   <Text style={styles.label}>Snippet {snippet.snippetId}</Text>
-                  {snippet.fileName && <Text style={styles.text}>Source: {snippet.fileName}</Text>}
+                  {renderSnippetSource(snippet)}
                   <Text style={[styles.text, { marginTop: 4 }]}>{truncateText(snippet.text)}</Text>
                 </View>
               ))}
@@ -291,6 +360,8 @@ export async function buildIcPackPdfBuffer({ dealId, runId, userId }: BuildParam
   const scorecard = scorecardSchema.parse(run.scorecard || []);
   const checklist = checklistSchema.parse(run.checklist || []);
   const citedIds = collectCitedSnippetIds(evidence, scorecard);
+  const scoreLedger = getScoreLedger(run);
+  scoreLedger?.adjustments!.forEach((a) => a.citations.forEach((c) => citedIds.add(c)));
 
   const citedSnippets = run.evidenceSnippets.filter((s) => citedIds.has(s.snippetId));
   const otherSnippets = run.evidenceSnippets.filter((s) => !citedIds.has(s.snippetId));
@@ -301,6 +372,7 @@ export async function buildIcPackPdfBuffer({ dealId, runId, userId }: BuildParam
     evidence,
     scorecard,
     checklist,
+    scoreLedger,
     marketResearch: (run.marketResearch as MarketResearch | null) || null,
     citedSnippets,
     otherSnippets,
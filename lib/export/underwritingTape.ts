@@ -13,6 +13,7 @@ import {
   type ModuleStatus,
   UNDERWRITING_TAPE_VARIABLES,
 } from '../dd-contract-v1';
+import { type SnippetSource, formatSnippetSource, getAppBaseUrl, getSnippetSourceHref } from '../evidence-links';
 
 // ════════════════════════════════════════════════════════════════════════════
 // TYPES
@@ -41,6 +42,8 @@ export interface TapeExportRow {
   value: string | number | null;
   status: string;
   citations: string;
+  citation_sources: string;
+  citation_links: string;
   artifact_requested: string | null;
   is_critical: boolean;
 }
@@ -126,7 +129,8 @@ export function extractTapeFromAnalysis(
     type: string;
     productType: string;
   },
-  analysisDate: Date
+  analysisDate: Date,
+  snippets: Array<SnippetSource & { snippetId: string }> = []
 ): TapeExportRow[] {
   const rows: TapeExportRow[] = [];
   const facts = run.evidence?.extracted_facts || run.ddOntology?.power_grid || {};
@@ -174,6 +178,7 @@ export function extractTapeFromAnalysis(
       value: value,
       status: status,
       citations: citations.map(c => c.slice(0, 8)).join('; '),
+      ...describeCitationSources(citations, snippets),
       artifact_requested: artifactRequested,
       is_critical: variable.critical,
     });
@@ -331,6 +336,26 @@ function getRequiredArtifact(variableId: string): string | null {
   return artifactMap[variableId] || null;
 }
 
+/**
+ * Source document and page of each cited snippet, with absolute links to open them
+ */
+function describeCitationSources(
+  citations: string[],
+  snippets: Array<SnippetSource & { snippetId: string }>
+): { citation_sources: string; citation_links: string } {
+  const cited = citations
+    .map(c => snippets.find(s => s.snippetId === c))
+    .filter((s): s is SnippetSource & { snippetId: string } => Boolean(s));
+  const baseUrl = getAppBaseUrl();
+
+  return {
+    citation_sources: Array.from(new Set(cited.map(formatSnippetSource))).join('; '),
+    citation_links: Array.from(
+      new Set(cited.map(s => getSnippetSourceHref(s, baseUrl)).filter((href): href is string => Boolean(href)))
+    ).join('; '),
+  };
+}
+
 /**
  * Convert rows to CSV format
  */
@@ -349,6 +374,8 @@ export function toCSV(rows: TapeExportRow[]): string {
     'Value',
     'Status',
     'Citations',
+    'Citation Sources',
+    'Citation Links',
     'Artifact Requested',
     'Is Critical',
   ];
@@ -370,6 +397,8 @@ export function toCSV(rows: TapeExportRow[]): string {
       row.value === null ? '' : escapeCSV(String(row.value)),
       escapeCSV(row.status),
       escapeCSV(row.citations),
+      escapeCSV(row.citation_sources),
+      escapeCSV(row.citation_links),
       row.artifact_requested ? escapeCSV(row.artifact_requested) : '',
       row.is_critical ? 'TRUE' : 'FALSE',
     ];
@@ -446,6 +475,7 @@ export async function buildUnderwritingTape(runId: string): Promise<{ csv: strin
     where: { id: runId },
     include: {
       deal: true,
+      evidenceSnippets: true,
     },
   });
 
@@ -474,7 +504,8 @@ export async function buildUnderwritingTape(runId: string): Promise<{ csv: strin
       type: run.deal.type,
       productType: run.deal.productType,
     },
-    run.createdAt
+    run.createdAt,
+    run.evidenceSnippets
   );
 
   return {
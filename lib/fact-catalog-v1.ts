@@ -1,11 +1,13 @@
 /**
- * Fact Catalog v1 - 4 Core Modules
+ * Fact Catalog v1 - 6 Scored Modules
  *
  * Modules included in v1:
  * - POWER_GRID: Grid connection, capacity, firmness
  * - PERMITS_LAND: Land control, planning permissions
  * - COMMERCIAL: Customer traction, prelet status
  * - CONNECTIVITY: Fiber, carriers, diverse routes
+ * - TECH_BUILD: IT capacity, design PUE, tier, capex, EPC
+ * - ESG_REGULATORY: Heat reuse, water supply, renewable share
  *
  * Each fact has:
  * - code: unique identifier
@@ -180,6 +182,32 @@ export const POWER_GRID_FACTS: FactDefinition[] = [
       'network reinforcement extension required',
     ],
   },
+  {
+    code: 'grid_interruptible_flag',
+    module: 'POWER_GRID',
+    label: 'Interruptible Connection',
+    type: 'boolean',
+    unit: null,
+    hard_gate: false,
+    expected_artifacts: ['GRID_FIRMNESS_FLEX_TERMS_ANNEX', 'GRID_CURTAILMENT_TERMS'],
+    retrieval_queries: [
+      'interruptible connection disconnection on instruction',
+      'non-guaranteed access interruptible supply terms',
+    ],
+  },
+  {
+    code: 'grid_queue_wait_months',
+    module: 'POWER_GRID',
+    label: 'Queue Wait (months)',
+    type: 'number',
+    unit: 'months',
+    hard_gate: false,
+    expected_artifacts: ['GRID_QUEUE_POSITION_CONFIRMATION', 'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL'],
+    retrieval_queries: [
+      'queue position waiting time months connection',
+      'expected wait grid queue backlog',
+    ],
+  },
   {
     code: 'grid_title_level_0_5',
     module: 'POWER_GRID',
@@ -440,6 +468,137 @@ export const COMMERCIAL_FACTS: FactDefinition[] = [
   },
 ];
 
+// ════════════════════════════════════════════════════════════════════════════
+// TECH_BUILD MODULE FACTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export const TECH_BUILD_FACTS: FactDefinition[] = [
+  {
+    code: 'it_capacity_mw',
+    module: 'TECH_BUILD',
+    label: 'IT Capacity (MW)',
+    type: 'number',
+    unit: 'MW',
+    hard_gate: false,
+    expected_artifacts: ['CAPEX_ESTIMATE_OR_BUDGET', 'EPC_OR_CONTRACTOR_APPOINTMENT'],
+    retrieval_queries: [
+      'IT capacity MW critical IT load',
+      'design IT load white space megawatts',
+    ],
+  },
+  {
+    code: 'design_pue_target',
+    module: 'TECH_BUILD',
+    label: 'Design PUE Target',
+    type: 'number',
+    unit: 'PUE',
+    hard_gate: false,
+    expected_artifacts: ['EPC_OR_CONTRACTOR_APPOINTMENT', 'CAPEX_ESTIMATE_OR_BUDGET'],
+    retrieval_queries: [
+      'PUE power usage effectiveness target design',
+      'annualised PUE cooling efficiency',
+    ],
+  },
+  {
+    code: 'design_tier_rating',
+    module: 'TECH_BUILD',
+    label: 'Design Tier / Resilience',
+    type: 'string',
+    unit: null,
+    hard_gate: false,
+    expected_artifacts: ['EPC_OR_CONTRACTOR_APPOINTMENT'],
+    retrieval_queries: [
+      'Tier III Tier IV design certification resilience',
+      'redundancy N+1 2N concurrent maintainability',
+    ],
+  },
+  {
+    code: 'capex_estimate_eur_m',
+    module: 'TECH_BUILD',
+    label: 'Capex Estimate (EUR m)',
+    type: 'number',
+    unit: 'EUR m',
+    hard_gate: false,
+    expected_artifacts: ['CAPEX_ESTIMATE_OR_BUDGET'],
+    retrieval_queries: [
+      'capex estimate construction budget cost',
+      'total development cost per MW',
+    ],
+  },
+  {
+    code: 'epc_contractor_status',
+    module: 'TECH_BUILD',
+    label: 'EPC / Contractor Status',
+    type: 'string',
+    unit: null,
+    hard_gate: false,
+    expected_artifacts: ['EPC_OR_CONTRACTOR_APPOINTMENT'],
+    retrieval_queries: [
+      'EPC contractor appointed construction contract',
+      'general contractor tender design and build',
+    ],
+  },
+];
+
+// ════════════════════════════════════════════════════════════════════════════
+// ESG_REGULATORY MODULE FACTS
+// ════════════════════════════════════════════════════════════════════════════
+
+export const ESG_REGULATORY_FACTS: FactDefinition[] = [
+  {
+    code: 'heat_reuse_obligation',
+    module: 'ESG_REGULATORY',
+    label: 'Heat Reuse Obligation',
+    type: 'boolean',
+    unit: null,
+    hard_gate: false,
+    expected_artifacts: ['HEAT_REUSE_REQUIREMENT_EVIDENCE', 'HEAT_OFFTAKE_AGREEMENT'],
+    retrieval_queries: [
+      'waste heat reuse obligation requirement',
+      'district heating offtake heat recovery',
+    ],
+  },
+  {
+    code: 'heat_reuse_plan_confirmed',
+    module: 'ESG_REGULATORY',
+    label: 'Heat Reuse Plan Confirmed',
+    type: 'boolean',
+    unit: null,
+    hard_gate: false,
+    expected_artifacts: ['HEAT_OFFTAKE_AGREEMENT', 'HEAT_REUSE_REQUIREMENT_EVIDENCE'],
+    retrieval_queries: [
+      'heat reuse plan offtaker heat network connection',
+      'heat offtake agreement heat supply contract',
+    ],
+  },
+  {
+    code: 'water_supply_status',
+    module: 'ESG_REGULATORY',
+    label: 'Water Supply / Rights',
+    type: 'string',
+    unit: null,
+    hard_gate: false,
+    expected_artifacts: ['WATER_RIGHTS_OR_SUPPLY_EVIDENCE'],
+    retrieval_queries: [
+      'water supply rights abstraction licence',
+      'cooling water consumption WUE allocation',
+    ],
+  },
+  {
+    code: 'renewable_energy_share_pct',
+    module: 'ESG_REGULATORY',
+    label: 'Renewable Energy Share (%)',
+    type: 'number',
+    unit: '%',
+    hard_gate: false,
+    expected_artifacts: ['RENEWABLE_PPA_OR_GUARANTEES_OF_ORIGIN'],
+    retrieval_queries: [
+      'renewable energy share PPA guarantees of origin',
+      'green power sourcing percentage renewable supply',
+    ],
+  },
+];
+
 // ════════════════════════════════════════════════════════════════════════════
 // COMBINED FACT CATALOG
 // ════════════════════════════════════════════════════════════════════════════
@@ -449,6 +608,8 @@ export const FACT_CATALOG_V1: FactDefinition[] = [
   ...PERMITS_LAND_FACTS,
   ...CONNECTIVITY_FACTS,
   ...COMMERCIAL_FACTS,
+  ...TECH_BUILD_FACTS,
+  ...ESG_REGULATORY_FACTS,
 ];
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -546,6 +707,16 @@ export const RETRIEVAL_QUERY_GROUPS = {
     'prelet capacity MW customer commitment',
     'MSA lease contract signed binding agreement',
   ],
+  TECH_BUILD: [
+    'IT capacity MW design PUE Tier resilience',
+    'capex estimate construction budget cost per MW',
+    'EPC contractor appointment construction contract',
+  ],
+  ESG_REGULATORY: [
+    'waste heat reuse obligation district heating offtake',
+    'water supply rights cooling consumption',
+    'renewable energy share PPA guarantees of origin',
+  ],
 } as const;
 
 export type RetrievalQueryGroup = keyof typeof RETRIEVAL_QUERY_GROUPS;
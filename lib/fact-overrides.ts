@@ -0,0 +1,231 @@
+/**
+ * Fact overrides - Analyst-asserted values for any catalog fact
+ *
+ * An analyst can set or clear a fact on a run, citing an uploaded document or
+ * giving a justification. The asserted fact takes the ANALYST_ASSERTED tier and is
+ * scored like any extracted fact. The FactOverride row carries it to the next run
+ * on the deal, unless documents uploaded after the override give a different value:
+ * then the extracted value stands, the override is flagged and the conflict is
+ * reported as a contradiction. Client-safe: no database access.
+ */
+
+import type { DealDocument, FactOverride } from '@prisma/client';
+import { factValuesAgree } from './contradiction-detector';
+import {
+  type Contradiction,
+  type EvidenceSnippet,
+  type FactCandidate,
+  type FactValue,
+  createEmptyFactValue,
+} from './dd-contract-v1';
+import { getFactByCode } from './fact-catalog-v1';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface FactAssertion {
+  override_id: string;
+  fact_code: string;
+  /** null clears the fact */
+  value: FactCandidate['value'] | null;
+  justification: string | null;
+  document: { id: string; name: string; page_number: number | null } | null;
+  user_id: string;
+  asserted_at: string;
+}
+
+export interface FlaggedAssertion {
+  assertion: FactAssertion;
+  reason: string;
+  conflicting_candidates: FactCandidate[];
+}
+
+/**
+ * An asserted value that does not fit the fact, or an unknown fact code
+ */
+export class FactAssertionError extends Error {}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ASSERTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Check an asserted value against the catalog type of the fact
+ */
+export function parseAssertedValue(code: string, value: unknown): FactAssertion['value'] {
+  const definition = getFactByCode(code);
+  if (!definition) throw new FactAssertionError(`Unknown fact ${code}`);
+  if (value == null || value === '') return null;
+
+  if (definition.type === 'number') {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isFinite(number)) throw new FactAssertionError(`${definition.label} must be a number`);
+    return number;
+  }
+  if (definition.type === 'boolean') {
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    throw new FactAssertionError(`${definition.label} must be true or false`);
+  }
+  if (typeof value !== 'string') throw new FactAssertionError(`${definition.label} must be text`);
+  return value.trim();
+}
+
+export function toFactAssertion(row: FactOverride & { document?: DealDocument | null }): FactAssertion {
+  return {
+    override_id: row.id,
+    fact_code: row.factCode,
+    value: (row.value as FactAssertion['value']) ?? null,
+    justification: row.justification,
+    document: row.document ? { id: row.document.id, name: row.document.name, page_number: row.pageNumber } : null,
+    user_id: row.createdById,
+    asserted_at: new Date(row.updatedAt).toISOString(),
+  };
+}
+
+export function analystSnippetId(overrideId: string): string {
+  return `analyst-${overrideId}`;
+}
+
+/**
+ * Evidence snippet for an assertion's document citation, so it resolves like any
+ * other citation on the run
+ */
+export function buildAnalystSnippet(assertion: FactAssertion): EvidenceSnippet | null {
+  if (!assertion.document) return null;
+  const label = getFactByCode(assertion.fact_code)?.label ?? assertion.fact_code;
+  return {
+    snippet_id: analystSnippetId(assertion.override_id),
+    text: assertion.justification ?? `Cited by an analyst for ${label}`,
+    source: {
+      deal_document_id: assertion.document.id,
+      file_name: assertion.document.name,
+      page_number: assertion.document.page_number,
+    },
+    retrieval: { query: `analyst override: ${assertion.fact_code}`, score: null },
+    openai: { vector_store_id: null, file_id: null },
+    metadata: { analyst_override: true, user_id: assertion.user_id },
+  };
+}
+
+/**
+ * Replace each asserted fact. The extracted candidates stay on the fact; those the
+ * assertion disagrees with are recorded as rejected.
+ */
+export function applyFactAssertions(facts: Record<string, FactValue>, assertions: FactAssertion[]): Record<string, FactValue> {
+  const result = { ...facts };
+
+  for (const assertion of assertions) {
+    const previous = result[assertion.fact_code] ?? createEmptyFactValue();
+    const cited = (previous.candidates ?? []).filter((c) => c.citations.length > 0);
+    const reason = assertion.justification ?? `Cited from ${assertion.document?.name ?? 'an uploaded document'}`;
+
+    result[assertion.fact_code] = {
+      value: assertion.value,
+      unit: assertion.value == null ? null : getFactByCode(assertion.fact_code)?.unit ?? null,
+      citations: assertion.document ? [analystSnippetId(assertion.override_id)] : [],
+      evidence_tier: 'ANALYST_ASSERTED',
+      source_artifact_types: [],
+      notes: assertion.justification,
+      candidates: previous.candidates,
+      resolution: {
+        rule: 'ANALYST_OVERRIDE',
+        detail: reason,
+        rejected_candidates:
+          assertion.value == null ? cited : cited.filter((c) => !factValuesAgree(assertion.fact_code, c.value, assertion.value!)),
+        override: {
+          reason,
+          user_id: assertion.user_id,
+          overridden_at: assertion.asserted_at,
+          previous_value: previous.value,
+        },
+      },
+    };
+  }
+  return result;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CARRY FORWARD
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Candidates of a freshly extracted fact that disagree with the assertion and cite
+ * a document uploaded after it. Evidence the analyst already saw does not count.
+ */
+export function findContradictingEvidence(
+  assertion: FactAssertion,
+  fact: FactValue | undefined,
+  snippets: EvidenceSnippet[],
+  documents: { id: string; uploadedAt: Date | string }[]
+): FactCandidate[] {
+  if (!fact || fact.value == null) return [];
+  const candidates = fact.candidates?.length ? fact.candidates : [{ value: fact.value, citations: fact.citations }];
+
+  const snippetsById = new Map(snippets.map((s) => [s.snippet_id, s]));
+  const newDocuments = new Set(
+    documents.filter((d) => new Date(d.uploadedAt).getTime() > Date.parse(assertion.asserted_at)).map((d) => d.id)
+  );
+  const citesNewDocument = (candidate: FactCandidate) =>
+    candidate.citations.some((c) => newDocuments.has(snippetsById.get(c)?.source.deal_document_id ?? ''));
+
+  return candidates.filter(
+    (c) =>
+      citesNewDocument(c) && (assertion.value == null || !factValuesAgree(assertion.fact_code, c.value, assertion.value))
+  );
+}
+
+/**
+ * Apply the deal's active overrides to a new run. An override contradicted by newer
+ * documents is left out and flagged, with a contradiction for the analyst.
+ */
+export function carryForwardAssertions(
+  facts: Record<string, FactValue>,
+  assertions: FactAssertion[],
+  snippets: EvidenceSnippet[],
+  documents: { id: string; uploadedAt: Date | string }[]
+): {
+  facts: Record<string, FactValue>;
+  snippets: EvidenceSnippet[];
+  applied: FactAssertion[];
+  flagged: FlaggedAssertion[];
+  contradictions: Contradiction[];
+} {
+  const applied: FactAssertion[] = [];
+  const flagged: FlaggedAssertion[] = [];
+  const contradictions: Contradiction[] = [];
+
+  for (const assertion of assertions) {
+    const conflicting = findContradictingEvidence(assertion, facts[assertion.fact_code], snippets, documents);
+    if (conflicting.length === 0) {
+      applied.push(assertion);
+      continue;
+    }
+
+    const definition = getFactByCode(assertion.fact_code);
+    const label = definition?.label ?? assertion.fact_code;
+    const asserted = assertion.value == null ? 'no value' : String(assertion.value);
+    const reason = `Documents uploaded since the override give ${conflicting.map((c) => String(c.value)).join(', ')} for ${label}, not ${asserted}`;
+    flagged.push({ assertion, reason, conflicting_candidates: conflicting });
+    contradictions.push({
+      fact_code: assertion.fact_code,
+      severity: definition?.hard_gate ? 'HIGH' : 'MEDIUM',
+      description: `${label}: analyst override conflicts with new evidence. ${reason}; review the override.`,
+      conflicting_candidates: [
+        ...(assertion.value == null
+          ? []
+          : [{ value: assertion.value, citations: assertion.document ? [analystSnippetId(assertion.override_id)] : [] }]),
+        ...conflicting,
+      ],
+    });
+  }
+
+  return {
+    facts: applyFactAssertions(facts, applied),
+    snippets: assertions.map(buildAnalystSnippet).filter((s): s is EvidenceSnippet => s != null),
+    applied,
+    flagged,
+    contradictions,
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Fact resolution - Picks one value per fact when the cited documents disagree
+ *
+ * attachFactCandidates collects every value the evidence states for a fact. The
+ * resolver ranks those candidates by the evidence tier of the documents they cite,
+ * then by artifact type (a signed agreement beats an offer, an offer beats an
+ * e-mail), then by the newest document date (its own date, else its upload time),
+ * and records the losing candidates and the rule that decided on
+ * FactValue.resolution. An analyst can pick another candidate with a reason
+ * (applyFactOverrides); the override is stored on the fact, so re-scoring the run
+ * keeps it. Client-safe: no database access.
+ */
+
+import {
+  type ArtifactRegisterEntry,
+  type ArtifactType,
+  type EvidenceSnippet,
+  EvidenceTierSchema,
+  type FactCandidate,
+  type FactResolution,
+  type FactValue,
+} from './dd-contract-v1';
+import { type TierDocument, createEvidenceTierResolver, trustedArtifactTypes } from './document-classification';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface ResolutionDocument extends TierDocument {
+  /** detectDocumentDate: the e-mail's Date header or the issue date on the first page */
+  documentDate?: Date | string | null;
+  uploadedAt?: Date | string | null;
+}
+
+export interface FactOverride {
+  fact_code: string;
+  value: FactCandidate['value'];
+  reason: string;
+  user_id: string;
+  overridden_at: string;
+}
+
+/**
+ * An override naming a fact or value the run has no cited candidate for
+ */
+export class FactOverrideError extends Error {}
+
+interface RankedCandidate {
+  candidate: FactCandidate;
+  /** Index in EvidenceTierSchema.options; higher is stronger */
+  tier: number;
+  /** Index in ARTIFACT_PRECEDENCE; lower is stronger */
+  precedence: number;
+  /** What the precedence rank came from, for the resolution detail */
+  source: string;
+  /** Newest date of the cited documents: their own date, else their upload time */
+  date: string | null;
+  /** Whether date is an upload time, for the resolution detail */
+  dateIsUpload: boolean;
+  index: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Artifact types from strongest to weakest source when candidates tie on tier:
+ * executed and paid documents, issued permits and title, official offers and
+ * confirmations, third-party letters, then the seller's own papers.
+ * Unclassified documents rank after every listed type, e-mails last.
+ */
+export const ARTIFACT_PRECEDENCE: ArtifactType[] = [
+  'GRID_DEPOSIT_PAYMENT_PROOF',
+  'GRID_CONNECTION_AGREEMENT_SIGNED',
+  'CUSTOMER_CONTRACT_MSA_OR_LEASE',
+  'LAND_TITLE_OWNERSHIP',
+  'LAND_LEASE',
+  'LAND_OPTION',
+  'PLANNING_PERMISSION_FINAL_OR_IN_FORCE',
+  'PLANNING_PERMISSION_GRANTED',
+  'BUILDING_PERMIT',
+  'ENVIRONMENTAL_PERMIT',
+  'CABLE_ROUTE_WAYLEAVE_OR_EASEMENT',
+  'HEAT_OFFTAKE_AGREEMENT',
+  'RENEWABLE_PPA_OR_GUARANTEES_OF_ORIGIN',
+  'EPC_OR_CONTRACTOR_APPOINTMENT',
+  'OPERATOR_APPOINTMENT',
+  'GRID_FIRMNESS_FLEX_TERMS_ANNEX',
+  'GRID_CURTAILMENT_TERMS',
+  'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL',
+  'GRID_QUEUE_POSITION_CONFIRMATION',
+  'GRID_DEEP_WORKS_SCOPE',
+  'GRID_ENQUIRY_OR_FEASIBILITY_REPLY',
+  'LAND_CONTROL_EXPIRY_EVIDENCE',
+  'HEAT_REUSE_REQUIREMENT_EVIDENCE',
+  'WATER_RIGHTS_OR_SUPPLY_EVIDENCE',
+  'CARRIER_QUOTE_OR_CONTRACT',
+  'DIVERSE_ROUTE_CONFIRMATION',
+  'FIBER_AVAILABILITY_LETTER',
+  'CUSTOMER_LOI',
+  'GRID_APPLICATION_SUBMITTED',
+  'PLANNING_APPLICATION_SUBMITTED',
+  'CAPEX_ESTIMATE_OR_BUDGET',
+];
+
+const UNCLASSIFIED_PRECEDENCE = ARTIFACT_PRECEDENCE.length;
+const EMAIL_PRECEDENCE = ARTIFACT_PRECEDENCE.length + 1;
+const EMAIL_FILE = /\.(eml|msg)$/i;
+
+// ════════════════════════════════════════════════════════════════════════════
+// RANKING
+// ════════════════════════════════════════════════════════════════════════════
+
+function formatLabel(value: string): string {
+  return value.toLowerCase().replace(/_/g, ' ');
+}
+
+function sameValue(a: FactCandidate['value'] | null, b: FactCandidate['value'] | null): boolean {
+  return String(a).toLowerCase().trim() === String(b).toLowerCase().trim();
+}
+
+function documentPrecedence(document: ResolutionDocument): { rank: number; source: string } {
+  const ranks = trustedArtifactTypes(document.classifications ?? [])
+    .map((type) => ARTIFACT_PRECEDENCE.indexOf(type))
+    .filter((rank) => rank >= 0);
+  if (ranks.length > 0) {
+    const rank = Math.min(...ranks);
+    return { rank, source: formatLabel(ARTIFACT_PRECEDENCE[rank]) };
+  }
+  if (EMAIL_FILE.test(document.name ?? '')) return { rank: EMAIL_PRECEDENCE, source: 'e-mail' };
+  return { rank: UNCLASSIFIED_PRECEDENCE, source: 'unclassified document' };
+}
+
+/**
+ * Annotate a candidate with the tier, artifact types and date of the documents it
+ * cites. A document without a date of its own is dated by its upload time. The
+ * tier is derived as in applyArtifactEvidenceTiers; any trusted type counts for
+ * precedence.
+ */
+function rankCandidate(
+  code: string,
+  candidate: FactCandidate,
+  index: number,
+  snippetsById: Map<string, EvidenceSnippet>,
+  documentsById: Map<string, ResolutionDocument>,
+  resolveTier: ReturnType<typeof createEvidenceTierResolver>
+): RankedCandidate {
+  const documents = Array.from(
+    new Set(
+      candidate.citations
+        .map((citation) => snippetsById.get(citation)?.source.deal_document_id)
+        .map((id) => (id ? documentsById.get(id) : undefined))
+        .filter((d): d is ResolutionDocument => d != null)
+    )
+  );
+
+  const { tier, artifact_types: matched } = resolveTier(code, candidate.citations);
+
+  const [best] = documents.map(documentPrecedence).sort((a, b) => a.rank - b.rank);
+  const [newest] = documents
+    .map((d) => ({ at: d.documentDate ?? d.uploadedAt, isUpload: d.documentDate == null }))
+    .filter((d) => d.at != null)
+    .map((d) => ({ date: new Date(d.at as Date | string).toISOString(), isUpload: d.isUpload }))
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  return {
+    candidate: { ...candidate, evidence_tier: tier, artifact_types: matched, document_date: newest?.date ?? null },
+    tier: EvidenceTierSchema.options.indexOf(tier),
+    precedence: best?.rank ?? UNCLASSIFIED_PRECEDENCE,
+    source: best?.source ?? 'unclassified document',
+    date: newest?.date ?? null,
+    dateIsUpload: newest?.isUpload ?? false,
+    index,
+  };
+}
+
+function compareCandidates(a: RankedCandidate, b: RankedCandidate): number {
+  return b.tier - a.tier || a.precedence - b.precedence || (b.date ?? '').localeCompare(a.date ?? '') || a.index - b.index;
+}
+
+/**
+ * The first rule, in ranking order, that separates the winner from the runner-up
+ */
+function decidingRule(
+  winner: RankedCandidate,
+  runnerUp: RankedCandidate,
+  extractedValue: FactValue['value']
+): Pick<FactResolution, 'rule' | 'detail'> {
+  if (winner.tier !== runnerUp.tier) {
+    return {
+      rule: 'EVIDENCE_TIER',
+      detail: `${formatLabel(winner.candidate.evidence_tier!)} evidence outranks ${formatLabel(runnerUp.candidate.evidence_tier!)}`,
+    };
+  }
+  if (winner.precedence !== runnerUp.precedence) {
+    return { rule: 'ARTIFACT_PRECEDENCE', detail: `${winner.source} outranks ${runnerUp.source}` };
+  }
+  if (winner.date !== runnerUp.date) {
+    const dated = (candidate: RankedCandidate) =>
+      `${candidate.dateIsUpload ? 'uploaded' : 'dated'} ${candidate.date!.slice(0, 10)}`;
+    return {
+      rule: 'DOCUMENT_DATE',
+      detail: `Newest document (${dated(winner)}) over ${runnerUp.date ? `one ${dated(runnerUp)}` : 'an undated one'}${
+        winner.dateIsUpload || runnerUp.dateIsUpload ? '; a document without a date of its own is dated by its upload' : ''
+      }`,
+    };
+  }
+  return {
+    rule: 'EXTRACTED_VALUE',
+    detail: sameValue(winner.candidate.value, extractedValue)
+      ? 'Candidates tie on evidence tier, artifact type and date; the extracted value is kept'
+      : 'Candidates tie on evidence tier, artifact type and date; the first cited value is kept',
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// RESOLUTION
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Pick each fact's value from its candidates. The winner's value and citations
+ * replace the extracted ones; every candidate is annotated with its source, and
+ * FactValue.resolution records the rule and the rejected candidates. Candidates
+ * without citations never win.
+ */
+export function resolveFactCandidates(
+  facts: Record<string, FactValue>,
+  snippets: EvidenceSnippet[],
+  documents: ResolutionDocument[],
+  register: ArtifactRegisterEntry[] = []
+): Record<string, FactValue> {
+  const snippetsById = new Map(snippets.map((s) => [s.snippet_id, s]));
+  const documentsById = new Map(documents.map((d) => [d.id, d]));
+  const resolveTier = createEvidenceTierResolver(snippets, documents, register);
+
+  const result: Record<string, FactValue> = {};
+  for (const [code, fact] of Object.entries(facts)) {
+    if (fact.value == null || !fact.candidates?.length) {
+      result[code] = fact;
+      continue;
+    }
+
+    const ranked = fact.candidates.map((c, i) => rankCandidate(code, c, i, snippetsById, documentsById, resolveTier));
+    const [winner, ...rejected] = ranked.filter((r) => r.candidate.citations.length > 0).sort(compareCandidates);
+    const candidates = ranked.map((r) => r.candidate);
+    if (!winner) {
+      result[code] = { ...fact, candidates };
+      continue;
+    }
+
+    const decision: Pick<FactResolution, 'rule' | 'detail'> =
+      rejected.length === 0
+        ? { rule: 'SINGLE_CANDIDATE', detail: 'Every cited snippet states this value' }
+        : decidingRule(winner, rejected[0], fact.value);
+
+    result[code] = {
+      ...fact,
+      value: winner.candidate.value,
+      citations: winner.candidate.citations,
+      candidates,
+      resolution: { ...decision, rejected_candidates: rejected.map((r) => r.candidate), override: null },
+    };
+  }
+  return result;
+}
+
+/**
+ * Apply analyst picks: each override must name a cited candidate of the fact. The
+ * fact takes that candidate's value, citations and tier, and its resolution
+ * becomes ANALYST_OVERRIDE with the reason and the value it replaced.
+ */
+export function applyFactOverrides(facts: Record<string, FactValue>, overrides: FactOverride[]): Record<string, FactValue> {
+  const result = { ...facts };
+
+  for (const override of overrides) {
+    const fact = result[override.fact_code];
+    const cited = (fact?.candidates ?? []).filter((c) => c.citations.length > 0);
+    const chosen = cited.find((c) => sameValue(c.value, override.value));
+    if (!fact || !chosen) {
+      throw new FactOverrideError(`${override.value} is not a cited candidate for ${override.fact_code}`);
+    }
+
+    result[override.fact_code] = {
+      ...fact,
+      value: chosen.value,
+      citations: chosen.citations,
+      evidence_tier: chosen.evidence_tier ?? fact.evidence_tier,
+      source_artifact_types: chosen.artifact_types ?? [],
+      resolution: {
+        rule: 'ANALYST_OVERRIDE',
+        detail: override.reason,
+        rejected_candidates: cited.filter((c) => c !== chosen),
+        override: {
+          reason: override.reason,
+          user_id: override.user_id,
+          overridden_at: override.overridden_at,
+          previous_value: fact.value,
+        },
+      },
+    };
+  }
+  return result;
+}
@@ -0,0 +1,191 @@
+/**
+ * FUND POLICY VERSIONS - Immutable policy history per fund
+ *
+ * Every policy save creates a FundPolicyVersion row that is never updated.
+ * Runs are scored under the version in force (latest effectiveDate <= run time)
+ * and keep a reference to it, so an IC memo can always say which policy
+ * scored which run.
+ */
+
+import { Prisma, type FundPolicyVersion } from '@prisma/client';
+import { prisma } from './prisma';
+import { type FundPolicySnapshot, type FactValue, type DDContractV1 } from './dd-contract-v1';
+import {
+  FundPolicy,
+  FundPolicyValidationError,
+  formatFundPolicyIssues,
+  resolveFundPolicySnapshot,
+  toFundPolicySnapshot,
+  type FundPolicyType,
+} from './fund-policy';
+import { runScoringPipeline } from './scoring-engine-v1';
+import { type CountryScoringContext } from './country-pack-scoring';
+
+// ════════════════════════════════════════════════════════════════════════════
+// VERSION HISTORY
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Record a new immutable policy version for a fund. Fund.policy mirrors the
+ * latest version in force and is the fallback until one is, so it is only
+ * updated when the new version is the one getPolicyVersionInForce returns: a
+ * future-dated or back-dated version behind a newer one leaves it alone.
+ */
+export async function recordFundPolicyVersion({
+  fundId,
+  policy,
+  policyPreset,
+  changeNote,
+  authorId,
+}: {
+  fundId: string;
+  policy: FundPolicyType;
+  policyPreset: string | null;
+  changeNote: string | null;
+  authorId: string;
+}): Promise<FundPolicyVersion> {
+  const existing = await prisma.fundPolicyVersion.findUnique({
+    where: { fundId_version: { fundId, version: policy.policy_version } },
+  });
+  if (existing) {
+    throw versionAlreadyRecorded(policy.policy_version);
+  }
+
+  const effectiveDate = policy.effective_date ? new Date(policy.effective_date) : new Date();
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const version = await tx.fundPolicyVersion.create({
+        data: {
+          fundId,
+          version: policy.policy_version,
+          policy,
+          policyPreset,
+          effectiveDate,
+          changeNote,
+          authorId,
+        },
+      });
+      const inForce = await getPolicyVersionInForce(fundId, new Date(), tx);
+      if (inForce?.id === version.id) {
+        await tx.fund.update({ where: { id: fundId }, data: { policy, policyPreset } });
+      }
+      return version;
+    });
+  } catch (error) {
+    // A concurrent save of the same version passes the check above
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw versionAlreadyRecorded(policy.policy_version);
+    }
+    throw error;
+  }
+}
+
+function versionAlreadyRecorded(version: string): FundPolicyValidationError {
+  return new FundPolicyValidationError('Policy version already exists', [
+    `policy_version: v${version} is already recorded for this fund; bump the version to save changes`,
+  ]);
+}
+
+/**
+ * Find the policy version in force for a fund at a given time
+ */
+export async function getPolicyVersionInForce(
+  fundId: string,
+  at: Date = new Date(),
+  db: Prisma.TransactionClient = prisma
+): Promise<FundPolicyVersion | null> {
+  return db.fundPolicyVersion.findFirst({
+    where: { fundId, effectiveDate: { lte: at } },
+    orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+  });
+}
+
+/**
+ * Map a stored version onto the v1 scoring snapshot
+ */
+export function toVersionSnapshot(version: FundPolicyVersion): FundPolicySnapshot {
+  const parsed = FundPolicy.safeParse(version.policy);
+  if (!parsed.success) {
+    throw new FundPolicyValidationError(
+      `Policy version v${version.version} does not validate`,
+      formatFundPolicyIssues(parsed.error)
+    );
+  }
+  return {
+    ...toFundPolicySnapshot(parsed.data, version.policyPreset),
+    effective_date: version.effectiveDate.toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Resolve the policy to score a fund's deal at a given time.
+ * Uses the version in force; funds without history fall back to Fund.policy / preset.
+ */
+export async function resolveFundPolicyAt(
+  fund: { id: string; policy: unknown; policyPreset: string | null },
+  at: Date = new Date()
+): Promise<{ snapshot: FundPolicySnapshot; policyVersionId: string | null }> {
+  const version = await getPolicyVersionInForce(fund.id, at);
+  if (version) {
+    return { snapshot: toVersionSnapshot(version), policyVersionId: version.id };
+  }
+  return { snapshot: resolveFundPolicySnapshot(fund), policyVersionId: null };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// RUN COMPARISON
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface PolicyScoringSummary {
+  policy_version: string;
+  decision: string;
+  overall_score: number;
+  reasons: string[];
+}
+
+export interface RunPolicyComparison {
+  run_id: string;
+  scored_under: PolicyScoringSummary;
+  current: PolicyScoringSummary;
+  decision_changed: boolean;
+  score_delta: number;
+}
+
+/**
+ * Re-score a stored v1 run under another policy snapshot, without persisting anything.
+ * Timeline gates count from the run's createdAt, so only the policy differs.
+ */
+export function compareRunAgainstPolicy(
+  run: { id: string; createdAt: Date },
+  contract: DDContractV1,
+  policy: FundPolicySnapshot,
+  country: CountryScoringContext | null = null
+): RunPolicyComparison {
+  const facts = (contract.deal_evidence?.facts || {}) as Record<string, FactValue>;
+  const rescored = runScoringPipeline(facts, policy, {
+    contradictions: contract.deal_evidence?.contradictions,
+    country,
+    asOf: run.createdAt,
+  });
+
+  const scoredUnder: PolicyScoringSummary = {
+    policy_version: contract.fund_policy_snapshot.policy_version,
+    decision: contract.scoring.hard_gate_result.decision,
+    overall_score: contract.scoring.overall.score_0_100,
+    reasons: contract.scoring.hard_gate_result.reasons,
+  };
+  const current: PolicyScoringSummary = {
+    policy_version: policy.policy_version,
+    decision: rescored.hardGateResult.decision,
+    overall_score: rescored.overallScore.score_0_100,
+    reasons: rescored.hardGateResult.reasons,
+  };
+
+  return {
+    run_id: run.id,
+    scored_under: scoredUnder,
+    current,
+    decision_changed: scoredUnder.decision !== current.decision,
+    score_delta: current.overall_score - scoredUnder.overall_score,
+  };
+}
@@ -6,9 +6,23 @@
  * - Module weights (scoring prioritization)
  * - Tolerances (acceptable ranges for key metrics)
  * - Required evidence levels (minimum documentation standards)
+ *
+ * Stored policies are mapped onto the DD Contract v1 FundPolicySnapshot
+ * consumed by the scoring engine (see toFundPolicySnapshot).
  */
 
 import { z } from 'zod';
+import {
+  type DealType,
+  type EvidenceTier,
+  type FactValue,
+  type FundPolicySnapshot,
+  type GateCheck,
+  type ProductType,
+  createDefaultFundPolicy,
+} from './dd-contract-v1';
+import { evaluateGateChecks } from './scoring-engine-v1';
+import { RuleSyntaxError, parseRuleCondition } from './policy-rules';
 
 // ════════════════════════════════════════════════════════════════════════════
 // HARD GATES - Automatic Deal Rejection Criteria
@@ -22,6 +36,7 @@ export const HardGates = z.object({
   accept_flex_connection: z.boolean().default(true),
   accept_interruptible_connection: z.boolean().default(false),
   max_curtailment_percent: z.number().min(0).max(100).nullable().default(null),
+  max_flex_share_percent: z.number().min(0).max(100).nullable().default(null),
   max_queue_wait_months: z.number().nullable().default(null),
   reject_deep_works_required: z.boolean().default(false),
 
@@ -161,6 +176,30 @@ export const ScoringAdjustments = z.object({
   missing_critical_evidence_penalty: z.number().min(0).max(30).default(15),
 });
 
+// ════════════════════════════════════════════════════════════════════════════
+// CUSTOM RULES
+// ════════════════════════════════════════════════════════════════════════════
+
+export const CustomRule = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().default(''),
+    condition: z.string(),
+    action: z.enum(['reject', 'flag', 'bonus', 'penalty']),
+    value: z.number().min(0).max(30).nullable(),
+  })
+  .superRefine((rule, ctx) => {
+    try {
+      parseRuleCondition(rule.condition);
+    } catch (err) {
+      if (!(err instanceof RuleSyntaxError)) throw err;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['condition'], message: err.message });
+    }
+    if ((rule.action === 'bonus' || rule.action === 'penalty') && rule.value == null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `A ${rule.action} rule needs a points value` });
+    }
+  });
+
 // ════════════════════════════════════════════════════════════════════════════
 // COMPLETE FUND POLICY
 // ════════════════════════════════════════════════════════════════════════════
@@ -186,14 +225,8 @@ export const FundPolicy = z.object({
   deal_type_preferences: DealTypePreferences.default({}),
   scoring_adjustments: ScoringAdjustments.default({}),
 
-  // Custom rules (JSON for flexibility)
-  custom_rules: z.array(z.object({
-    name: z.string(),
-    description: z.string(),
-    condition: z.string(),
-    action: z.enum(['reject', 'flag', 'bonus', 'penalty']),
-    value: z.number().nullable(),
-  })).default([]),
+  // Custom rules (conditions use the lib/policy-rules expression language)
+  custom_rules: z.array(CustomRule).default([]),
 });
 
 // ════════════════════════════════════════════════════════════════════════════
@@ -337,13 +370,16 @@ export const PRESET_POLICIES = {
 export type FundPolicyType = z.infer<typeof FundPolicy>;
 export type HardGatesType = z.infer<typeof HardGates>;
 export type ModuleWeightsType = z.infer<typeof ModuleWeights>;
+export type CustomRuleType = z.infer<typeof CustomRule>;
 
 export interface HardGateResult {
   gate: string;
   passed: boolean;
+  status: GateCheck['status'];
   reason: string;
   actual_value: string | number | boolean | null;
   required_value: string | number | boolean | null;
+  citations: string[];
 }
 
 export interface PolicyEvaluationResult {
@@ -357,56 +393,25 @@ export interface PolicyEvaluationResult {
 }
 
 /**
- * Evaluate if a deal passes all hard gates
+ * Evaluate every declared hard gate against v1 facts.
+ * Gates are evaluated by the v1 scoring engine on the mapped snapshot, so results
+ * name snapshot gates; UNKNOWN results count as not passed (HOLD).
  */
 export function evaluateHardGates(
   gates: HardGatesType,
-  dealFacts: Record<string, any>
+  facts: Record<string, FactValue>,
+  asOf: Date = new Date()
 ): HardGateResult[] {
-  const results: HardGateResult[] = [];
-
-  // Power title level
-  if (gates.min_power_title_level > 0) {
-    const actual = dealFacts.power_title_level ?? 0;
-    results.push({
-      gate: 'min_power_title_level',
-      passed: actual >= gates.min_power_title_level,
-      reason: `Power title level must be at least ${gates.min_power_title_level}`,
-      actual_value: actual,
-      required_value: gates.min_power_title_level,
-    });
-  }
-
-  // Firmness requirements
-  if (!gates.accept_non_firm_connection) {
-    const firmness = dealFacts.firmness_type ?? 'unknown';
-    results.push({
-      gate: 'accept_non_firm_connection',
-      passed: firmness === 'firm',
-      reason: 'Non-firm connections not accepted',
-      actual_value: firmness,
-      required_value: 'firm',
-    });
-  }
-
-  // Land control
-  if (gates.require_land_control) {
-    const landControl = dealFacts.land_control_type ?? 'none';
-    const levels = ['freehold', 'leasehold', 'option', 'letter_of_intent'];
-    const minIndex = levels.indexOf(gates.min_land_control_level);
-    const actualIndex = levels.indexOf(landControl);
-    results.push({
-      gate: 'min_land_control_level',
-      passed: actualIndex !== -1 && actualIndex <= minIndex,
-      reason: `Land control must be at least ${gates.min_land_control_level}`,
-      actual_value: landControl,
-      required_value: gates.min_land_control_level,
-    });
-  }
-
-  // Add more gate evaluations as needed...
-
-  return results;
+  const snapshot = toFundPolicySnapshot(FundPolicy.parse({ hard_gates: gates }));
+  return evaluateGateChecks(facts, snapshot, asOf).map((check) => ({
+    gate: check.gate,
+    passed: check.status === 'PASS',
+    status: check.status,
+    reason: check.reason,
+    actual_value: check.actual_value,
+    required_value: check.required_value,
+    citations: check.citations,
+  }));
 }
 
 /**
@@ -457,3 +462,241 @@ export function getRecommendation(
 
   return { recommendation: 'REJECT', reason: 'Score too low' };
 }
+
+// ════════════════════════════════════════════════════════════════════════════
+// SNAPSHOT MAPPING (DD Contract v1)
+// ════════════════════════════════════════════════════════════════════════════
+
+export type FundPolicyPreset = keyof typeof PRESET_POLICIES;
+
+export class FundPolicyValidationError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.issues = issues;
+  }
+}
+
+const LAND_CONTROL_LEVELS: Record<HardGatesType['min_land_control_level'], number> = {
+  freehold: 4,
+  leasehold: 3,
+  option: 2,
+  letter_of_intent: 1,
+  any: 0,
+};
+
+const TIER_LEVELS: Record<Exclude<HardGatesType['min_tier_level'], 'any'>, number> = {
+  tier_1: 1,
+  tier_2: 2,
+  tier_3: 3,
+  tier_4: 4,
+};
+
+const PERMIT_EVIDENCE_LEVELS: Record<z.infer<typeof RequiredEvidence>['permit_evidence_level'], number> = {
+  approved: 3,
+  submitted: 2,
+  pre_application: 1,
+  any: 0,
+};
+
+/**
+ * Lowest evidence tier each documentation standard accepts for power and land facts.
+ * A grid letter or offer comes from the operator unsigned; an agreement is executed.
+ */
+const POWER_EVIDENCE_TIERS: Record<z.infer<typeof RequiredEvidence>['power_evidence_level'], EvidenceTier | null> = {
+  binding_agreement: 'OFFICIAL_SIGNED',
+  agreement: 'OFFICIAL_SIGNED',
+  offer: 'OFFICIAL_UNSIGNED',
+  letter: 'OFFICIAL_UNSIGNED',
+  any: null,
+};
+
+const LAND_EVIDENCE_TIERS: Record<z.infer<typeof RequiredEvidence>['land_evidence_level'], EvidenceTier | null> = {
+  signed_lease: 'OFFICIAL_SIGNED',
+  lease_heads: 'OFFICIAL_UNSIGNED',
+  option_agreement: 'OFFICIAL_SIGNED',
+  loi: 'THIRD_PARTY',
+  any: null,
+};
+
+const PRODUCT_TYPES: Record<z.infer<typeof DealTypePreferences>['preferred_product_types'][number], ProductType[]> = {
+  hyperscale: ['Hyperscale'],
+  colocation: ['Colocation'],
+  edge: ['Edge'],
+  enterprise: ['Build-to-suit'],
+  hpc: ['Other'],
+  any: ['Hyperscale', 'Colocation', 'Edge', 'Build-to-suit', 'Other'],
+};
+
+const HOURS_PER_YEAR = 8760;
+
+/**
+ * Flatten zod issues into "path: message" strings for display and errors
+ */
+export function formatFundPolicyIssues(error: z.ZodError): string[] {
+  return error.issues.map((i) => `${i.path.join('.') || 'policy'}: ${i.message}`);
+}
+
+/**
+ * Map a structured fund policy onto the snapshot consumed by the v1 scoring engine
+ */
+export function toFundPolicySnapshot(
+  policy: FundPolicyType,
+  preset: string | null = null
+): FundPolicySnapshot {
+  const gates = policy.hard_gates;
+  const prefs = policy.deal_type_preferences;
+
+  const dealTypes: DealType[] = [];
+  if (prefs.accept_greenfield) dealTypes.push('GREENFIELD');
+  if (prefs.accept_brownfield) dealTypes.push('BROWNFIELD');
+  if (prefs.accept_expansion) dealTypes.push('EXPANSION');
+  if (prefs.accept_acquisition) dealTypes.push('ACQUISITION');
+
+  const productTypes = [...new Set(prefs.preferred_product_types.flatMap((p) => PRODUCT_TYPES[p]))];
+
+  const minPlanningLevel = gates.require_building_permit_granted
+    ? PERMIT_EVIDENCE_LEVELS.approved
+    : PERMIT_EVIDENCE_LEVELS[policy.required_evidence.permit_evidence_level];
+
+  const weights = policy.module_weights;
+
+  return {
+    policy_version: policy.policy_version,
+    policy_name: policy.policy_name,
+    policy_preset: preset,
+    effective_date: policy.effective_date,
+    deal_focus: {
+      preferred_deal_types: dealTypes,
+      preferred_product_types: productTypes,
+    },
+    hard_gates: {
+      min_power_title_level: gates.min_power_title_level,
+      min_land_control_level: gates.require_land_control ? LAND_CONTROL_LEVELS[gates.min_land_control_level] : 0,
+      min_planning_level: minPlanningLevel,
+      requires_anchor_customer: gates.require_anchor_tenant_loi || gates.require_signed_contract,
+      accepts_non_firm_power: gates.accept_non_firm_connection,
+      max_curtailment_cap_hours_per_year:
+        gates.max_curtailment_percent != null
+          ? Math.round((gates.max_curtailment_percent / 100) * HOURS_PER_YEAR)
+          : null,
+      max_flex_share_pct: gates.accept_flex_connection ? gates.max_flex_share_percent : 0,
+      requires_grid_connection_agreement: gates.require_grid_connection_agreement,
+      accepts_interruptible_power: gates.accept_interruptible_connection,
+      max_queue_wait_months: gates.max_queue_wait_months,
+      rejects_deep_works: gates.reject_deep_works_required,
+      requires_building_permit: gates.require_building_permit_granted,
+      rejects_permit_appeal_risk: gates.reject_permit_appeal_risk,
+      min_anchor_customer_stage: gates.require_signed_contract ? 3 : gates.require_anchor_tenant_loi ? 2 : null,
+      min_prelet_pct: gates.min_pre_lease_percent > 0 ? gates.min_pre_lease_percent : null,
+      min_tier_level: gates.min_tier_level === 'any' ? null : TIER_LEVELS[gates.min_tier_level],
+      max_pue: gates.max_pue,
+      requires_heat_reuse_plan: gates.require_heat_reuse_plan,
+      requires_renewable_commitment: gates.require_renewable_commitment,
+      min_renewable_pct: gates.min_renewable_percent > 0 ? gates.min_renewable_percent : null,
+      max_energisation_months: gates.max_energization_months,
+      min_power_evidence_tier: policy.required_evidence.require_deposit_proof
+        ? 'OFFICIAL_SIGNED_AND_PAID'
+        : POWER_EVIDENCE_TIERS[policy.required_evidence.power_evidence_level],
+      min_land_evidence_tier: gates.require_land_control
+        ? LAND_EVIDENCE_TIERS[policy.required_evidence.land_evidence_level]
+        : null,
+    },
+    weights: {
+      POWER_GRID: weights.power_grid / 100,
+      PERMITS_LAND: weights.permitting_land / 100,
+      COMMERCIAL: weights.commercial / 100,
+      CONNECTIVITY: weights.connectivity / 100,
+      TECH_BUILD: weights.technical / 100,
+      ESG_REGULATORY: weights.esg / 100,
+    },
+    custom_rules: policy.custom_rules.map(({ name, condition, action, value }) => ({ name, condition, action, value })),
+    scoring_adjustments: policy.scoring_adjustments,
+  };
+}
+
+/**
+ * Parse a fund's stored policy, falling back to its preset.
+ * Returns null when the fund has neither. Throws FundPolicyValidationError
+ * when the stored policy or preset is invalid - never silently defaults.
+ */
+export function parseStoredFundPolicy(fund: {
+  policy: unknown;
+  policyPreset: string | null;
+}): FundPolicyType | null {
+  if (fund.policy != null) {
+    const parsed = FundPolicy.safeParse(fund.policy);
+    if (!parsed.success) {
+      throw new FundPolicyValidationError(
+        'Stored fund policy does not validate',
+        formatFundPolicyIssues(parsed.error)
+      );
+    }
+    return parsed.data;
+  }
+
+  if (fund.policyPreset) {
+    const preset = PRESET_POLICIES[fund.policyPreset as FundPolicyPreset];
+    if (!preset) {
+      throw new FundPolicyValidationError('Unknown fund policy preset', [
+        `policyPreset: "${fund.policyPreset}" is not one of ${Object.keys(PRESET_POLICIES).join(', ')}`,
+      ]);
+    }
+    return preset;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the FundPolicySnapshot to score a fund's deals against
+ */
+export function resolveFundPolicySnapshot(fund: {
+  policy: unknown;
+  policyPreset: string | null;
+}): FundPolicySnapshot {
+  const policy = parseStoredFundPolicy(fund);
+  if (!policy) return createDefaultFundPolicy();
+  return toFundPolicySnapshot(policy, fund.policyPreset);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// POLICY DIFF
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface FundPolicyChange {
+  path: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * The policy a fund starts from when no preset is selected
+ */
+export const DEFAULT_FUND_POLICY: FundPolicyType = FundPolicy.parse({});
+
+function collectPolicyChanges(base: unknown, draft: unknown, path: string, changes: FundPolicyChange[]): void {
+  const isObject = (v: unknown) => v != null && typeof v === 'object' && !Array.isArray(v);
+  if (isObject(base) && isObject(draft)) {
+    const keys = new Set([...Object.keys(base as object), ...Object.keys(draft as object)]);
+    for (const key of keys) {
+      collectPolicyChanges((base as any)[key], (draft as any)[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+  if (JSON.stringify(base) !== JSON.stringify(draft)) {
+    changes.push({ path, from: base ?? null, to: draft ?? null });
+  }
+}
+
+/**
+ * List every leaf setting that differs between two policies (metadata excluded)
+ */
+export function diffFundPolicies(base: FundPolicyType, draft: FundPolicyType): FundPolicyChange[] {
+  const changes: FundPolicyChange[] = [];
+  const { policy_name: _n, policy_version: _v, effective_date: _d, ...baseSettings } = base;
+  const { policy_name: _dn, policy_version: _dv, effective_date: _dd, ...draftSettings } = draft;
+  collectPolicyChanges(baseSettings, draftSettings, '', changes);
+  return changes;
+}
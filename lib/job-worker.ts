@@ -0,0 +1,328 @@
+/**
+ * JOB WORKER - Runs queued ingestion and analysis jobs outside the request cycle
+ *
+ * Started with `pnpm worker` (scripts/worker.ts). Each job type has a handler that
+ * reports its stage and returns the job result; failures are retried by the queue
+ * (lib/jobs.ts), and a job that fails for good leaves its document or deal in a
+ * visible failed state instead of `pending`.
+ */
+
+import { type DealDocument, type Job, JobStatus, JobType, type Prisma } from '@prisma/client';
+import path from 'path';
+import { runDeterministicAnalysis } from './analysis';
+import { runAnalysisPipelineV1 } from './analysis-pipeline-v1';
+import { CountryPackValidationError } from './country-pack-scoring';
+import type { DDContractV1, FundPolicySnapshot } from './dd-contract-v1';
+import { classifyDocument, detectDocumentDate, detectDocumentSource } from './document-classification';
+import { assessExtractedDocument } from './document-quality';
+import { FundPolicyValidationError } from './fund-policy';
+import {
+  type AnalysisRunPayload,
+  DeferredJobError,
+  type IngestDocumentPayload,
+  PermanentJobError,
+  claimNextJob,
+  completeJob,
+  deferJob,
+  retryOrFailJob,
+  setJobStage,
+} from './jobs';
+import { type LLMProvider, getLLMProvider } from './llm-provider';
+import { chunkText, getRetrievalBackend, indexDocumentLocally } from './local-index';
+import { prisma } from './prisma';
+import { readStoredFile } from './storage';
+import { type ExtractedDocumentText, extractDocumentText, needsTextRendering } from './text-extraction';
+
+// A RUNNING job whose worker has not finished it within this window is presumed dead
+export const STALE_JOB_MS = 30 * 60_000;
+
+// Provider indexing is re-checked every minute, for up to two hours after upload
+const INDEXING_RECHECK_MS = 60_000;
+const INDEXING_TIMEOUT_MS = 2 * 60 * 60_000;
+
+// ════════════════════════════════════════════════════════════════════════════
+// DOCUMENT INGESTION
+// ════════════════════════════════════════════════════════════════════════════
+
+async function ensureVectorStore(llm: LLMProvider, dealId: string, existing: string | null) {
+  if (existing) return existing;
+  const vectorStoreId = await llm.createCollection(`deal-${dealId}`);
+  await prisma.deal.update({ where: { id: dealId }, data: { openaiVectorStoreId: vectorStoreId } });
+  return vectorStoreId;
+}
+
+/**
+ * Replace the rules classifications of a document and return its documentType.
+ * Once an analyst has reviewed the types, even clearing them all, the rules leave it alone.
+ */
+async function storeRulesClassifications(document: DealDocument, pages: string[]): Promise<string | undefined> {
+  if (document.classificationReviewedAt) return undefined;
+
+  const classifications = classifyDocument({ fileName: document.name, pages });
+  await prisma.documentClassification.deleteMany({ where: { documentId: document.id, source: 'RULES' } });
+  if (classifications.length > 0) {
+    await prisma.documentClassification.createMany({
+      data: classifications.map((c) => ({
+        documentId: document.id,
+        artifactType: c.artifact_type,
+        confidence: c.confidence,
+        evidence: c.evidence as unknown as Prisma.InputJsonArray,
+        source: 'RULES',
+      })),
+    });
+  }
+  return classifications[0]?.artifact_type ?? 'OTHER';
+}
+
+/**
+ * Extract text locally, store the document's quality fields and classify it into
+ * artifact types and a source kind, so scanned or unreadable files and the paper on
+ * file are visible before any analysis runs. Returns null for formats without a text extractor,
+ * which are left unassessed.
+ */
+async function extractAndAssess(document: DealDocument, buffer: Buffer): Promise<ExtractedDocumentText | null> {
+  let extracted: ExtractedDocumentText | null;
+  try {
+    extracted = await extractDocumentText(buffer, document.name);
+  } catch (err) {
+    // A corrupt file will not parse on retry either; record it as text-less
+    console.error(`Text extraction failed for document ${document.id}`, err);
+    extracted = { text: '', pages: [], ocrPages: [] };
+  }
+  if (!extracted) return null;
+
+  const quality = assessExtractedDocument({
+    text: extracted.text,
+    fileSize: buffer.length,
+    fileName: document.name,
+    mimeType: document.mimeType,
+    ocrApplied: extracted.ocrPages.length > 0,
+  });
+  const documentType = await storeRulesClassifications(document, extracted.pages);
+  await prisma.dealDocument.update({
+    where: { id: document.id },
+    data: {
+      ...quality,
+      snippetCount: chunkText(extracted.pages).length,
+      // Read back by the viewer and snippet location, so OCR runs only here
+      textPages: extracted.pages,
+      documentType,
+      sourceKind: detectDocumentSource({ fileName: document.name, pages: extracted.pages }),
+      documentDate: detectDocumentDate({ fileName: document.name, pages: extracted.pages }),
+    },
+  });
+  return extracted;
+}
+
+/**
+ * Index an uploaded document in the local index or the provider's vector store.
+ * Safe to re-run: a file already uploaded to the provider is only re-indexed.
+ */
+async function ingestDocument(job: Job): Promise<Prisma.InputJsonObject> {
+  const { documentId } = job.payload as unknown as IngestDocumentPayload;
+  const document = await prisma.dealDocument.findUnique({ where: { id: documentId }, include: { deal: true } });
+  if (!document) throw new PermanentJobError('Document not found');
+
+  await setJobStage(job.id, 'ingesting');
+  const buffer = await readStoredFile(document.path);
+  // Already assessed when a previous attempt uploaded the file
+  const extracted = document.openaiFileId ? null : await extractAndAssess(document, buffer);
+
+  if (getRetrievalBackend() === 'local') {
+    const chunkCount = extracted
+      ? await indexDocumentLocally({ documentId: document.id, dealId: document.dealId, pages: extracted.pages })
+      : 0;
+    const openaiStatus = chunkCount > 0 ? 'indexed' : 'failed';
+    await prisma.dealDocument.update({
+      where: { id: document.id },
+      data: { openaiStatus, snippetCount: chunkCount, textExtracted: chunkCount > 0 },
+    });
+    return { document_id: document.id, openaiStatus };
+  }
+
+  const llm = await getLLMProvider();
+  if (!llm.isConfigured()) throw new PermanentJobError('LLM provider is not configured');
+  const vectorStoreId = await ensureVectorStore(llm, document.dealId, document.deal.openaiVectorStoreId);
+
+  let fileId = document.openaiFileId;
+  if (!fileId) {
+    let ingestBuffer = buffer;
+    let ingestName = document.name;
+    let ingestMime = document.mimeType || 'application/octet-stream';
+    // Emails, spreadsheets, decks, images and scanned PDFs are sent as extracted text
+    if (needsTextRendering(document.name, extracted)) {
+      if (!extracted?.text.trim()) throw new PermanentJobError('No text could be extracted from this file');
+      ingestBuffer = Buffer.from(extracted.text);
+      ingestName = `${path.parse(document.name).name}.txt`;
+      ingestMime = 'text/plain';
+    }
+
+    fileId = await llm.uploadFile({ buffer: ingestBuffer, fileName: ingestName, mimeType: ingestMime });
+    await prisma.dealDocument.update({ where: { id: document.id }, data: { openaiFileId: fileId, openaiStatus: 'uploaded' } });
+  }
+
+  const openaiStatus = await llm.indexFile(vectorStoreId, fileId);
+  await prisma.dealDocument.update({ where: { id: document.id }, data: { openaiStatus } });
+  // Still processing on the provider side: check again later without using an attempt,
+  // until the provider has had INDEXING_TIMEOUT_MS since the upload
+  if (openaiStatus === 'pending') {
+    if (Date.now() - job.createdAt.getTime() < INDEXING_TIMEOUT_MS) {
+      throw new DeferredJobError('Vector store indexing still in progress', INDEXING_RECHECK_MS);
+    }
+    throw new PermanentJobError('Vector store indexing did not finish within 2 hours');
+  }
+
+  return { document_id: document.id, openaiStatus };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ANALYSIS RUNS
+// ════════════════════════════════════════════════════════════════════════════
+
+function analysisResult(runId: string, ddContract: DDContractV1 | null): Prisma.InputJsonObject {
+  if (!ddContract) return { run_id: runId };
+  return {
+    run_id: runId,
+    contract_version: ddContract.contract_version,
+    hard_gate_decision: ddContract.scoring.hard_gate_result.decision,
+    overall_score: ddContract.scoring.overall.score_0_100,
+    fund_policy_version: ddContract.fund_policy_snapshot.policy_version,
+  };
+}
+
+async function runAnalysis(job: Job): Promise<Prisma.InputJsonObject> {
+  const payload = job.payload as unknown as AnalysisRunPayload;
+  if (!job.createdById) throw new PermanentJobError('Analysis job has no requesting user');
+
+  // An earlier attempt stored its run before failing: report that run, do not run again
+  const stored = await prisma.analysisRun.findUnique({ where: { jobId: job.id } });
+  if (stored) return analysisResult(stored.id, stored.ddOntology as unknown as DDContractV1 | null);
+
+  if (!payload.useV1) {
+    // Legacy V0 Pipeline - Basic deterministic analysis
+    await setJobStage(job.id, 'retrieving');
+    const run = await runDeterministicAnalysis({
+      dealId: job.dealId,
+      userId: job.createdById,
+      organizationId: payload.organizationId,
+      includeMarketResearch: payload.includeMarketResearch,
+      jobId: job.id,
+    });
+    return { run_id: run?.id ?? null };
+  }
+
+  const { runId, ddContract } = await runAnalysisPipelineV1({
+    dealId: job.dealId,
+    userId: job.createdById,
+    organizationId: payload.organizationId,
+    includeMarketContext: payload.includeMarketContext,
+    fundPolicy: payload.fundPolicy as unknown as FundPolicySnapshot | undefined,
+    policyVersionId: payload.policyVersionId ?? null,
+    includeSuperseded: payload.includeSuperseded ?? false,
+    jobId: job.id,
+    onStage: (stage) => setJobStage(job.id, stage),
+  });
+
+  return analysisResult(runId, ddContract);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// FAILURE HANDLING
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Configuration errors fail the job at once; retrying cannot fix them
+ */
+function toJobError(err: unknown): unknown {
+  if (err instanceof FundPolicyValidationError) {
+    return new PermanentJobError(`Invalid fund policy: ${err.issues.join('; ') || err.message}`);
+  }
+  if (err instanceof CountryPackValidationError) {
+    return new PermanentJobError(`Invalid country pack overrides: ${err.issues.join('; ') || err.message}`);
+  }
+  return err;
+}
+
+/**
+ * Leave a visible trace once a job has failed for good
+ */
+async function recordFinalFailure(job: Job, message: string): Promise<void> {
+  if (job.type === JobType.INGEST_DOCUMENT) {
+    const { documentId } = job.payload as unknown as IngestDocumentPayload;
+    await prisma.dealDocument.updateMany({ where: { id: documentId }, data: { openaiStatus: 'failed' } });
+    return;
+  }
+
+  // Create a FAILED run record for audit trail
+  if (job.createdById) {
+    await prisma.analysisRun.create({
+      data: {
+        dealId: job.dealId,
+        executedById: job.createdById,
+        evidence: {},
+        scorecard: [],
+        summary: 'Analysis failed',
+        checklist: [],
+        status: 'FAILED',
+        errorMessage: message,
+        modelUsed: process.env.OPENAI_MODEL || 'gpt-4o',
+      },
+    });
+  }
+}
+
+async function failAttempt(job: Job, err: unknown): Promise<void> {
+  const error = toJobError(err);
+  const outcome = await retryOrFailJob(job, error);
+  if (outcome === 'failed') {
+    await recordFinalFailure(job, error instanceof Error ? error.message : String(error)).catch((hookErr) =>
+      console.error(`Could not record failure of job ${job.id}`, hookErr)
+    );
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// WORKER LOOP
+// ════════════════════════════════════════════════════════════════════════════
+
+const HANDLERS: Record<JobType, (job: Job) => Promise<Prisma.InputJsonObject>> = {
+  [JobType.INGEST_DOCUMENT]: ingestDocument,
+  [JobType.ANALYSIS_RUN]: runAnalysis,
+};
+
+export async function processJob(job: Job): Promise<void> {
+  try {
+    const result = await HANDLERS[job.type](job);
+    await completeJob(job.id, result);
+  } catch (err) {
+    if (err instanceof DeferredJobError) {
+      await deferJob(job, err);
+      return;
+    }
+    console.error(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed`, err);
+    await failAttempt(job, err);
+  }
+}
+
+/**
+ * Claim and run one job. Returns false when nothing was due.
+ */
+export async function processNextJob(workerId: string): Promise<boolean> {
+  const job = await claimNextJob(workerId);
+  if (!job) return false;
+  await processJob(job);
+  return true;
+}
+
+/**
+ * Retry or fail jobs left RUNNING by a worker that crashed or was redeployed
+ */
+export async function recoverStaleJobs(): Promise<number> {
+  const stale = await prisma.job.findMany({
+    where: { status: JobStatus.RUNNING, lockedAt: { lt: new Date(Date.now() - STALE_JOB_MS) } },
+  });
+  for (const job of stale) {
+    await failAttempt(job, new Error('Worker stopped before the job finished'));
+  }
+  return stale.length;
+}
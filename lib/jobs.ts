@@ -0,0 +1,203 @@
+/**
+ * JOB QUEUE - Postgres-backed background jobs
+ *
+ * Document ingestion and analysis runs take longer than a request may stay open
+ * behind the reverse proxy. API routes enqueue a Job row and return; the worker
+ * (`pnpm worker`, see lib/job-worker.ts) claims queued jobs, reports a stage as
+ * it goes, and retries failed attempts with exponential backoff.
+ */
+
+import { type Job, JobStatus, type JobType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export type JobStage = 'queued' | 'ingesting' | 'retrieving' | 'extracting' | 'scoring' | 'done' | 'failed';
+
+export interface IngestDocumentPayload {
+  documentId: string;
+}
+
+export interface AnalysisRunPayload {
+  organizationId: string;
+  includeMarketContext: boolean;
+  includeMarketResearch: boolean;
+  useV1: boolean;
+  /** Policy in force when the run was requested, validated by the route */
+  fundPolicy?: Prisma.JsonObject;
+  policyVersionId?: string | null;
+  includeSuperseded?: boolean;
+}
+
+/**
+ * A failure that retrying cannot fix (missing rows, invalid policy); the job fails at once
+ */
+export class PermanentJobError extends Error {}
+
+/**
+ * Not a failure: the job waits on an outside system (e.g. provider indexing) and is
+ * checked again after `delayMs` without using up an attempt
+ */
+export class DeferredJobError extends Error {
+  constructor(
+    message: string,
+    public delayMs: number
+  ) {
+    super(message);
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 15 * 60_000;
+// Claims race between workers; give up on this poll after a few lost races
+const CLAIM_RETRIES = 5;
+
+/**
+ * Delay before the next attempt: 30s, 60s, 120s, ... capped at 15 minutes
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// QUEUE OPERATIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+export async function enqueueJob({
+  type,
+  dealId,
+  payload,
+  createdById = null,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+}: {
+  type: JobType;
+  dealId: string;
+  payload: IngestDocumentPayload | AnalysisRunPayload;
+  createdById?: string | null;
+  maxAttempts?: number;
+}): Promise<Job> {
+  return prisma.job.create({
+    data: { type, dealId, payload: payload as unknown as Prisma.InputJsonObject, createdById, maxAttempts },
+  });
+}
+
+/**
+ * Claim the oldest due job. The status-guarded update makes the claim atomic,
+ * so several workers can poll the same table.
+ */
+export async function claimNextJob(workerId: string): Promise<Job | null> {
+  for (let i = 0; i < CLAIM_RETRIES; i++) {
+    const candidate = await prisma.job.findFirst({
+      where: { status: JobStatus.QUEUED, runAt: { lte: new Date() } },
+      orderBy: { runAt: 'asc' },
+    });
+    if (!candidate) return null;
+
+    const lockedAt = new Date();
+    const { count } = await prisma.job.updateMany({
+      where: { id: candidate.id, status: JobStatus.QUEUED },
+      data: { status: JobStatus.RUNNING, lockedAt, lockedBy: workerId, attempts: { increment: 1 } },
+    });
+    if (count === 1) {
+      return { ...candidate, status: JobStatus.RUNNING, lockedAt, lockedBy: workerId, attempts: candidate.attempts + 1 };
+    }
+  }
+  return null;
+}
+
+export async function setJobStage(jobId: string, stage: JobStage): Promise<void> {
+  await prisma.job.update({ where: { id: jobId }, data: { stage } });
+}
+
+export async function completeJob(jobId: string, result: Prisma.InputJsonObject): Promise<void> {
+  await prisma.job.update({
+    where: { id: jobId },
+    data: { status: JobStatus.SUCCEEDED, stage: 'done', result, error: null, lockedAt: null, lockedBy: null, finishedAt: new Date() },
+  });
+}
+
+/**
+ * Record a failed attempt: re-queue with backoff, or fail the job when the error is
+ * permanent or attempts are exhausted. Returns whether the job will run again.
+ */
+export async function retryOrFailJob(job: Job, error: unknown): Promise<'retrying' | 'failed'> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (!(error instanceof PermanentJobError) && job.attempts < job.maxAttempts) {
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: JobStatus.QUEUED,
+        stage: 'queued',
+        error: message,
+        lockedAt: null,
+        lockedBy: null,
+        runAt: new Date(Date.now() + retryDelayMs(job.attempts)),
+      },
+    });
+    return 'retrying';
+  }
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: { status: JobStatus.FAILED, stage: 'failed', error: message, lockedAt: null, lockedBy: null, finishedAt: new Date() },
+  });
+  return 'failed';
+}
+
+/**
+ * Re-queue a job that is waiting, giving back the attempt its claim used
+ */
+export async function deferJob(job: Job, error: DeferredJobError): Promise<void> {
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: JobStatus.QUEUED,
+      stage: 'queued',
+      error: error.message,
+      attempts: { decrement: 1 },
+      lockedAt: null,
+      lockedBy: null,
+      runAt: new Date(Date.now() + error.delayMs),
+    },
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// API SHAPE
+// ════════════════════════════════════════════════════════════════════════════
+
+export type JobSummary = {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  stage: JobStage;
+  attempts: number;
+  max_attempts: number;
+  error: string | null;
+  result: Prisma.JsonValue | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export function summarizeJob(job: Job): JobSummary {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    stage: job.stage as JobStage,
+    attempts: job.attempts,
+    max_attempts: job.maxAttempts,
+    error: job.error,
+    result: job.result,
+    created_at: job.createdAt.toISOString(),
+    updated_at: job.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * OpenAI LLM provider - vector stores, Responses API structured outputs and web search
+ *
+ * The SDK typings lag behind the vector store and Responses endpoints, so the
+ * untyped client access is contained here rather than at every call site.
+ */
+
+import { zodTextFormat } from 'openai/helpers/zod';
+import { toFile } from 'openai/uploads';
+import { openai, OPENAI_MODEL, getOpenAIReasoning, getModelInfo } from './openai';
+import type { IndexStatus, LLMProvider, LLMSearchHit } from './llm-provider';
+
+const VECTOR_STORE_EXPIRY_DAYS = 30;
+const INDEX_POLL_ATTEMPTS = 8;
+
+// ════════════════════════════════════════════════════════════════════════════
+// RESPONSE PARSING
+// ════════════════════════════════════════════════════════════════════════════
+
+function extractTextFromResponse(response: any): string {
+  if (!response) return '';
+  if (typeof response.output_text === 'string') return response.output_text;
+  const outputContent = (response.output || []).flatMap((o: any) => o?.content || []);
+  const textChunk = outputContent.find(
+    (c: any) => typeof c?.text === 'string' || typeof c?.output_text === 'string'
+  );
+  if (textChunk?.text) return textChunk.text;
+  if (textChunk?.output_text) return textChunk.output_text;
+  return '';
+}
+
+function collectSourcesFromValue(value: any, bucket: Set<string>): void {
+  if (!value) return;
+  if (typeof value === 'string') {
+    bucket.add(value);
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectSourcesFromValue(v, bucket));
+    return;
+  }
+  if (typeof value === 'object') {
+    collectSourcesFromValue(
+      (value as any).url || (value as any).link || (value as any).source || (value as any).href,
+      bucket
+    );
+  }
+}
+
+function extractSourcesFromResponse(response: any): string[] {
+  const sources = new Set<string>();
+  collectSourcesFromValue(response?.web_search_call?.action?.sources, sources);
+  const outputs = Array.isArray(response?.output) ? response.output : [];
+  outputs.forEach((item: any) => {
+    collectSourcesFromValue(item?.web_search_call?.action?.sources, sources);
+    const content = Array.isArray(item?.content) ? item.content : [];
+    content.forEach((c: any) =>
+      collectSourcesFromValue(c?.web_search_call?.action?.sources, sources)
+    );
+  });
+  return Array.from(sources.values()).filter(Boolean);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PROVIDER
+// ════════════════════════════════════════════════════════════════════════════
+
+export function createOpenAIProvider(): LLMProvider {
+  const client = openai as any;
+
+  return {
+    name: 'openai',
+
+    isConfigured: () => Boolean(process.env.OPENAI_API_KEY),
+
+    getModelInfo: () => getModelInfo(),
+
+    async createCollection(name) {
+      const vectorStore = await client.vectorStores.create({
+        name,
+        expires_after: { anchor: 'last_active_at', days: VECTOR_STORE_EXPIRY_DAYS },
+      });
+      return vectorStore.id;
+    },
+
+    async uploadFile({ buffer, fileName, mimeType }) {
+      const file = await client.files.create({
+        file: await toFile(buffer, fileName, { type: mimeType }),
+        purpose: 'assistants',
+      });
+      return file.id;
+    },
+
+    async indexFile(collectionId, fileId): Promise<IndexStatus> {
+      const association = await client.vectorStores.files.create(collectionId, { file_id: fileId });
+      let delay = 1000;
+      for (let attempt = 0; attempt < INDEX_POLL_ATTEMPTS; attempt++) {
+        const status = await client.vectorStores.files.retrieve(collectionId, association.id);
+        if (status.status === 'completed') return 'indexed';
+        if (status.status === 'failed') return 'failed';
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        delay = Math.min(delay * 2, 10000);
+      }
+      return 'pending';
+    },
+
+    async deleteFile(collectionId, fileId) {
+      await client.files.del(fileId);
+      if (collectionId) {
+        await client.vectorStores.files.del(collectionId, fileId);
+      }
+    },
+
+    async deleteCollection(collectionId) {
+      await client.vectorStores.del(collectionId);
+    },
+
+    async search(collectionId, query, maxResults): Promise<LLMSearchHit[]> {
+      const search = await client.vectorStores.search({
+        vector_store_id: collectionId,
+        query,
+        max_num_results: maxResults,
+      });
+      return ((search?.data as any[]) || []).map((result) => ({
+        file_id: result.file_id || null,
+        filename: result.filename || null,
+        score: typeof result.score === 'number' ? result.score : null,
+        chunks: (result.content || [])
+          .filter((c: any) => typeof c.text === 'string')
+          .map((c: any) => String(c.text)),
+        attributes: result.attributes || null,
+      }));
+    },
+
+    async extractStructured({ schema, schemaName, system, prompt }) {
+      const response = await client.responses.parse({
+        model: OPENAI_MODEL,
+        temperature: 0,
+        reasoning: getOpenAIReasoning(), // undefined for GPT-4.x, { effort } for GPT-5.x
+        input: [
+          { role: 'system', content: system },
+          { role: 'user', content: prompt },
+        ],
+        text: {
+          format: zodTextFormat(schema, schemaName),
+        },
+      });
+
+      if (!response) return null;
+      // responses.parse returns output_parsed already validated; fall back to the raw text
+      if (response.output_parsed) return response.output_parsed;
+      const text = extractTextFromResponse(response);
+      return text ? schema.parse(JSON.parse(text)) : null;
+    },
+
+    async webSearch({ prompt, allowedDomains }) {
+      const reasoning = getOpenAIReasoning();
+      const response = await client.responses.create({
+        model: OPENAI_MODEL,
+        input: prompt,
+        ...(reasoning && { reasoning }),
+        tools: [{ type: 'web_search', filters: { allowed_domains: allowedDomains } }],
+        include: ['web_search_call.action.sources'],
+      });
+
+      const text = extractTextFromResponse(response).trim();
+      if (!text) return null;
+      return { text, sources: extractSourcesFromResponse(response) };
+    },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * LLM PROVIDER - Pluggable backend for ingestion, retrieval, extraction and web search
+ *
+ * Call sites depend on this interface instead of a vendor SDK, so the pipeline
+ * can run against OpenAI in production and against a deterministic offline stub
+ * in tests and demos (LLM_PROVIDER=stub). Other providers can be added for data
+ * residency without touching the analysis code.
+ */
+
+import type { z } from 'zod';
+import type { ReasoningEffort } from './openai';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export type LLMProviderName = 'openai' | 'stub';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'stub'];
+
+export type IndexStatus = 'indexed' | 'failed' | 'pending';
+
+export interface LLMFileInput {
+  buffer: Buffer;
+  fileName: string;
+  mimeType: string;
+}
+
+export interface LLMSearchHit {
+  file_id: string | null;
+  filename: string | null;
+  score: number | null;
+  /** Text chunks of the file that matched the query */
+  chunks: string[];
+  attributes: Record<string, any> | null;
+}
+
+export interface LLMStructuredRequest<T> {
+  schema: z.ZodType<T>;
+  /** Name of the structured output format; the stub also uses it to pick a fixture */
+  schemaName: string;
+  system: string;
+  prompt: string;
+}
+
+export interface LLMWebSearchRequest {
+  prompt: string;
+  allowedDomains: string[];
+}
+
+export interface LLMWebSearchResult {
+  text: string;
+  sources: string[];
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  /** Whether credentials are present; the stub is always configured */
+  isConfigured(): boolean;
+  getModelInfo(): { model: string; reasoningEffort: ReasoningEffort | null };
+
+  // File ingestion - a collection holds one deal's indexed documents
+  createCollection(name: string): Promise<string>;
+  uploadFile(file: LLMFileInput): Promise<string>;
+  /** Attach an uploaded file to a collection and wait for indexing */
+  indexFile(collectionId: string, fileId: string): Promise<IndexStatus>;
+  deleteFile(collectionId: string | null, fileId: string): Promise<void>;
+  deleteCollection(collectionId: string): Promise<void>;
+
+  // Retrieval and generation
+  search(collectionId: string, query: string, maxResults: number): Promise<LLMSearchHit[]>;
+  /** Returns null when the model produced no parseable output */
+  extractStructured<T>(request: LLMStructuredRequest<T>): Promise<T | null>;
+  /** Returns null when the search produced no text */
+  webSearch(request: LLMWebSearchRequest): Promise<LLMWebSearchResult | null>;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SELECTION
+// ════════════════════════════════════════════════════════════════════════════
+
+const providers = new Map<LLMProviderName, LLMProvider>();
+
+/**
+ * Provider selected by LLM_PROVIDER (default: openai).
+ * Implementations are loaded on first use so the stub never needs an OpenAI key.
+ */
+export async function getLLMProvider(): Promise<LLMProvider> {
+  const requested = (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+  if (!LLM_PROVIDER_NAMES.includes(requested as LLMProviderName)) {
+    throw new Error(`Unknown LLM_PROVIDER '${requested}'. Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`);
+  }
+  const name = requested as LLMProviderName;
+
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = name === 'stub' ? (await import('./llm-stub')).createStubProvider() : (await import('./llm-openai')).createOpenAIProvider();
+    providers.set(name, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,208 @@
+/**
+ * Stub LLM provider - deterministic and fully offline
+ *
+ * Serves canned snippets and structured outputs from fixtures/llm-stub so the
+ * whole pipeline runs in tests and demos without API keys:
+ * - search: canned snippets plus any files ingested in this process, ranked by
+ *   query term overlap
+ * - extractStructured: <schemaName>.json, where a citation "@<snippet key>"
+ *   resolves to the snippet ids in the prompt that quote that canned snippet
+ * - webSearch: web_search.json, sourced from the allowed domains
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { IndexStatus, LLMProvider, LLMSearchHit } from './llm-provider';
+
+const STUB_MODEL = 'stub';
+
+interface CannedSnippet {
+  key: string;
+  file_id: string;
+  filename: string;
+  text: string;
+}
+
+interface StubFile {
+  file_id: string;
+  filename: string;
+  text: string;
+}
+
+// Survives module reloads in development, like the Prisma client
+const globalForStub = globalThis as unknown as {
+  llmStubFiles?: Map<string, StubFile>;
+  llmStubCollections?: Map<string, Set<string>>;
+};
+const files = (globalForStub.llmStubFiles ??= new Map());
+const collections = (globalForStub.llmStubCollections ??= new Map());
+
+// ════════════════════════════════════════════════════════════════════════════
+// FIXTURES
+// ════════════════════════════════════════════════════════════════════════════
+
+function fixturesDir(): string {
+  return process.env.LLM_STUB_FIXTURES_DIR || path.join(process.cwd(), 'fixtures/llm-stub');
+}
+
+function readFixture<T>(fileName: string): T {
+  const fixturePath = path.join(fixturesDir(), fileName);
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(`Stub LLM fixture not found: ${fixturePath}`);
+  }
+  return JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as T;
+}
+
+function loadCannedSnippets(): CannedSnippet[] {
+  return readFixture<CannedSnippet[]>('snippets.json');
+}
+
+function stubId(prefix: string, value: string): string {
+  return `${prefix}-${crypto.createHash('sha256').update(value).digest('hex').slice(0, 16)}`;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SEARCH
+// ════════════════════════════════════════════════════════════════════════════
+
+function queryTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().match(/[a-z0-9]{3,}/g) || []));
+}
+
+/**
+ * Share of query terms found in the text, 0-1
+ */
+function overlapScore(terms: string[], text: string): number {
+  if (terms.length === 0) return 0;
+  const haystack = text.toLowerCase();
+  const matched = terms.filter((t) => haystack.includes(t)).length;
+  return Math.round((matched / terms.length) * 1000) / 1000;
+}
+
+function toHits(documents: StubFile[], query: string): LLMSearchHit[] {
+  const terms = queryTerms(query);
+  return documents.flatMap((doc) => {
+    const chunks = doc.text
+      .split(/\n\s*\n/)
+      .map((c) => c.trim())
+      .filter((c) => c && overlapScore(terms, c) > 0);
+    if (chunks.length === 0) return [];
+    return [
+      {
+        file_id: doc.file_id,
+        filename: doc.filename,
+        score: Math.max(...chunks.map((c) => overlapScore(terms, c))),
+        chunks,
+        attributes: null,
+      },
+    ];
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CITATION PLACEHOLDERS
+// ════════════════════════════════════════════════════════════════════════════
+
+const SNIPPET_ID_PATTERN = /\b[0-9a-f]{64}\b/;
+const CITATION_QUOTE_LENGTH = 60;
+
+/**
+ * Replace "@key" citations with the prompt's snippet ids quoting that canned snippet
+ */
+function resolveCitations(value: unknown, idsByKey: Map<string, string[]>): unknown {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) =>
+      typeof item === 'string' && item.startsWith('@') ? idsByKey.get(item.slice(1)) ?? [] : [resolveCitations(item, idsByKey)]
+    );
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, resolveCitations(v, idsByKey)]));
+  }
+  return value;
+}
+
+function snippetIdsByKey(prompt: string, canned: CannedSnippet[]): Map<string, string[]> {
+  const lines = prompt.split('\n').filter((line) => SNIPPET_ID_PATTERN.test(line));
+  return new Map(
+    canned.map((snippet) => {
+      const quote = snippet.text.slice(0, CITATION_QUOTE_LENGTH);
+      const ids = lines.filter((line) => line.includes(quote)).map((line) => line.match(SNIPPET_ID_PATTERN)![0]);
+      return [snippet.key, Array.from(new Set(ids))];
+    })
+  );
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PROVIDER
+// ════════════════════════════════════════════════════════════════════════════
+
+export function createStubProvider(): LLMProvider {
+  return {
+    name: 'stub',
+
+    isConfigured: () => true,
+
+    getModelInfo: () => ({ model: STUB_MODEL, reasoningEffort: null }),
+
+    async createCollection(name) {
+      const id = stubId('stub-vs', name);
+      if (!collections.has(id)) collections.set(id, new Set());
+      return id;
+    },
+
+    async uploadFile({ buffer, fileName, mimeType }) {
+      const id = stubId('stub-file', `${fileName}:${buffer.toString('base64')}`);
+      // Only text is searchable offline; binary documents are kept by name
+      const text = mimeType.startsWith('text/') ? buffer.toString('utf8') : '';
+      files.set(id, { file_id: id, filename: fileName, text });
+      return id;
+    },
+
+    async indexFile(collectionId, fileId): Promise<IndexStatus> {
+      if (!files.has(fileId)) return 'failed';
+      if (!collections.has(collectionId)) collections.set(collectionId, new Set());
+      collections.get(collectionId)!.add(fileId);
+      return 'indexed';
+    },
+
+    async deleteFile(collectionId, fileId) {
+      if (collectionId) collections.get(collectionId)?.delete(fileId);
+      files.delete(fileId);
+    },
+
+    async deleteCollection(collectionId) {
+      collections.delete(collectionId);
+    },
+
+    async search(collectionId, query, maxResults) {
+      const ingested = Array.from(collections.get(collectionId) ?? [])
+        .map((id) => files.get(id))
+        .filter((f): f is StubFile => Boolean(f));
+      const canned = loadCannedSnippets().map(({ file_id, filename, text }) => ({ file_id, filename, text }));
+
+      return toHits([...canned, ...ingested], query)
+        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0) || String(a.file_id).localeCompare(String(b.file_id)))
+        .slice(0, maxResults);
+    },
+
+    async extractStructured({ schema, schemaName, prompt }) {
+      const fixture = readFixture<unknown>(`${schemaName}.json`);
+      const resolved = resolveCitations(fixture, snippetIdsByKey(prompt, loadCannedSnippets()));
+      const parsed = schema.safeParse(resolved);
+      if (!parsed.success) {
+        throw new Error(
+          `Stub LLM fixture ${schemaName}.json does not match the requested schema: ${parsed.error.issues
+            .map((i) => `${i.path.join('.')}: ${i.message}`)
+            .join('; ')}`
+        );
+      }
+      return parsed.data;
+    },
+
+    async webSearch({ allowedDomains }) {
+      const { text } = readFixture<{ text: string }>('web_search.json');
+      return { text, sources: allowedDomains.map((domain) => `https://${domain}/`) };
+    },
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * LOCAL VECTOR INDEX - Self-hosted retrieval persisted in Postgres
+ *
+ * For deals whose dataroom may not leave our infrastructure (RETRIEVAL_BACKEND=local):
+ * 1. Text is extracted from the stored file and split into overlapping chunks
+ * 2. Each chunk gets a local embedding (hashed word n-grams, no external model)
+ * 3. Chunks are stored as DocumentChunk rows
+ * 4. Search ranks a deal's chunks by BM25 keyword score blended with cosine similarity;
+ *    a run loads and tokenizes the chunks once for all of its queries
+ */
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import type { LLMSearchHit } from './llm-provider';
+import { locateTextInPages } from './text-extraction';
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+export type RetrievalBackend = 'provider' | 'local';
+
+/**
+ * Where evidence is indexed and retrieved: the LLM provider's vector store, or this index
+ */
+export function getRetrievalBackend(): RetrievalBackend {
+  return process.env.RETRIEVAL_BACKEND === 'local' ? 'local' : 'provider';
+}
+
+export const LOCAL_EMBEDDING_MODEL = 'hashed-ngrams-256-v1';
+const EMBEDDING_DIMENSIONS = 256;
+
+const CHUNK_TARGET_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+// BM25 parameters and the keyword share of the hybrid score
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const KEYWORD_WEIGHT = 0.5;
+// Hashed features collide; weaker matches are noise
+const MIN_SCORE = 0.05;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'has', 'have', 'not', 'any',
+  'les', 'des', 'une', 'pour', 'par', 'sur', 'dans', 'der', 'die', 'das', 'und', 'mit', 'von', 'het', 'een',
+]);
+
+// ════════════════════════════════════════════════════════════════════════════
+// TEXT PROCESSING
+// ════════════════════════════════════════════════════════════════════════════
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[a-z0-9]+/g) || []).filter(
+    (t) => t.length >= 2 && !STOPWORDS.has(t)
+  );
+}
+
+function splitLongParagraph(paragraph: string): string[] {
+  const parts: string[] = [];
+  const step = CHUNK_TARGET_CHARS - CHUNK_OVERLAP_CHARS;
+  for (let start = 0; start < paragraph.length; start += step) {
+    parts.push(paragraph.slice(start, start + CHUNK_TARGET_CHARS));
+    if (start + CHUNK_TARGET_CHARS >= paragraph.length) break;
+  }
+  return parts;
+}
+
+/**
+ * Pack paragraphs into chunks of about CHUNK_TARGET_CHARS. Chunks never span pages;
+ * paragraphs longer than a chunk are split with CHUNK_OVERLAP_CHARS of overlap.
+ */
+export function chunkText(pages: string[]): string[] {
+  const chunks: string[] = [];
+
+  for (const page of pages) {
+    const paragraphs = page
+      .split(/\n\s*\n/)
+      .map((p) => p.replace(/[ \t]+/g, ' ').trim())
+      .filter(Boolean)
+      .flatMap((p) => (p.length > CHUNK_TARGET_CHARS ? splitLongParagraph(p) : [p]));
+
+    let current = '';
+    for (const paragraph of paragraphs) {
+      if (current && current.length + paragraph.length + 2 > CHUNK_TARGET_CHARS) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    if (current) chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Local embedding: word unigrams and bigrams hashed into a fixed-size, signed,
+ * log-scaled vector, L2-normalised so a dot product is cosine similarity.
+ */
+export function embedText(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  const tokens = tokenize(text);
+  const features = tokens.concat(tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`));
+
+  const counts = new Map<string, number>();
+  for (const feature of features) counts.set(feature, (counts.get(feature) ?? 0) + 1);
+
+  for (const [feature, count] of Array.from(counts.entries())) {
+    const digest = crypto.createHash('md5').update(feature).digest();
+    const bucket = digest.readUInt32BE(0) % EMBEDDING_DIMENSIONS;
+    const sign = digest[4] & 1 ? 1 : -1;
+    vector[bucket] += sign * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// INDEXING
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Replace a document's chunks in the local index, each with its page and character
+ * span, in one transaction so a failed write keeps the previous chunks. Returns the
+ * number of chunks stored.
+ */
+export async function indexDocumentLocally({
+  documentId,
+  dealId,
+  pages,
+}: {
+  documentId: string;
+  dealId: string;
+  pages: string[];
+}): Promise<number> {
+  const chunks = pages.flatMap((page, i) =>
+    chunkText([page]).map((text) => ({ text, pageNumber: i + 1, location: locateTextInPages([page], text) }))
+  );
+
+  await prisma.$transaction([
+    prisma.documentChunk.deleteMany({ where: { documentId } }),
+    ...(chunks.length > 0
+      ? [
+          prisma.documentChunk.createMany({
+            data: chunks.map(({ text, pageNumber, location }, chunkIndex) => ({
+              documentId,
+              dealId,
+              chunkIndex,
+              text,
+              pageNumber,
+              charStart: location?.char_start ?? null,
+              charEnd: location?.char_end ?? null,
+              embedding: embedText(text),
+              embeddingModel: LOCAL_EMBEDDING_MODEL,
+            })),
+          }),
+        ]
+      : []),
+  ]);
+
+  return chunks.length;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SEARCH
+// ════════════════════════════════════════════════════════════════════════════
+
+export type LocalIndexSearch = (query: string, maxResults: number) => LLMSearchHit[];
+
+/**
+ * Load a deal's chunks once and return a hybrid search over them, for a run that
+ * sends many queries. Scores are 0-1; chunks embedded with another model are
+ * ranked on keywords alone. Superseded document versions are skipped unless
+ * asked for.
+ */
+export async function createLocalIndexSearch(
+  dealId: string,
+  { includeSuperseded = false }: { includeSuperseded?: boolean } = {}
+): Promise<LocalIndexSearch> {
+  const chunks = await prisma.documentChunk.findMany({
+    where: includeSuperseded ? { dealId } : { dealId, document: { supersededAt: null } },
+    include: { document: { select: { name: true } } },
+  });
+  const tokenized = chunks.map((c) => tokenize(c.text));
+  const avgLength = tokenized.reduce((sum, t) => sum + t.length, 0) / chunks.length || 1;
+
+  return (query, maxResults) => {
+    if (chunks.length === 0) return [];
+
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const queryEmbedding = embedText(query);
+
+    const documentFrequency = new Map(
+      queryTerms.map((term) => [term, tokenized.filter((tokens) => tokens.includes(term)).length])
+    );
+
+    const bm25 = tokenized.map((tokens) =>
+      queryTerms.reduce((score, term) => {
+        const tf = tokens.filter((t) => t === term).length;
+        if (tf === 0) return score;
+        const df = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        return score + (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * tokens.length) / avgLength));
+      }, 0)
+    );
+    const maxBm25 = Math.max(...bm25);
+
+    return chunks
+      .map((chunk, i) => {
+        const keyword = maxBm25 > 0 ? bm25[i] / maxBm25 : 0;
+        const semantic =
+          chunk.embeddingModel === LOCAL_EMBEDDING_MODEL ? Math.max(0, cosine(queryEmbedding, chunk.embedding)) : 0;
+        return { chunk, keyword, score: KEYWORD_WEIGHT * keyword + (1 - KEYWORD_WEIGHT) * semantic };
+      })
+      .filter((r) => r.score >= MIN_SCORE)
+      .sort((a, b) => b.score - a.score || a.chunk.id.localeCompare(b.chunk.id))
+      .slice(0, maxResults)
+      .map(({ chunk, score }) => ({
+        file_id: chunk.documentId,
+        filename: chunk.document.name,
+        score: Math.round(score * 1000) / 1000,
+        chunks: [chunk.text],
+        attributes: {
+          chunk_index: chunk.chunkIndex,
+          page_number: chunk.pageNumber,
+          char_start: chunk.charStart,
+          char_end: chunk.charEnd,
+          retrieval_backend: 'local',
+        },
+      }));
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * OCR - Text from images and scanned PDF pages, offline
+ *
+ * Runs Tesseract (WASM) with the English model shipped in @tesseract.js-data/eng,
+ * so nothing is downloaded at runtime. Scanned PDFs are OCR'd from the page
+ * images pdf.js decodes; no canvas is needed.
+ */
+
+import engData from '@tesseract.js-data/eng';
+import { createWorker } from 'tesseract.js';
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+export const OCR_IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'tif', 'tiff'];
+
+// Bounds the cost of a large scan; later pages keep whatever text layer they have
+const OCR_MAX_PAGES = 100;
+// Logos and signatures are not worth recognising
+const MIN_IMAGE_PIXELS = 200 * 200;
+
+// pdf.js ImageKind values
+const IMAGE_KIND_GRAYSCALE_1BPP = 1;
+const IMAGE_KIND_RGB_24BPP = 2;
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECOGNITION
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Recognise each image in turn with one Tesseract worker. Images are encoded
+ * files (PNG, JPEG, TIFF, PNM).
+ */
+export async function recognizeImages(images: Buffer[]): Promise<string[]> {
+  if (images.length === 0) return [];
+  const worker = await createWorker(engData.code, undefined, {
+    langPath: engData.langPath,
+    gzip: engData.gzip,
+    cacheMethod: 'none',
+  });
+  try {
+    const texts: string[] = [];
+    for (const image of images) {
+      const { data } = await worker.recognize(image);
+      texts.push(data.text.trim());
+    }
+    return texts;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SCANNED PDFS
+// ════════════════════════════════════════════════════════════════════════════
+
+type DecodedImage = { width: number; height: number; kind: number; data: Uint8Array | Uint8ClampedArray };
+
+/**
+ * Encode a decoded pdf.js image as 8-bit greyscale PGM, which Tesseract reads
+ */
+function toGreyscalePgm({ width, height, kind, data }: DecodedImage): Buffer {
+  const pixels = Buffer.alloc(width * height);
+  if (kind === IMAGE_KIND_GRAYSCALE_1BPP) {
+    // Rows are padded to whole bytes; a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+  } else {
+    const channels = kind === IMAGE_KIND_RGB_24BPP ? 3 : 4;
+    for (let i = 0; i < width * height; i++) {
+      const o = i * channels;
+      pixels[i] = Math.round(0.299 * data[o] + 0.587 * data[o + 1] + 0.114 * data[o + 2]);
+    }
+  }
+  return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels]);
+}
+
+/**
+ * OCR the images painted on the given PDF pages (1-based). Returns text by page
+ * number; pages without a usable image are left out.
+ */
+export async function ocrPdfPages(buffer: Buffer, pageNumbers: number[]): Promise<Map<number, string>> {
+  const { OPS, VerbosityLevel, getDocument } = await import('pdfjs-dist/legacy/build/pdf.js');
+  const pdf = await getDocument({ data: new Uint8Array(buffer), isEvalSupported: false, verbosity: VerbosityLevel.ERRORS })
+    .promise;
+
+  const imagesByPage = new Map<number, Buffer[]>();
+  try {
+    for (const pageNumber of pageNumbers.slice(0, OCR_MAX_PAGES)) {
+      const page = await pdf.getPage(pageNumber);
+      const operators = await page.getOperatorList();
+      const images: Buffer[] = [];
+
+      for (let i = 0; i < operators.fnArray.length; i++) {
+        const fn = operators.fnArray[i];
+        let image: DecodedImage | null = null;
+        if (fn === OPS.paintInlineImageXObject) {
+          image = operators.argsArray[i][0];
+        } else if (fn === OPS.paintImageXObject) {
+          const objId: string = operators.argsArray[i][0];
+          const objs = objId.startsWith('g_') ? page.commonObjs : page.objs;
+          image = await new Promise((resolve) => objs.get(objId, resolve));
+        }
+        if (image?.data && image.width * image.height >= MIN_IMAGE_PIXELS) images.push(toGreyscalePgm(image));
+      }
+
+      if (images.length > 0) imagesByPage.set(pageNumber, images);
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  const pages = Array.from(imagesByPage.entries());
+  const texts = await recognizeImages(pages.flatMap(([, images]) => images));
+  const result = new Map<number, string>();
+  let offset = 0;
+  for (const [pageNumber, images] of pages) {
+    result.set(pageNumber, texts.slice(offset, offset + images.length).join('\n\n'));
+    offset += images.length;
+  }
+  return result;
+}
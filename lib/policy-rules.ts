@@ -0,0 +1,484 @@
+/**
+ * POLICY RULES - Expression language for fund policy custom rules
+ *
+ * A custom rule condition is a small expression over v1 fact codes, e.g.
+ *   grid_reserved_mw_firm < 0.8 * grid_target_import_mw and grid_deep_works_flag
+ *
+ * Grammar (lowest to highest precedence):
+ *   or · and · not · comparison (< <= > >= == !=) · + - · * / · unary - · atom
+ * Atoms are numbers, 'strings', true, false, fact codes and parenthesised expressions.
+ *
+ * Conditions are parsed and type-checked against FACT_CATALOG_V1 at save time.
+ * Evaluation is three-valued: a condition that depends on a fact with no value
+ * is UNKNOWN rather than false, mirroring how hard gates treat missing evidence.
+ */
+
+import { type FactValue } from './dd-contract-v1';
+import { FACT_CATALOG_V1, getFactByCode } from './fact-catalog-v1';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export type RuleValueType = 'number' | 'string' | 'boolean';
+export type RuleComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+export type RuleArithmeticOperator = '+' | '-' | '*' | '/';
+
+export type RuleExpression =
+  | { kind: 'literal'; value: number | string | boolean }
+  | { kind: 'fact'; code: string }
+  | { kind: 'not'; operand: RuleExpression }
+  | { kind: 'negate'; operand: RuleExpression }
+  | { kind: 'logical'; op: 'and' | 'or'; left: RuleExpression; right: RuleExpression }
+  | { kind: 'compare'; op: RuleComparisonOperator; left: RuleExpression; right: RuleExpression }
+  | { kind: 'arithmetic'; op: RuleArithmeticOperator; left: RuleExpression; right: RuleExpression };
+
+export interface RuleEvaluation {
+  /** null when a referenced fact has no value and the outcome depends on it */
+  value: boolean | null;
+  fact_codes: string[];
+  missing_fact_codes: string[];
+  citations: string[];
+}
+
+export class RuleSyntaxError extends Error {
+  /** Character offset of the problem in the condition; null for type errors */
+  position: number | null;
+
+  constructor(message: string, position: number | null) {
+    super(message);
+    this.position = position;
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TOKENIZER
+// ════════════════════════════════════════════════════════════════════════════
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'end'; pos: number };
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'true', 'false']);
+const OPERATORS = ['<=', '>=', '==', '!=', '<', '>', '+', '-', '*', '/', '(', ')'];
+const OPERATOR_HINTS: Record<string, string> = {
+  '&&': "use 'and' instead of '&&'",
+  '||': "use 'or' instead of '||'",
+  '!': "use 'not' instead of '!'",
+  '=': "use '==' to compare values",
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+(\.\d+)?|\.\d+)/.exec(source.slice(i));
+      if (!match) throw new RuleSyntaxError(`Invalid number at position ${i}`, i);
+      tokens.push({ type: 'number', value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new RuleSyntaxError(`Unterminated string starting at position ${i}`, i);
+      tokens.push({ type: 'string', value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+      tokens.push({ type: 'ident', value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const hint = Object.keys(OPERATOR_HINTS).find(
+      (op) => source.startsWith(op, i) && !OPERATORS.some((known) => known.length >= op.length && source.startsWith(known, i))
+    );
+    if (hint) throw new RuleSyntaxError(`Unexpected '${hint}' at position ${i} - ${OPERATOR_HINTS[hint]}`, i);
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (!op) throw new RuleSyntaxError(`Unexpected character '${ch}' at position ${i}`, i);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+
+  tokens.push({ type: 'end', pos: source.length });
+  return tokens;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PARSER
+// ════════════════════════════════════════════════════════════════════════════
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestFactCode(code: string): string | null {
+  let best: { code: string; distance: number } | null = null;
+  for (const fact of FACT_CATALOG_V1) {
+    const distance = fact.code.startsWith(code) ? 1 : editDistance(code, fact.code);
+    if (!best || distance < best.distance) best = { code: fact.code, distance };
+  }
+  return best && best.distance <= Math.max(3, Math.floor(code.length / 3)) ? best.code : null;
+}
+
+function describeToken(token: Token): string {
+  return token.type === 'end' ? 'end of condition' : `'${token.value}'`;
+}
+
+class RuleParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): RuleExpression {
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new RuleSyntaxError(`Unexpected ${describeToken(next)} at position ${next.pos} - expected 'and', 'or' or end of condition`, next.pos);
+    }
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private matchWord(word: string): boolean {
+    const token = this.peek();
+    if (token.type === 'ident' && token.value === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOp(ops: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'op' && ops.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private parseOr(): RuleExpression {
+    let left = this.parseAnd();
+    while (this.matchWord('or')) {
+      left = { kind: 'logical', op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleExpression {
+    let left = this.parseNot();
+    while (this.matchWord('and')) {
+      left = { kind: 'logical', op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): RuleExpression {
+    if (this.matchWord('not')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): RuleExpression {
+    const left = this.parseAdditive();
+    const op = this.matchOp(['<', '<=', '>', '>=', '==', '!=']);
+    if (!op) return left;
+    const right = this.parseAdditive();
+    const chained = this.peek();
+    if (chained.type === 'op' && ['<', '<=', '>', '>=', '==', '!='].includes(chained.value)) {
+      throw new RuleSyntaxError(`Chained comparison at position ${chained.pos} - combine comparisons with 'and'`, chained.pos);
+    }
+    return { kind: 'compare', op: op as RuleComparisonOperator, left, right };
+  }
+
+  private parseAdditive(): RuleExpression {
+    let left = this.parseMultiplicative();
+    let op: string | null;
+    while ((op = this.matchOp(['+', '-']))) {
+      left = { kind: 'arithmetic', op: op as RuleArithmeticOperator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): RuleExpression {
+    let left = this.parseUnary();
+    let op: string | null;
+    while ((op = this.matchOp(['*', '/']))) {
+      left = { kind: 'arithmetic', op: op as RuleArithmeticOperator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): RuleExpression {
+    if (this.matchOp(['-'])) {
+      return { kind: 'negate', operand: this.parseUnary() };
+    }
+    return this.parseAtom();
+  }
+
+  private parseAtom(): RuleExpression {
+    const token = this.peek();
+
+    if (token.type === 'number' || token.type === 'string') {
+      this.index++;
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'op' && token.value === '(') {
+      this.index++;
+      const inner = this.parseOr();
+      const close = this.peek();
+      if (!this.matchOp([')'])) {
+        throw new RuleSyntaxError(`Expected ')' at position ${close.pos} to close '(' at position ${token.pos}`, close.pos);
+      }
+      return inner;
+    }
+
+    if (token.type === 'ident') {
+      if (token.value === 'true' || token.value === 'false') {
+        this.index++;
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (KEYWORDS.has(token.value)) {
+        throw new RuleSyntaxError(`Unexpected '${token.value}' at position ${token.pos} - expected a fact code or value`, token.pos);
+      }
+      if (!getFactByCode(token.value)) {
+        const suggestion = suggestFactCode(token.value);
+        throw new RuleSyntaxError(
+          `Unknown fact code '${token.value}' at position ${token.pos}${suggestion ? ` - did you mean '${suggestion}'?` : ''}`,
+          token.pos
+        );
+      }
+      this.index++;
+      return { kind: 'fact', code: token.value };
+    }
+
+    throw new RuleSyntaxError(`Unexpected ${describeToken(token)} at position ${token.pos} - expected a fact code or value`, token.pos);
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPE CHECK
+// ════════════════════════════════════════════════════════════════════════════
+
+function describeExpression(expression: RuleExpression): string {
+  switch (expression.kind) {
+    case 'fact':
+      return `'${expression.code}'`;
+    case 'literal':
+      return typeof expression.value === 'string' ? `'${expression.value}'` : String(expression.value);
+    default:
+      return 'expression';
+  }
+}
+
+function typeOf(expression: RuleExpression): RuleValueType {
+  const expect = (operand: RuleExpression, type: RuleValueType, context: string) => {
+    const actual = typeOf(operand);
+    if (actual !== type) {
+      throw new RuleSyntaxError(`${context} needs a ${type}, but ${describeExpression(operand)} is a ${actual}`, null);
+    }
+  };
+
+  switch (expression.kind) {
+    case 'literal':
+      return typeof expression.value as RuleValueType;
+    case 'fact':
+      return getFactByCode(expression.code)!.type;
+    case 'not':
+      expect(expression.operand, 'boolean', "'not'");
+      return 'boolean';
+    case 'negate':
+      expect(expression.operand, 'number', "'-'");
+      return 'number';
+    case 'logical':
+      expect(expression.left, 'boolean', `'${expression.op}'`);
+      expect(expression.right, 'boolean', `'${expression.op}'`);
+      return 'boolean';
+    case 'arithmetic':
+      expect(expression.left, 'number', `'${expression.op}'`);
+      expect(expression.right, 'number', `'${expression.op}'`);
+      return 'number';
+    case 'compare': {
+      if (expression.op === '==' || expression.op === '!=') {
+        expect(expression.right, typeOf(expression.left), `'${expression.op}' with ${describeExpression(expression.left)}`);
+      } else {
+        expect(expression.left, 'number', `'${expression.op}'`);
+        expect(expression.right, 'number', `'${expression.op}'`);
+      }
+      return 'boolean';
+    }
+  }
+}
+
+/**
+ * Parse and type-check a custom rule condition. Throws RuleSyntaxError with a
+ * message suitable for showing next to the rule in the policy editor.
+ */
+export function parseRuleCondition(source: string): RuleExpression {
+  if (!source.trim()) throw new RuleSyntaxError('Condition is empty', 0);
+
+  const expression = new RuleParser(tokenize(source)).parse();
+  if (typeOf(expression) !== 'boolean') {
+    throw new RuleSyntaxError('Condition must be true or false - add a comparison such as "> 0"', null);
+  }
+  return expression;
+}
+
+/**
+ * Fact codes referenced by a parsed condition, in order of first use
+ */
+export function getRuleFactCodes(expression: RuleExpression): string[] {
+  switch (expression.kind) {
+    case 'literal':
+      return [];
+    case 'fact':
+      return [expression.code];
+    case 'not':
+    case 'negate':
+      return getRuleFactCodes(expression.operand);
+    default:
+      return [...new Set([...getRuleFactCodes(expression.left), ...getRuleFactCodes(expression.right)])];
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EVALUATION
+// ════════════════════════════════════════════════════════════════════════════
+
+type RuleValue = number | string | boolean | null;
+
+function readFact(code: string, facts: Record<string, FactValue>): RuleValue {
+  const raw = facts[code]?.value;
+  if (raw == null) return null;
+
+  switch (getFactByCode(code)?.type) {
+    case 'number': {
+      const n = typeof raw === 'number' ? raw : Number(raw);
+      return Number.isFinite(n) ? n : null;
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return raw;
+      if (raw === 'true' || raw === 'false') return raw === 'true';
+      return null;
+    default:
+      return String(raw);
+  }
+}
+
+function evaluate(expression: RuleExpression, facts: Record<string, FactValue>): RuleValue {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'fact':
+      return readFact(expression.code, facts);
+    case 'not': {
+      const operand = evaluate(expression.operand, facts);
+      return operand == null ? null : !operand;
+    }
+    case 'negate': {
+      const operand = evaluate(expression.operand, facts);
+      return operand == null ? null : -(operand as number);
+    }
+    case 'logical': {
+      // Kleene logic: a known false (and) or true (or) decides regardless of unknowns
+      const left = evaluate(expression.left, facts);
+      const right = evaluate(expression.right, facts);
+      if (expression.op === 'and') {
+        if (left === false || right === false) return false;
+        return left == null || right == null ? null : true;
+      }
+      if (left === true || right === true) return true;
+      return left == null || right == null ? null : false;
+    }
+    case 'arithmetic': {
+      const left = evaluate(expression.left, facts) as number | null;
+      const right = evaluate(expression.right, facts) as number | null;
+      if (left == null || right == null) return null;
+      switch (expression.op) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          return right === 0 ? null : left / right;
+      }
+      return null;
+    }
+    case 'compare': {
+      const left = evaluate(expression.left, facts);
+      const right = evaluate(expression.right, facts);
+      if (left == null || right == null) return null;
+      const equal = typeof left === 'string' ? left.toLowerCase() === String(right).toLowerCase() : left === right;
+      switch (expression.op) {
+        case '==':
+          return equal;
+        case '!=':
+          return !equal;
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Evaluate a parsed condition against v1 facts.
+ * Citations are those of every referenced fact that has a value.
+ */
+export function evaluateRuleCondition(
+  expression: RuleExpression,
+  facts: Record<string, FactValue>
+): RuleEvaluation {
+  const factCodes = getRuleFactCodes(expression);
+  const missing = factCodes.filter((code) => readFact(code, facts) == null);
+  const value = evaluate(expression, facts) as boolean | null;
+
+  return {
+    value,
+    fact_codes: factCodes,
+    missing_fact_codes: missing,
+    citations: [...new Set(factCodes.filter((code) => !missing.includes(code)).flatMap((code) => facts[code].citations))],
+  };
+}
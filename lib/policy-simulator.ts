@@ -0,0 +1,121 @@
+/**
+ * POLICY SIMULATOR - What-if scoring of a draft policy across a deal pipeline
+ *
+ * Re-scores each deal's latest stored facts under the live policy and a draft
+ * policy, and reports which hard-gate decisions flip and which gate caused it.
+ * Timeline gates count from each run's time, as when the run was scored.
+ * Pure: safe to run in the browser on every keystroke.
+ */
+
+import { type Contradiction, type FactValue, type FundPolicySnapshot, type HardGateResult } from './dd-contract-v1';
+import { runScoringPipeline } from './scoring-engine-v1';
+import { type CountryScoringContext } from './country-pack-scoring';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export type HardGateDecision = HardGateResult['decision'];
+
+export interface SimulationInput {
+  dealId: string;
+  dealName: string;
+  runId: string;
+  runCreatedAt: string;
+  facts: Record<string, FactValue>;
+  contradictions?: Contradiction[];
+  country?: CountryScoringContext | null;
+}
+
+export interface SimulationOutcome {
+  decision: HardGateDecision;
+  overall_score: number;
+  reasons: string[];
+}
+
+export interface SimulationRow {
+  dealId: string;
+  dealName: string;
+  runId: string;
+  runCreatedAt: string;
+  live: SimulationOutcome;
+  draft: SimulationOutcome;
+  flipped: boolean;
+  /** Gate reasons that appeared (stricter draft) or cleared (looser draft) and explain the flip */
+  flip_reasons: string[];
+  score_delta: number;
+}
+
+export interface SimulationSummary {
+  deals: number;
+  flipped: number;
+  tightened: number;
+  loosened: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SIMULATION
+// ════════════════════════════════════════════════════════════════════════════
+
+const DECISION_RANK: Record<HardGateDecision, number> = { GO: 2, HOLD: 1, NO_GO: 0 };
+
+function scoreUnder(input: SimulationInput, policy: FundPolicySnapshot): SimulationOutcome {
+  const result = runScoringPipeline(input.facts, policy, {
+    contradictions: input.contradictions,
+    country: input.country,
+    asOf: new Date(input.runCreatedAt),
+  });
+  return {
+    decision: result.hardGateResult.decision,
+    overall_score: result.overallScore.score_0_100,
+    reasons: result.hardGateResult.reasons,
+  };
+}
+
+/**
+ * Explain a decision flip by the gate reasons that differ between the two outcomes
+ */
+export function explainFlip(live: SimulationOutcome, draft: SimulationOutcome): string[] {
+  if (live.decision === draft.decision) return [];
+  if (DECISION_RANK[draft.decision] < DECISION_RANK[live.decision]) {
+    return draft.reasons.filter((reason) => !live.reasons.includes(reason));
+  }
+  return live.reasons
+    .filter((reason) => !draft.reasons.includes(reason))
+    .map((reason) => `Cleared: ${reason}`);
+}
+
+/**
+ * Score every input under both policies; flipped decisions are listed first
+ */
+export function simulatePolicyChange(
+  inputs: SimulationInput[],
+  livePolicy: FundPolicySnapshot,
+  draftPolicy: FundPolicySnapshot
+): SimulationRow[] {
+  const rows = inputs.map((input) => {
+    const live = scoreUnder(input, livePolicy);
+    const draft = scoreUnder(input, draftPolicy);
+    return {
+      dealId: input.dealId,
+      dealName: input.dealName,
+      runId: input.runId,
+      runCreatedAt: input.runCreatedAt,
+      live,
+      draft,
+      flipped: live.decision !== draft.decision,
+      flip_reasons: explainFlip(live, draft),
+      score_delta: draft.overall_score - live.overall_score,
+    };
+  });
+  return rows.sort((a, b) => Number(b.flipped) - Number(a.flipped) || a.dealName.localeCompare(b.dealName));
+}
+
+export function summarizeSimulation(rows: SimulationRow[]): SimulationSummary {
+  return {
+    deals: rows.length,
+    flipped: rows.filter((r) => r.flipped).length,
+    tightened: rows.filter((r) => DECISION_RANK[r.draft.decision] < DECISION_RANK[r.live.decision]).length,
+    loosened: rows.filter((r) => DECISION_RANK[r.draft.decision] > DECISION_RANK[r.live.decision]).length,
+  };
+}
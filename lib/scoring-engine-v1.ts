@@ -3,16 +3,22 @@
  *
  * Implements:
  * - Hard gates (GO / HOLD / NO_GO)
+ * - Fund custom rules (reject / flag / bonus / penalty)
+ * - Score adjustment ledger (policy bonuses and penalties)
+ * - Country pack overrides (market-specific gates and adjustments)
  * - Module status (VERIFIED / PARTIAL / UNKNOWN)
  * - Energisation curve (heuristic readiness index)
  * - Underwriting tape extraction
  */
 
 import {
+  type Contradiction,
+  type CustomRuleResult,
   type DDContractV1,
   type DealEvidence,
   type FactValue,
   type FundPolicySnapshot,
+  type GateCheck,
   type HardGateResult,
   type ModuleScorecardEntry,
   type OverallScore,
@@ -20,144 +26,853 @@ import {
   type EnergisationInputs,
   type UnderwritingTapeVariable,
   type ChecklistItem,
+  type CountryOverride,
   type DDModuleV1,
+  type EvidenceTier,
+  type HardGates,
+  type ScoreAdjustment,
+  DDModuleV1Schema,
+  EvidenceTierSchema,
   UNDERWRITING_TAPE_VARIABLES,
   createDefaultFundPolicy,
 } from './dd-contract-v1';
 
 import { getFactByCode, getFactsByModule, getExpectedArtifactsForFact } from './fact-catalog-v1';
+import { RuleSyntaxError, evaluateRuleCondition, parseRuleCondition } from './policy-rules';
+import { type CountryScoringContext, applyCountryOverrides, applyGridTitleEvidence } from './country-pack-scoring';
 
 // ════════════════════════════════════════════════════════════════════════════
 // HARD GATE EVALUATION
 // ════════════════════════════════════════════════════════════════════════════
 
+const QUARTER_END_MONTH: Record<string, number> = { '1': 3, '2': 6, '3': 9, '4': 12 };
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
 /**
- * Evaluate hard gates based on fund policy and extracted facts
+ * Parse an energisation target ("2027-03-31", "Q4 2026", "H1 2027", "March 2027", "2027")
+ * into { year, month } at the latest month the target allows. Returns null when unparseable.
  */
-export function evaluateHardGates(
+export function parseTargetMonth(value: string): { year: number; month: number } | null {
+  const text = value.trim().toLowerCase();
+  let match = text.match(/^(\d{4})-(\d{2})(?:-\d{2})?/);
+  if (match) return { year: Number(match[1]), month: Number(match[2]) };
+  match = text.match(/q([1-4])\s*(\d{4})/);
+  if (match) return { year: Number(match[2]), month: QUARTER_END_MONTH[match[1]] };
+  match = text.match(/h([12])\s*(\d{4})/);
+  if (match) return { year: Number(match[2]), month: match[1] === '1' ? 6 : 12 };
+  match = text.match(/([a-z]{3})[a-z]*\.?\s+(\d{4})/);
+  if (match && MONTHS.includes(match[1])) return { year: Number(match[2]), month: MONTHS.indexOf(match[1]) + 1 };
+  match = text.match(/^(?:end of\s+)?(\d{4})$/);
+  if (match) return { year: Number(match[1]), month: 12 };
+  return null;
+}
+
+/**
+ * Parse a curtailment cap ("200 hours per year", "2%") into hours per year. Returns null when unparseable.
+ */
+export function parseCurtailmentHours(value: string | number): number | null {
+  if (typeof value === 'number') return value;
+  const match = value.match(/(\d+(?:[.,]\d+)?)\s*(%|percent|h\b|hrs?\b|hours?\b)/i);
+  if (!match) return null;
+  const amount = Number(match[1].replace(',', '.'));
+  return /%|percent/i.test(match[2]) ? Math.round((amount / 100) * 8760) : amount;
+}
+
+/**
+ * Parse a design tier ("Tier III", "Tier 3", "Rated-3") into 1-4. Returns null when unparseable.
+ */
+export function parseTierLevel(value: string | number): number | null {
+  if (typeof value === 'number') return value >= 1 && value <= 4 ? value : null;
+  const match = value.match(/(?:tier|rated)[\s-]*(iv|iii|ii|i|[1-4])\b/i);
+  if (!match) return null;
+  const roman: Record<string, number> = { i: 1, ii: 2, iii: 3, iv: 4 };
+  return roman[match[1].toLowerCase()] ?? Number(match[1]);
+}
+
+const GRANTED_PERMIT_PATTERN = /\b(granted|issued|approved|in force|obtained)\b/i;
+
+/**
+ * Policy minimum evidence tier for a fact: min_power_evidence_tier for power and
+ * grid facts, min_land_evidence_tier for land control. Null when none applies.
+ */
+export function requiredEvidenceTier(code: string, gates: Partial<HardGates>): EvidenceTier | null {
+  if (getFactByCode(code)?.module === 'POWER_GRID') return gates.min_power_evidence_tier ?? null;
+  if (code.startsWith('land_control_')) return gates.min_land_evidence_tier ?? null;
+  return null;
+}
+
+/**
+ * The policy minimum a fact's evidence tier falls short of, or null when it meets
+ * it. ANALYST_ASSERTED ranks above every document tier and always meets it.
+ */
+export function evidenceTierShortfall(code: string, fact: FactValue | undefined, gates: Partial<HardGates>): EvidenceTier | null {
+  const required = requiredEvidenceTier(code, gates);
+  if (!required || fact?.value == null) return null;
+  const tiers = EvidenceTierSchema.options;
+  return tiers.indexOf(fact.evidence_tier) < tiers.indexOf(required) ? required : null;
+}
+
+/**
+ * A value whose cited snippets do not state it (lib/citation-verifier.ts) keeps the
+ * NONE tier; it is shown but satisfies no gate
+ */
+export function isUnconfirmed(fact: FactValue | undefined): boolean {
+  return fact?.value != null && fact.evidence_tier === 'NONE';
+}
+
+function formatTier(tier: EvidenceTier): string {
+  return tier.toLowerCase().replace(/_/g, ' ');
+}
+
+/**
+ * Evaluate every active hard gate against v1 facts.
+ * A gate whose facts are not evidenced is UNKNOWN (HOLD), never a silent pass.
+ */
+export function evaluateGateChecks(
   facts: Record<string, FactValue>,
-  policy: FundPolicySnapshot
-): HardGateResult {
-  const reasons: string[] = [];
-  const gatingCitations: string[] = [];
-  let hasNoGo = false;
-  let hasHold = false;
-
-  // Check power title level
-  const powerTitleFact = facts['grid_title_level_0_5'];
-  if (powerTitleFact?.value != null) {
-    const level = Number(powerTitleFact.value);
-    if (level < policy.hard_gates.min_power_title_level) {
-      hasNoGo = true;
-      reasons.push(
-        `Grid title level ${level} below minimum ${policy.hard_gates.min_power_title_level}`
+  policy: FundPolicySnapshot,
+  asOf: Date = new Date()
+): GateCheck[] {
+  const gates = policy.hard_gates;
+  const checks: GateCheck[] = [];
+
+  // A fact below the policy's minimum evidence tier does not satisfy a gate: UNKNOWN, with the reason
+  const shortfall = (code: string) => evidenceTierShortfall(code, facts[code], gates);
+  const known = (code: string): FactValue | null =>
+    facts[code]?.value != null && !shortfall(code) && !isUnconfirmed(facts[code]) ? facts[code] : null;
+  const add = (check: Omit<GateCheck, 'citations'>, citations: string[] = []) =>
+    checks.push({ ...check, citations: [...new Set(citations)] });
+  const unknown = (gate: string, module: GateCheck['module'], fact_codes: string[], reason: string, required: GateCheck['required_value']) => {
+    const weak = fact_codes.filter((code) => shortfall(code) || isUnconfirmed(facts[code]));
+    add(
+      {
+        gate,
+        module,
+        status: 'UNKNOWN',
+        reason:
+          weak.length > 0
+            ? weak
+                .map((code) =>
+                  isUnconfirmed(facts[code])
+                    ? `${getFactByCode(code)?.label ?? code} ${facts[code].value} not stated in its cited snippets (citation mismatch)`
+                    : `${getFactByCode(code)?.label ?? code} evidenced only at ${formatTier(facts[code].evidence_tier)} tier; policy requires ${formatTier(shortfall(code)!)} or better`
+                )
+                .join('. ')
+            : reason,
+        fact_codes,
+        actual_value: null,
+        required_value: required,
+      },
+      weak.flatMap((code) => facts[code].citations)
+    );
+  };
+
+  // Power title level (always assessed - an unknown title is a HOLD even with no minimum)
+  const powerTitle = known('grid_title_level_0_5');
+  const minPowerTitle = Math.max(
+    gates.min_power_title_level,
+    gates.requires_grid_connection_agreement ? 4 : 0
+  );
+  if (powerTitle) {
+    const level = Number(powerTitle.value);
+    const failed = level < minPowerTitle;
+    add(
+      {
+        gate: 'min_power_title_level',
+        module: 'POWER_GRID',
+        status: failed ? 'FAIL' : 'PASS',
+        reason: failed
+          ? gates.requires_grid_connection_agreement && level < 4 && level >= gates.min_power_title_level
+            ? `Fund requires a signed grid connection agreement, but grid title level is ${level}`
+            : `Grid title level ${level} below minimum ${minPowerTitle}`
+          : `Grid title level ${level} meets minimum ${minPowerTitle}`,
+        fact_codes: ['grid_title_level_0_5'],
+        actual_value: level,
+        required_value: minPowerTitle,
+      },
+      powerTitle.citations
+    );
+  } else {
+    unknown('min_power_title_level', 'POWER_GRID', ['grid_title_level_0_5'], 'Grid title level unknown - cannot assess power security', minPowerTitle);
+  }
+
+  // Land control level
+  const land = known('land_control_level_0_4');
+  if (land) {
+    const level = Number(land.value);
+    const failed = level < gates.min_land_control_level;
+    add(
+      {
+        gate: 'min_land_control_level',
+        module: 'PERMITS_LAND',
+        status: failed ? 'FAIL' : 'PASS',
+        reason: failed
+          ? `Land control level ${level} below minimum ${gates.min_land_control_level}`
+          : `Land control level ${level} meets minimum ${gates.min_land_control_level}`,
+        fact_codes: ['land_control_level_0_4'],
+        actual_value: level,
+        required_value: gates.min_land_control_level,
+      },
+      land.citations
+    );
+  } else {
+    unknown('min_land_control_level', 'PERMITS_LAND', ['land_control_level_0_4'], 'Land control level unknown - cannot assess site security', gates.min_land_control_level);
+  }
+
+  // Planning level (a final, non-appealable permission is level 4)
+  const planning = known('planning_permission_level_0_5');
+  const minPlanning = Math.max(gates.min_planning_level, gates.rejects_permit_appeal_risk ? 4 : 0);
+  if (planning) {
+    const level = Number(planning.value);
+    const failed = level < minPlanning;
+    add(
+      {
+        gate: 'min_planning_level',
+        module: 'PERMITS_LAND',
+        status: failed ? 'FAIL' : 'PASS',
+        reason: failed
+          ? gates.rejects_permit_appeal_risk && level === 3 && gates.min_planning_level <= 3
+            ? 'Planning permission granted but not final - appeal risk not accepted by fund'
+            : `Planning level ${level} below minimum ${minPlanning}`
+          : `Planning level ${level} meets minimum ${minPlanning}`,
+        fact_codes: ['planning_permission_level_0_5'],
+        actual_value: level,
+        required_value: minPlanning,
+      },
+      planning.citations
+    );
+  } else {
+    unknown('min_planning_level', 'PERMITS_LAND', ['planning_permission_level_0_5'], 'Planning level unknown - cannot assess permitting status', minPlanning);
+  }
+
+  // Non-firm power policy
+  if (!gates.accepts_non_firm_power) {
+    const flexMW = known('grid_reserved_mw_flex');
+    if (!flexMW) {
+      unknown('accepts_non_firm_power', 'POWER_GRID', ['grid_reserved_mw_flex'], 'Flex MW unknown - cannot confirm connection is fully firm', false);
+    } else {
+      const failed = Number(flexMW.value) > 0;
+      add(
+        {
+          gate: 'accepts_non_firm_power',
+          module: 'POWER_GRID',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Fund policy does not accept non-firm power, but ${flexMW.value} MW flex found`
+            : 'No non-firm capacity evidenced',
+          fact_codes: ['grid_reserved_mw_flex'],
+          actual_value: Number(flexMW.value),
+          required_value: 0,
+        },
+        flexMW.citations
       );
-      gatingCitations.push(...powerTitleFact.citations);
     }
-  } else {
-    hasHold = true;
-    reasons.push('Grid title level unknown - cannot assess power security');
-  }
-
-  // Check land control level
-  const landFact = facts['land_control_level_0_4'];
-  if (landFact?.value != null) {
-    const level = Number(landFact.value);
-    if (level < policy.hard_gates.min_land_control_level) {
-      hasNoGo = true;
-      reasons.push(
-        `Land control level ${level} below minimum ${policy.hard_gates.min_land_control_level}`
+  }
+
+  // Flex share percentage
+  if (gates.max_flex_share_pct != null) {
+    const firmMW = known('grid_reserved_mw_firm');
+    const flexMW = known('grid_reserved_mw_flex');
+    const total = firmMW && flexMW ? Number(firmMW.value) + Number(flexMW.value) : 0;
+    if (!firmMW || !flexMW || total <= 0) {
+      unknown('max_flex_share_pct', 'POWER_GRID', ['grid_reserved_mw_firm', 'grid_reserved_mw_flex'], 'Firm/flex MW split unknown - cannot assess flex share', gates.max_flex_share_pct);
+    } else {
+      const flexShare = (Number(flexMW.value) / total) * 100;
+      const failed = flexShare > gates.max_flex_share_pct;
+      add(
+        {
+          gate: 'max_flex_share_pct',
+          module: 'POWER_GRID',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Flex share ${flexShare.toFixed(1)}% exceeds maximum ${gates.max_flex_share_pct}%`
+            : `Flex share ${flexShare.toFixed(1)}% within maximum ${gates.max_flex_share_pct}%`,
+          fact_codes: ['grid_reserved_mw_firm', 'grid_reserved_mw_flex'],
+          actual_value: Math.round(flexShare * 10) / 10,
+          required_value: gates.max_flex_share_pct,
+        },
+        [...firmMW.citations, ...flexMW.citations]
       );
-      gatingCitations.push(...landFact.citations);
     }
-  } else {
-    hasHold = true;
-    reasons.push('Land control level unknown - cannot assess site security');
-  }
-
-  // Check planning level
-  const planningFact = facts['planning_permission_level_0_5'];
-  if (planningFact?.value != null) {
-    const level = Number(planningFact.value);
-    if (level < policy.hard_gates.min_planning_level) {
-      hasNoGo = true;
-      reasons.push(
-        `Planning level ${level} below minimum ${policy.hard_gates.min_planning_level}`
+  }
+
+  // Interruptible connection
+  if (gates.accepts_interruptible_power === false) {
+    const interruptible = known('grid_interruptible_flag');
+    if (!interruptible) {
+      unknown('accepts_interruptible_power', 'POWER_GRID', ['grid_interruptible_flag'], 'Interruptibility of the connection unknown', false);
+    } else {
+      const failed = interruptible.value === true;
+      add(
+        {
+          gate: 'accepts_interruptible_power',
+          module: 'POWER_GRID',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed ? 'Fund policy does not accept interruptible connections' : 'Connection is not interruptible',
+          fact_codes: ['grid_interruptible_flag'],
+          actual_value: interruptible.value,
+          required_value: false,
+        },
+        interruptible.citations
+      );
+    }
+  }
+
+  // Curtailment cap
+  if (gates.max_curtailment_cap_hours_per_year != null) {
+    const cap = known('grid_curtailment_cap');
+    const hours = cap ? parseCurtailmentHours(cap.value as string | number) : null;
+    if (hours == null) {
+      unknown('max_curtailment_cap_hours_per_year', 'POWER_GRID', ['grid_curtailment_cap'], 'Curtailment cap unknown or not quantified', gates.max_curtailment_cap_hours_per_year);
+    } else {
+      const failed = hours > gates.max_curtailment_cap_hours_per_year;
+      add(
+        {
+          gate: 'max_curtailment_cap_hours_per_year',
+          module: 'POWER_GRID',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Curtailment cap ${hours} h/yr exceeds maximum ${gates.max_curtailment_cap_hours_per_year} h/yr`
+            : `Curtailment cap ${hours} h/yr within maximum ${gates.max_curtailment_cap_hours_per_year} h/yr`,
+          fact_codes: ['grid_curtailment_cap'],
+          actual_value: hours,
+          required_value: gates.max_curtailment_cap_hours_per_year,
+        },
+        cap!.citations
       );
-      gatingCitations.push(...planningFact.citations);
     }
-  } else {
-    hasHold = true;
-    reasons.push('Planning level unknown - cannot assess permitting status');
   }
 
-  // Check non-firm power policy
-  if (!policy.hard_gates.accepts_non_firm_power) {
-    const flexMW = facts['grid_reserved_mw_flex'];
-    if (flexMW?.value != null && Number(flexMW.value) > 0) {
-      hasNoGo = true;
-      reasons.push(`Fund policy does not accept non-firm power, but ${flexMW.value} MW flex found`);
-      gatingCitations.push(...flexMW.citations);
+  // Queue wait
+  if (gates.max_queue_wait_months != null) {
+    const wait = known('grid_queue_wait_months');
+    if (!wait) {
+      unknown('max_queue_wait_months', 'POWER_GRID', ['grid_queue_wait_months'], 'Grid queue wait unknown', gates.max_queue_wait_months);
+    } else {
+      const months = Number(wait.value);
+      const failed = months > gates.max_queue_wait_months;
+      add(
+        {
+          gate: 'max_queue_wait_months',
+          module: 'POWER_GRID',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Grid queue wait ${months} months exceeds maximum ${gates.max_queue_wait_months}`
+            : `Grid queue wait ${months} months within maximum ${gates.max_queue_wait_months}`,
+          fact_codes: ['grid_queue_wait_months'],
+          actual_value: months,
+          required_value: gates.max_queue_wait_months,
+        },
+        wait.citations
+      );
     }
   }
 
-  // Check flex share percentage
-  if (policy.hard_gates.max_flex_share_pct != null) {
-    const firmMW = facts['grid_reserved_mw_firm'];
-    const flexMW = facts['grid_reserved_mw_flex'];
-    if (firmMW?.value != null && flexMW?.value != null) {
-      const firm = Number(firmMW.value);
-      const flex = Number(flexMW.value);
-      const total = firm + flex;
-      if (total > 0) {
-        const flexShare = (flex / total) * 100;
-        if (flexShare > policy.hard_gates.max_flex_share_pct) {
-          hasNoGo = true;
-          reasons.push(
-            `Flex share ${flexShare.toFixed(1)}% exceeds maximum ${policy.hard_gates.max_flex_share_pct}%`
-          );
-          gatingCitations.push(...firmMW.citations, ...flexMW.citations);
-        }
-      }
+  // Deep works
+  if (gates.rejects_deep_works) {
+    const deepWorks = known('grid_deep_works_flag');
+    if (!deepWorks) {
+      unknown('rejects_deep_works', 'POWER_GRID', ['grid_deep_works_flag'], 'Deep works requirement unknown', false);
+    } else {
+      const failed = deepWorks.value === true;
+      add(
+        {
+          gate: 'rejects_deep_works',
+          module: 'POWER_GRID',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed ? 'Deep network reinforcement works required - rejected by fund policy' : 'No deep works required',
+          fact_codes: ['grid_deep_works_flag'],
+          actual_value: deepWorks.value,
+          required_value: false,
+        },
+        deepWorks.citations
+      );
+    }
+  }
+
+  // Energisation timeline
+  if (gates.max_energisation_months != null) {
+    const target = known('grid_energisation_target');
+    const parsed = target ? parseTargetMonth(String(target.value)) : null;
+    if (!parsed) {
+      unknown('max_energisation_months', 'POWER_GRID', ['grid_energisation_target'], 'Energisation target unknown or not a date', gates.max_energisation_months);
+    } else {
+      const months = (parsed.year - asOf.getUTCFullYear()) * 12 + (parsed.month - (asOf.getUTCMonth() + 1));
+      const failed = months > gates.max_energisation_months;
+      add(
+        {
+          gate: 'max_energisation_months',
+          module: 'POWER_GRID',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Energisation ${target!.value} is ${months} months out, beyond maximum ${gates.max_energisation_months}`
+            : `Energisation ${target!.value} within ${gates.max_energisation_months} months`,
+          fact_codes: ['grid_energisation_target'],
+          actual_value: months,
+          required_value: gates.max_energisation_months,
+        },
+        target!.citations
+      );
+    }
+  }
+
+  // Building permit
+  if (gates.requires_building_permit) {
+    const permit = known('building_permit_status');
+    if (!permit) {
+      unknown('requires_building_permit', 'PERMITS_LAND', ['building_permit_status'], 'Building permit status unknown', 'granted');
+    } else {
+      const failed = !GRANTED_PERMIT_PATTERN.test(String(permit.value));
+      add(
+        {
+          gate: 'requires_building_permit',
+          module: 'PERMITS_LAND',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Fund requires a granted building permit, but status is "${permit.value}"`
+            : 'Building permit granted',
+          fact_codes: ['building_permit_status'],
+          actual_value: String(permit.value),
+          required_value: 'granted',
+        },
+        permit.citations
+      );
+    }
+  }
+
+  // Anchor customer
+  const minAnchorStage = Math.max(gates.min_anchor_customer_stage ?? 0, gates.requires_anchor_customer ? 2 : 0);
+  if (minAnchorStage > 0) {
+    const anchor = known('anchor_customer_stage_0_4');
+    if (!anchor) {
+      unknown('min_anchor_customer_stage', 'COMMERCIAL', ['anchor_customer_stage_0_4'], 'Fund requires anchor customer but no LOI/contract evidenced', minAnchorStage);
+    } else {
+      const stage = Number(anchor.value);
+      const failed = stage < minAnchorStage;
+      add(
+        {
+          gate: 'min_anchor_customer_stage',
+          module: 'COMMERCIAL',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Anchor customer stage ${stage} below required ${minAnchorStage} (${minAnchorStage >= 3 ? 'signed contract' : 'LOI'})`
+            : `Anchor customer stage ${stage} meets required ${minAnchorStage}`,
+          fact_codes: ['anchor_customer_stage_0_4'],
+          actual_value: stage,
+          required_value: minAnchorStage,
+        },
+        anchor.citations
+      );
+    }
+  }
+
+  // Pre-let share of IT capacity (falls back to grid import when IT capacity is not stated)
+  if (gates.min_prelet_pct != null) {
+    const prelet = known('prelet_mw');
+    const capacity = known('it_capacity_mw') ?? known('grid_target_import_mw');
+    if (!prelet || !capacity || Number(capacity.value) <= 0) {
+      unknown('min_prelet_pct', 'COMMERCIAL', ['prelet_mw', 'it_capacity_mw'], 'Pre-let share unknown - pre-let MW or capacity not evidenced', gates.min_prelet_pct);
+    } else {
+      const share = (Number(prelet.value) / Number(capacity.value)) * 100;
+      const failed = share < gates.min_prelet_pct;
+      add(
+        {
+          gate: 'min_prelet_pct',
+          module: 'COMMERCIAL',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Pre-let ${share.toFixed(0)}% below minimum ${gates.min_prelet_pct}%`
+            : `Pre-let ${share.toFixed(0)}% meets minimum ${gates.min_prelet_pct}%`,
+          fact_codes: ['prelet_mw', 'it_capacity_mw'],
+          actual_value: Math.round(share * 10) / 10,
+          required_value: gates.min_prelet_pct,
+        },
+        [...prelet.citations, ...capacity.citations]
+      );
+    }
+  }
+
+  // Design tier
+  if (gates.min_tier_level != null) {
+    const tierFact = known('design_tier_rating');
+    const tier = tierFact ? parseTierLevel(tierFact.value as string | number) : null;
+    if (tier == null) {
+      unknown('min_tier_level', 'TECH_BUILD', ['design_tier_rating'], 'Design tier unknown', gates.min_tier_level);
+    } else {
+      const failed = tier < gates.min_tier_level;
+      add(
+        {
+          gate: 'min_tier_level',
+          module: 'TECH_BUILD',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? `Design tier ${tier} below minimum tier ${gates.min_tier_level}`
+            : `Design tier ${tier} meets minimum tier ${gates.min_tier_level}`,
+          fact_codes: ['design_tier_rating'],
+          actual_value: tier,
+          required_value: gates.min_tier_level,
+        },
+        tierFact!.citations
+      );
+    }
+  }
+
+  // Design PUE
+  if (gates.max_pue != null) {
+    const pue = known('design_pue_target');
+    if (!pue) {
+      unknown('max_pue', 'TECH_BUILD', ['design_pue_target'], 'Design PUE unknown', gates.max_pue);
+    } else {
+      const value = Number(pue.value);
+      const failed = value > gates.max_pue;
+      add(
+        {
+          gate: 'max_pue',
+          module: 'TECH_BUILD',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed ? `Design PUE ${value} exceeds maximum ${gates.max_pue}` : `Design PUE ${value} within maximum ${gates.max_pue}`,
+          fact_codes: ['design_pue_target'],
+          actual_value: value,
+          required_value: gates.max_pue,
+        },
+        pue.citations
+      );
+    }
+  }
+
+  // Heat reuse plan
+  if (gates.requires_heat_reuse_plan) {
+    const plan = known('heat_reuse_plan_confirmed');
+    if (!plan) {
+      unknown('requires_heat_reuse_plan', 'ESG_REGULATORY', ['heat_reuse_plan_confirmed'], 'Heat reuse plan not evidenced', true);
+    } else {
+      const failed = plan.value !== true;
+      add(
+        {
+          gate: 'requires_heat_reuse_plan',
+          module: 'ESG_REGULATORY',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed ? 'Fund requires a heat reuse plan, but none is in place' : 'Heat reuse plan confirmed',
+          fact_codes: ['heat_reuse_plan_confirmed'],
+          actual_value: plan.value,
+          required_value: true,
+        },
+        plan.citations
+      );
     }
   }
 
-  // Check anchor customer requirement
-  if (policy.hard_gates.requires_anchor_customer) {
-    const anchorFact = facts['anchor_customer_stage_0_4'];
-    if (anchorFact?.value == null || Number(anchorFact.value) < 2) {
-      hasNoGo = true;
-      reasons.push('Fund requires anchor customer but no LOI/contract evidenced');
+  // Renewable share
+  const minRenewable = gates.min_renewable_pct ?? 0;
+  if (gates.requires_renewable_commitment || minRenewable > 0) {
+    const renewable = known('renewable_energy_share_pct');
+    if (!renewable) {
+      unknown('min_renewable_pct', 'ESG_REGULATORY', ['renewable_energy_share_pct'], 'Renewable energy share unknown', minRenewable);
+    } else {
+      const share = Number(renewable.value);
+      const failed = share < minRenewable || (gates.requires_renewable_commitment && share <= 0);
+      add(
+        {
+          gate: 'min_renewable_pct',
+          module: 'ESG_REGULATORY',
+          status: failed ? 'FAIL' : 'PASS',
+          reason: failed
+            ? minRenewable > 0
+              ? `Renewable share ${share}% below minimum ${minRenewable}%`
+              : 'Fund requires a renewable energy commitment, but none is evidenced'
+            : `Renewable share ${share}% meets minimum ${minRenewable}%`,
+          fact_codes: ['renewable_energy_share_pct'],
+          actual_value: share,
+          required_value: minRenewable,
+        },
+        renewable.citations
+      );
     }
   }
 
-  // Check next milestone/expiry
-  const nextMilestone = facts['grid_next_milestone_or_expiry_date'];
-  if (nextMilestone?.value == null) {
-    hasHold = true;
-    reasons.push('Next grid milestone/expiry unknown - timeline risk unclear');
+  // Next milestone/expiry (always assessed - timeline risk)
+  const nextMilestone = known('grid_next_milestone_or_expiry_date');
+  if (nextMilestone) {
+    add(
+      {
+        gate: 'grid_next_milestone_known',
+        module: 'POWER_GRID',
+        status: 'PASS',
+        reason: `Next grid milestone/expiry ${nextMilestone.value}`,
+        fact_codes: ['grid_next_milestone_or_expiry_date'],
+        actual_value: nextMilestone.value,
+        required_value: null,
+      },
+      nextMilestone.citations
+    );
+  } else {
+    unknown('grid_next_milestone_known', 'POWER_GRID', ['grid_next_milestone_or_expiry_date'], 'Next grid milestone/expiry unknown - timeline risk unclear', null);
   }
 
-  // Determine decision
+  return checks;
+}
+
+/**
+ * Evaluate hard gates based on fund policy and extracted facts
+ */
+export function evaluateHardGates(
+  facts: Record<string, FactValue>,
+  policy: FundPolicySnapshot,
+  asOf: Date = new Date()
+): HardGateResult {
+  const checks = [
+    ...evaluateGateChecks(facts, policy, asOf),
+    ...evaluateCustomRules(facts, policy).filter((r) => r.action === 'reject').map(toRuleGateCheck),
+  ];
+  const failed = checks.filter((c) => c.status === 'FAIL');
+  const unknown = checks.filter((c) => c.status === 'UNKNOWN');
+
+  const reasons = checks.filter((c) => c.status !== 'PASS').map((c) => c.reason);
   let decision: 'GO' | 'HOLD' | 'NO_GO';
-  if (hasNoGo) {
+  if (failed.length > 0) {
     decision = 'NO_GO';
-  } else if (hasHold) {
+  } else if (unknown.length > 0) {
     decision = 'HOLD';
   } else {
     decision = 'GO';
-    if (reasons.length === 0) {
-      reasons.push('All hard gates passed with evidence');
-    }
+    reasons.push('All hard gates passed with evidence');
   }
 
   return {
     decision,
     reasons,
-    gating_citations: [...new Set(gatingCitations)],
+    gating_citations: [...new Set(failed.flatMap((c) => c.citations))],
+    gate_checks: checks,
   };
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// CUSTOM RULES
+// ════════════════════════════════════════════════════════════════════════════
+
+const RULE_ACTION_VERBS: Record<CustomRuleResult['action'], string> = {
+  reject: 'rejects deal',
+  flag: 'flagged',
+  bonus: 'adds bonus',
+  penalty: 'applies penalty',
+};
+
+/**
+ * Evaluate the fund's custom rules against v1 facts.
+ * A rule whose condition depends on a fact with no value is UNKNOWN. Reject rules,
+ * like the built-in gates, and bonus rules, like the policy bonuses, read a fact
+ * only when its cited snippets state it and it meets the policy's evidence tier, so
+ * a weak input holds the deal rather than rejecting it. Penalty and flag rules read
+ * every extracted value, as the policy penalties do.
+ */
+export function evaluateCustomRules(
+  facts: Record<string, FactValue>,
+  policy: FundPolicySnapshot
+): CustomRuleResult[] {
+  const weak = (code: string) =>
+    isUnconfirmed(facts[code]) || evidenceTierShortfall(code, facts[code], policy.hard_gates) != null;
+  const confirmedFacts = Object.fromEntries(
+    Object.entries(facts).map(([code, fact]) => [code, weak(code) ? { ...fact, value: null } : fact])
+  );
+
+  return (policy.custom_rules ?? []).map((rule) => {
+    const base = { name: rule.name, action: rule.action, condition: rule.condition };
+
+    let evaluation;
+    try {
+      const confirmedOnly = rule.action === 'reject' || rule.action === 'bonus';
+      evaluation = evaluateRuleCondition(parseRuleCondition(rule.condition), confirmedOnly ? confirmedFacts : facts);
+    } catch (err) {
+      if (!(err instanceof RuleSyntaxError)) throw err;
+      // Snapshots are validated at save time; this only guards hand-edited stored policies
+      return {
+        ...base,
+        status: 'UNKNOWN' as const,
+        points: null,
+        reason: `Custom rule "${rule.name}" has an invalid condition: ${err.message}`,
+        fact_codes: [],
+        citations: [],
+      };
+    }
+
+    const { value, fact_codes, missing_fact_codes, citations } = evaluation;
+    if (value == null) {
+      const unverified = missing_fact_codes.filter((code) => facts[code]?.value != null);
+      return {
+        ...base,
+        status: 'UNKNOWN' as const,
+        points: null,
+        reason:
+          `Custom rule "${rule.name}" cannot be assessed - missing ${missing_fact_codes.join(', ')}` +
+          (unverified.length > 0 ? ` (${unverified.join(', ')} not confirmed at the policy's evidence tier)` : ''),
+        fact_codes,
+        citations,
+      };
+    }
+
+    const points =
+      value && rule.value != null && (rule.action === 'bonus' || rule.action === 'penalty')
+        ? rule.action === 'bonus' ? rule.value : -rule.value
+        : null;
+
+    return {
+      ...base,
+      status: value ? ('TRIGGERED' as const) : ('NOT_TRIGGERED' as const),
+      points,
+      reason: value
+        ? `Custom rule "${rule.name}" ${RULE_ACTION_VERBS[rule.action]}${points != null ? ` (${points > 0 ? '+' : ''}${points})` : ''}: ${rule.condition}`
+        : `Custom rule "${rule.name}" not triggered`,
+      fact_codes,
+      citations,
+    };
+  });
+}
+
+/**
+ * Present a reject rule as a hard gate check (triggered = FAIL)
+ */
+function toRuleGateCheck(result: CustomRuleResult): GateCheck {
+  const firstFact = result.fact_codes.map((code) => getFactByCode(code)).find(Boolean);
+  return {
+    gate: `custom_rule:${result.name}`,
+    module: firstFact?.module ?? 'POWER_GRID',
+    status: result.status === 'TRIGGERED' ? 'FAIL' : result.status === 'UNKNOWN' ? 'UNKNOWN' : 'PASS',
+    reason: result.reason,
+    fact_codes: result.fact_codes,
+    actual_value: result.status === 'UNKNOWN' ? null : result.status === 'TRIGGERED',
+    required_value: false,
+    citations: result.citations,
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SCORE ADJUSTMENTS
+// ════════════════════════════════════════════════════════════════════════════
+
+const HIGH_QUEUE_WAIT_MONTHS = 18;
+
+/**
+ * Build the itemised bonus/penalty ledger for a deal.
+ * Adjustments only fire on evidenced facts; missing evidence is penalised once,
+ * through missing_critical_evidence_penalty, rather than per fact. Bonuses also need
+ * their facts confirmed by the cited snippets and at the policy's evidence tier.
+ */
+export function calculateScoreAdjustments(
+  facts: Record<string, FactValue>,
+  policy: FundPolicySnapshot,
+  context: { hardGateResult: HardGateResult; contradictions?: Contradiction[]; customRules?: CustomRuleResult[] }
+): ScoreAdjustment[] {
+  const adjustments: ScoreAdjustment[] = [];
+  const points = policy.scoring_adjustments;
+
+  const known = (code: string): FactValue | null => (facts[code]?.value != null ? facts[code] : null);
+  const confirmed = (code: string): FactValue | null =>
+    known(code) && !isUnconfirmed(facts[code]) && !evidenceTierShortfall(code, facts[code], policy.hard_gates)
+      ? facts[code]
+      : null;
+  const numberOf = (fact: FactValue | null) => (fact ? Number(fact.value) : null);
+  const add = (name: keyof NonNullable<typeof points>, sign: 1 | -1, reason: string, citations: string[]) => {
+    if (!points || !points[name]) return;
+    adjustments.push({ name, source: 'POLICY', points: sign * points[name], reason, citations: [...new Set(citations)] });
+  };
+
+  // Power firmness
+  const firm = confirmed('grid_reserved_mw_firm');
+  const flex = known('grid_reserved_mw_flex');
+  const target = confirmed('grid_target_import_mw');
+  const interruptible = known('grid_interruptible_flag');
+  const flexMw = numberOf(flex) ?? 0;
+  if (flexMw > 0 || interruptible?.value === true) {
+    add(
+      'penalty_non_firm_power',
+      -1,
+      flexMw > 0 ? `${flexMw} MW of the reservation is flexible` : 'Grid connection is interruptible',
+      [...(flexMw > 0 ? flex!.citations : []), ...(interruptible?.value === true ? interruptible.citations : [])]
+    );
+  } else if (firm && target && numberOf(firm)! >= numberOf(target)!) {
+    add('bonus_firm_power', 1, `Firm reservation ${firm.value} MW covers target import ${target.value} MW`, [
+      ...firm.citations,
+      ...target.citations,
+    ]);
+  }
+
+  const deepWorks = known('grid_deep_works_flag');
+  if (deepWorks?.value === true) {
+    add('penalty_deep_works_required', -1, 'Deep reinforcement works required before connection', deepWorks.citations);
+  }
+
+  const queueWait = known('grid_queue_wait_months');
+  if (queueWait && numberOf(queueWait)! > HIGH_QUEUE_WAIT_MONTHS) {
+    add(
+      'penalty_queue_position_high',
+      -1,
+      `Queue wait ${queueWait.value} months exceeds ${HIGH_QUEUE_WAIT_MONTHS}`,
+      queueWait.citations
+    );
+  }
+
+  // Permits
+  const planning = known('planning_permission_level_0_5');
+  const buildingPermit = confirmed('building_permit_status');
+  if (planning && numberOf(planning) === 3) {
+    add('penalty_permit_appeal_risk', -1, 'Planning permission granted but still within the appeal window', planning.citations);
+  } else if (confirmed('planning_permission_level_0_5') && numberOf(planning)! >= 4 && buildingPermit && GRANTED_PERMIT_PATTERN.test(String(buildingPermit.value))) {
+    add('bonus_all_permits_granted', 1, 'Planning permission final and building permit granted', [
+      ...planning.citations,
+      ...buildingPermit.citations,
+    ]);
+  }
+
+  // Commercial traction
+  const anchor = known('anchor_customer_stage_0_4');
+  if (confirmed('anchor_customer_stage_0_4') && numberOf(anchor)! >= 3) {
+    add('bonus_anchor_tenant_signed', 1, `Anchor customer contract signed (stage ${anchor.value})`, anchor.citations);
+  } else if (anchor && numberOf(anchor) === 0) {
+    add('penalty_no_customer_traction', -1, 'No anchor customer traction evidenced', anchor.citations);
+  }
+
+  // ESG
+  const renewable = confirmed('renewable_energy_share_pct');
+  if (renewable && numberOf(renewable)! >= 100) {
+    add('bonus_renewable_100', 1, 'Power supply is 100% renewable', renewable.citations);
+  }
+  const heatPlan = confirmed('heat_reuse_plan_confirmed');
+  if (heatPlan?.value === true) {
+    add('bonus_heat_reuse_plan', 1, 'Heat reuse plan confirmed', heatPlan.citations);
+  }
+
+  // Red flags
+  const serious = (context.contradictions ?? []).filter((c) => c.severity === 'HIGH' || c.severity === 'CRITICAL');
+  if (serious.length > 0) {
+    add(
+      'contradiction_penalty',
+      -1,
+      `${serious.length} high-severity contradiction(s): ${serious.map((c) => c.fact_code).join(', ')}`,
+      serious.flatMap((c) => c.conflicting_candidates.flatMap((candidate) => candidate.citations))
+    );
+  }
+
+  const unevidenced = (context.hardGateResult.gate_checks ?? []).filter(
+    (c) => c.status === 'UNKNOWN' && !c.gate.startsWith('custom_rule:')
+  );
+  if (unevidenced.length > 0) {
+    add(
+      'missing_critical_evidence_penalty',
+      -1,
+      `Hard gate evidence missing for ${unevidenced.map((c) => c.gate).join(', ')}`,
+      []
+    );
+  }
+
+  // Fund custom rules
+  for (const rule of context.customRules ?? []) {
+    if (rule.points == null) continue;
+    adjustments.push({ name: rule.name, source: 'CUSTOM_RULE', points: rule.points, reason: rule.reason, citations: rule.citations });
+  }
+
+  return adjustments;
+}
+
 // ════════════════════════════════════════════════════════════════════════════
 // MODULE SCORING
 // ════════════════════════════════════════════════════════════════════════════
@@ -170,11 +885,13 @@ interface ModuleScoringResult {
 }
 
 /**
- * Score a single module based on its facts
+ * Score a single module based on its facts. A cited fact below the policy's
+ * minimum evidence tier, or not stated in its snippets, counts as partial.
  */
 function scoreModule(
   module: DDModuleV1,
-  facts: Record<string, FactValue>
+  facts: Record<string, FactValue>,
+  gates: Partial<HardGates> = {}
 ): ModuleScoringResult {
   const moduleFacts = getFactsByModule(module);
   const citations: string[] = [];
@@ -190,7 +907,12 @@ function scoreModule(
     const weight = factDef.hard_gate ? 2 : 1; // Hard gate facts count double
     totalWeight += weight;
 
-    if (fact?.value != null && fact.citations.length > 0) {
+    if (
+      fact?.value != null &&
+      fact.citations.length > 0 &&
+      !evidenceTierShortfall(factDef.code, fact, gates) &&
+      !isUnconfirmed(fact)
+    ) {
       verifiedCount++;
       weightedScore += weight * 100;
       citations.push(...fact.citations);
@@ -231,12 +953,13 @@ function scoreModule(
  * Generate module scorecard for all v1 modules
  */
 export function generateModuleScorecard(
-  facts: Record<string, FactValue>
+  facts: Record<string, FactValue>,
+  policy?: FundPolicySnapshot
 ): ModuleScorecardEntry[] {
-  const modules: DDModuleV1[] = ['POWER_GRID', 'PERMITS_LAND', 'COMMERCIAL', 'CONNECTIVITY'];
+  const modules: DDModuleV1[] = DDModuleV1Schema.options;
 
   return modules.map((mod) => {
-    const result = scoreModule(mod, facts);
+    const result = scoreModule(mod, facts, policy?.hard_gates);
     return {
       module: mod,
       status: result.status,
@@ -252,7 +975,8 @@ export function generateModuleScorecard(
  */
 export function calculateOverallScore(
   moduleScores: ModuleScorecardEntry[],
-  policy: FundPolicySnapshot
+  policy: FundPolicySnapshot,
+  adjustments: ScoreAdjustment[] = []
 ): OverallScore {
   let totalWeight = 0;
   let weightedScore = 0;
@@ -268,7 +992,9 @@ export function calculateOverallScore(
     if (entry.status === 'UNKNOWN') unknownCount++;
   }
 
-  const score = totalWeight > 0 ? Math.round(weightedScore / totalWeight) : 0;
+  const adjustmentPoints = adjustments.reduce((sum, a) => sum + a.points, 0);
+  const baseScore = totalWeight > 0 ? Math.round(weightedScore / totalWeight) : 0;
+  const score = Math.min(100, Math.max(0, baseScore + adjustmentPoints));
 
   let status: 'VERIFIED' | 'PARTIAL' | 'UNKNOWN';
   if (unknownCount >= moduleScores.length / 2) {
@@ -279,12 +1005,17 @@ export function calculateOverallScore(
     status = 'PARTIAL';
   }
 
-  const summary = generateExecutiveSummary(moduleScores, score, status);
+  let summary = generateExecutiveSummary(moduleScores, score, status);
+  if (adjustmentPoints !== 0) {
+    summary += ` Bonuses and penalties moved the score from ${baseScore} by ${adjustmentPoints > 0 ? '+' : ''}${adjustmentPoints} points.`;
+  }
 
   return {
     status,
     score_0_100: score,
     executive_summary: summary,
+    base_score_0_100: baseScore,
+    adjustments,
   };
 }
 
@@ -462,17 +1193,24 @@ export function calculateEnergisation(
 // ════════════════════════════════════════════════════════════════════════════
 
 /**
- * Extract underwriting tape from facts
+ * Extract underwriting tape from facts. A value its cited snippets do not state,
+ * or evidenced below the policy's tier, is PARTIAL like an uncited one.
  */
 export function extractUnderwritingTape(
-  facts: Record<string, FactValue>
+  facts: Record<string, FactValue>,
+  gates: Partial<HardGates> = {}
 ): UnderwritingTapeVariable[] {
   return UNDERWRITING_TAPE_VARIABLES.map((variableCode) => {
     const fact = facts[variableCode];
     const factDef = getFactByCode(variableCode);
 
     let status: 'VERIFIED' | 'PARTIAL' | 'UNKNOWN';
-    if (fact?.value != null && fact.citations.length > 0) {
+    if (
+      fact?.value != null &&
+      fact.citations.length > 0 &&
+      !isUnconfirmed(fact) &&
+      !evidenceTierShortfall(variableCode, fact, gates)
+    ) {
       status = 'VERIFIED';
     } else if (fact?.value != null) {
       status = 'PARTIAL';
@@ -499,16 +1237,30 @@ export function extractUnderwritingTape(
  */
 export function generateChecklist(
   facts: Record<string, FactValue>,
-  hardGateResult: HardGateResult
+  hardGateResult: HardGateResult,
+  customRules: CustomRuleResult[] = []
 ): ChecklistItem[] {
   const items: ChecklistItem[] = [];
 
-  // Add items for hard gate failures
-  if (hardGateResult.decision !== 'GO') {
+  // Add items for hard gate failures (FAIL is critical, UNKNOWN needs evidence)
+  if (hardGateResult.gate_checks) {
+    for (const check of hardGateResult.gate_checks) {
+      if (check.status === 'PASS') continue;
+      items.push({
+        priority: check.status === 'FAIL' ? 'CRITICAL' : 'HIGH',
+        module: check.module,
+        question: `Resolve: ${check.reason}`,
+        why: check.status === 'FAIL' ? 'Hard gate not met' : 'Hard gate cannot be assessed without evidence',
+        requested_artifact_types: [...new Set(check.fact_codes.flatMap(getExpectedArtifactsForFact))],
+        gating: true,
+        citations: check.citations,
+      });
+    }
+  } else if (hardGateResult.decision !== 'GO') {
     for (const reason of hardGateResult.reasons) {
       items.push({
         priority: hardGateResult.decision === 'NO_GO' ? 'CRITICAL' : 'HIGH',
-        module: 'POWER_GRID', // Default, should be derived from reason
+        module: 'POWER_GRID', // Runs scored before per-gate checks carry no module
         question: `Resolve: ${reason}`,
         why: 'Hard gate not met',
         requested_artifact_types: [],
@@ -518,8 +1270,9 @@ export function generateChecklist(
     }
   }
 
-  // Add items for missing facts
-  const modules: DDModuleV1[] = ['POWER_GRID', 'PERMITS_LAND', 'COMMERCIAL', 'CONNECTIVITY'];
+  // Add items for missing facts; unconfirmed values a gate item already covers are skipped
+  const modules: DDModuleV1[] = DDModuleV1Schema.options;
+  const gated = new Set((hardGateResult.gate_checks ?? []).filter((c) => c.status !== 'PASS').flatMap((c) => c.fact_codes));
 
   for (const mod of modules) {
     const moduleFacts = getFactsByModule(mod);
@@ -547,10 +1300,49 @@ export function generateChecklist(
           gating: false,
           citations: [],
         });
+      } else if (isUnconfirmed(fact) && !gated.has(factDef.code)) {
+        items.push({
+          priority: factDef.hard_gate ? 'HIGH' : 'MEDIUM',
+          module: mod,
+          question: `Provide a citation that states the value for: ${factDef.label}`,
+          why: `Cited snippets do not state ${fact.value} (citation mismatch)`,
+          requested_artifact_types: factDef.expected_artifacts,
+          gating: false,
+          citations: fact.citations,
+        });
       }
     }
   }
 
+  // Flag rules ask for analyst review rather than gating the deal
+  for (const rule of customRules) {
+    if (rule.action !== 'flag' || rule.status !== 'TRIGGERED') continue;
+    const firstFact = rule.fact_codes.map((code) => getFactByCode(code)).find(Boolean);
+    items.push({
+      priority: 'HIGH',
+      module: firstFact?.module ?? 'POWER_GRID',
+      question: `Review: ${rule.reason}`,
+      why: 'Flagged by a fund custom rule',
+      requested_artifact_types: [...new Set(rule.fact_codes.flatMap(getExpectedArtifactsForFact))],
+      gating: false,
+      citations: rule.citations,
+    });
+  }
+
+  // A heat reuse obligation needs a secured offtaker, not just the requirement
+  const heatReuse = facts['heat_reuse_obligation'];
+  if (heatReuse?.value === true) {
+    items.push({
+      priority: 'HIGH',
+      module: 'ESG_REGULATORY',
+      question: 'Provide heat offtake agreement covering the heat reuse obligation',
+      why: 'Heat reuse is mandated; without an offtaker the obligation is an unpriced liability',
+      requested_artifact_types: ['HEAT_OFFTAKE_AGREEMENT'],
+      gating: false,
+      citations: heatReuse.citations,
+    });
+  }
+
   // Sort by priority
   const priorityOrder: Record<string, number> = {
     CRITICAL: 0,
@@ -575,6 +1367,16 @@ export interface ScoringResult {
   energisation: Energisation;
   underwritingTape: UnderwritingTapeVariable[];
   checklist: ChecklistItem[];
+  customRules: CustomRuleResult[];
+  countryOverrides: CountryOverride[];
+}
+
+export interface ScoringOptions {
+  contradictions?: Contradiction[];
+  /** Deal's country pack; null/absent scores against the fund policy alone */
+  country?: CountryScoringContext | null;
+  /** Time the timeline gates count from; a re-score passes its parent run's createdAt */
+  asOf?: Date;
 }
 
 /**
@@ -582,16 +1384,24 @@ export interface ScoringResult {
  */
 export function runScoringPipeline(
   facts: Record<string, FactValue>,
-  policy?: FundPolicySnapshot
+  policy?: FundPolicySnapshot,
+  { contradictions = [], country = null, asOf = new Date() }: ScoringOptions = {}
 ): ScoringResult {
-  const effectivePolicy = policy ?? createDefaultFundPolicy();
-
-  const hardGateResult = evaluateHardGates(facts, effectivePolicy);
-  const moduleScorecard = generateModuleScorecard(facts);
-  const overallScore = calculateOverallScore(moduleScorecard, effectivePolicy);
+  const fundPolicy = policy ?? createDefaultFundPolicy();
+  const { policy: effectivePolicy, fired: policyOverrides } = country
+    ? applyCountryOverrides(fundPolicy, country)
+    : { policy: fundPolicy, fired: [] };
+
+  const customRules = evaluateCustomRules(facts, effectivePolicy);
+  const hardGateResult = evaluateHardGates(facts, effectivePolicy, asOf);
+  const moduleScorecard = generateModuleScorecard(facts, effectivePolicy);
+  const adjustments = calculateScoreAdjustments(facts, effectivePolicy, { hardGateResult, contradictions, customRules });
+  const overallScore = calculateOverallScore(moduleScorecard, effectivePolicy, adjustments);
   const energisation = calculateEnergisation(facts);
-  const underwritingTape = extractUnderwritingTape(facts);
-  const checklist = generateChecklist(facts, hardGateResult);
+  const underwritingTape = extractUnderwritingTape(facts, effectivePolicy.hard_gates);
+  const { checklist, fired: evidenceOverrides } = country
+    ? applyGridTitleEvidence(generateChecklist(facts, hardGateResult, customRules), hardGateResult, country)
+    : { checklist: generateChecklist(facts, hardGateResult, customRules), fired: [] };
 
   return {
     hardGateResult,
@@ -600,5 +1410,7 @@ export function runScoringPipeline(
     energisation,
     underwritingTape,
     checklist,
+    customRules,
+    countryOverrides: [...policyOverrides, ...evidenceOverrides],
   };
 }
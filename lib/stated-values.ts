@@ -0,0 +1,285 @@
+/**
+ * Stated values - Reads numbers with their unit and dates from dataroom text
+ *
+ * Numbers are read with the unit written next to them (MW, kV, months, percent,
+ * EUR millions, PUE) and converted to the catalog unit, so '40.000 kW' reads as
+ * 40 MW and '5 Jahre' as 60 months. Dates are read as the periods they cover, from
+ * '31.03.2027' to 'März 2027' or '4. Quartal 2028'. English, German, French,
+ * Spanish, Italian and Dutch formats are supported. The contradiction detector
+ * and the citation verifier both read snippets through this module, so a fact's
+ * candidates and its citation check agree. Client-safe: no database access.
+ */
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface StatedValue<T> {
+  value: T;
+  /** As written in the text */
+  text: string;
+}
+
+/** [start, end] day keys (yyyymmdd) */
+export type Period = [number, number];
+
+// ════════════════════════════════════════════════════════════════════════════
+// CONFIGURATION
+// ════════════════════════════════════════════════════════════════════════════
+
+// A number as written: 1,234.5 · 1.234,5 · 1 234,5 · 1'234
+const NUMBER = /\d{1,3}(?:[ \u00a0\u202f'’]\d{3})+(?:[.,]\d+)?|\d+(?:[.,]\d+)*/g;
+
+/**
+ * Unit words after a number, with the factor to the catalog unit
+ */
+const UNIT_SUFFIXES: Record<string, { pattern: RegExp; factor: number }[]> = {
+  MW: [
+    { pattern: /^\s?(?:MWe?|mégawatts?|megawatts?|megavatios?)\b/i, factor: 1 },
+    { pattern: /^\s?(?:kWe?|kilowatts?|kilovatios?)\b/i, factor: 0.001 },
+    { pattern: /^\s?(?:GWe?|gigawatts?|gigavatios?)\b/i, factor: 1000 },
+  ],
+  kV: [{ pattern: /^\s?(?:kV|kilovolts?|kilovoltios?)\b/i, factor: 1 }],
+  months: [
+    { pattern: /^\s?(?:months?|monate?n?|mois|mes(?:es)?|mesi|maanden|maand)\b/i, factor: 1 },
+    { pattern: /^\s?(?:years?|jahre?n?|ans|années?|años?|anni|jaren|jaar)\b/i, factor: 12 },
+  ],
+  '%': [{ pattern: /^\s?(?:%|percent\b|per ?cent\b|prozent\b|pour ?cent\b|por ?ciento\b|per ?cento\b|procent\b)/i, factor: 1 }],
+};
+
+// The figures before the unit in '110/20 kV', which share it
+const SLASH_CHAIN = /^(?:\s?\/\s?\d+(?:[.,]\d+)?)+/;
+// The block count in '2x60 MW' or '2 × 60 MW'
+const BLOCK_COUNT = /(\d{1,2})\s?[x×]\s?$/i;
+
+const EURO_BEFORE = /(?:€|EUR)\s?$/i;
+const EURO_AFTER = /^\s?(?:€|EUR\b|euros?\b|d'euros\b|de euros\b|di euro\b)/i;
+const MILLIONS = /^\s?(?:mn|mio\.?|millions?|millones|milioni|miljoen|m)(?![a-zà-ÿ])/i;
+const BILLIONS = /^\s?(?:bn|billions?|mrd\.?|milliards?|miliardi|miljard|mil millones)(?![a-zà-ÿ])/i;
+const PUE_BEFORE = /PUE\D{0,20}$/i;
+const PUE_AFTER = /^\s?PUE\b/i;
+
+/**
+ * Month names and common abbreviations in the six supported languages
+ */
+const MONTH_NAMES: Record<string, number> = {
+  // English
+  january: 1, february: 2, march: 3, april: 4, may: 5, june: 6, july: 7, august: 8, september: 9, october: 10, november: 11, december: 12,
+  jan: 1, feb: 2, mar: 3, apr: 4, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+  // German
+  januar: 1, jänner: 1, februar: 2, märz: 3, maerz: 3, mai: 5, juni: 6, juli: 7, oktober: 10, dezember: 12, okt: 10, dez: 12,
+  // French
+  janvier: 1, février: 2, fevrier: 2, mars: 3, avril: 4, juin: 6, juillet: 7, août: 8, aout: 8, septembre: 9, octobre: 10,
+  novembre: 11, décembre: 12, decembre: 12, janv: 1, févr: 2, avr: 4, juil: 7,
+  // Spanish
+  enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6, julio: 7, agosto: 8, septiembre: 9, setiembre: 9, octubre: 10,
+  noviembre: 11, diciembre: 12,
+  // Italian
+  gennaio: 1, febbraio: 2, aprile: 4, maggio: 5, giugno: 6, luglio: 7, settembre: 9, ottobre: 10, dicembre: 12,
+  // Dutch
+  januari: 1, februari: 2, maart: 3, mei: 5, augustus: 8, mrt: 3,
+};
+
+const MONTH = `(${Object.keys(MONTH_NAMES)
+  .sort((a, b) => b.length - a.length)
+  .join('|')})`;
+const ORDINAL = `(?:\\.|er|e|ème|º|°|st|nd|rd|th)?`;
+const OF = `(?:\\s+(?:de|del|of))?`;
+
+// ════════════════════════════════════════════════════════════════════════════
+// READING VALUES
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse '1,234.5', '1.234,5' or '48,5' as a number
+ */
+export function parseNumber(raw: string): number | null {
+  let text = raw.trim().replace(/[.,]$/, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    text = text.replace(decimal === ',' ? /\./g : /,/g, '').replace(',', '.');
+  } else if (lastComma >= 0) {
+    // A single comma before exactly three digits groups thousands
+    text = /^\d{1,3}(,\d{3})+$/.test(text) ? text.replace(/,/g, '') : text.replace(',', '.');
+  }
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Every number a written figure can mean: '1.234' is 1.234 in English and 1234 in
+ * German, '1,234' the other way round
+ */
+function numberReadings(raw: string): number[] {
+  const text = raw.replace(/[ \u00a0\u202f'’]/g, '');
+  const readings = [parseNumber(text)];
+  if (/^\d{1,3}(\.\d{3})+$/.test(text)) readings.push(Number(text.replace(/\./g, '')));
+  if (/^\d{1,3},\d{3}$/.test(text)) readings.push(Number(text.replace(',', '.')));
+  return Array.from(new Set(readings.filter((n): n is number => n != null)));
+}
+
+/**
+ * Factor from a written figure to EUR millions, or null when no euro amount
+ */
+function euroFactor(before: string, after: string): number | null {
+  const millions = MILLIONS.exec(after);
+  const billions = BILLIONS.exec(after);
+  const multiplier = billions ?? millions;
+  const rest = multiplier ? after.slice(multiplier[0].length) : after;
+  if (!EURO_BEFORE.test(before) && !EURO_AFTER.test(rest)) return null;
+  if (billions) return 1000;
+  if (millions) return 1;
+  return 1e-6;
+}
+
+/**
+ * Numbers stated in the catalog unit, converted from the units found next to them.
+ * Each figure of '110/20 kV' is read, and '2x60 MW' reads as 60 MW and 120 MW.
+ */
+export function readStatedNumbers(unit: string, text: string): StatedValue<number>[] {
+  const stated: StatedValue<number>[] = [];
+  for (const match of Array.from(text.matchAll(NUMBER))) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const before = text.slice(Math.max(0, start - 25), start);
+    const after = text.slice(end, end + 40);
+
+    let factor: number | null = null;
+    let suffix = '';
+    if (unit === 'EUR m') {
+      factor = euroFactor(before, after);
+      suffix = (BILLIONS.exec(after) ?? MILLIONS.exec(after))?.[0] ?? '';
+    } else if (unit === 'PUE') {
+      factor = PUE_BEFORE.test(before) || PUE_AFTER.test(after) ? 1 : null;
+    } else {
+      const chain = SLASH_CHAIN.exec(after)?.[0] ?? '';
+      const unitText = after.slice(chain.length);
+      const found = UNIT_SUFFIXES[unit]?.find((s) => s.pattern.test(unitText));
+      factor = found?.factor ?? null;
+      suffix = found ? `${chain}${found.pattern.exec(unitText)![0]}` : '';
+    }
+    if (factor == null) continue;
+
+    const written = `${match[0]}${suffix}`;
+    const blocks = unit in UNIT_SUFFIXES ? BLOCK_COUNT.exec(before) : null;
+    for (const reading of numberReadings(match[0])) {
+      // toPrecision drops float noise from the conversion: 2,100,000 EUR is 2.1, not 2.0999…
+      stated.push({ value: Number((reading * factor).toPrecision(12)), text: written });
+      if (blocks) stated.push({ value: Number((+blocks[1] * reading * factor).toPrecision(12)), text: `${blocks[0]}${written}` });
+    }
+  }
+  return stated;
+}
+
+function dayKey(year: number, month: number, day: number): number {
+  return year * 10000 + month * 100 + day;
+}
+
+function monthPeriod(year: number, first: number, last = first): Period {
+  return [dayKey(year, first, 1), dayKey(year, last, 31)];
+}
+
+function validDay(month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+}
+
+/**
+ * Date patterns, most specific first, each mapping a match to the periods it can mean
+ */
+const DATE_PATTERNS: { pattern: RegExp; periods: (m: RegExpMatchArray) => Period[] }[] = [
+  // 2027-03-31
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, periods: (m) => (validDay(+m[2], +m[3]) ? [[dayKey(+m[1], +m[2], +m[3]), dayKey(+m[1], +m[2], +m[3])]] : []) },
+  // 31.03.2027, 31/03/2027; 03/31/2027 when the day order is unambiguous or both read
+  {
+    pattern: /\b(\d{1,2})[./-](\d{1,2})[./-](\d{4})\b/g,
+    periods: (m) => {
+      const [a, b, year] = [+m[1], +m[2], +m[3]];
+      const periods: Period[] = [];
+      if (validDay(b, a)) periods.push([dayKey(year, b, a), dayKey(year, b, a)]);
+      if (a !== b && validDay(a, b)) periods.push([dayKey(year, a, b), dayKey(year, a, b)]);
+      return periods;
+    },
+  },
+  // 31 March 2027, 31. März 2027, 1er avril 2027, 31 de marzo de 2027
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})${ORDINAL}\\s*${OF}\\s*${MONTH}\\.?${OF}\\s+(\\d{4})\\b`, 'gi'),
+    periods: (m) => {
+      const month = MONTH_NAMES[m[2].toLowerCase()];
+      return validDay(month, +m[1]) ? [[dayKey(+m[3], month, +m[1]), dayKey(+m[3], month, +m[1])]] : [];
+    },
+  },
+  // March 31, 2027
+  {
+    pattern: new RegExp(`\\b${MONTH}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'gi'),
+    periods: (m) => {
+      const month = MONTH_NAMES[m[1].toLowerCase()];
+      return validDay(month, +m[2]) ? [[dayKey(+m[3], month, +m[2]), dayKey(+m[3], month, +m[2])]] : [];
+    },
+  },
+  // 2027-03
+  { pattern: /\b(\d{4})-(\d{2})\b/g, periods: (m) => (+m[2] >= 1 && +m[2] <= 12 ? [monthPeriod(+m[1], +m[2])] : []) },
+  // March 2027, marzo de 2027
+  {
+    pattern: new RegExp(`\\b${MONTH}\\.?${OF}\\s+(\\d{4})\\b`, 'gi'),
+    periods: (m) => [monthPeriod(+m[2], MONTH_NAMES[m[1].toLowerCase()])],
+  },
+  // Q4 2028, 4Q 2028, T4 2028, K4 2028, 4. Quartal 2028, 4e trimestre 2028, 4º trimestre de 2028, 4e kwartaal 2028
+  {
+    pattern: new RegExp(`\\b(?:[qtk]([1-4])|([1-4])q|([1-4])${ORDINAL}\\s*(?:quarter|quartal|trimestre|kwartaal)${OF})[\\s/-]*(\\d{4})\\b`, 'gi'),
+    periods: (m) => {
+      const quarter = +(m[1] || m[2] || m[3]);
+      return [monthPeriod(+m[4], quarter * 3 - 2, quarter * 3)];
+    },
+  },
+  // H1 2027, 1H 2027, S1 2027, 1. Halbjahr 2027, 1er semestre 2027, 1e halfjaar 2027
+  {
+    pattern: new RegExp(`\\b(?:[hs]([12])|([12])h|([12])${ORDINAL}\\s*(?:half|halbjahr|semestre|semester|halfjaar)${OF})[\\s/-]*(\\d{4})\\b`, 'gi'),
+    periods: (m) => {
+      const half = +(m[1] || m[2] || m[3]);
+      return [monthPeriod(+m[4], half * 6 - 5, half * 6)];
+    },
+  },
+  // end of 2028, Ende 2028, fin 2028, fin de 2028, finales de 2028, fine 2028, eind 2028
+  {
+    pattern: /\b(?:end of|ende|fin(?: de)?|finales de|fine|eind(?:e)?)\s+(\d{4})\b/gi,
+    periods: (m) => [monthPeriod(+m[1], 12)],
+  },
+];
+
+const YEAR = /\b((?:19|20)\d{2})\b/g;
+
+/**
+ * Every period a text states. A year alone counts only where it is not part of a
+ * finer date.
+ */
+export function readStatedPeriods(text: string): StatedValue<Period>[] {
+  const stated: StatedValue<Period>[] = [];
+  let rest = text;
+  for (const { pattern, periods } of DATE_PATTERNS) {
+    for (const match of Array.from(rest.matchAll(pattern))) {
+      for (const period of periods(match)) stated.push({ value: period, text: match[0] });
+    }
+    rest = rest.replace(pattern, (found) => ' '.repeat(found.length));
+  }
+  for (const match of Array.from(rest.matchAll(YEAR))) {
+    stated.push({ value: [dayKey(+match[1], 1, 1), dayKey(+match[1], 12, 31)], text: match[0] });
+  }
+  return stated;
+}
+
+/**
+ * The period a date value covers, as [start, end] day keys; the day-first reading
+ * when the value is ambiguous
+ */
+export function parseDateRange(raw: string): Period | null {
+  return readStatedPeriods(raw)[0]?.value ?? null;
+}
+
+/**
+ * Whether readStatedNumbers reads values in this catalog unit
+ */
+export function readsUnit(unit: string): boolean {
+  return unit in UNIT_SUFFIXES || unit === 'EUR m' || unit === 'PUE';
+}
@@ -93,6 +93,13 @@ export async function getFileStream(storedPath: string) {
   return { stream, contentType: undefined };
 }
 
+export async function readStoredFile(storedPath: string): Promise<Buffer> {
+  const { stream } = await getFileStream(storedPath);
+  const parts: Buffer[] = [];
+  for await (const part of stream) parts.push(Buffer.from(part));
+  return Buffer.concat(parts);
+}
+
 export async function deleteStoredFile(storedPath: string | null | undefined) {
   if (!storedPath) return;
   if (storedPath.startsWith('spaces:')) {
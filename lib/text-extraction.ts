@@ -0,0 +1,309 @@
+/**
+ * TEXT EXTRACTION - Plain text from stored dataroom files
+ *
+ * Run once per document at ingestion, for the local vector index and to convert
+ * formats the LLM provider cannot read; the pages are stored for the viewer and
+ * snippet location. Text is returned per page (PDF),
+ * per sheet (XLSX) or per slide (PPTX), and as a single page for other formats.
+ * Images and scanned PDFs go through OCR (lib/ocr.ts).
+ */
+
+import MsgReader from '@kenjiuno/msgreader';
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { simpleParser } from 'mailparser';
+import * as XLSX from 'xlsx';
+import { analyzeDocumentQuality, shouldRecommendOCR } from './document-quality';
+import { OCR_IMAGE_EXTENSIONS, ocrPdfPages, recognizeImages } from './ocr';
+
+export interface ExtractedDocumentText {
+  text: string;
+  pages: string[];
+  /** 1-based pages whose text came from OCR */
+  ocrPages: number[];
+}
+
+// Extensions the LLM provider indexes as uploaded; anything else is sent as rendered text
+const PROVIDER_NATIVE_EXTENSIONS = ['pdf', 'doc', 'docx', 'txt'];
+
+// A page with less text than this is treated as an image of text
+const OCR_PAGE_MIN_CHARS = 200;
+
+// ════════════════════════════════════════════════════════════════════════════
+// EMAIL
+// ════════════════════════════════════════════════════════════════════════════
+
+function formatEmail(fields: { subject?: string; from?: string; to?: string; date?: Date | null; body?: string }): string {
+  return [
+    `Subject: ${fields.subject || ''}`,
+    `From: ${fields.from || ''}`,
+    `To: ${fields.to || ''}`,
+    `Date: ${fields.date && !isNaN(fields.date.getTime()) ? fields.date.toISOString() : ''}`,
+    '',
+    fields.body || '',
+  ].join('\n');
+}
+
+/**
+ * Render an .eml file as the plain text an analyst would read
+ */
+export async function renderEmailText(buffer: Buffer): Promise<string> {
+  const parsed = await simpleParser(buffer);
+  return formatEmail({
+    subject: parsed.subject,
+    from: parsed.from?.text,
+    to: parsed.to?.text,
+    date: parsed.date,
+    body: parsed.text || parsed.html || '',
+  });
+}
+
+/**
+ * Render an Outlook .msg file the same way as an .eml
+ */
+export function renderMsgText(buffer: Buffer): string {
+  const message = new MsgReader(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)).getFileData();
+  if (message.error) throw new Error(`Unreadable .msg file: ${message.error}`);
+
+  const address = (name?: string, email?: string) => (name && email && name !== email ? `${name} <${email}>` : name || email || '');
+  const sentAt = message.clientSubmitTime || message.messageDeliveryTime;
+  return formatEmail({
+    subject: message.subject,
+    from: address(message.senderName, message.senderSmtpAddress || message.senderEmail),
+    to: (message.recipients || [])
+      .filter((r) => r.recipType !== 'cc' && r.recipType !== 'bcc')
+      .map((r) => address(r.name, r.smtpAddress || r.email))
+      .join(', '),
+    date: sentAt ? new Date(sentAt) : null,
+    body: message.body || '',
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// OFFICE FORMATS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * One page per sheet, each row as a pipe-separated table line so figures stay
+ * next to their labels (e.g. a capex line item and its amount)
+ */
+export function extractSpreadsheetPages(buffer: Buffer): string[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  return workbook.SheetNames.map((sheetName) => {
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], { header: 1, raw: false, blankrows: false });
+    const lines = rows
+      .map((row) => Array.from(row, (cell) => String(cell ?? '').replace(/\s+/g, ' ').trim()))
+      .filter((cells) => cells.some(Boolean))
+      .map((cells) => `| ${cells.join(' | ')} |`);
+    return [`Sheet: ${sheetName}`, ...lines].join('\n');
+  });
+}
+
+function decodeXmlText(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * One page per slide, in slide order; each paragraph on its own line
+ */
+export async function extractPresentationPages(buffer: Buffer): Promise<string[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slideNumber = (name: string) => Number(/slide(\d+)\.xml$/.exec(name)?.[1] ?? 0);
+  const slides = Object.keys(zip.files)
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+
+  const pages: string[] = [];
+  for (const name of slides) {
+    const xml = await zip.files[name].async('string');
+    const paragraphs = xml.split('</a:p>').map((paragraph) =>
+      Array.from(paragraph.matchAll(/<a:t(?:\s[^>]*)?>([^<]*)<\/a:t>/g), (m) => decodeXmlText(m[1])).join('')
+    );
+    pages.push(paragraphs.map((p) => p.trim()).filter(Boolean).join('\n'));
+  }
+  return pages;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PDF
+// ════════════════════════════════════════════════════════════════════════════
+
+async function extractPdfPages(buffer: Buffer): Promise<string[]> {
+  // Loaded on demand: pdf.js probes for optional canvas support on import
+  const { VerbosityLevel, getDocument } = await import('pdfjs-dist/legacy/build/pdf.js');
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    // Text extraction does not need font files; silence the missing standard font warnings
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent();
+      pages.push(
+        content.items
+          .map((item) => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : ''))
+          .join('')
+          .trim()
+      );
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * OCR the low-text pages of a PDF that looks scanned. The document-level check is
+ * the same one that recommends OCR to analysts; only pages with little or no
+ * text layer are recognised, and OCR text replaces a page only when longer.
+ */
+async function ocrScannedPdfPages(buffer: Buffer, pages: string[], fileName: string) {
+  const text = pages.join('\n\n');
+  const quality = analyzeDocumentQuality(text, buffer.length, fileName, 'application/pdf');
+  const flagged = shouldRecommendOCR([
+    { lowTextWarning: quality.isLowText || quality.isLikelyScanned, snippetCount: text.trim() ? null : 0 },
+  ]);
+  if (!flagged.recommend) return { pages, ocrPages: [] };
+
+  const lowTextPages = pages.map((page, i) => (page.length < OCR_PAGE_MIN_CHARS ? i + 1 : 0)).filter(Boolean);
+  const recognised = await ocrPdfPages(buffer, lowTextPages);
+
+  const ocrPages: number[] = [];
+  const merged = pages.map((page, i) => {
+    const ocrText = recognised.get(i + 1);
+    if (!ocrText || ocrText.length <= page.length) return page;
+    ocrPages.push(i + 1);
+    return ocrText;
+  });
+  return { pages: merged, ocrPages };
+}
+
+/**
+ * Extract text from a file by extension. Returns null for formats without a
+ * text extractor (e.g. legacy .doc), and for images when `ocr` is off.
+ */
+export async function extractDocumentText(
+  buffer: Buffer,
+  fileName: string,
+  { ocr = true }: { ocr?: boolean } = {}
+): Promise<ExtractedDocumentText | null> {
+  const ext = (fileName.split('.').pop() || '').toLowerCase();
+  let pages: string[];
+  let ocrPages: number[] = [];
+
+  switch (ext) {
+    case 'pdf':
+      pages = await extractPdfPages(buffer);
+      if (ocr) ({ pages, ocrPages } = await ocrScannedPdfPages(buffer, pages, fileName));
+      break;
+    case 'docx':
+      pages = [(await mammoth.extractRawText({ buffer })).value];
+      break;
+    case 'xlsx':
+      pages = extractSpreadsheetPages(buffer);
+      break;
+    case 'pptx':
+      pages = await extractPresentationPages(buffer);
+      break;
+    case 'eml':
+      pages = [await renderEmailText(buffer)];
+      break;
+    case 'msg':
+      pages = [renderMsgText(buffer)];
+      break;
+    case 'txt':
+      pages = [buffer.toString('utf8')];
+      break;
+    default:
+      if (!ocr || !OCR_IMAGE_EXTENSIONS.includes(ext)) return null;
+      pages = await recognizeImages([buffer]);
+      ocrPages = [1];
+  }
+
+  return { text: pages.join('\n\n'), pages, ocrPages };
+}
+
+/**
+ * Whether to send the LLM provider extracted text instead of the original file:
+ * formats it does not index, and PDFs whose text came from OCR
+ */
+export function needsTextRendering(fileName: string, extracted?: ExtractedDocumentText | null): boolean {
+  const ext = (fileName.split('.').pop() || '').toLowerCase();
+  return !PROVIDER_NATIVE_EXTENSIONS.includes(ext) || (extracted?.ocrPages.length ?? 0) > 0;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// STORED PAGES
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Page texts of an ingested document, for the viewer and snippet location. The
+ * worker stores them on DealDocument.textPages; documents ingested before that are
+ * extracted again without OCR, which takes minutes on a long scan.
+ */
+export async function loadDocumentPages(
+  document: { name: string; path: string; textPages?: unknown },
+  readFile: (storedPath: string) => Promise<Buffer>
+): Promise<string[] | null> {
+  const stored = document.textPages;
+  if (Array.isArray(stored) && stored.every((page) => typeof page === 'string')) return stored;
+  const extracted = await extractDocumentText(await readFile(document.path), document.name, { ocr: false });
+  return extracted?.pages ?? null;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SNIPPET LOCATION
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface TextLocation {
+  page_number: number;
+  char_start: number;
+  char_end: number;
+}
+
+// Retrieved chunks are not always verbatim; fall back to matching their opening
+const LOCATE_PREFIX_CHARS = 80;
+
+function compactWithOffsets(page: string): { compact: string; offsets: number[] } {
+  const offsets: number[] = [];
+  let compact = '';
+  for (let i = 0; i < page.length; i++) {
+    if (/\s/.test(page[i])) continue;
+    offsets.push(i);
+    compact += page[i];
+  }
+  return { compact, offsets };
+}
+
+/**
+ * Find a snippet in extracted pages, ignoring whitespace differences.
+ * Returns a 1-based page number and character offsets into that page's text;
+ * a match on the opening only spans the snippet's length from there.
+ */
+export function locateTextInPages(pages: string[], snippet: string): TextLocation | null {
+  const needle = snippet.replace(/\s+/g, '');
+  if (!needle) return null;
+
+  const compacted = pages.map(compactWithOffsets);
+  for (const candidate of [needle, needle.slice(0, LOCATE_PREFIX_CHARS)]) {
+    for (let i = 0; i < compacted.length; i++) {
+      const { compact, offsets } = compacted[i];
+      const start = compact.indexOf(candidate);
+      if (start === -1) continue;
+      const end = start + Math.min(needle.length, compact.length - start);
+      return { page_number: i + 1, char_start: offsets[start], char_end: offsets[end - 1] + 1 };
+    }
+  }
+
+  return null;
+}
@@ -1,7 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverActions: true
+    serverActions: true,
+    // pdf.js optionally requires node-canvas and Tesseract starts its worker from a
+    // file inside its package; load both at runtime instead of bundling
+    serverComponentsExternalPackages: ['pdfjs-dist', 'tesseract.js', '@tesseract.js-data/eng']
   }
 };
 
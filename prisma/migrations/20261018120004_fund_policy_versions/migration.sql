@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "FundPolicyVersion" (
+    "id" TEXT NOT NULL,
+    "fundId" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "policy" JSONB NOT NULL,
+    "policyPreset" TEXT,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "changeNote" TEXT,
+    "authorId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FundPolicyVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "AnalysisRun" ADD COLUMN "policyVersionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FundPolicyVersion_fundId_version_key" ON "FundPolicyVersion"("fundId", "version");
+
+-- CreateIndex
+CREATE INDEX "FundPolicyVersion_fundId_effectiveDate_idx" ON "FundPolicyVersion"("fundId", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "FundPolicyVersion" ADD CONSTRAINT "FundPolicyVersion_fundId_fkey" FOREIGN KEY ("fundId") REFERENCES "Fund"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FundPolicyVersion" ADD CONSTRAINT "FundPolicyVersion_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AnalysisRun" ADD CONSTRAINT "AnalysisRun_policyVersionId_fkey" FOREIGN KEY ("policyVersionId") REFERENCES "FundPolicyVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AnalysisRun" ADD COLUMN "parentRunId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "AnalysisRun" ADD CONSTRAINT "AnalysisRun_parentRunId_fkey" FOREIGN KEY ("parentRunId") REFERENCES "AnalysisRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
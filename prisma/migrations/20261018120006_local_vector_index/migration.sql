@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "DocumentChunk" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "embeddingModel" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DocumentChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentChunk_dealId_idx" ON "DocumentChunk"("dealId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentChunk_documentId_chunkIndex_key" ON "DocumentChunk"("documentId", "chunkIndex");
+
+-- AddForeignKey
+ALTER TABLE "DocumentChunk" ADD CONSTRAINT "DocumentChunk_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "DealDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
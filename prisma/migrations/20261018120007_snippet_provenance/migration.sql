@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "DocumentChunk" ADD COLUMN "pageNumber" INTEGER,
+ADD COLUMN "charStart" INTEGER,
+ADD COLUMN "charEnd" INTEGER;
+
+-- AlterTable
+ALTER TABLE "AnalysisEvidenceSnippet" ADD COLUMN "pageNumber" INTEGER,
+ADD COLUMN "charStart" INTEGER,
+ADD COLUMN "charEnd" INTEGER;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "DealDocument" ADD COLUMN "batchId" TEXT,
+ADD COLUMN "folderPath" TEXT;
+
+-- CreateTable
+CREATE TABLE "UploadBatch" (
+    "id" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "archiveName" TEXT NOT NULL,
+    "report" JSONB NOT NULL,
+    "fileCount" INTEGER NOT NULL,
+    "acceptedCount" INTEGER NOT NULL,
+    "duplicateCount" INTEGER NOT NULL,
+    "rejectedCount" INTEGER NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UploadBatch_dealId_idx" ON "UploadBatch"("dealId");
+
+-- AddForeignKey
+ALTER TABLE "DealDocument" ADD CONSTRAINT "DealDocument_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "UploadBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UploadBatch" ADD CONSTRAINT "UploadBatch_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UploadBatch" ADD CONSTRAINT "UploadBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
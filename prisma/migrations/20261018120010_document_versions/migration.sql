@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "DealDocument" ADD COLUMN "supersedesId" TEXT,
+ADD COLUMN "supersededAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DealDocument_supersedesId_key" ON "DealDocument"("supersedesId");
+
+-- CreateIndex
+CREATE INDEX "DealDocument_dealId_sha256_idx" ON "DealDocument"("dealId", "sha256");
+
+-- AddForeignKey
+ALTER TABLE "DealDocument" ADD CONSTRAINT "DealDocument_supersedesId_fkey" FOREIGN KEY ("supersedesId") REFERENCES "DealDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
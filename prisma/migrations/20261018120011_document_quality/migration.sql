@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "DealDocument" ADD COLUMN "qualityScore" INTEGER,
+ADD COLUMN "qualityWarnings" JSONB,
+ADD COLUMN "language" TEXT,
+ADD COLUMN "ocrApplied" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "DocumentClassification" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "artifactType" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "evidence" JSONB NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentClassification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentClassification_documentId_artifactType_key" ON "DocumentClassification"("documentId", "artifactType");
+
+-- AddForeignKey
+ALTER TABLE "DocumentClassification" ADD CONSTRAINT "DocumentClassification_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "DealDocument"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentClassification" ADD CONSTRAINT "DocumentClassification_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "FactOverride" (
+    "id" TEXT NOT NULL,
+    "dealId" TEXT NOT NULL,
+    "factCode" TEXT NOT NULL,
+    "value" JSONB,
+    "justification" TEXT,
+    "documentId" TEXT,
+    "pageNumber" INTEGER,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "flagReason" TEXT,
+    "flaggedRunId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FactOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FactOverride_dealId_factCode_key" ON "FactOverride"("dealId", "factCode");
+
+-- AddForeignKey
+ALTER TABLE "FactOverride" ADD CONSTRAINT "FactOverride_dealId_fkey" FOREIGN KEY ("dealId") REFERENCES "Deal"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FactOverride" ADD CONSTRAINT "FactOverride_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "DealDocument"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "FactOverride" ADD CONSTRAINT "FactOverride_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AnalysisRun" ADD COLUMN "jobId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnalysisRun_jobId_key" ON "AnalysisRun"("jobId");
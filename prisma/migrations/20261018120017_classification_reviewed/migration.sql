@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "DealDocument" ADD COLUMN "classificationReviewedAt" TIMESTAMP(3);
+
+-- Documents an analyst already classified
+UPDATE "DealDocument" d SET "classificationReviewedAt" = c."reviewedAt"
+FROM (
+  SELECT "documentId", MIN("createdAt") AS "reviewedAt"
+  FROM "DocumentClassification"
+  WHERE "source" = 'ANALYST'
+  GROUP BY "documentId"
+) c
+WHERE c."documentId" = d."id";
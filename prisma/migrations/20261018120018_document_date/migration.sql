@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DealDocument" ADD COLUMN "documentDate" TIMESTAMP(3);
@@ -0,0 +1,35 @@
+import { indexDocumentLocally } from '../lib/local-index';
+import { prisma } from '../lib/prisma';
+import { readStoredFile } from '../lib/storage';
+import { extractDocumentText } from '../lib/text-extraction';
+
+/**
+ * Build the local vector index from stored files, e.g. after switching to
+ * RETRIEVAL_BACKEND=local or when provider vector stores have expired.
+ * Usage: pnpm reindex:local [dealId]
+ */
+async function run() {
+  const dealId = process.argv[2];
+  const documents = await prisma.dealDocument.findMany({ where: dealId ? { dealId } : {} });
+
+  for (const doc of documents) {
+    const extracted = await extractDocumentText(await readStoredFile(doc.path), doc.name);
+    const chunkCount = extracted ? await indexDocumentLocally({ documentId: doc.id, dealId: doc.dealId, pages: extracted.pages }) : 0;
+    await prisma.dealDocument.update({
+      where: { id: doc.id },
+      data: { openaiStatus: chunkCount > 0 ? 'indexed' : 'failed', snippetCount: chunkCount, textExtracted: chunkCount > 0 },
+    });
+    console.log(`${doc.name}: ${chunkCount} chunks`);
+  }
+
+  console.log(`Re-indexed ${documents.length} document(s) locally.`);
+}
+
+run()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,44 @@
+import os from 'os';
+import { processNextJob, recoverStaleJobs } from '../lib/job-worker';
+import { prisma } from '../lib/prisma';
+
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 2000;
+const STALE_CHECK_INTERVAL_MS = 60_000;
+
+let stopping = false;
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    console.log(`${signal} received, stopping after the current job.`);
+    stopping = true;
+  });
+}
+
+/**
+ * Run queued ingestion and analysis jobs until stopped.
+ * Usage: pnpm worker (run one or more alongside the web process)
+ */
+async function run() {
+  const workerId = `${os.hostname()}:${process.pid}`;
+  console.log(`Worker ${workerId} polling every ${POLL_INTERVAL_MS}ms.`);
+
+  let lastStaleCheck = 0;
+  while (!stopping) {
+    if (Date.now() - lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+      const recovered = await recoverStaleJobs();
+      if (recovered > 0) console.log(`Recovered ${recovered} stale job(s).`);
+      lastStaleCheck = Date.now();
+    }
+
+    const processed = await processNextJob(workerId);
+    if (!processed) await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+run()
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
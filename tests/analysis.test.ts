@@ -85,6 +85,7 @@ vi.mock('../lib/prisma', () => {
     auditLog: {
       create: vi.fn().mockResolvedValue({ id: 'audit1' }),
     },
+    $transaction: vi.fn((persist: (tx: unknown) => unknown) => persist(prisma)),
   } as any;
   return { prisma };
 });
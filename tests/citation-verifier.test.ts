@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { checkCitedValue, verifyFactCitations } from '../lib/citation-verifier';
+import { createDefaultFundPolicy } from '../lib/dd-contract-v1';
+import { evaluateHardGates, runScoringPipeline } from '../lib/scoring-engine-v1';
+import { readStatedNumbers } from '../lib/stated-values';
+import { fact, snippet } from './helpers';
+
+describe('citation verifier', () => {
+  it('reads numbers, units and dates the way European datarooms write them', () => {
+    expect(readStatedNumbers('MW', 'Anschlussleistung 40.000 kW').map((s) => s.value)).toContain(40);
+    expect(readStatedNumbers('MW', 'puissance réservée de 48,5 MW').map((s) => s.value)).toContain(48.5);
+
+    expect(checkCitedValue('grid_reserved_mw_firm', 40, ['Anschlussleistung 40.000 kW (fest)']).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_energisation_target', 'Q4 2028', ['Inbetriebnahme im 4. Quartal 2028']).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_energisation_target', '2027-03', ['mise en service le 31 mars 2027']).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_energisation_target', '2028-11', ['energización prevista el 30.11.2028']).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_reserved_mw_firm', 48, ['capacità riservata di 40 MW']).check).toBe('MISMATCH');
+    expect(checkCitedValue('grid_reserved_mw_firm', 48, ['De aansluiting is bevestigd.']).check).toBe('NOT_FOUND');
+  });
+
+  it('reads transformer voltage pairs and block counts', () => {
+    expect(readStatedNumbers('kV', 'Umspannwerk 110/20 kV').map((s) => s.value)).toEqual([110, 20]);
+    expect(readStatedNumbers('MW', 'Aansluiting 2x60 MW').map((s) => s.value)).toEqual([60, 120]);
+
+    expect(checkCitedValue('grid_connection_voltage_kv', 110, ['neues Umspannwerk 110/20 kV']).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_connection_voltage_kv', 20, ['neues Umspannwerk 110/20 kV']).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_reserved_mw_firm', 120, ['gecontracteerd vermogen 2x60 MW']).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_reserved_mw_firm', 120, ['two blocks of 2 × 60 MW']).check).toBe('VERIFIED');
+  });
+
+  it('nulls a fact its snippets contradict and downgrades one they do not state', () => {
+    const snippets = [
+      snippet('offer', 'The offer reserves 40 MW of firm import capacity.'),
+      snippet('letter', 'The DSO confirms the connection can be energised.'),
+      snippet('agreement', 'Firm capacity of 48 MW from 30.11.2028.'),
+    ];
+    const { facts, mismatches } = verifyFactCitations(
+      {
+        grid_reserved_mw_firm: fact(48, { citations: ['offer'], unit: 'MW', candidates: [{ value: 48, citations: ['offer'] }] }),
+        grid_energisation_target: fact('Q4 2028', { citations: ['letter'] }),
+        grid_reserved_mw_flex: fact(8, { citations: [], unit: 'MW' }),
+        grid_next_milestone_or_expiry_date: fact('2028-11-30', { citations: ['agreement'] }),
+      },
+      snippets
+    );
+
+    expect(mismatches).toEqual([
+      {
+        fact_code: 'grid_reserved_mw_firm',
+        value: 48,
+        citations: ['offer'],
+        action: 'NULLED',
+        reason: 'Cited snippets state 40 MW, not 48 MW',
+      },
+      {
+        fact_code: 'grid_energisation_target',
+        value: 'Q4 2028',
+        citations: ['letter'],
+        action: 'DOWNGRADED',
+        reason: 'Q4 2028 is not stated in the cited snippets',
+      },
+    ]);
+    expect(facts.grid_reserved_mw_firm).toMatchObject({ value: null, citations: [], candidates: [{ value: 48, citations: ['offer'] }] });
+    expect(facts.grid_energisation_target).toMatchObject({ value: 'Q4 2028', evidence_tier: 'NONE' });
+    expect(facts.grid_reserved_mw_flex.evidence_tier).toBe('OFFICIAL_SIGNED');
+    expect(facts.grid_next_milestone_or_expiry_date.evidence_tier).toBe('OFFICIAL_SIGNED');
+  });
+
+  it('holds a gate whose fact is not stated in its cited snippets', () => {
+    const { facts } = verifyFactCitations(
+      { grid_next_milestone_or_expiry_date: fact('2026-06-30', { citations: ['memo'] }) },
+      [snippet('memo', 'The grid milestone is on track.')]
+    );
+
+    const check = evaluateHardGates(facts, createDefaultFundPolicy()).gate_checks?.find(
+      (c) => c.gate === 'grid_next_milestone_known'
+    );
+    expect(check).toMatchObject({ status: 'UNKNOWN', citations: ['memo'] });
+    expect(check?.reason).toContain('not stated in its cited snippets (citation mismatch)');
+  });
+
+  it('reports a downgraded fact as partial on the tape and asks for a citation that states it', () => {
+    const { facts, mismatches } = verifyFactCitations(
+      { grid_reserved_mw_flex: fact(8, { citations: ['letter'], unit: 'MW' }) },
+      [snippet('letter', 'Part of the capacity is flexible.')]
+    );
+    expect(mismatches[0].action).toBe('DOWNGRADED');
+
+    const { underwritingTape, checklist } = runScoringPipeline(facts, createDefaultFundPolicy());
+
+    expect(underwritingTape.find((v) => v.variable_code === 'grid_reserved_mw_flex')).toMatchObject({ value: 8, status: 'PARTIAL' });
+    expect(checklist).toContainEqual(
+      expect.objectContaining({
+        question: 'Provide a citation that states the value for: Reserved Flex MW',
+        citations: ['letter'],
+      })
+    );
+  });
+});
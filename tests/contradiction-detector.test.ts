@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { checkCitedValue } from '../lib/citation-verifier';
+import { attachFactCandidates, detectContradictions } from '../lib/contradiction-detector';
+import type { Contradiction } from '../lib/dd-contract-v1';
+import { parseDateRange, parseNumber } from '../lib/stated-values';
+import { fact, snippet } from './helpers';
+
+describe('contradiction detector', () => {
+  it('reads numbers and dates the way datarooms write them', () => {
+    expect([parseNumber('1,234.5'), parseNumber('1.234,5'), parseNumber('48,5'), parseNumber('40.')]).toEqual([1234.5, 1234.5, 48.5, 40]);
+    expect(parseDateRange('Q4 2028')).toEqual([20281001, 20281231]);
+    expect(parseDateRange('30.11.2028')).toEqual([20281130, 20281130]);
+  });
+
+  it('reads candidates the way the citation verifier reads the snippets', () => {
+    const snippets = [
+      snippet('schedule', 'Inbetriebnahme im März 2027.'),
+      snippet('offer', 'Anschlussleistung 1.234 MW (fest).'),
+      snippet('queue', 'Wartezeit in der Warteschlange: 5 Jahre.'),
+    ];
+    const facts = attachFactCandidates(
+      {
+        grid_energisation_target: fact('2027-03', { citations: ['schedule'] }),
+        grid_reserved_mw_firm: fact(1234, { citations: ['offer'], unit: 'MW' }),
+        grid_queue_wait_months: fact(48, { citations: ['queue'], unit: 'months' }),
+      },
+      snippets
+    );
+
+    expect(facts.grid_energisation_target.candidates).toEqual([
+      { value: '2027-03', citations: [] },
+      { value: 'März 2027', citations: ['schedule'] },
+    ]);
+    expect(facts.grid_reserved_mw_firm.candidates).toEqual([{ value: 1234, citations: ['offer'] }]);
+    expect(facts.grid_queue_wait_months.candidates).toEqual([
+      { value: 48, citations: [] },
+      { value: 60, citations: ['queue'] },
+    ]);
+    expect(detectContradictions(facts).contradictions.map((c) => c.fact_code)).toEqual(['grid_queue_wait_months']);
+
+    expect(checkCitedValue('grid_energisation_target', '2027-03', [snippets[0].text]).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_reserved_mw_firm', 1234, [snippets[1].text]).check).toBe('VERIFIED');
+    expect(checkCitedValue('grid_queue_wait_months', 48, [snippets[2].text]).check).toBe('MISMATCH');
+  });
+
+  it('grades a conflict on a hard gate fact HIGH and one inside tolerance as a warning', () => {
+    const snippets = [
+      snippet('offer', 'Connection offer: 48 MW firm import capacity.'),
+      snippet('agreement', 'The agreement reserves 40 MW of firm capacity.'),
+      snippet('budget', 'Target import 60 MW, of which 48 MW firm.'),
+      snippet('it-a', 'IT load of 36 MW at full build.'),
+      snippet('it-b', 'Design IT capacity 35 MW.'),
+    ];
+    const facts = attachFactCandidates(
+      {
+        grid_reserved_mw_firm: fact(48, { citations: ['offer', 'agreement', 'budget'], unit: 'MW' }),
+        it_capacity_mw: fact(36, { citations: ['it-a', 'it-b'], unit: 'MW' }),
+      },
+      snippets
+    );
+
+    // The budget snippet states two values, one of them the extracted one
+    expect(facts.grid_reserved_mw_firm.candidates).toEqual([
+      { value: 48, citations: ['offer', 'budget'] },
+      { value: 40, citations: ['agreement'] },
+    ]);
+
+    const { contradictions, warnings } = detectContradictions(facts);
+    expect(contradictions).toEqual([
+      expect.objectContaining({ fact_code: 'grid_reserved_mw_firm', severity: 'HIGH' }),
+    ]);
+    expect(contradictions[0].description).toContain('48 MW vs 40 MW');
+    expect(warnings).toEqual(['IT Capacity (MW): Values vary within tolerance (2.8%)']);
+  });
+
+  it('treats overlapping date periods as agreeing', () => {
+    const facts = attachFactCandidates(
+      { grid_energisation_target: fact('Q4 2028', { citations: ['letter', 'schedule', 'loi'] }) },
+      [
+        snippet('letter', 'Energisation expected 2028-11-30.'),
+        snippet('schedule', 'Energisation in Q4 2028.'),
+        snippet('loi', 'Subject to energisation by Q2 2029.'),
+      ]
+    );
+
+    const [contradiction] = detectContradictions(facts).contradictions;
+    expect(contradiction).toMatchObject({ fact_code: 'grid_energisation_target', severity: 'HIGH' });
+    expect(contradiction.conflicting_candidates.map((c) => c.value)).toEqual(['Q4 2028', '2028-11-30', 'Q2 2029']);
+  });
+
+  it('merges conflicts the model reported and grades them', () => {
+    const reported: Contradiction[] = [
+      {
+        fact_code: 'design_tier_rating',
+        severity: 'MEDIUM',
+        description: 'Design summary says Tier III, the EPC scope says Tier IV.',
+        conflicting_candidates: [
+          { value: 'Tier III', citations: ['design'] },
+          { value: 'Tier IV', citations: ['epc'] },
+        ],
+      },
+      {
+        fact_code: 'land_control_type',
+        severity: 'MEDIUM',
+        description: 'Option or lease?',
+        conflicting_candidates: [
+          { value: 'option', citations: ['a'] },
+          { value: 'lease', citations: ['b'] },
+        ],
+      },
+    ];
+    const facts = attachFactCandidates({ design_tier_rating: fact('Tier III', { citations: ['design'] }) }, [snippet('design', 'Tier III design.')], reported);
+
+    const { contradictions } = detectContradictions(facts, reported);
+
+    expect(contradictions).toEqual([
+      expect.objectContaining({
+        fact_code: 'design_tier_rating',
+        severity: 'MEDIUM',
+        conflicting_candidates: [
+          { value: 'Tier III', citations: ['design'] },
+          { value: 'Tier IV', citations: ['epc'] },
+        ],
+      }),
+      // No extracted value to compare with; the model's conflict is kept and graded as a hard gate
+      expect.objectContaining({ fact_code: 'land_control_type', severity: 'HIGH', description: 'Option or lease?' }),
+    ]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultFundPolicy } from '../lib/dd-contract-v1';
+import { CountryPackValidationError, resolveCountryScoring } from '../lib/country-pack-scoring';
+import { runScoringPipeline } from '../lib/scoring-engine-v1';
+import { fact } from './helpers';
+
+const facts = {
+  grid_title_level_0_5: fact(4),
+  land_control_level_0_4: fact(3),
+  planning_permission_level_0_5: fact(4),
+  grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+  grid_reserved_mw_firm: fact(30),
+  grid_reserved_mw_flex: fact(20),
+  grid_energisation_target: fact('Q4 2030'),
+};
+
+describe('country pack scoring overrides', () => {
+  it('judges a congested market more strictly and records why', () => {
+    const dublin = runScoringPipeline(facts, createDefaultFundPolicy(), {
+      country: resolveCountryScoring('IE', null),
+    });
+    const helsinki = runScoringPipeline(facts, createDefaultFundPolicy(), {
+      country: resolveCountryScoring('FI', null),
+    });
+
+    expect(dublin.hardGateResult.decision).toBe('NO_GO');
+    expect(dublin.hardGateResult.reasons).toContain('Flex share 40.0% exceeds maximum 25%');
+    expect(dublin.countryOverrides.map((o) => [o.source, o.target, o.from, o.to])).toEqual([
+      ['LIBRARY', 'hard_gates.max_flex_share_pct', null, 25],
+      ['LIBRARY', 'hard_gates.max_energisation_months', null, 48],
+    ]);
+    expect(helsinki.hardGateResult.decision).toBe('GO');
+    expect(helsinki.countryOverrides).toEqual([]);
+  });
+
+  it('applies pack overrides after the library and names local grid evidence', () => {
+    const country = resolveCountryScoring('DE', {
+      useLibraryData: true,
+      scoringOverrides: { hard_gates: { min_power_title_level: 5 }, note: 'IC requires deposit proof in DE' },
+    });
+
+    const result = runScoringPipeline(facts, createDefaultFundPolicy(), { country });
+
+    expect(result.hardGateResult.reasons).toContain('Grid title level 4 below minimum 5');
+    expect(result.countryOverrides.find((o) => o.source === 'PACK')).toEqual({
+      country_code: 'DE',
+      source: 'PACK',
+      target: 'hard_gates.min_power_title_level',
+      from: 2,
+      to: 5,
+      reason: 'IC requires deposit proof in DE',
+    });
+
+    const france = resolveCountryScoring('FR', null);
+    const unsigned = { ...facts, grid_title_level_0_5: fact(3) };
+    const policy = { ...createDefaultFundPolicy(), hard_gates: { ...createDefaultFundPolicy().hard_gates, min_power_title_level: 4 } };
+    const item = runScoringPipeline(unsigned, policy, { country: france }).checklist.find(
+      (i) => i.question === 'Resolve: Grid title level 3 below minimum 4'
+    );
+    expect(item?.why).toBe('Hard gate not met. In FR, grid title level 4 is evidenced by Convention de Raccordement');
+  });
+
+  it('rejects invalid stored overrides instead of ignoring them', () => {
+    expect(() =>
+      resolveCountryScoring('NL', { useLibraryData: true, scoringOverrides: { hard_gates: { max_pue: 'low' } } })
+    ).toThrow(CountryPackValidationError);
+  });
+});
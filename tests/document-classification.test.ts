@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyFactValue } from '../lib/dd-contract-v1';
+import {
+  applyArtifactEvidenceTiers,
+  applyArtifactRegisterTiers,
+  classifyDocument,
+  detectDocumentDate,
+  detectDocumentSource,
+  primaryDocumentType,
+} from '../lib/document-classification';
+import { fact, snippet } from './helpers';
+
+describe('document classification', () => {
+  it('classifies a signed grid connection agreement with the passages that matched', () => {
+    const pages = [
+      'BILATERAL CONNECTION AGREEMENT between Northgrid DSO and Project Co.\nAgreed import capacity: 48 MW at the point of supply.',
+      'IN WITNESS WHEREOF the parties have executed this agreement.\nSigned by J. Meyer for and on behalf of Northgrid DSO',
+    ];
+
+    const [top, ...rest] = classifyDocument({ fileName: 'Connection_Agreement_signed.pdf', pages });
+
+    expect(top.artifact_type).toBe('GRID_CONNECTION_AGREEMENT_SIGNED');
+    expect(top.confidence).toBeGreaterThanOrEqual(0.8);
+    expect(top.evidence[0]).toMatchObject({ page_number: 1 });
+    expect(top.evidence[0].text).toContain('CONNECTION AGREEMENT');
+    expect(rest.map((c) => c.artifact_type)).not.toContain('GRID_CONNECTION_AGREEMENT_SIGNED');
+  });
+
+  it('needs a signature before calling an agreement signed, and reads German', () => {
+    const unsigned = classifyDocument({
+      fileName: 'Entwurf.pdf',
+      pages: ['Netzanschlussvertrag (Entwurf)\nVereinbarte Anschlussleistung: 30 MW'],
+    });
+    expect(unsigned.map((c) => c.artifact_type)).not.toContain('GRID_CONNECTION_AGREEMENT_SIGNED');
+
+    const lease = classifyDocument({
+      fileName: 'Erbbaurechtsvertrag.pdf',
+      pages: ['Erbbaurechtsvertrag über das Flurstück 12/3', 'Der Erbbauzins (Pachtzins) beträgt 120.000 EUR jährlich.'],
+    });
+    expect(lease[0]).toMatchObject({ artifact_type: 'LAND_LEASE' });
+    expect(lease[0].evidence.map((e) => e.page_number)).toEqual([1, 2]);
+  });
+
+  it('leaves unrelated documents unclassified', () => {
+    const result = classifyDocument({ fileName: 'minutes.txt', pages: ['Team lunch moved to Thursday.'] });
+
+    expect(result).toEqual([]);
+    expect(primaryDocumentType([])).toBe('OTHER');
+  });
+
+  it('sets evidence tiers from the classification of cited documents', () => {
+    const snippets = ['agreement', 'capex', 'offer'].map((name) => snippet(`s-${name}`, 'Reserved capacity 48 MW', `doc-${name}`));
+    const documents = [
+      { id: 'doc-agreement', classifications: [{ artifactType: 'GRID_CONNECTION_AGREEMENT_SIGNED', confidence: 0.85, source: 'RULES' }] },
+      { id: 'doc-capex', classifications: [{ artifactType: 'CAPEX_ESTIMATE_OR_BUDGET', confidence: 1, source: 'ANALYST' }] },
+      // Too uncertain to set a tier
+      { id: 'doc-offer', classifications: [{ artifactType: 'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL', confidence: 0.55, source: 'RULES' }] },
+    ];
+
+    const facts = applyArtifactEvidenceTiers(
+      {
+        grid_reserved_mw_firm: fact(48, { citations: ['s-agreement', 's-capex'] }),
+        grid_target_import_mw: fact(60, { citations: ['s-capex', 's-offer'] }),
+        // The signed agreement is not evidence the flex fact expects
+        grid_reserved_mw_flex: fact(10, { citations: ['s-agreement'] }),
+        grid_connection_voltage_kv: createEmptyFactValue(),
+      },
+      snippets,
+      documents
+    );
+
+    expect(facts.grid_reserved_mw_firm).toMatchObject({
+      evidence_tier: 'OFFICIAL_SIGNED',
+      source_artifact_types: ['GRID_CONNECTION_AGREEMENT_SIGNED'],
+    });
+    expect(facts.grid_target_import_mw).toMatchObject({
+      evidence_tier: 'SELLER_STATEMENT',
+      source_artifact_types: ['CAPEX_ESTIMATE_OR_BUDGET'],
+    });
+    expect(facts.grid_reserved_mw_flex).toMatchObject({ evidence_tier: 'OFFICIAL_UNSIGNED', source_artifact_types: [] });
+    expect(facts.grid_connection_voltage_kv).toEqual(createEmptyFactValue());
+  });
+
+  it('tells e-mails, teasers and issuer letterheads apart', () => {
+    expect(detectDocumentSource({ fileName: 'RE_ Kapazität.msg' })).toBe('EMAIL');
+    expect(detectDocumentSource({ fileName: 'notes.pdf', pages: ['Von: a@sponsor.de\nBetreff: Netzanschluss\n\nHallo'] })).toBe('EMAIL');
+    expect(detectDocumentSource({ fileName: 'Project_Falcon_Teaser.pdf' })).toBe('TEASER');
+    expect(detectDocumentSource({ fileName: 'deck.pptx' })).toBe('TEASER');
+    expect(detectDocumentSource({ fileName: 'courrier.pdf', pages: ['RTE Réseau de Transport d\'Electricité\nProposition technique et financière'] })).toBe(
+      'ISSUER_LETTERHEAD'
+    );
+    expect(detectDocumentSource({ fileName: 'minutes.txt', pages: ['Team lunch moved to Thursday.'] })).toBeNull();
+  });
+
+  it("dates a document by its e-mail header or issue date, not its deadlines", () => {
+    expect(
+      detectDocumentDate({ fileName: 'RE_ capacity.eml', pages: ['From: grid@dso.de\nDate: Tue, 10 Mar 2026 09:15:00 +0100\nSubject: Capacity'] })
+    ).toEqual(new Date('2026-03-10T08:15:00Z'));
+    expect(
+      detectDocumentDate({ fileName: 'angebot.pdf', pages: ['Netzanschlussangebot\nAngebot gültig bis 30.06.2026\nDatum: 12.03.2026'] })
+    ).toEqual(new Date('2026-03-12T00:00:00Z'));
+    expect(detectDocumentDate({ fileName: 'minutes.txt', pages: ['Angebot gültig bis 30.06.2026'] })).toBeNull();
+    expect(detectDocumentDate({ fileName: 'minutes.txt', pages: ['Team lunch moved to Thursday.'] })).toBeNull();
+  });
+
+  it('derives tiers from the source of unclassified documents and the artifact register', () => {
+    const snippets = ['teaser', 'letter', 'notes'].map((name) => snippet(`s-${name}`, 'Reserved capacity 48 MW', `doc-${name}`));
+    const documents = [
+      // A teaser quoting the offer is not the offer
+      {
+        id: 'doc-teaser',
+        name: 'Falcon_Teaser.pdf',
+        sourceKind: 'TEASER',
+        classifications: [{ artifactType: 'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL', confidence: 0.85, source: 'RULES' }],
+      },
+      { id: 'doc-letter', name: 'scan_0042.pdf', sourceKind: null, classifications: [] },
+      { id: 'doc-notes', name: 'site-notes.docx', classifications: [] },
+    ];
+    const register = [
+      {
+        artifact_type: 'GRID_DEPOSIT_PAYMENT_PROOF' as const,
+        evidence_tier: 'OFFICIAL_UNSIGNED' as const,
+        issuer: 'Enedis',
+        date: null,
+        key_fields: {},
+        citations: ['s-letter'],
+      },
+      {
+        artifact_type: 'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL' as const,
+        evidence_tier: 'OFFICIAL_UNSIGNED' as const,
+        issuer: 'Enedis',
+        date: null,
+        key_fields: {},
+        citations: ['s-teaser'],
+      },
+    ];
+
+    const facts = applyArtifactEvidenceTiers(
+      {
+        grid_reserved_mw_firm: fact(48, { citations: ['s-teaser'] }),
+        grid_target_import_mw: fact(60, { citations: ['s-notes'] }),
+        grid_title_level_0_5: fact(5, { citations: ['s-letter'] }),
+      },
+      snippets,
+      documents,
+      register
+    );
+
+    expect(facts.grid_reserved_mw_firm).toMatchObject({ evidence_tier: 'SELLER_STATEMENT', source_artifact_types: [] });
+    expect(facts.grid_target_import_mw.evidence_tier).toBe('SELLER_STATEMENT');
+    // Named by the register but not classified: an unsigned official document at most
+    expect(facts.grid_title_level_0_5).toMatchObject({
+      evidence_tier: 'OFFICIAL_UNSIGNED',
+      source_artifact_types: ['GRID_DEPOSIT_PAYMENT_PROOF'],
+    });
+    expect(applyArtifactRegisterTiers(register, snippets, documents).map((e) => e.evidence_tier)).toEqual([
+      'OFFICIAL_UNSIGNED',
+      'SELLER_STATEMENT',
+    ]);
+  });
+});
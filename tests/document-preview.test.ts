@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockDocumentFindUnique, mockSnippetFindUnique, mockReadStoredFile } = vi.hoisted(() => ({
+  mockDocumentFindUnique: vi.fn(),
+  mockSnippetFindUnique: vi.fn(),
+  mockReadStoredFile: vi.fn(),
+}));
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn().mockResolvedValue({ user: { id: 'user1' } }),
+}));
+
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    membership: { findFirst: vi.fn().mockResolvedValue({ id: 'm1', userId: 'user1', organizationId: 'org1' }) },
+    dealDocument: { findUnique: (...args: any[]) => mockDocumentFindUnique(...args) },
+    analysisEvidenceSnippet: { findUnique: (...args: any[]) => mockSnippetFindUnique(...args) },
+  },
+}));
+
+vi.mock('@/lib/storage', () => ({ readStoredFile: (...args: any[]) => mockReadStoredFile(...args) }));
+
+import { GET } from '../app/api/documents/[id]/preview/route';
+
+const OFFER = 'RTE connection offer\n\nFirm capacity: 40 MW at 225 kV.\nTarget energisation Q4 2028.';
+
+function document(name = 'offer.txt') {
+  return { id: 'doc1', name, path: '/uploads/offer', mimeType: 'text/plain', dealId: 'deal1', deal: { fund: { organizationId: 'org1' } } };
+}
+
+function snippet(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'snip1',
+    fileId: 'doc1',
+    text: 'Firm capacity: 40 MW at 225 kV.',
+    pageNumber: null,
+    charStart: null,
+    charEnd: null,
+    analysisRun: { dealId: 'deal1' },
+    ...overrides,
+  };
+}
+
+async function preview(query = '') {
+  const res = await GET(new Request(`http://localhost/api/documents/doc1/preview${query}`), { params: { id: 'doc1' } });
+  return { status: res.status, body: await res.json() };
+}
+
+describe('document preview', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDocumentFindUnique.mockResolvedValue(document());
+    mockReadStoredFile.mockResolvedValue(Buffer.from(OFFER));
+  });
+
+  it('returns the document text with the stored snippet span highlighted', async () => {
+    mockSnippetFindUnique.mockResolvedValue(snippet({ pageNumber: 1, charStart: 22, charEnd: 53 }));
+
+    const { status, body } = await preview('?snippet=snip1');
+
+    expect(status).toBe(200);
+    expect(body.pages).toEqual([OFFER]);
+    expect(body.highlight).toEqual({ page_number: 1, char_start: 22, char_end: 53 });
+    expect(OFFER.slice(22, 53)).toBe('Firm capacity: 40 MW at 225 kV.');
+  });
+
+  it('serves the pages stored at ingestion without reading the file again', async () => {
+    mockDocumentFindUnique.mockResolvedValue({ ...document('permit-scan.pdf'), textPages: ['Page one', 'Recognised permit text'] });
+
+    const { status, body } = await preview();
+
+    expect(status).toBe(200);
+    expect(body.pages).toEqual(['Page one', 'Recognised permit text']);
+    expect(mockReadStoredFile).not.toHaveBeenCalled();
+  });
+
+  it('locates snippets from runs without a stored span', async () => {
+    mockSnippetFindUnique.mockResolvedValue(snippet({ text: 'Firm capacity: 40 MW at 225 kV. Target energisation' }));
+
+    const { body } = await preview('?snippet=snip1');
+
+    expect(body.highlight).toEqual({ page_number: 1, char_start: 22, char_end: 73 });
+  });
+
+  it('rejects snippets cited from another document and unsupported file types', async () => {
+    mockSnippetFindUnique.mockResolvedValue(snippet({ fileId: 'doc2' }));
+    expect((await preview('?snippet=snip1')).status).toBe(404);
+
+    mockDocumentFindUnique.mockResolvedValue(document('memo.doc'));
+    expect(await preview()).toEqual({ status: 415, body: { error: 'No text preview for this file type' } });
+  });
+});
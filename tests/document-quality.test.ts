@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { assessExtractedDocument, generateDocumentQualityWarnings, shouldRecommendOCR } from '../lib/document-quality';
+
+const paragraph =
+  'The grid operator confirms that the connection offer reserves 40 MW of firm capacity at the substation and that the works are scheduled for completion before energisation. ';
+
+describe('document quality at ingestion', () => {
+  it('flags a scanned PDF with no text layer', () => {
+    const quality = assessExtractedDocument({
+      text: '',
+      fileSize: 2_000_000,
+      fileName: 'grid-pack.pdf',
+      mimeType: 'application/pdf',
+      ocrApplied: false,
+    });
+
+    expect(quality).toMatchObject({ textExtracted: false, lowTextWarning: true, language: null, ocrApplied: false });
+    expect(quality.qualityScore).toBe(20);
+    expect(quality.qualityWarnings).toContain('Document appears to be a scanned image PDF');
+  });
+
+  it('accepts a readable text document and detects its language', () => {
+    const quality = assessExtractedDocument({
+      text: paragraph.repeat(10),
+      fileSize: 40_000,
+      fileName: 'offer.pdf',
+      mimeType: 'application/pdf',
+      ocrApplied: false,
+    });
+
+    expect(quality).toMatchObject({ qualityScore: 100, qualityWarnings: [], language: 'en', lowTextWarning: false, textExtracted: true });
+  });
+
+  it('does not treat a short email as a scan', () => {
+    const quality = assessExtractedDocument({
+      text: 'Subject: Site visit\n\nConfirmed for Tuesday.',
+      fileSize: 900,
+      fileName: 'visit.eml',
+      mimeType: 'message/rfc822',
+      ocrApplied: false,
+    });
+
+    expect(quality.lowTextWarning).toBe(false);
+    expect(quality.qualityWarnings).not.toContain('Document appears to be a scanned image PDF');
+  });
+
+  it('lists quality warnings and recommends OCR before analysis', () => {
+    const documents = [
+      { id: 'd1', name: 'offer.pdf', mimeType: 'application/pdf', snippetCount: 12, lowTextWarning: false, qualityScore: 100 },
+      { id: 'd2', name: 'single-line-diagram.pdf', mimeType: 'application/pdf', snippetCount: 0, lowTextWarning: true, qualityScore: 20 },
+      { id: 'd3', name: 'permit.png', mimeType: 'image/png', snippetCount: 4, ocrApplied: true, qualityScore: 60 },
+    ];
+
+    expect(generateDocumentQualityWarnings(documents).map((w) => [w.documentId, w.warning, w.severity])).toEqual([
+      ['d2', 'Low text extraction detected', 'HIGH'],
+      ['d2', 'No searchable content found', 'HIGH'],
+      ['d3', 'Scanned image, text recognised by OCR', 'LOW'],
+    ]);
+    expect(shouldRecommendOCR(documents)).toMatchObject({ recommend: true, affectedDocuments: 1 });
+  });
+});
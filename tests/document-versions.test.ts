@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { buildVersionChains, supersededFileIds } from '../lib/document-versions';
+
+const doc = (id: string, supersedesId: string | null, superseded: boolean, openaiFileId: string | null = null) => ({
+  id,
+  supersedesId,
+  supersededAt: superseded ? new Date('2026-01-01') : null,
+  openaiFileId,
+});
+
+describe('document versions', () => {
+  const documents = [
+    doc('offer-v1', null, true, 'file-v1'),
+    doc('lease', null, false, 'file-lease'),
+    doc('offer-v2', 'offer-v1', true, 'file-v2'),
+    doc('offer-v3', 'offer-v2', false, 'file-v3'),
+  ];
+
+  it('groups documents into chains headed by the latest version', () => {
+    const chains = buildVersionChains(documents);
+
+    expect(chains.map(({ current, previous }) => [current.id, previous.map((d) => d.id)])).toEqual([
+      ['lease', []],
+      ['offer-v3', ['offer-v2', 'offer-v1']],
+    ]);
+  });
+
+  it('lists provider files of superseded versions for retrieval to skip', () => {
+    expect(Array.from(supersededFileIds(documents)).sort()).toEqual(['file-v1', 'file-v2']);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultFundPolicy } from '../lib/dd-contract-v1';
+import { FACT_CATALOG_V1, RETRIEVAL_QUERY_GROUPS, getFactsByModule } from '../lib/fact-catalog-v1';
+import { generateChecklist, generateModuleScorecard, runScoringPipeline } from '../lib/scoring-engine-v1';
+import { fact } from './helpers';
+
+describe('v1 fact catalog', () => {
+  it('covers every weighted module with facts and retrieval queries', () => {
+    const weighted = Object.keys(createDefaultFundPolicy().weights);
+    for (const module of weighted) {
+      expect(getFactsByModule(module as any).length).toBeGreaterThan(0);
+      expect(RETRIEVAL_QUERY_GROUPS).toHaveProperty(module);
+    }
+    expect(new Set(FACT_CATALOG_V1.map((f) => f.code)).size).toBe(FACT_CATALOG_V1.length);
+  });
+
+  it('scores TECH_BUILD and ESG_REGULATORY so their weights count', () => {
+    const facts = {
+      it_capacity_mw: fact(48),
+      design_pue_target: fact(1.25),
+      design_tier_rating: fact('Tier III'),
+      capex_estimate_eur_m: fact(420),
+      epc_contractor_status: fact('Appointed'),
+    };
+
+    const scorecard = generateModuleScorecard(facts);
+    expect(scorecard.map((entry) => entry.module)).toEqual(
+      expect.arrayContaining(['TECH_BUILD', 'ESG_REGULATORY'])
+    );
+    expect(scorecard.find((entry) => entry.module === 'TECH_BUILD')).toMatchObject({ status: 'VERIFIED', score_0_100: 100 });
+
+    const policy = createDefaultFundPolicy();
+    const techHeavy = { ...policy, weights: { ...policy.weights, TECH_BUILD: 0.9 } };
+    expect(runScoringPipeline(facts, techHeavy).overallScore.score_0_100).toBeGreaterThan(
+      runScoringPipeline(facts, policy).overallScore.score_0_100
+    );
+  });
+
+  it('asks for a heat offtaker when heat reuse is mandated', () => {
+    const checklist = generateChecklist({ heat_reuse_obligation: fact(true) }, { decision: 'GO', reasons: [], gating_citations: [] });
+
+    expect(checklist).toContainEqual(
+      expect.objectContaining({ module: 'ESG_REGULATORY', requested_artifact_types: ['HEAT_OFFTAKE_AGREEMENT'] })
+    );
+    expect(checklist.some((item) => item.module === 'TECH_BUILD' && item.question.includes('Design PUE Target'))).toBe(true);
+  });
+});
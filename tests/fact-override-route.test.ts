@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockRescore, tx } = vi.hoisted(() => ({
+  mockRescore: vi.fn(),
+  tx: {
+    factOverride: { upsert: vi.fn() },
+    auditLog: { create: vi.fn() },
+  },
+}));
+
+vi.mock('next-auth', () => ({
+  getServerSession: vi.fn().mockResolvedValue({ user: { id: 'user1' } }),
+}));
+
+vi.mock('@/lib/auth', () => ({ authOptions: {} }));
+
+vi.mock('@prisma/client', () => ({
+  Prisma: { DbNull: 'DbNull' },
+  Role: { ADMIN: 'ADMIN', ANALYST: 'ANALYST', VIEWER: 'VIEWER' },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: vi.fn((operations: any) =>
+      typeof operations === 'function' ? operations(tx) : Promise.all(operations)
+    ),
+    membership: { findFirst: vi.fn().mockResolvedValue({ id: 'm1', userId: 'user1', organizationId: 'org1', role: 'ANALYST' }) },
+    deal: { findUnique: vi.fn().mockResolvedValue({ id: 'deal1', fund: { organizationId: 'org1' } }) },
+    analysisRun: { findUnique: vi.fn() },
+    dealDocument: { findUnique: vi.fn().mockResolvedValue({ id: 'doc1', dealId: 'deal1' }) },
+    factOverride: { findUnique: vi.fn(), update: vi.fn() },
+    auditLog: { create: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/analysis-pipeline-v1', () => ({
+  rescoreAnalysisRunV1: (...args: any[]) => mockRescore(...args),
+}));
+
+import { DELETE, PUT } from '../app/api/deals/[dealId]/runs/[runId]/facts/[factCode]/route';
+import { prisma } from '../lib/prisma';
+import { fact } from './helpers';
+
+const mockPrisma = prisma as any;
+const params = { dealId: 'deal1', runId: 'run1', factCode: 'grid_reserved_mw_firm' };
+
+function request(method: string, body?: unknown) {
+  return new Request('http://localhost/api/deals/deal1/runs/run1/facts/grid_reserved_mw_firm', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe('fact override route', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.analysisRun.findUnique.mockResolvedValue({
+      id: 'run1',
+      dealId: 'deal1',
+      status: 'SUCCESS',
+      policyVersionId: null,
+      ddOntology: { fund_policy_snapshot: {}, deal_evidence: { facts: { grid_reserved_mw_firm: fact(48, { unit: 'MW' }) } } },
+    });
+    tx.factOverride.upsert.mockImplementation(async ({ create }: any) => ({
+      id: 'ov1',
+      ...create,
+      document: null,
+      updatedAt: new Date('2026-06-01T00:00:00Z'),
+    }));
+  });
+
+  it('rejects a page number without a cited document', async () => {
+    const res = await PUT(request('PUT', { value: 40, page_number: 3, justification: 'Per the signed agreement' }), { params });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('A page number needs a cited document');
+    expect(tx.factOverride.upsert).not.toHaveBeenCalled();
+  });
+
+  it('writes the override, its audit entry and the re-scored run in one transaction', async () => {
+    mockRescore.mockRejectedValueOnce(new Error('Run has no stored DD Contract v1 facts to re-score'));
+
+    const res = await PUT(request('PUT', { value: 40, justification: 'Per the signed agreement' }), { params });
+
+    expect(res.status).toBe(500);
+    expect(tx.factOverride.upsert).toHaveBeenCalledTimes(1);
+    expect(tx.auditLog.create.mock.calls[0][0].data.action).toBe('FACT_OVERRIDE_SET');
+    expect(mockRescore.mock.calls[0][0]).toMatchObject({ parentRunId: 'run1', db: tx });
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function), { maxWait: 10_000, timeout: 60_000 });
+  });
+
+  it('withdraws an override and records it in the audit log', async () => {
+    mockPrisma.factOverride.findUnique.mockResolvedValueOnce({ id: 'ov1', value: 40, status: 'ACTIVE' });
+    mockPrisma.factOverride.update.mockResolvedValueOnce({ id: 'ov1', value: 40, status: 'WITHDRAWN', document: null });
+
+    const res = await DELETE(request('DELETE'), { params });
+
+    expect(res.status).toBe(200);
+    expect(mockPrisma.factOverride.update.mock.calls[0][0]).toMatchObject({ where: { id: 'ov1' }, data: { status: 'WITHDRAWN' } });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data).toMatchObject({
+      action: 'FACT_OVERRIDE_WITHDRAWN',
+      metadata: { overrideId: 'ov1', factCode: 'grid_reserved_mw_firm', previousOverride: { value: 40, status: 'ACTIVE' } },
+    });
+
+    mockPrisma.factOverride.findUnique.mockResolvedValueOnce({ id: 'ov1', value: 40, status: 'WITHDRAWN' });
+    expect((await DELETE(request('DELETE'), { params })).status).toBe(404);
+  });
+});
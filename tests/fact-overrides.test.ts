@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { type FactValue } from '../lib/dd-contract-v1';
+import { FactAssertionError, applyFactAssertions, parseAssertedValue } from '../lib/fact-overrides';
+
+const extracted: FactValue = {
+  value: 48,
+  unit: 'MW',
+  citations: ['s-offer'],
+  evidence_tier: 'OFFICIAL_UNSIGNED',
+  source_artifact_types: [],
+  notes: null,
+  candidates: [
+    { value: 48, citations: ['s-offer'] },
+    { value: 40, citations: ['s-agreement'] },
+  ],
+};
+
+describe('fact overrides', () => {
+  it('checks asserted values against the catalog type', () => {
+    expect(parseAssertedValue('grid_reserved_mw_firm', '40.5')).toBe(40.5);
+    expect(parseAssertedValue('grid_reserved_mw_firm', '')).toBeNull();
+    expect(() => parseAssertedValue('grid_reserved_mw_firm', 'forty')).toThrow(FactAssertionError);
+    expect(() => parseAssertedValue('not_a_fact', 1)).toThrow('Unknown fact not_a_fact');
+  });
+
+  it('marks asserted facts and cites the analyst snippet', () => {
+    const facts = applyFactAssertions({ grid_reserved_mw_firm: extracted }, [
+      {
+        override_id: 'ov1',
+        fact_code: 'grid_reserved_mw_firm',
+        value: 40,
+        justification: null,
+        document: { id: 'doc-agreement', name: 'Connection_Agreement.pdf', page_number: 3 },
+        user_id: 'user1',
+        asserted_at: '2026-06-01T00:00:00Z',
+      },
+    ]);
+
+    expect(facts.grid_reserved_mw_firm).toMatchObject({
+      value: 40,
+      unit: 'MW',
+      citations: ['analyst-ov1'],
+      evidence_tier: 'ANALYST_ASSERTED',
+      resolution: {
+        rule: 'ANALYST_OVERRIDE',
+        detail: 'Cited from Connection_Agreement.pdf',
+        rejected_candidates: [{ value: 48, citations: ['s-offer'] }],
+        override: { user_id: 'user1', previous_value: 48 },
+      },
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { ArtifactTypeSchema, type FactValue } from '../lib/dd-contract-v1';
+import { ARTIFACT_PRECEDENCE, FactOverrideError, applyFactOverrides, resolveFactCandidates } from '../lib/fact-resolution';
+import { fact, snippet } from './helpers';
+
+const candidateFact = (value: FactValue['value'], candidates: FactValue['candidates']): FactValue =>
+  fact(value, { unit: 'MW', citations: candidates!.flatMap((c) => c.citations), candidates });
+
+const snippets = ['agreement', 'offer', 'email', 'letter', 'notes', 'notes-v2'].map((name) =>
+  snippet(`s-${name}`, 'Reserved capacity', `doc-${name}`)
+);
+const documents = [
+  {
+    id: 'doc-agreement',
+    name: 'Connection_Agreement.pdf',
+    uploadedAt: '2026-03-01T00:00:00Z',
+    classifications: [{ artifactType: 'GRID_CONNECTION_AGREEMENT_SIGNED', confidence: 0.85, source: 'RULES' }],
+  },
+  {
+    id: 'doc-offer',
+    name: 'Grid_Offer.pdf',
+    uploadedAt: '2026-04-01T00:00:00Z',
+    classifications: [{ artifactType: 'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL', confidence: 0.9, source: 'RULES' }],
+  },
+  { id: 'doc-email', name: 'RE_ capacity.eml', uploadedAt: '2026-05-01T00:00:00Z', classifications: [] },
+  { id: 'doc-letter', name: 'dso-letter.pdf', sourceKind: 'ISSUER_LETTERHEAD', uploadedAt: '2026-05-02T00:00:00Z', classifications: [] },
+  { id: 'doc-notes', name: 'site-notes.docx', uploadedAt: '2026-01-10T00:00:00Z', classifications: [] },
+  { id: 'doc-notes-v2', name: 'site-notes-2.docx', uploadedAt: '2026-02-10T00:00:00Z', classifications: [] },
+];
+
+describe('fact resolution', () => {
+  it('ranks every artifact type', () => {
+    expect([...ARTIFACT_PRECEDENCE].sort()).toEqual([...ArtifactTypeSchema.options].sort());
+  });
+
+  it('prefers the signed agreement over the offer and records the rejected value', () => {
+    const { grid_reserved_mw_firm: resolved } = resolveFactCandidates(
+      {
+        grid_reserved_mw_firm: candidateFact(48, [
+          { value: 48, citations: ['s-offer'] },
+          { value: 40, citations: ['s-agreement'] },
+        ]),
+      },
+      snippets,
+      documents
+    );
+
+    expect(resolved).toMatchObject({ value: 40, citations: ['s-agreement'] });
+    expect(resolved.resolution).toMatchObject({
+      rule: 'EVIDENCE_TIER',
+      override: null,
+      rejected_candidates: [{ value: 48, citations: ['s-offer'], evidence_tier: 'OFFICIAL_UNSIGNED' }],
+    });
+  });
+
+  it('falls back to artifact type, then to the newest document', () => {
+    const resolved = resolveFactCandidates(
+      {
+        // The agreement is not evidence the flex fact expects: it and the operator's
+        // letter tie as unsigned official documents, the e-mail is a seller statement
+        grid_reserved_mw_flex: candidateFact(12, [
+          { value: 12, citations: ['s-email'] },
+          { value: 11, citations: ['s-letter'] },
+          { value: 10, citations: ['s-agreement'] },
+        ]),
+        it_capacity_mw: candidateFact(30, [
+          { value: 30, citations: ['s-notes'] },
+          { value: 32, citations: ['s-notes-v2'] },
+        ]),
+      },
+      snippets,
+      documents
+    );
+
+    expect(resolved.grid_reserved_mw_flex.value).toBe(10);
+    expect(resolved.grid_reserved_mw_flex.resolution).toMatchObject({
+      rule: 'ARTIFACT_PRECEDENCE',
+      detail: 'grid connection agreement signed outranks unclassified document',
+    });
+    expect(resolved.grid_reserved_mw_flex.candidates?.[0]).toMatchObject({ value: 12, evidence_tier: 'SELLER_STATEMENT' });
+    expect(resolved.it_capacity_mw.value).toBe(32);
+    expect(resolved.it_capacity_mw.resolution).toMatchObject({
+      rule: 'DOCUMENT_DATE',
+      detail: expect.stringContaining('dated by its upload'),
+    });
+  });
+
+  it("ranks by the document's own date over its upload time", () => {
+    const resolved = resolveFactCandidates(
+      {
+        it_capacity_mw: candidateFact(30, [
+          { value: 30, citations: ['s-notes'] },
+          { value: 32, citations: ['s-notes-v2'] },
+        ]),
+      },
+      snippets,
+      documents.map((d) =>
+        // the older memo was uploaded later than the newer one
+        d.id === 'doc-notes'
+          ? { ...d, documentDate: '2026-03-12T00:00:00Z', uploadedAt: '2026-04-20T00:00:00Z' }
+          : d.id === 'doc-notes-v2'
+            ? { ...d, documentDate: '2026-02-01T00:00:00Z' }
+            : d
+      )
+    );
+
+    expect(resolved.it_capacity_mw.value).toBe(30);
+    expect(resolved.it_capacity_mw.resolution).toMatchObject({
+      rule: 'DOCUMENT_DATE',
+      detail: 'Newest document (dated 2026-03-12) over one dated 2026-02-01',
+    });
+    expect(resolved.it_capacity_mw.candidates?.[1]).toMatchObject({ value: 32, document_date: '2026-02-01T00:00:00.000Z' });
+  });
+
+  it('applies an analyst override with the reason and the value it replaced', () => {
+    const resolved = resolveFactCandidates(
+      {
+        grid_reserved_mw_firm: candidateFact(48, [
+          { value: 48, citations: ['s-offer'] },
+          { value: 40, citations: ['s-agreement'] },
+        ]),
+      },
+      snippets,
+      documents
+    );
+    const override = {
+      fact_code: 'grid_reserved_mw_firm',
+      value: 48,
+      reason: 'Agreement amendment restores 48 MW',
+      user_id: 'user1',
+      overridden_at: '2026-06-01T00:00:00Z',
+    };
+
+    const { grid_reserved_mw_firm: overridden } = applyFactOverrides(resolved, [override]);
+
+    expect(overridden).toMatchObject({
+      value: 48,
+      citations: ['s-offer'],
+      evidence_tier: 'OFFICIAL_UNSIGNED',
+      source_artifact_types: ['GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL'],
+      resolution: {
+        rule: 'ANALYST_OVERRIDE',
+        rejected_candidates: [expect.objectContaining({ value: 40 })],
+        override: { reason: 'Agreement amendment restores 48 MW', user_id: 'user1', previous_value: 40 },
+      },
+    });
+    expect(() => applyFactOverrides(resolved, [{ ...override, value: 55 }])).toThrow(FactOverrideError);
+  });
+});
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/prisma', () => {
+  const prisma = {
+    fundPolicyVersion: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(async ({ data }: any) => ({ id: 'v-new', createdAt: new Date(), ...data })),
+    },
+    fund: { update: vi.fn() },
+    $transaction: vi.fn((callback: (tx: unknown) => unknown) => callback(prisma)),
+  };
+  return { prisma };
+});
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { FundPolicyValidationError, PRESET_POLICIES } from '../lib/fund-policy';
+import {
+  compareRunAgainstPolicy,
+  recordFundPolicyVersion,
+  resolveFundPolicyAt,
+  toVersionSnapshot,
+} from '../lib/fund-policy-versions';
+import { runScoringPipeline } from '../lib/scoring-engine-v1';
+import { fact } from './helpers';
+
+const mockPrisma = prisma as any;
+
+function version(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'v-1',
+    fundId: 'fund-1',
+    version: '2.0',
+    policy: { ...PRESET_POLICIES.conservative, policy_version: '2.0' },
+    policyPreset: null,
+    effectiveDate: new Date('2026-01-01T00:00:00Z'),
+    changeNote: null,
+    authorId: 'user-1',
+    createdAt: new Date('2025-12-15T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('fund policy versions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('pins the run to the version in force at the run time', async () => {
+    mockPrisma.fundPolicyVersion.findFirst.mockResolvedValue(version());
+    const at = new Date('2026-03-01T00:00:00Z');
+
+    const { snapshot, policyVersionId } = await resolveFundPolicyAt(
+      { id: 'fund-1', policy: null, policyPreset: 'growth' },
+      at
+    );
+
+    expect(mockPrisma.fundPolicyVersion.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { fundId: 'fund-1', effectiveDate: { lte: at } } })
+    );
+    expect(policyVersionId).toBe('v-1');
+    expect(snapshot.policy_version).toBe('2.0');
+    expect(snapshot.effective_date).toBe('2026-01-01');
+  });
+
+  it('falls back to the fund policy when no version is in force', async () => {
+    mockPrisma.fundPolicyVersion.findFirst.mockResolvedValue(null);
+
+    const { snapshot, policyVersionId } = await resolveFundPolicyAt({ id: 'fund-1', policy: null, policyPreset: 'growth' });
+
+    expect(policyVersionId).toBeNull();
+    expect(snapshot.policy_name).toBe('Growth-Oriented');
+  });
+
+  it('refuses to overwrite an existing version', async () => {
+    mockPrisma.fundPolicyVersion.findUnique.mockResolvedValue(version());
+
+    await expect(
+      recordFundPolicyVersion({
+        fundId: 'fund-1',
+        policy: { ...PRESET_POLICIES.conservative, policy_version: '2.0' },
+        policyPreset: null,
+        changeNote: null,
+        authorId: 'user-1',
+      })
+    ).rejects.toThrow(FundPolicyValidationError);
+    expect(mockPrisma.fundPolicyVersion.create).not.toHaveBeenCalled();
+  });
+
+  it('keeps the fund policy as the fallback until a future-dated first version takes effect', async () => {
+    mockPrisma.fundPolicyVersion.findUnique.mockResolvedValue(null);
+    const record = (effective_date: string) =>
+      recordFundPolicyVersion({
+        fundId: 'fund-1',
+        policy: { ...PRESET_POLICIES.growth, policy_version: '2.0', effective_date },
+        policyPreset: null,
+        changeNote: null,
+        authorId: 'user-1',
+      });
+
+    await record('2099-01-01');
+    expect(mockPrisma.fund.update).not.toHaveBeenCalled();
+
+    mockPrisma.fundPolicyVersion.findFirst.mockResolvedValue(null);
+    const { snapshot, policyVersionId } = await resolveFundPolicyAt({ id: 'fund-1', policy: null, policyPreset: 'conservative' });
+    expect(policyVersionId).toBeNull();
+    expect(snapshot.policy_name).toBe(PRESET_POLICIES.conservative.policy_name);
+
+    mockPrisma.fundPolicyVersion.findFirst.mockResolvedValueOnce({ id: 'v-new' });
+    await record('2026-01-01');
+    expect(mockPrisma.fund.update).toHaveBeenCalledWith({
+      where: { id: 'fund-1' },
+      data: { policy: expect.objectContaining({ effective_date: '2026-01-01' }), policyPreset: null },
+    });
+  });
+
+  it('leaves the fund policy alone when a newer version stays in force', async () => {
+    mockPrisma.fundPolicyVersion.findUnique.mockResolvedValue(null);
+    mockPrisma.fundPolicyVersion.findFirst.mockResolvedValueOnce(version({ effectiveDate: new Date('2026-06-01T00:00:00Z') }));
+
+    await recordFundPolicyVersion({
+      fundId: 'fund-1',
+      policy: { ...PRESET_POLICIES.growth, policy_version: '1.5', effective_date: '2026-02-01' },
+      policyPreset: null,
+      changeNote: 'Back-dated correction',
+      authorId: 'user-1',
+    });
+
+    expect(mockPrisma.fundPolicyVersion.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.fund.update).not.toHaveBeenCalled();
+  });
+
+  it('reports a version saved concurrently as already recorded', async () => {
+    mockPrisma.fundPolicyVersion.findUnique.mockResolvedValue(null);
+    mockPrisma.fundPolicyVersion.create.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`fundId`,`version`)', {
+        code: 'P2002',
+        clientVersion: 'test',
+      })
+    );
+
+    await expect(
+      recordFundPolicyVersion({
+        fundId: 'fund-1',
+        policy: { ...PRESET_POLICIES.conservative, policy_version: '2.0' },
+        policyPreset: null,
+        changeNote: null,
+        authorId: 'user-1',
+      })
+    ).rejects.toThrow(FundPolicyValidationError);
+  });
+
+  it('re-scores stored facts under the current version without touching the run', () => {
+    const facts = {
+      grid_title_level_0_5: fact(3),
+      land_control_level_0_4: fact(2),
+      planning_permission_level_0_5: fact(2),
+      grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+    };
+    const growth = toVersionSnapshot(version({ version: '1.0', policy: PRESET_POLICIES.growth }) as any);
+    const scored = runScoringPipeline(facts, growth);
+    const contract: any = {
+      fund_policy_snapshot: growth,
+      deal_evidence: { facts },
+      scoring: { hard_gate_result: scored.hardGateResult, overall: scored.overallScore },
+    };
+
+    const comparison = compareRunAgainstPolicy({ id: 'run-1', createdAt: new Date('2026-03-01T00:00:00Z') }, contract, toVersionSnapshot(version() as any));
+
+    expect(comparison.scored_under).toMatchObject({ policy_version: '1.0', decision: 'GO' });
+    expect(comparison.current).toMatchObject({ policy_version: '2.0', decision: 'NO_GO' });
+    expect(comparison.decision_changed).toBe(true);
+  });
+});
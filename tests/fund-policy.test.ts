@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+import { type FactValue, createDefaultFundPolicy } from '../lib/dd-contract-v1';
+import {
+  DEFAULT_FUND_POLICY,
+  FundPolicy,
+  FundPolicyValidationError,
+  HardGates,
+  PRESET_POLICIES,
+  diffFundPolicies,
+  evaluateHardGates as evaluateFundPolicyGates,
+  resolveFundPolicySnapshot,
+  toFundPolicySnapshot,
+} from '../lib/fund-policy';
+import { evaluateHardGates, generateModuleScorecard, runScoringPipeline } from '../lib/scoring-engine-v1';
+import { fact } from './helpers';
+
+describe('fund policy snapshot mapping', () => {
+  it('maps the conservative preset onto v1 hard gates and weights', () => {
+    const snapshot = toFundPolicySnapshot(PRESET_POLICIES.conservative, 'conservative');
+
+    expect(snapshot.policy_version).toBe('1.0');
+    expect(snapshot.policy_preset).toBe('conservative');
+    expect(snapshot.hard_gates.min_power_title_level).toBe(4);
+    expect(snapshot.hard_gates.min_land_control_level).toBe(3);
+    expect(snapshot.hard_gates.min_planning_level).toBe(3);
+    expect(snapshot.hard_gates.requires_anchor_customer).toBe(true);
+    expect(snapshot.hard_gates.accepts_non_firm_power).toBe(false);
+    expect(snapshot.weights.POWER_GRID).toBeCloseTo(0.35);
+    expect(snapshot.weights.TECH_BUILD).toBeCloseTo(0.1);
+  });
+
+  it('caps flex share at zero when flex connections are rejected', () => {
+    const policy = FundPolicy.parse({ hard_gates: { accept_flex_connection: false, max_flex_share_percent: 40 } });
+    expect(toFundPolicySnapshot(policy).hard_gates.max_flex_share_pct).toBe(0);
+  });
+
+  it('falls back to the preset, then to the default policy', () => {
+    expect(resolveFundPolicySnapshot({ policy: null, policyPreset: 'growth' }).policy_name).toBe('Growth-Oriented');
+    expect(resolveFundPolicySnapshot({ policy: null, policyPreset: null })).toEqual(createDefaultFundPolicy());
+  });
+
+  it('fails loudly when a stored policy does not validate', () => {
+    const invalid = { module_weights: { power_grid: 90, permitting_land: 90, technical: 0, commercial: 0, connectivity: 0, esg: 0 } };
+    expect(() => resolveFundPolicySnapshot({ policy: invalid, policyPreset: null })).toThrow(FundPolicyValidationError);
+    expect(() => resolveFundPolicySnapshot({ policy: null, policyPreset: 'unknown' })).toThrow(FundPolicyValidationError);
+  });
+
+  it('produces different decisions for conservative and growth funds on the same facts', () => {
+    const facts = {
+      grid_title_level_0_5: fact(3),
+      land_control_level_0_4: fact(2),
+      planning_permission_level_0_5: fact(2),
+      grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+    };
+
+    const conservative = evaluateHardGates(facts, toFundPolicySnapshot(PRESET_POLICIES.conservative));
+    const growth = evaluateHardGates(facts, toFundPolicySnapshot(PRESET_POLICIES.growth));
+
+    expect(conservative.decision).toBe('NO_GO');
+    expect(growth.decision).toBe('GO');
+  });
+});
+
+describe('fund policy diff', () => {
+  it('lists changed leaf settings and ignores metadata', () => {
+    const draft = FundPolicy.parse({
+      ...PRESET_POLICIES.growth,
+      policy_name: 'Growth II',
+      hard_gates: { ...PRESET_POLICIES.growth.hard_gates, min_power_title_level: 3 },
+    });
+
+    expect(diffFundPolicies(PRESET_POLICIES.growth, draft)).toEqual([
+      { path: 'hard_gates.min_power_title_level', from: 2, to: 3 },
+    ]);
+    expect(diffFundPolicies(DEFAULT_FUND_POLICY, DEFAULT_FUND_POLICY)).toEqual([]);
+  });
+});
+
+describe('fund policy hard gate enforcement', () => {
+  const groundFacts = {
+    grid_title_level_0_5: fact(4),
+    land_control_level_0_4: fact(3),
+    planning_permission_level_0_5: fact(4),
+    grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+    grid_interruptible_flag: fact(false),
+  };
+
+  it('holds instead of passing when a gate has no evidence', () => {
+    const result = evaluateHardGates(groundFacts, toFundPolicySnapshot(PRESET_POLICIES.esg_focused));
+
+    expect(result.decision).toBe('HOLD');
+    expect(result.gate_checks?.filter((c) => c.status === 'UNKNOWN').map((c) => c.gate)).toEqual([
+      'max_pue',
+      'requires_heat_reuse_plan',
+      'min_renewable_pct',
+    ]);
+  });
+
+  it('does not let a sponsor teaser satisfy a gate the policy wants official evidence for', () => {
+    const snapshot = toFundPolicySnapshot(PRESET_POLICIES.growth);
+    const teaserFacts = {
+      ...groundFacts,
+      grid_title_level_0_5: { ...fact(4), citations: ['snip-teaser'], evidence_tier: 'SELLER_STATEMENT' as const },
+    };
+
+    const gate = (facts: Record<string, FactValue>) =>
+      evaluateHardGates(facts, snapshot).gate_checks?.find((c) => c.gate === 'min_power_title_level');
+    const powerScore = (facts: Record<string, FactValue>) =>
+      generateModuleScorecard(facts, snapshot).find((m) => m.module === 'POWER_GRID')!.score_0_100;
+
+    expect(snapshot.hard_gates).toMatchObject({ min_power_evidence_tier: 'OFFICIAL_UNSIGNED', min_land_evidence_tier: 'OFFICIAL_SIGNED' });
+    expect(gate(groundFacts)?.status).toBe('PASS');
+    expect(gate(teaserFacts)).toMatchObject({ status: 'UNKNOWN', citations: ['snip-teaser'] });
+    expect(gate(teaserFacts)?.reason).toContain('evidenced only at seller statement tier; policy requires official unsigned or better');
+    expect(powerScore(teaserFacts)).toBeLessThan(powerScore(groundFacts));
+  });
+
+  it('fails gates with the citations they relied on', () => {
+    const facts = {
+      ...groundFacts,
+      design_pue_target: { ...fact(1.6), citations: ['snip-pue'] },
+      heat_reuse_plan_confirmed: fact(true),
+      renewable_energy_share_pct: fact(90),
+    };
+
+    const result = evaluateHardGates(facts, toFundPolicySnapshot(PRESET_POLICIES.esg_focused));
+
+    expect(result.decision).toBe('NO_GO');
+    expect(result.reasons).toEqual(['Design PUE 1.6 exceeds maximum 1.4']);
+    expect(result.gating_citations).toEqual(['snip-pue']);
+  });
+
+  it('evaluates every declared FundPolicy gate', () => {
+    const gates = HardGates.parse({
+      require_grid_connection_agreement: true,
+      accept_interruptible_connection: false,
+      max_curtailment_percent: 1,
+      max_queue_wait_months: 12,
+      reject_deep_works_required: true,
+      require_building_permit_granted: true,
+      reject_permit_appeal_risk: true,
+      require_signed_contract: true,
+      min_pre_lease_percent: 50,
+      min_tier_level: 'tier_3',
+      max_pue: 1.3,
+      require_heat_reuse_plan: true,
+      min_renewable_percent: 60,
+      max_energization_months: 24,
+    });
+    const facts = {
+      ...groundFacts,
+      grid_curtailment_cap: fact('50 hours per year'),
+      grid_queue_wait_months: fact(18),
+      grid_deep_works_flag: fact(true),
+      building_permit_status: fact('Granted March 2025'),
+      anchor_customer_stage_0_4: fact(2),
+      prelet_mw: fact(30),
+      it_capacity_mw: fact(40),
+      design_tier_rating: fact('Tier III'),
+      design_pue_target: fact(1.25),
+      heat_reuse_plan_confirmed: fact(true),
+      renewable_energy_share_pct: fact(100),
+      grid_energisation_target: fact('Q4 2028'),
+    };
+
+    const results = evaluateFundPolicyGates(gates, facts, new Date('2026-01-15'));
+    const failed = results.filter((r) => r.status === 'FAIL').map((r) => r.gate);
+
+    expect(failed).toEqual([
+      'max_queue_wait_months',
+      'rejects_deep_works',
+      'max_energisation_months',
+      'min_anchor_customer_stage',
+    ]);
+    expect(results.filter((r) => r.status === 'UNKNOWN')).toEqual([]);
+    expect(results.every((r) => r.passed === (r.status === 'PASS'))).toBe(true);
+    expect(results.find((r) => r.gate === 'max_queue_wait_months')?.citations).toEqual(['snip-1']);
+  });
+
+  it('routes gate checklist items to the gate module', () => {
+    const facts = { ...groundFacts, design_pue_target: fact(1.6), heat_reuse_plan_confirmed: fact(true), renewable_energy_share_pct: fact(90) };
+    const { checklist } = runScoringPipeline(facts, toFundPolicySnapshot(PRESET_POLICIES.esg_focused));
+
+    expect(checklist[0]).toMatchObject({ priority: 'CRITICAL', module: 'TECH_BUILD', gating: true, citations: ['snip-1'] });
+  });
+});
+
+describe('score adjustment ledger', () => {
+  const facts = {
+    grid_title_level_0_5: fact(5),
+    land_control_level_0_4: fact(4),
+    planning_permission_level_0_5: fact(3),
+    grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+    grid_target_import_mw: fact(40),
+    grid_reserved_mw_firm: { ...fact(40), citations: ['snip-firm'] },
+    grid_deep_works_flag: fact(true),
+    anchor_customer_stage_0_4: fact(3),
+  };
+
+  it('itemises policy bonuses and penalties and applies them to the base score', () => {
+    const { overallScore } = runScoringPipeline(facts, createDefaultFundPolicy(), {
+      contradictions: [
+        {
+          fact_code: 'grid_reserved_mw_firm',
+          severity: 'HIGH',
+          description: 'Firm MW differs between offer and model',
+          conflicting_candidates: [
+            { value: 40, citations: ['snip-firm'] },
+            { value: 32, citations: ['snip-model'] },
+          ],
+        },
+      ],
+    });
+
+    expect(overallScore.adjustments?.map((a) => [a.name, a.points])).toEqual([
+      ['bonus_firm_power', 10],
+      ['penalty_deep_works_required', -10],
+      ['penalty_permit_appeal_risk', -10],
+      ['bonus_anchor_tenant_signed', 15],
+      ['contradiction_penalty', -20],
+    ]);
+    expect(overallScore.adjustments?.[0].citations).toEqual(['snip-firm', 'snip-1']);
+    expect(overallScore.adjustments?.[4].citations).toEqual(['snip-firm', 'snip-model']);
+    expect(overallScore.score_0_100).toBe(Math.max(0, overallScore.base_score_0_100! - 15));
+  });
+
+  it('earns no bonus on a fact its citations do not state or below the policy evidence tier', () => {
+    const unconfirmed = runScoringPipeline(
+      { ...facts, grid_reserved_mw_firm: fact(40, { evidence_tier: 'NONE' }) },
+      createDefaultFundPolicy()
+    ).overallScore;
+    expect(unconfirmed.adjustments?.some((a) => a.name === 'bonus_firm_power')).toBe(false);
+
+    const policy = createDefaultFundPolicy();
+    const belowTier = runScoringPipeline(
+      { ...facts, grid_reserved_mw_firm: fact(40, { evidence_tier: 'OFFICIAL_UNSIGNED' }) },
+      { ...policy, hard_gates: { ...policy.hard_gates, min_power_evidence_tier: 'OFFICIAL_SIGNED' } }
+    ).overallScore;
+    expect(belowTier.adjustments?.some((a) => a.name === 'bonus_firm_power')).toBe(false);
+  });
+
+  it('uses the fund policy point values and skips snapshots without adjustments', () => {
+    const policy = FundPolicy.parse({ scoring_adjustments: { bonus_anchor_tenant_signed: 4, penalty_deep_works_required: 0 } });
+    const { overallScore } = runScoringPipeline(facts, toFundPolicySnapshot(policy));
+
+    expect(overallScore.adjustments?.find((a) => a.name === 'bonus_anchor_tenant_signed')?.points).toBe(4);
+    expect(overallScore.adjustments?.some((a) => a.name === 'penalty_deep_works_required')).toBe(false);
+
+    const { scoring_adjustments: _omitted, ...legacySnapshot } = createDefaultFundPolicy();
+    const legacy = runScoringPipeline(facts, legacySnapshot).overallScore;
+    expect(legacy.adjustments).toEqual([]);
+    expect(legacy.score_0_100).toBe(legacy.base_score_0_100);
+  });
+});
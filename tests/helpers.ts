@@ -0,0 +1,30 @@
+import type { EvidenceSnippet, FactValue } from '../lib/dd-contract-v1';
+
+/**
+ * A cited fact at the OFFICIAL_SIGNED tier, which meets every preset's minimum
+ */
+export function fact(value: FactValue['value'], overrides: Partial<FactValue> = {}): FactValue {
+  return {
+    value,
+    unit: null,
+    citations: ['snip-1'],
+    evidence_tier: 'OFFICIAL_SIGNED',
+    source_artifact_types: [],
+    notes: null,
+    ...overrides,
+  };
+}
+
+/**
+ * A retrieved snippet, optionally from an uploaded document
+ */
+export function snippet(id: string, text: string, documentId: string | null = null): EvidenceSnippet {
+  return {
+    snippet_id: id,
+    text,
+    source: { deal_document_id: documentId, file_name: documentId ? null : `${id}.pdf`, page_number: documentId ? 1 : null },
+    retrieval: { query: 'grid', score: 0.8 },
+    openai: { vector_store_id: null, file_id: null },
+    metadata: null,
+  };
+}
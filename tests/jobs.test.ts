@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/openai', () => ({
+  openai: {
+    responses: { create: vi.fn(), parse: vi.fn() },
+    vectorStores: { search: vi.fn() },
+  },
+  getModelInfo: () => ({ model: 'test-model', reasoningEffort: null }),
+}));
+
+vi.mock('../lib/prisma', () => ({
+  prisma: {
+    job: { findFirst: vi.fn(), findMany: vi.fn(), updateMany: vi.fn(), update: vi.fn() },
+    dealDocument: { updateMany: vi.fn() },
+    analysisRun: { create: vi.fn(), findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('../lib/analysis-pipeline-v1', () => ({ runAnalysisPipelineV1: vi.fn() }));
+
+import { runAnalysisPipelineV1 } from '../lib/analysis-pipeline-v1';
+import { CountryPackValidationError } from '../lib/country-pack-scoring';
+import { processJob, recoverStaleJobs } from '../lib/job-worker';
+import { claimNextJob, retryDelayMs, retryOrFailJob } from '../lib/jobs';
+import { prisma } from '../lib/prisma';
+
+const mockPrisma = prisma as any;
+
+function job(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: 'job-1',
+    type: 'ANALYSIS_RUN',
+    status: 'RUNNING',
+    stage: 'queued',
+    payload: { organizationId: 'org1', includeMarketContext: false, includeMarketResearch: false, useV1: true, policyVersionId: 'pv1' },
+    result: null,
+    error: null,
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: new Date(),
+    dealId: 'deal1',
+    createdById: 'user1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function lastJobUpdate() {
+  return mockPrisma.job.update.mock.calls[mockPrisma.job.update.mock.calls.length - 1][0].data;
+}
+
+describe('job queue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('claims the next due job and skips one taken by another worker', async () => {
+    mockPrisma.job.findFirst.mockResolvedValueOnce(job({ id: 'job-a', status: 'QUEUED', attempts: 0 }));
+    mockPrisma.job.findFirst.mockResolvedValueOnce(job({ id: 'job-b', status: 'QUEUED', attempts: 0 }));
+    mockPrisma.job.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+    const claimed = await claimNextJob('worker-1');
+
+    expect(claimed).toMatchObject({ id: 'job-b', status: 'RUNNING', lockedBy: 'worker-1', attempts: 1 });
+    expect(mockPrisma.job.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'job-b', status: 'QUEUED' },
+      data: expect.objectContaining({ status: 'RUNNING', lockedBy: 'worker-1', attempts: { increment: 1 } }),
+    });
+  });
+
+  it('backs off exponentially and fails once attempts are exhausted', async () => {
+    expect([1, 2, 3, 10].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 900_000]);
+
+    expect(await retryOrFailJob(job({ attempts: 2 }), new Error('timeout'))).toBe('retrying');
+    expect(lastJobUpdate()).toMatchObject({ status: 'QUEUED', stage: 'queued', error: 'timeout' });
+    expect(lastJobUpdate().runAt.getTime()).toBeGreaterThanOrEqual(Date.now() + 59_000);
+
+    expect(await retryOrFailJob(job({ attempts: 3 }), new Error('timeout'))).toBe('failed');
+    expect(lastJobUpdate()).toMatchObject({ status: 'FAILED', stage: 'failed', error: 'timeout' });
+  });
+});
+
+describe('job worker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports analysis stages and stores the run id', async () => {
+    vi.mocked(runAnalysisPipelineV1).mockImplementation(async ({ onStage }: any) => {
+      for (const stage of ['retrieving', 'extracting', 'scoring']) await onStage(stage);
+      return {
+        runId: 'run-1',
+        ddContract: {
+          contract_version: '1.0.0',
+          scoring: { hard_gate_result: { decision: 'GO' }, overall: { score_0_100: 72 } },
+          fund_policy_snapshot: { policy_version: '2' },
+        },
+      } as any;
+    });
+
+    await processJob(job());
+
+    expect(runAnalysisPipelineV1).toHaveBeenCalledWith(
+      expect.objectContaining({ dealId: 'deal1', userId: 'user1', organizationId: 'org1', policyVersionId: 'pv1', jobId: 'job-1' })
+    );
+    expect(mockPrisma.job.update.mock.calls.map(([{ data }]: any) => data.stage)).toEqual([
+      'retrieving',
+      'extracting',
+      'scoring',
+      'done',
+    ]);
+    expect(lastJobUpdate()).toMatchObject({
+      status: 'SUCCEEDED',
+      result: { run_id: 'run-1', hard_gate_decision: 'GO', overall_score: 72, fund_policy_version: '2' },
+    });
+  });
+
+  it('reports the run an earlier attempt stored instead of creating another', async () => {
+    mockPrisma.analysisRun.findUnique.mockResolvedValueOnce({
+      id: 'run-1',
+      jobId: 'job-1',
+      ddOntology: {
+        contract_version: '1.0.0',
+        scoring: { hard_gate_result: { decision: 'HOLD' }, overall: { score_0_100: 55 } },
+        fund_policy_snapshot: { policy_version: '2' },
+      },
+    });
+
+    await processJob(job({ attempts: 2 }));
+
+    expect(mockPrisma.analysisRun.findUnique).toHaveBeenCalledWith({ where: { jobId: 'job-1' } });
+    expect(runAnalysisPipelineV1).not.toHaveBeenCalled();
+    expect(lastJobUpdate()).toMatchObject({ status: 'SUCCEEDED', result: { run_id: 'run-1', hard_gate_decision: 'HOLD' } });
+  });
+
+  it('fails invalid configuration at once and records a failed run', async () => {
+    vi.mocked(runAnalysisPipelineV1).mockRejectedValue(
+      new CountryPackValidationError('Invalid overrides', ['gates.max_flex_share_pct: Expected number'])
+    );
+
+    await processJob(job());
+
+    expect(lastJobUpdate()).toMatchObject({
+      status: 'FAILED',
+      error: 'Invalid country pack overrides: gates.max_flex_share_pct: Expected number',
+    });
+    expect(mockPrisma.analysisRun.create.mock.calls[0][0].data).toMatchObject({
+      dealId: 'deal1',
+      status: 'FAILED',
+      errorMessage: 'Invalid country pack overrides: gates.max_flex_share_pct: Expected number',
+    });
+  });
+
+  it('marks the document failed when a dead worker left its last attempt running', async () => {
+    mockPrisma.job.findMany.mockResolvedValue([
+      job({ type: 'INGEST_DOCUMENT', payload: { documentId: 'doc-1' }, attempts: 3, lockedAt: new Date(0) }),
+    ]);
+
+    expect(await recoverStaleJobs()).toBe(1);
+
+    expect(lastJobUpdate()).toMatchObject({ status: 'FAILED', error: 'Worker stopped before the job finished' });
+    expect(mockPrisma.dealDocument.updateMany).toHaveBeenCalledWith({ where: { id: 'doc-1' }, data: { openaiStatus: 'failed' } });
+  });
+});
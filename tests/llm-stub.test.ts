@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+process.env.LLM_PROVIDER = 'stub';
+
+vi.mock('../lib/prisma', () => {
+  const prisma = {
+    deal: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: 'deal1',
+        name: 'Villejust Campus',
+        country: 'FR',
+        city: 'Villejust',
+        productType: 'Hyperscale',
+        type: 'GREENFIELD',
+        fundId: 'fund1',
+        documents: [
+          {
+            id: 'doc-grid',
+            name: 'rte_connection_offer.txt',
+            path: '/uploads/rte.txt',
+            openaiFileId: 'stub-file-grid-offer',
+            uploadedAt: new Date('2026-05-01T00:00:00Z'),
+          },
+        ],
+        fund: {
+          organizationId: 'org1',
+          organization: { countryPacks: [{ id: 'pack1', countryCode: 'FR', allowedDomains: ['cre.fr'], useLibraryData: true, scoringOverrides: null }] },
+        },
+        openaiVectorStoreId: 'stub-vs-deal1',
+      }),
+    },
+    analysisRun: { create: vi.fn(async ({ data }: any) => ({ id: 'run-1', ...data })) },
+    analysisEvidenceSnippet: { createMany: vi.fn(async ({ data }: any) => ({ count: data.length })) },
+    auditLog: { create: vi.fn().mockResolvedValue({ id: 'audit1' }) },
+    factOverride: { findMany: vi.fn().mockResolvedValue([]), update: vi.fn() },
+    $transaction: vi.fn((persist: (tx: unknown) => unknown) => persist(prisma)),
+  };
+  return { prisma };
+});
+
+vi.mock('../lib/storage', () => ({ readStoredFile: vi.fn() }));
+
+import { runAnalysisPipelineV1 } from '../lib/analysis-pipeline-v1';
+import { getLLMProvider } from '../lib/llm-provider';
+import { prisma } from '../lib/prisma';
+import { readStoredFile } from '../lib/storage';
+
+const [gridOffer] = JSON.parse(fs.readFileSync(path.join(__dirname, '../fixtures/llm-stub/snippets.json'), 'utf8'));
+const COVER_LETTER = 'RTE cover letter\n\n';
+
+describe('stub LLM provider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(readStoredFile).mockResolvedValue(Buffer.from(`${COVER_LETTER}${gridOffer.text}`));
+  });
+
+  it('runs the v1 pipeline offline with cited fixture facts', async () => {
+    const { runId, ddContract: contract } = await runAnalysisPipelineV1({
+      dealId: 'deal1',
+      userId: 'user1',
+      organizationId: 'org1',
+      includeMarketContext: true,
+    });
+
+    const { facts, evidence_snippets } = contract.deal_evidence;
+    const snippetIds = new Set(evidence_snippets.map((s) => s.snippet_id));
+    expect(runId).toBe('run-1');
+    expect(contract.run_meta.model_used).toBe('stub');
+    expect(facts.grid_reserved_mw_firm.value).toBe(40);
+    expect(facts.grid_reserved_mw_firm.citations.length).toBeGreaterThan(0);
+    expect(facts.grid_reserved_mw_firm.citations.every((c) => snippetIds.has(c))).toBe(true);
+    expect(facts.prelet_mw.value).toBeNull();
+    // Every cited snippet agrees with the extracted values
+    expect(facts.grid_reserved_mw_firm.candidates).toEqual([
+      expect.objectContaining({ value: 40, citations: facts.grid_reserved_mw_firm.citations }),
+    ]);
+    expect(facts.grid_reserved_mw_firm.resolution).toMatchObject({ rule: 'SINGLE_CANDIDATE', rejected_candidates: [] });
+    expect(contract.deal_evidence.contradictions).toEqual([]);
+    expect(contract.market_context).toMatchObject({ status: 'COMPLETED', sources: ['https://cre.fr/'] });
+
+    const { ddContract: again } = await runAnalysisPipelineV1({ dealId: 'deal1', userId: 'user1', organizationId: 'org1' });
+    expect(again.deal_evidence.facts).toEqual(facts);
+  });
+
+  it('maps provider snippets to their deal document and character span', async () => {
+    const { ddContract: contract } = await runAnalysisPipelineV1({ dealId: 'deal1', userId: 'user1', organizationId: 'org1' });
+
+    const snippets = contract.deal_evidence.evidence_snippets;
+    const grid = snippets.find((s) => s.openai.file_id === 'stub-file-grid-offer')!;
+    expect(grid.source).toEqual({
+      deal_document_id: 'doc-grid',
+      file_name: 'rte_connection_offer.txt',
+      page_number: 1,
+      char_start: COVER_LETTER.length,
+      char_end: COVER_LETTER.length + gridOffer.text.length,
+    });
+    expect(snippets.find((s) => s.openai.file_id === 'stub-file-planning')!.source.deal_document_id).toBeNull();
+    expect(readStoredFile).toHaveBeenCalledTimes(1);
+
+    const persisted = (prisma.analysisEvidenceSnippet.createMany as any).mock.calls[0][0].data;
+    expect(persisted.find((s: any) => s.snippetId === grid.snippet_id)).toMatchObject({
+      fileId: 'doc-grid',
+      pageNumber: 1,
+      charStart: COVER_LETTER.length,
+    });
+  });
+
+  it('carries analyst overrides forward and flags those newer documents contradict', async () => {
+    const override = (factCode: string, value: unknown, updatedAt: string) => ({
+      id: `ov-${factCode}`,
+      dealId: 'deal1',
+      factCode,
+      value,
+      justification: 'Seller call notes',
+      documentId: null,
+      pageNumber: null,
+      document: null,
+      status: 'ACTIVE',
+      createdById: 'user2',
+      updatedAt: new Date(updatedAt),
+    });
+    vi.mocked(prisma.factOverride.findMany).mockResolvedValueOnce([
+      // Set before the grid offer was uploaded, which gives 40 MW
+      override('grid_reserved_mw_firm', 45, '2026-04-01T00:00:00Z'),
+      override('prelet_mw', 12, '2026-04-01T00:00:00Z'),
+    ] as any);
+
+    const { ddContract: contract } = await runAnalysisPipelineV1({ dealId: 'deal1', userId: 'user1', organizationId: 'org1' });
+
+    const { facts, contradictions } = contract.deal_evidence;
+    expect(facts.prelet_mw).toMatchObject({ value: 12, evidence_tier: 'ANALYST_ASSERTED', notes: 'Seller call notes' });
+    expect(facts.grid_reserved_mw_firm.value).toBe(40);
+    expect(contradictions).toEqual([expect.objectContaining({ fact_code: 'grid_reserved_mw_firm', severity: 'HIGH' })]);
+    expect(prisma.factOverride.update).toHaveBeenCalledWith({
+      where: { id: 'ov-grid_reserved_mw_firm' },
+      data: expect.objectContaining({ status: 'FLAGGED', flaggedRunId: 'run-1' }),
+    });
+  });
+
+  it('searches files ingested during the session', async () => {
+    const llm = await getLLMProvider();
+    const collectionId = await llm.createCollection('deal-ingest');
+    const fileId = await llm.uploadFile({
+      buffer: Buffer.from('Fibre: two carriers on diverse routes into the campus.'),
+      fileName: 'fibre.txt',
+      mimeType: 'text/plain',
+    });
+
+    expect(await llm.indexFile(collectionId, fileId)).toBe('indexed');
+    const hits = await llm.search(collectionId, 'diverse fibre routes carriers', 5);
+    expect(hits[0]).toMatchObject({ file_id: fileId, filename: 'fibre.txt', score: 1 });
+  });
+});
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Document, Page, Text, renderToBuffer } from '@react-pdf/renderer';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/prisma', () => ({
+  prisma: {
+    documentChunk: { findMany: vi.fn(), deleteMany: vi.fn(), createMany: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+import { LOCAL_EMBEDDING_MODEL, chunkText, createLocalIndexSearch, embedText, indexDocumentLocally } from '../lib/local-index';
+import { prisma } from '../lib/prisma';
+import { extractDocumentText, locateTextInPages } from '../lib/text-extraction';
+
+const mockPrisma = prisma as any;
+
+function storedChunk(id: string, documentId: string, name: string, text: string) {
+  return {
+    id,
+    documentId,
+    dealId: 'deal1',
+    chunkIndex: 0,
+    text,
+    embedding: embedText(text),
+    embeddingModel: LOCAL_EMBEDDING_MODEL,
+    document: { name },
+  };
+}
+
+describe('local vector index', () => {
+  it('packs paragraphs into chunks without crossing pages', () => {
+    const longParagraph = 'Reserved capacity '.repeat(100).trim();
+    const chunks = chunkText(['Grid offer.\n\nFirm 40 MW.', `${longParagraph}\n\nAppendix`]);
+
+    expect(chunks[0]).toBe('Grid offer.\n\nFirm 40 MW.');
+    expect(chunks.slice(1).every((c) => c.length <= 1200)).toBe(true);
+    expect(chunks[chunks.length - 1].endsWith('Appendix')).toBe(true);
+  });
+
+  it('replaces chunks with local embeddings and their page span in one transaction', async () => {
+    const count = await indexDocumentLocally({ documentId: 'doc1', dealId: 'deal1', pages: ['Cover', 'One.\n\n  Two.'] });
+
+    expect(count).toBe(2);
+    expect(mockPrisma.$transaction.mock.calls[0][0]).toHaveLength(2);
+    expect(mockPrisma.documentChunk.deleteMany).toHaveBeenCalledWith({ where: { documentId: 'doc1' } });
+    const [, row] = mockPrisma.documentChunk.createMany.mock.calls[0][0].data;
+    expect(row).toMatchObject({
+      documentId: 'doc1',
+      dealId: 'deal1',
+      chunkIndex: 1,
+      pageNumber: 2,
+      charStart: 0,
+      charEnd: 12,
+      embeddingModel: LOCAL_EMBEDDING_MODEL,
+    });
+    expect(row.embedding).toHaveLength(256);
+  });
+
+  it('locates snippets in page text despite whitespace differences', () => {
+    const pages = ['Cover page', 'Heads of terms.\nFirm   40 MW\nreserved at 110 kV.'];
+
+    expect(locateTextInPages(pages, 'Firm 40 MW reserved')).toEqual({ page_number: 2, char_start: 16, char_end: 37 });
+    expect(locateTextInPages(pages, 'Not in the dataroom')).toBeNull();
+  });
+
+  it('ranks chunks by keyword and embedding similarity', async () => {
+    mockPrisma.documentChunk.findMany.mockResolvedValue([
+      storedChunk('c1', 'doc-lease', 'lease.pdf', 'Lease of the plot for 25 years with an option to extend.'),
+      storedChunk('c2', 'doc-grid', 'grid.pdf', 'The grid connection agreement reserves 40 MW of firm capacity at 110 kV.'),
+      storedChunk('c3', 'doc-grid', 'grid.pdf', 'Connection works are scheduled after the grid operator confirms capacity.'),
+    ]);
+
+    const search = await createLocalIndexSearch('deal1');
+    const hits = search('grid connection agreement reserved capacity', 5);
+
+    expect(hits.map((h) => h.chunks[0].slice(0, 30))).toEqual([
+      'The grid connection agreement ',
+      'Connection works are scheduled',
+    ]);
+    expect(hits[0]).toMatchObject({ file_id: 'doc-grid', filename: 'grid.pdf', attributes: { retrieval_backend: 'local' } });
+    expect(hits[0].score).toBeGreaterThan(hits[1].score!);
+    expect(search('lease of the plot', 5)[0].file_id).toBe('doc-lease');
+    expect(mockPrisma.documentChunk.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves superseded document versions out of the search unless asked', async () => {
+    mockPrisma.documentChunk.findMany.mockReset().mockResolvedValue([]);
+
+    expect((await createLocalIndexSearch('deal1'))('grid offer', 5)).toEqual([]);
+    await createLocalIndexSearch('deal1', { includeSuperseded: true });
+
+    expect(mockPrisma.documentChunk.findMany.mock.calls[0][0].where).toEqual({ dealId: 'deal1', document: { supersededAt: null } });
+    expect(mockPrisma.documentChunk.findMany.mock.calls[1][0].where).toEqual({ dealId: 'deal1' });
+  });
+
+  it('extracts PDF text page by page', async () => {
+    const page = (text: string) => React.createElement(Page, null, React.createElement(Text, null, text));
+    const buffer = await renderToBuffer(React.createElement(Document, null, page('Grid offer 40 MW'), page('Permit granted')));
+
+    expect(await extractDocumentText(buffer, 'dataroom.pdf')).toEqual({
+      text: 'Grid offer 40 MW\n\nPermit granted',
+      pages: ['Grid offer 40 MW', 'Permit granted'],
+      ocrPages: [],
+    });
+    expect(await extractDocumentText(Buffer.from('x'), 'legacy.doc')).toBeNull();
+  });
+});
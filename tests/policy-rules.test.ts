@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultFundPolicy } from '../lib/dd-contract-v1';
+import { FundPolicy, formatFundPolicyIssues } from '../lib/fund-policy';
+import { RuleSyntaxError, evaluateRuleCondition, parseRuleCondition } from '../lib/policy-rules';
+import { runScoringPipeline } from '../lib/scoring-engine-v1';
+import { fact } from './helpers';
+
+const FIRM_SHORTFALL = 'grid_reserved_mw_firm < 0.8 * grid_target_import_mw and grid_deep_works_flag';
+
+describe('custom rule conditions', () => {
+  it('evaluates arithmetic and boolean facts with the citations used', () => {
+    const condition = parseRuleCondition(FIRM_SHORTFALL);
+    const facts = {
+      grid_reserved_mw_firm: fact(30, { citations: ['snip-firm'] }),
+      grid_target_import_mw: fact(50, { citations: ['snip-target'] }),
+      grid_deep_works_flag: fact(true, { citations: ['snip-deep'] }),
+    };
+
+    expect(evaluateRuleCondition(condition, facts)).toEqual({
+      value: true,
+      fact_codes: ['grid_reserved_mw_firm', 'grid_target_import_mw', 'grid_deep_works_flag'],
+      missing_fact_codes: [],
+      citations: ['snip-firm', 'snip-target', 'snip-deep'],
+    });
+  });
+
+  it('is unknown only when a missing fact decides the outcome', () => {
+    const condition = parseRuleCondition(FIRM_SHORTFALL);
+
+    const undecided = evaluateRuleCondition(condition, { grid_deep_works_flag: fact(true) });
+    expect(undecided.value).toBeNull();
+    expect(undecided.missing_fact_codes).toEqual(['grid_reserved_mw_firm', 'grid_target_import_mw']);
+
+    expect(evaluateRuleCondition(condition, { grid_deep_works_flag: fact(false) }).value).toBe(false);
+  });
+
+  it('rejects unknown facts, type mismatches and C-style operators with helpful messages', () => {
+    const messageFor = (source: string) => {
+      try {
+        parseRuleCondition(source);
+      } catch (err) {
+        expect(err).toBeInstanceOf(RuleSyntaxError);
+        return (err as Error).message;
+      }
+      return null;
+    };
+
+    expect(messageFor('grid_reserved_mw > 10')).toBe(
+      "Unknown fact code 'grid_reserved_mw' at position 0 - did you mean 'grid_reserved_mw_firm'?"
+    );
+    expect(messageFor('grid_deep_works_flag && grid_interruptible_flag')).toBe(
+      "Unexpected '&&' at position 21 - use 'and' instead of '&&'"
+    );
+    expect(messageFor('grid_deep_works_flag > 1')).toBe("'>' needs a number, but 'grid_deep_works_flag' is a boolean");
+    expect(messageFor('grid_target_import_mw * 2')).toMatch(/must be true or false/);
+    expect(messageFor('(grid_deep_works_flag')).toBe("Expected ')' at position 21 to close '(' at position 0");
+  });
+
+  it('reports invalid conditions as policy validation issues', () => {
+    const parsed = FundPolicy.safeParse({
+      custom_rules: [{ name: 'Shortfall', condition: 'grid_firm < 10', action: 'penalty', value: null }],
+    });
+
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+    expect(formatFundPolicyIssues(parsed.error)).toEqual([
+      "custom_rules.0.condition: Unknown fact code 'grid_firm' at position 0",
+      'custom_rules.0.value: A penalty rule needs a points value',
+    ]);
+  });
+});
+
+describe('custom rules in the scoring pipeline', () => {
+  const baseFacts = {
+    grid_title_level_0_5: fact(4),
+    land_control_level_0_4: fact(3),
+    planning_permission_level_0_5: fact(4),
+    grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+  };
+
+  it('rejects with the rule reason and citations like a built-in gate', () => {
+    const policy = {
+      ...createDefaultFundPolicy(),
+      custom_rules: [{ name: 'Firm shortfall', condition: FIRM_SHORTFALL, action: 'reject' as const, value: null }],
+    };
+    const facts = {
+      ...baseFacts,
+      grid_reserved_mw_firm: fact(30, { citations: ['snip-firm'] }),
+      grid_target_import_mw: fact(50, { citations: ['snip-target'] }),
+      grid_deep_works_flag: fact(true, { citations: ['snip-deep'] }),
+    };
+
+    const { hardGateResult, customRules } = runScoringPipeline(facts, policy);
+
+    expect(hardGateResult.decision).toBe('NO_GO');
+    expect(hardGateResult.reasons).toEqual([`Custom rule "Firm shortfall" rejects deal: ${FIRM_SHORTFALL}`]);
+    expect(hardGateResult.gating_citations).toEqual(['snip-firm', 'snip-target', 'snip-deep']);
+    expect(customRules[0].status).toBe('TRIGGERED');
+
+    const unknown = runScoringPipeline(baseFacts, policy).hardGateResult;
+    expect(unknown.decision).toBe('HOLD');
+  });
+
+  it('applies bonus and penalty points and checklists flags', () => {
+    const policy = {
+      ...createDefaultFundPolicy(),
+      custom_rules: [
+        { name: 'Dense site', condition: 'grid_target_import_mw >= 40', action: 'bonus' as const, value: 5 },
+        { name: 'Deep works', condition: 'grid_deep_works_flag', action: 'penalty' as const, value: 8 },
+        { name: 'Queue', condition: 'grid_queue_wait_months > 12', action: 'flag' as const, value: null },
+      ],
+    };
+    const facts = {
+      ...baseFacts,
+      grid_target_import_mw: fact(48),
+      grid_deep_works_flag: fact(true),
+      grid_queue_wait_months: fact(20),
+    };
+
+    const withRules = runScoringPipeline(facts, policy);
+
+    expect(withRules.customRules.map((r) => r.points)).toEqual([5, -8, null]);
+    expect(
+      withRules.overallScore.adjustments?.filter((a) => a.source === 'CUSTOM_RULE').map((a) => [a.name, a.points])
+    ).toEqual([
+      ['Dense site', 5],
+      ['Deep works', -8],
+    ]);
+    expect(withRules.checklist.find((item) => item.why === 'Flagged by a fund custom rule')).toMatchObject({
+      priority: 'HIGH',
+      module: 'POWER_GRID',
+      question: 'Review: Custom rule "Queue" flagged: grid_queue_wait_months > 12',
+    });
+  });
+
+  it('holds rather than rejects on a fact its citations do not state', () => {
+    const policy = {
+      ...createDefaultFundPolicy(),
+      custom_rules: [{ name: 'Firm shortfall', condition: FIRM_SHORTFALL, action: 'reject' as const, value: null }],
+    };
+    const facts = {
+      ...baseFacts,
+      grid_reserved_mw_firm: fact(30, { evidence_tier: 'NONE' }),
+      grid_target_import_mw: fact(50),
+      grid_deep_works_flag: fact(true),
+    };
+
+    const { hardGateResult, customRules } = runScoringPipeline(facts, policy);
+
+    expect(customRules[0]).toMatchObject({ status: 'UNKNOWN' });
+    expect(customRules[0].reason).toContain("grid_reserved_mw_firm not confirmed at the policy's evidence tier");
+    expect(hardGateResult.decision).toBe('HOLD');
+  });
+
+  it('adds no bonus from a fact its citations do not state', () => {
+    const policy = {
+      ...createDefaultFundPolicy(),
+      custom_rules: [{ name: 'Dense site', condition: 'grid_target_import_mw >= 40', action: 'bonus' as const, value: 5 }],
+    };
+
+    const [rule] = runScoringPipeline({ ...baseFacts, grid_target_import_mw: fact(48, { evidence_tier: 'NONE' }) }, policy).customRules;
+
+    expect(rule).toMatchObject({ status: 'UNKNOWN', points: null });
+    expect(rule.reason).toContain("grid_target_import_mw not confirmed at the policy's evidence tier");
+  });
+});
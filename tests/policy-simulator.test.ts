@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { PRESET_POLICIES, toFundPolicySnapshot } from '../lib/fund-policy';
+import { simulatePolicyChange, summarizeSimulation } from '../lib/policy-simulator';
+import { fact } from './helpers';
+
+const baseFacts = {
+  grid_title_level_0_5: fact(3),
+  land_control_level_0_4: fact(2),
+  planning_permission_level_0_5: fact(2),
+  grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+};
+
+const inputs = [
+  { dealId: 'd1', dealName: 'Alpha', runId: 'r1', runCreatedAt: '2026-01-01T00:00:00Z', facts: baseFacts },
+  {
+    dealId: 'd2',
+    dealName: 'Beta',
+    runId: 'r2',
+    runCreatedAt: '2026-01-02T00:00:00Z',
+    facts: { ...baseFacts, grid_title_level_0_5: fact(5), land_control_level_0_4: fact(4), planning_permission_level_0_5: fact(5) },
+  },
+];
+
+describe('policy simulator', () => {
+  it('flags deals whose decision flips and names the gate that caused it', () => {
+    const live = toFundPolicySnapshot(PRESET_POLICIES.growth);
+    const draft = { ...live, hard_gates: { ...live.hard_gates, min_power_title_level: 4 } };
+
+    const rows = simulatePolicyChange(inputs, live, draft);
+
+    expect(rows[0]).toMatchObject({ dealId: 'd1', flipped: true });
+    expect(rows[0].live.decision).toBe('GO');
+    expect(rows[0].draft.decision).toBe('NO_GO');
+    expect(rows[0].flip_reasons).toEqual(['Grid title level 3 below minimum 4']);
+    expect(rows[1].flipped).toBe(false);
+    expect(summarizeSimulation(rows)).toEqual({ deals: 2, flipped: 1, tightened: 1, loosened: 0 });
+  });
+
+  it('reports cleared gates when the draft loosens the policy', () => {
+    const live = toFundPolicySnapshot(PRESET_POLICIES.conservative);
+    const draft = toFundPolicySnapshot(PRESET_POLICIES.growth);
+
+    const [alpha] = simulatePolicyChange(inputs, live, draft);
+
+    expect(alpha.draft.decision).toBe('GO');
+    expect(alpha.flip_reasons.every((reason) => reason.startsWith('Cleared: '))).toBe(true);
+    expect(alpha.flip_reasons.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/openai', () => ({
+  openai: {
+    vectorStores: { search: vi.fn() },
+    responses: { create: vi.fn(), parse: vi.fn() },
+  },
+  OPENAI_MODEL: 'test-model',
+  getOpenAIReasoning: () => undefined,
+  getModelInfo: () => ({ model: 'test-model', reasoningEffort: null }),
+}));
+
+vi.mock('../lib/prisma', () => {
+  const prisma = {
+    analysisRun: {
+      findUnique: vi.fn(),
+      create: vi.fn(async ({ data }: any) => ({ id: 'run-child', createdAt: new Date(), ...data })),
+    },
+    analysisEvidenceSnippet: { createMany: vi.fn(async ({ data }: any) => ({ count: data.length })) },
+    auditLog: { create: vi.fn().mockResolvedValue({ id: 'audit1' }) },
+    $transaction: vi.fn((callback: (tx: unknown) => unknown) => callback(prisma)),
+  };
+  return { prisma };
+});
+
+import { rescoreAnalysisRunV1 } from '../lib/analysis-pipeline-v1';
+import { toFundPolicySnapshot, PRESET_POLICIES } from '../lib/fund-policy';
+import { openai } from '../lib/openai';
+import { prisma } from '../lib/prisma';
+import { runScoringPipeline } from '../lib/scoring-engine-v1';
+import { fact } from './helpers';
+
+const mockPrisma = prisma as any;
+
+function parentRun() {
+  const facts = {
+    grid_title_level_0_5: fact(3),
+    land_control_level_0_4: fact(2),
+    planning_permission_level_0_5: fact(2),
+    grid_next_milestone_or_expiry_date: fact('2026-06-30'),
+  };
+  const policy = toFundPolicySnapshot(PRESET_POLICIES.growth);
+  const scoring = runScoringPipeline(facts, policy);
+  return {
+    id: 'run-parent',
+    dealId: 'deal1',
+    status: 'SUCCESS',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    modelUsed: 'test-model',
+    reasoningEffort: null,
+    marketResearch: null,
+    marketResearchIncluded: false,
+    deal: { country: 'FR', fund: { organizationId: 'org1', organization: { countryPacks: [] } } },
+    evidenceSnippets: [
+      { id: 's1', analysisRunId: 'run-parent', snippetId: 'snip-1', text: 'Grid offer', fileId: 'doc1', fileName: 'offer.pdf', openaiFileId: null, openaiVectorStoreId: null, score: 0.9, metadata: null },
+    ],
+    ddOntology: {
+      run_meta: { deal_id: 'deal1', organization_id: 'org1', fund_id: 'fund1', created_at: '2026-01-01T00:00:00Z', model_used: 'test-model', reasoning_effort: null, status: 'SUCCESS', error_message: null },
+      fund_policy_snapshot: policy,
+      deal_evidence: { evidence_snippets: [], facts, artifact_register: [], contradictions: [] },
+      scoring: {
+        hard_gate_result: scoring.hardGateResult,
+        module_scorecard: scoring.moduleScorecard,
+        overall: scoring.overallScore,
+        energisation: scoring.energisation,
+      },
+      underwriting_tape: scoring.underwritingTape,
+      checklist: scoring.checklist,
+      market_context: { included: false, status: null, summary: null, sources: [], citations: [], disclaimer: '' },
+    },
+  };
+}
+
+describe('offline re-score', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a child run under the new policy without calling OpenAI', async () => {
+    mockPrisma.analysisRun.findUnique.mockResolvedValue(parentRun());
+
+    const { runId, ddContract } = await rescoreAnalysisRunV1({
+      parentRunId: 'run-parent',
+      userId: 'user1',
+      organizationId: 'org1',
+      fundPolicy: toFundPolicySnapshot(PRESET_POLICIES.conservative),
+      policyVersionId: 'v-2',
+    });
+
+    expect(runId).toBe('run-child');
+    expect(ddContract.run_meta.parent_run_id).toBe('run-parent');
+    expect(ddContract.scoring.hard_gate_result.decision).toBe('NO_GO');
+    expect(mockPrisma.analysisRun.create.mock.calls[0][0].data).toMatchObject({
+      parentRunId: 'run-parent',
+      policyVersionId: 'v-2',
+      dealId: 'deal1',
+    });
+    expect(mockPrisma.analysisEvidenceSnippet.createMany.mock.calls[0][0].data[0]).toMatchObject({
+      analysisRunId: 'run-child',
+      snippetId: 'snip-1',
+    });
+    expect(mockPrisma.$transaction).toHaveBeenCalledWith(expect.any(Function));
+    expect((openai as any).vectorStores.search).not.toHaveBeenCalled();
+    expect((openai as any).responses.parse).not.toHaveBeenCalled();
+  });
+
+  it("counts the energisation timeline from the parent run's time", async () => {
+    const parent = parentRun();
+    (parent.ddOntology.deal_evidence.facts as Record<string, unknown>).grid_energisation_target = fact('2027-03');
+    mockPrisma.analysisRun.findUnique.mockResolvedValue(parent);
+    const policy = parent.ddOntology.fund_policy_snapshot;
+
+    const { ddContract } = await rescoreAnalysisRunV1({
+      parentRunId: 'run-parent',
+      userId: 'user1',
+      organizationId: 'org1',
+      fundPolicy: { ...policy, hard_gates: { ...policy.hard_gates, max_energisation_months: 12 } },
+    });
+
+    // 14 months from January 2026, whenever the re-score runs
+    expect(ddContract.scoring.hard_gate_result.gate_checks?.find((c) => c.gate === 'max_energisation_months')).toMatchObject({
+      status: 'FAIL',
+    });
+  });
+
+  it('applies an analyst override and keeps it on the child run', async () => {
+    const parent = parentRun();
+    parent.ddOntology.deal_evidence.facts.grid_title_level_0_5 = {
+      ...fact(3),
+      candidates: [
+        { value: 3, citations: ['snip-1'] },
+        { value: 1, citations: ['snip-2'] },
+      ],
+    } as any;
+    mockPrisma.analysisRun.findUnique.mockResolvedValue(parent);
+
+    const { ddContract } = await rescoreAnalysisRunV1({
+      parentRunId: 'run-parent',
+      userId: 'user1',
+      organizationId: 'org1',
+      fundPolicy: parent.ddOntology.fund_policy_snapshot,
+      factOverrides: [
+        { fact_code: 'grid_title_level_0_5', value: 1, reason: 'Offer lapsed', user_id: 'user1', overridden_at: '2026-06-01T00:00:00Z' },
+      ],
+    });
+
+    expect(ddContract.deal_evidence.facts.grid_title_level_0_5).toMatchObject({
+      value: 1,
+      citations: ['snip-2'],
+      resolution: { rule: 'ANALYST_OVERRIDE', override: { reason: 'Offer lapsed', previous_value: 3 } },
+    });
+    expect(mockPrisma.auditLog.create.mock.calls[0][0].data.metadata.factOverrides).toEqual([
+      { factCode: 'grid_title_level_0_5', value: 1, reason: 'Offer lapsed' },
+    ]);
+  });
+
+  it('rejects runs from another organization', async () => {
+    mockPrisma.analysisRun.findUnique.mockResolvedValue(parentRun());
+
+    await expect(
+      rescoreAnalysisRunV1({
+        parentRunId: 'run-parent',
+        userId: 'user1',
+        organizationId: 'org2',
+        fundPolicy: toFundPolicySnapshot(PRESET_POLICIES.conservative),
+      })
+    ).rejects.toThrow('Forbidden');
+    expect(mockPrisma.analysisRun.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+import React from 'react';
+import { Document, Image, Page, renderToBuffer } from '@react-pdf/renderer';
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import zlib from 'zlib';
+import { extractDocumentText, needsTextRendering } from '../lib/text-extraction';
+
+// 5x7 bitmap glyphs, enough for a legible scan of "GRID OFFER"
+const GLYPHS: Record<string, string[]> = {
+  G: ['01110', '10001', '10000', '10111', '10001', '10001', '01111'],
+  R: ['11110', '10001', '10001', '11110', '10100', '10010', '10001'],
+  I: ['01110', '00100', '00100', '00100', '00100', '00100', '01110'],
+  D: ['11110', '10001', '10001', '10001', '10001', '10001', '11110'],
+  O: ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+  F: ['11111', '10000', '10000', '11110', '10000', '10000', '10000'],
+  E: ['11111', '10000', '10000', '11110', '10000', '10000', '11111'],
+  ' ': ['00000', '00000', '00000', '00000', '00000', '00000', '00000'],
+};
+
+function crc32(data: Buffer): number {
+  let crc = ~0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return ~crc >>> 0;
+}
+
+/**
+ * A greyscale PNG of black text on white, as a scanner would produce
+ */
+function renderScan(text: string, scale = 8): Buffer {
+  const width = (text.length * 6 + 4) * scale;
+  const height = 11 * scale;
+  const rows = Buffer.alloc((width + 1) * height, 255);
+  for (let y = 0; y < height; y++) rows[y * (width + 1)] = 0; // filter byte
+  Array.from(text).forEach((ch, i) =>
+    GLYPHS[ch].forEach((row, gy) =>
+      Array.from(row).forEach((bit, gx) => {
+        if (bit !== '1') return;
+        for (let dy = 0; dy < scale; dy++) {
+          for (let dx = 0; dx < scale; dx++) {
+            const x = (2 + i * 6 + gx) * scale + dx;
+            rows[((2 + gy) * scale + dy) * (width + 1) + 1 + x] = 0;
+          }
+        }
+      })
+    )
+  );
+
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // greyscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(rows)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+describe('format converters', () => {
+  it('renders each spreadsheet sheet as a table', async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ['Item', 'EUR k'],
+        ['Substation', 4200],
+        [],
+        ['Grid connection', 1850],
+      ]),
+      'Capex'
+    );
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['COD', 'Q4 2028']]), 'Timeline');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    expect((await extractDocumentText(buffer, 'capex.xlsx'))?.pages).toEqual([
+      'Sheet: Capex\n| Item | EUR k |\n| Substation | 4200 |\n| Grid connection | 1850 |',
+      'Sheet: Timeline\n| COD | Q4 2028 |',
+    ]);
+  });
+
+  it('extracts slide text in slide order', async () => {
+    const slide = (...paragraphs: string[]) =>
+      `<p:sld><p:cSld><p:spTree>${paragraphs
+        .map((p) => `<a:p><a:r><a:rPr lang="en-GB"/><a:t>${p}</a:t></a:r></a:p>`)
+        .join('')}</p:spTree></p:cSld></p:sld>`;
+    const zip = new JSZip();
+    zip.file('ppt/slides/slide10.xml', slide('Appendix'));
+    zip.file('ppt/slides/slide2.xml', slide('Grid: 40 MW firm', 'Capex &amp; returns'));
+    zip.file('ppt/slides/slide1.xml', slide('IC memo'));
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    expect((await extractDocumentText(buffer, 'ic-deck.pptx'))?.pages).toEqual([
+      'IC memo',
+      'Grid: 40 MW firm\nCapex & returns',
+      'Appendix',
+    ]);
+  });
+
+  it('renders an Outlook message like an email', async () => {
+    const cfb = XLSX.CFB.utils.cfb_new();
+    const utf16 = (text: string) => Buffer.from(text, 'utf16le');
+    XLSX.CFB.utils.cfb_add(cfb, '/__substg1.0_0037001F', utf16('Revised grid offer'));
+    XLSX.CFB.utils.cfb_add(cfb, '/__substg1.0_0C1A001F', utf16('Grid Operator'));
+    XLSX.CFB.utils.cfb_add(cfb, '/__substg1.0_1000001F', utf16('The revised offer reserves 45 MW.'));
+    XLSX.CFB.utils.cfb_add(cfb, '/__properties_version1.0', Buffer.alloc(32));
+    const buffer = Buffer.from(XLSX.CFB.write(cfb, { type: 'buffer' }));
+
+    const extracted = await extractDocumentText(buffer, 'offer.msg');
+
+    expect(extracted?.text).toBe('Subject: Revised grid offer\nFrom: Grid Operator\nTo: \nDate: \n\nThe revised offer reserves 45 MW.');
+    expect(needsTextRendering('offer.msg', extracted)).toBe(true);
+  });
+
+  it('recognises text in images and scanned PDF pages offline', async () => {
+    const scan = renderScan('GRID OFFER');
+
+    const image = await extractDocumentText(scan, 'permit.png');
+    expect(image?.text).toContain('OFFER');
+    expect(image?.ocrPages).toEqual([1]);
+
+    const pdf = await renderToBuffer(
+      React.createElement(Document, null, React.createElement(Page, null, React.createElement(Image, { src: { data: scan, format: 'png' } })))
+    );
+    const scanned = await extractDocumentText(pdf, 'permit-scan.pdf');
+    expect(scanned?.pages[0]).toContain('OFFER');
+    expect(scanned?.ocrPages).toEqual([1]);
+    expect(needsTextRendering('permit-scan.pdf', scanned)).toBe(true);
+  }, 60_000);
+});
@@ -8,11 +8,34 @@ const { membershipFixture } = vi.hoisted(() => ({
   membershipFixture: { id: 'm1', userId: 'user1', organizationId: 'org1', role: 'ADMIN' } as any,
 }));
 
-const { mockDealUpdate, mockDealFindUnique, mockDealDocumentCreate, mockDealDocumentUpdate } = vi.hoisted(() => ({
+const {
+  mockDealUpdate,
+  mockDealFindUnique,
+  mockDealDocumentCreate,
+  mockDealDocumentFindFirst,
+  mockDealDocumentFindMany,
+  mockDealDocumentFindUnique,
+  mockDealDocumentUpdate,
+  mockChunkCreateMany,
+  mockJobCreate,
+  mockJobUpdate,
+  mockBatchCreate,
+  mockBatchUpdate,
+  mockClassificationCreateMany,
+} = vi.hoisted(() => ({
   mockDealUpdate: vi.fn(),
   mockDealFindUnique: vi.fn(),
   mockDealDocumentCreate: vi.fn(),
+  mockDealDocumentFindFirst: vi.fn(),
+  mockDealDocumentFindMany: vi.fn(),
+  mockDealDocumentFindUnique: vi.fn(),
   mockDealDocumentUpdate: vi.fn(),
+  mockChunkCreateMany: vi.fn(),
+  mockJobCreate: vi.fn(),
+  mockJobUpdate: vi.fn(),
+  mockBatchCreate: vi.fn(),
+  mockBatchUpdate: vi.fn(),
+  mockClassificationCreateMany: vi.fn(),
 }));
 
 vi.mock('mailparser', () => ({
@@ -27,10 +50,13 @@ vi.mock('@/lib/auth', () => ({ authOptions: {} }));
 
 vi.mock('@prisma/client', () => ({
   Role: { ADMIN: 'ADMIN', ANALYST: 'ANALYST', VIEWER: 'VIEWER' },
+  JobType: { INGEST_DOCUMENT: 'INGEST_DOCUMENT', ANALYSIS_RUN: 'ANALYSIS_RUN' },
+  JobStatus: { QUEUED: 'QUEUED', RUNNING: 'RUNNING', SUCCEEDED: 'SUCCEEDED', FAILED: 'FAILED' },
 }));
 
 vi.mock('@/lib/prisma', () => ({
   prisma: {
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
     membership: { findFirst: vi.fn().mockResolvedValue(membershipFixture) },
     deal: {
       findUnique: (...args: any[]) => mockDealFindUnique(...args),
@@ -38,8 +64,27 @@ vi.mock('@/lib/prisma', () => ({
     },
     dealDocument: {
       create: (...args: any[]) => mockDealDocumentCreate(...args),
+      findFirst: (...args: any[]) => mockDealDocumentFindFirst(...args),
+      findMany: (...args: any[]) => mockDealDocumentFindMany(...args),
+      findUnique: (...args: any[]) => mockDealDocumentFindUnique(...args),
       update: (...args: any[]) => mockDealDocumentUpdate(...args),
     },
+    documentChunk: {
+      deleteMany: vi.fn(),
+      createMany: (...args: any[]) => mockChunkCreateMany(...args),
+    },
+    job: {
+      create: (...args: any[]) => mockJobCreate(...args),
+      update: (...args: any[]) => mockJobUpdate(...args),
+    },
+    uploadBatch: {
+      create: (...args: any[]) => mockBatchCreate(...args),
+      update: (...args: any[]) => mockBatchUpdate(...args),
+    },
+    documentClassification: {
+      deleteMany: vi.fn(),
+      createMany: (...args: any[]) => mockClassificationCreateMany(...args),
+    },
   },
 }));
 
@@ -65,9 +110,11 @@ vi.mock('@/lib/openai', () => ({
   },
 }));
 
+import JSZip from 'jszip';
 import { POST } from '../app/api/upload/route';
+import { processJob } from '../lib/job-worker';
 
-function buildRequest(fileName: string, content: string, mime = 'text/plain') {
+function buildRequest(fileName: string, content: string | Buffer, mime = 'text/plain') {
   const formData = new FormData();
   const file = new File([content], fileName, { type: mime });
   formData.append('file', file);
@@ -75,6 +122,21 @@ function buildRequest(fileName: string, content: string, mime = 'text/plain') {
   return new Request('http://localhost/api/upload', { method: 'POST', body: formData });
 }
 
+/**
+ * Upload through the route, then run the queued ingestion job as the worker would
+ */
+async function uploadAndIngest(req: Request) {
+  const res = await POST(req);
+  const json = await res.json();
+
+  const { data: stored } = mockDealDocumentCreate.mock.calls[0][0];
+  const deal = await mockDealFindUnique.mock.results[0].value;
+  mockDealDocumentFindUnique.mockResolvedValue({ id: 'doc-1', ...stored, openaiFileId: null, deal });
+  await processJob({ ...(await mockJobCreate.mock.results[0].value), status: 'RUNNING', attempts: 1 });
+
+  return { res, json };
+}
+
 beforeEach(() => {
   mockDealUpdate.mockReset();
   mockDealFindUnique.mockReset();
@@ -84,6 +146,27 @@ beforeEach(() => {
   mockRetrieve.mockReset();
   mockVectorStoreCreate.mockReset();
   mockVectorStoreFileCreate.mockReset();
+  mockDealDocumentFindUnique.mockReset();
+  mockJobCreate.mockReset();
+  mockJobUpdate.mockReset();
+  mockDealDocumentFindFirst.mockReset();
+  mockDealDocumentFindMany.mockReset();
+  mockBatchCreate.mockReset();
+  mockBatchUpdate.mockReset();
+  mockClassificationCreateMany.mockReset();
+
+  mockJobCreate.mockImplementation(async ({ data }: any) => ({
+    id: 'job-1',
+    status: 'QUEUED',
+    stage: 'queued',
+    attempts: 0,
+    maxAttempts: 3,
+    error: null,
+    result: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...data,
+  }));
 
   mockFilesCreate.mockResolvedValue({ id: 'file-123' });
 
@@ -106,32 +189,256 @@ beforeEach(() => {
 
 afterEach(() => {
   vi.clearAllMocks();
+  delete process.env.RETRIEVAL_BACKEND;
 });
 
 describe('upload api', () => {
-  it('creates a vector store and indexes a file', async () => {
-    const req = buildRequest('note.txt', 'hello world');
-    const res = await POST(req);
+  it('stores the file and queues ingestion instead of indexing inline', async () => {
+    const res = await POST(buildRequest('note.txt', 'hello world'));
     const json = await res.json();
 
-    expect(res.status).toBe(200);
-    expect(json.openaiStatus).toBe('indexed');
+    expect(res.status).toBe(202);
+    expect(json).toMatchObject({ id: 'doc-1', openaiStatus: 'pending', job: { id: 'job-1', type: 'INGEST_DOCUMENT', status: 'QUEUED', stage: 'queued' } });
+    expect(mockJobCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'INGEST_DOCUMENT', dealId: 'deal1', payload: { documentId: 'doc-1' }, createdById: 'user1' }),
+    });
+    expect(mockFilesCreate).not.toHaveBeenCalled();
+  });
+
+  it('creates a vector store and indexes a file', async () => {
+    await uploadAndIngest(buildRequest('note.txt', 'hello world'));
+
     expect(mockVectorStoreCreate).toHaveBeenCalled();
     expect(mockVectorStoreFileCreate).toHaveBeenCalledWith('vs-1', { file_id: 'file-123' });
     expect(mockDealDocumentUpdate).toHaveBeenCalledWith(expect.objectContaining({ data: expect.objectContaining({ openaiStatus: 'indexed' }) }));
+    expect(mockJobUpdate).toHaveBeenLastCalledWith({
+      where: { id: 'job-1' },
+      data: expect.objectContaining({ status: 'SUCCEEDED', stage: 'done', result: { document_id: 'doc-1', openaiStatus: 'indexed' } }),
+    });
   });
 
   it('reuses an existing vector store and converts eml to text', async () => {
     const emlBody = `From: sender@example.com\nTo: receiver@example.com\nSubject: Test email\nDate: Tue, 21 May 2024 10:00:00 +0000\n\nHello body`;
     mockDealFindUnique.mockResolvedValueOnce({ id: 'deal1', openaiVectorStoreId: 'vs-existing', fund: { organizationId: 'org1' } });
-    const req = buildRequest('message.eml', emlBody, 'message/rfc822');
-    const res = await POST(req);
+    await uploadAndIngest(buildRequest('message.eml', emlBody, 'message/rfc822'));
+
+    expect(mockVectorStoreCreate).not.toHaveBeenCalled();
+    expect(mockVectorStoreFileCreate).toHaveBeenCalledWith('vs-existing', { file_id: 'file-123' });
+    expect(mockFilesCreate.mock.calls[0][0].file.name).toBe('message.txt');
+  });
+
+  it('indexes locally without sending the file to the provider', async () => {
+    process.env.RETRIEVAL_BACKEND = 'local';
+    await uploadAndIngest(buildRequest('note.txt', 'Grid connection offer: 40 MW firm.\n\nEnergisation Q4 2028.'));
+
+    expect(mockFilesCreate).not.toHaveBeenCalled();
+    expect(mockVectorStoreCreate).not.toHaveBeenCalled();
+    expect(mockChunkCreateMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({ documentId: 'doc-1', dealId: 'deal1', text: 'Grid connection offer: 40 MW firm.\n\nEnergisation Q4 2028.' }),
+    ]);
+    expect(mockDealDocumentUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { openaiStatus: 'indexed', snippetCount: 1, textExtracted: true } })
+    );
+    // Quality is assessed from the locally extracted text before indexing
+    expect(mockDealDocumentUpdate.mock.calls[0][0].data).toMatchObject({
+      textExtracted: true,
+      lowTextWarning: false,
+      ocrApplied: false,
+      qualityWarnings: ['Very little text extracted from document'],
+      snippetCount: 1,
+      textPages: ['Grid connection offer: 40 MW firm.\n\nEnergisation Q4 2028.'],
+    });
+  });
+
+  it('classifies the document into artifact types during ingestion', async () => {
+    process.env.RETRIEVAL_BACKEND = 'local';
+    await uploadAndIngest(
+      buildRequest('Grid_Offer.txt', 'Connection offer from Northgrid DSO.\n\nConnection charges: EUR 2.1m. This offer is valid until 30 June 2026.')
+    );
+
+    expect(mockClassificationCreateMany.mock.calls[0][0].data).toEqual([
+      expect.objectContaining({
+        documentId: 'doc-1',
+        artifactType: 'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL',
+        confidence: 0.85,
+        source: 'RULES',
+      }),
+    ]);
+    expect(mockDealDocumentUpdate.mock.calls[0][0].data).toMatchObject({ documentType: 'GRID_CONNECTION_OFFER_TECHNICAL_FINANCIAL' });
+  });
+
+  it('keeps an analyst review that cleared every type when ingestion runs again', async () => {
+    process.env.RETRIEVAL_BACKEND = 'local';
+    await POST(buildRequest('Grid_Offer.txt', 'Connection offer from Northgrid DSO.\n\nThis offer is valid until 30 June 2026.'));
+
+    const { data: stored } = mockDealDocumentCreate.mock.calls[0][0];
+    const deal = await mockDealFindUnique.mock.results[0].value;
+    mockDealDocumentFindUnique.mockResolvedValue({ id: 'doc-1', ...stored, classificationReviewedAt: new Date(), deal });
+    await processJob({ ...(await mockJobCreate.mock.results[0].value), status: 'RUNNING', attempts: 1 });
+
+    expect(mockClassificationCreateMany).not.toHaveBeenCalled();
+    expect(mockDealDocumentUpdate.mock.calls[0][0].data.documentType).toBeUndefined();
+  });
+
+  it('checks again later without using an attempt while the vector store is still indexing', async () => {
+    mockRetrieve.mockResolvedValue({ status: 'in_progress' });
+    // Skip through the provider's status polling; setImmediate stays real so file I/O can settle
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    try {
+      let settled = false;
+      const pending = uploadAndIngest(buildRequest('note.txt', 'hello world')).finally(() => (settled = true));
+      while (!settled) {
+        await new Promise((resolve) => setImmediate(resolve));
+        await vi.advanceTimersByTimeAsync(10_000);
+      }
+      await pending;
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(mockDealDocumentUpdate).toHaveBeenCalledWith(expect.objectContaining({ data: { openaiStatus: 'pending' } }));
+    const [{ data }] = mockJobUpdate.mock.calls[mockJobUpdate.mock.calls.length - 1];
+    expect(data).toMatchObject({ status: 'QUEUED', error: 'Vector store indexing still in progress', attempts: { decrement: 1 } });
+    expect(data.runAt.getTime()).toBeGreaterThan(Date.now() + 20_000);
+    expect(mockDealDocumentUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ data: { openaiStatus: 'failed' } }));
+  });
+});
+
+describe('duplicates and versions', () => {
+  it('links a re-upload of identical content to the existing document', async () => {
+    const existing = { id: 'doc-existing', name: 'offer.txt', dealId: 'deal1', openaiStatus: 'indexed' };
+    mockDealDocumentFindFirst.mockResolvedValue(existing);
+
+    const res = await POST(buildRequest('offer-copy.txt', 'Grid connection offer: 40 MW firm.'));
     const json = await res.json();
 
     expect(res.status).toBe(200);
-    expect(json.openaiStatus).toBe('indexed');
-    expect(mockVectorStoreCreate).not.toHaveBeenCalled();
-    const createCall = (mockVectorStoreFileCreate.mock.calls[0][1] as any).file_id;
-    expect(createCall).toBe('file-123');
+    expect(json).toMatchObject({ id: 'doc-existing', openaiStatus: 'indexed', duplicate: true, job: null });
+    expect(mockDealDocumentFindFirst.mock.calls[0][0].where).toEqual({
+      dealId: 'deal1',
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+    expect(mockDealDocumentCreate).not.toHaveBeenCalled();
+    expect(mockJobCreate).not.toHaveBeenCalled();
+  });
+
+  it('stores a revised upload as the new version and supersedes the previous one', async () => {
+    mockDealDocumentFindUnique.mockResolvedValue({ id: 'doc-old', name: 'offer.txt', dealId: 'deal1', supersededAt: null });
+    const req = buildRequest('offer-v2.txt', 'Grid connection offer: 45 MW firm.');
+    const formData = await req.formData();
+    formData.append('supersedesId', 'doc-old');
+
+    const res = await POST(new Request('http://localhost/api/upload', { method: 'POST', body: formData }));
+
+    expect(res.status).toBe(202);
+    expect(mockDealDocumentCreate.mock.calls[0][0].data).toMatchObject({ name: 'offer-v2.txt', supersedesId: 'doc-old' });
+    expect(mockDealDocumentUpdate).toHaveBeenCalledWith({ where: { id: 'doc-old' }, data: { supersededAt: expect.any(Date) } });
+  });
+
+  it('links an identical re-upload as the new version instead of dropping the link', async () => {
+    const existing = { id: 'doc-existing', name: 'offer-v2.txt', dealId: 'deal1', openaiStatus: 'indexed', supersedesId: null, supersededAt: null };
+    mockDealDocumentFindFirst.mockResolvedValue(existing);
+    mockDealDocumentFindUnique.mockResolvedValue({ id: 'doc-old', name: 'offer.txt', dealId: 'deal1', supersededAt: null });
+    mockDealDocumentUpdate.mockImplementation(async ({ where, data }: any) => ({ ...existing, id: where.id, ...data }));
+    const req = buildRequest('offer-v2.txt', 'Grid connection offer: 45 MW firm.');
+    const formData = await req.formData();
+    formData.append('supersedesId', 'doc-old');
+
+    const res = await POST(new Request('http://localhost/api/upload', { method: 'POST', body: formData }));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ id: 'doc-existing', duplicate: true, document: { supersedesId: 'doc-old' } });
+    expect(mockDealDocumentUpdate).toHaveBeenCalledWith({ where: { id: 'doc-old' }, data: { supersededAt: expect.any(Date) } });
+    expect(mockDealDocumentCreate).not.toHaveBeenCalled();
+  });
+
+  it('refuses to supersede a document that already has a newer version', async () => {
+    mockDealDocumentFindUnique.mockResolvedValue({ id: 'doc-old', name: 'offer.txt', dealId: 'deal1', supersededAt: new Date() });
+    const req = buildRequest('offer-v3.txt', 'Grid connection offer: 50 MW firm.');
+    const formData = await req.formData();
+    formData.append('supersedesId', 'doc-old');
+
+    const res = await POST(new Request('http://localhost/api/upload', { method: 'POST', body: formData }));
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'offer.txt already has a newer version' });
+    expect(mockDealDocumentCreate).not.toHaveBeenCalled();
+  });
+});
+
+describe('zip dataroom upload', () => {
+  async function buildArchive(files: Record<string, string>) {
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) zip.file(name, content);
+    return zip.generateAsync({ type: 'nodebuffer' });
+  }
+
+  beforeEach(() => {
+    let created = 0;
+    mockDealDocumentCreate.mockImplementation(async ({ data }: any) => ({ id: `doc-${++created}`, ...data }));
+    mockBatchCreate.mockImplementation(async ({ data }: any) => ({ id: 'batch-1', ...data }));
+    mockBatchUpdate.mockImplementation(async ({ data }: any) => ({ id: 'batch-1', archiveName: 'dataroom.zip', ...data }));
+  });
+
+  it('unpacks supported files, skips duplicates and reports rejected files', async () => {
+    const crypto = await import('crypto');
+    const leaseSha = crypto.createHash('sha256').update('Lease option, 30 years').digest('hex');
+    mockDealDocumentFindMany.mockResolvedValue([{ id: 'doc-existing', sha256: leaseSha }]);
+
+    const archive = await buildArchive({
+      'Dataroom/02 Grid/offer.txt': 'Grid connection offer: 40 MW firm.',
+      'Dataroom/02 Grid/offer (copy).txt': 'Grid connection offer: 40 MW firm.',
+      'Dataroom/03 Land/lease.txt': 'Lease option, 30 years',
+      'Dataroom/site walk.mp4': 'not a document',
+      '__MACOSX/Dataroom/._offer.txt': 'resource fork',
+    });
+    const res = await POST(buildRequest('dataroom.zip', archive, 'application/zip'));
+    const json = await res.json();
+
+    expect(res.status).toBe(202);
+    expect(json.report).toEqual([
+      { path: 'Dataroom/02 Grid/offer (copy).txt', status: 'accepted', reason: null, document_id: 'doc-1' },
+      { path: 'Dataroom/02 Grid/offer.txt', status: 'duplicate', reason: expect.any(String), document_id: 'doc-1' },
+      { path: 'Dataroom/03 Land/lease.txt', status: 'duplicate', reason: expect.any(String), document_id: 'doc-existing' },
+      { path: 'Dataroom/site walk.mp4', status: 'rejected', reason: expect.stringContaining('Unsupported file type .mp4'), document_id: null },
+    ]);
+    expect(mockBatchCreate.mock.calls[0][0].data).toMatchObject({ dealId: 'deal1', archiveName: 'dataroom.zip', fileCount: 4 });
+    expect(json.batch).toMatchObject({ acceptedCount: 1, duplicateCount: 2, rejectedCount: 1 });
+
+    expect(mockDealDocumentCreate).toHaveBeenCalledTimes(1);
+    expect(mockDealDocumentCreate.mock.calls[0][0].data).toMatchObject({
+      name: 'offer (copy).txt',
+      mimeType: 'text/plain',
+      batchId: 'batch-1',
+      folderPath: 'Dataroom/02 Grid',
+    });
+    expect(mockJobCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'INGEST_DOCUMENT', payload: { documentId: 'doc-1' } }),
+    });
+  });
+
+  it('stops inflating a file once it passes the per-file limit', async () => {
+    mockDealDocumentFindMany.mockResolvedValue([]);
+    const zip = new JSZip();
+    zip.file('Dataroom/huge.txt', Buffer.alloc(51 * 1024 * 1024));
+    zip.file('Dataroom/offer.txt', 'Grid connection offer: 40 MW firm.');
+    const archive = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    const res = await POST(buildRequest('dataroom.zip', archive, 'application/zip'));
+    const json = await res.json();
+
+    expect(json.report).toEqual([
+      { path: 'Dataroom/huge.txt', status: 'rejected', reason: 'File too large. Max 50MB.', document_id: null },
+      { path: 'Dataroom/offer.txt', status: 'accepted', reason: null, document_id: 'doc-1' },
+    ]);
+  });
+
+  it('rejects an archive that cannot be read', async () => {
+    mockDealDocumentFindMany.mockResolvedValue([]);
+    const res = await POST(buildRequest('dataroom.zip', 'definitely not a zip', 'application/zip'));
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'File is not a readable ZIP archive' });
+    expect(mockBatchCreate).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,5 @@
+// The package ships no typings; it only points at its bundled model files
+declare module '@tesseract.js-data/eng' {
+  const data: { code: string; gzip: boolean; langPath: string };
+  export default data;
+}